@@ -10,14 +10,27 @@ export const config = {
   secretKey:
     process.env.SECRET_KEY ||
     "ai-network-whisperer-secret-key-change-in-production",
+  // Old SECRET_KEY values, comma separated, kept to decrypt vault secrets after a key change
+  previousSecretKeys: process.env.PREVIOUS_SECRET_KEYS
+    ? process.env.PREVIOUS_SECRET_KEYS.split(",")
+    : [],
 
-  // Database configuration (for future use)
+  // Database configuration (device inventory and history)
   databaseUrl: process.env.DATABASE_URL || "sqlite:///network_whisperer.db",
 
   // LLM Provider configurations
   groqApiKey: process.env.GROQ_API_KEY || "",
   openaiApiKey: process.env.OPENAI_API_KEY || "",
   claudeApiKey: process.env.CLAUDE_API_KEY || "",
+  // Point at a local stub to run the Claude provider offline
+  claudeBaseUrl: process.env.CLAUDE_BASE_URL || "https://api.anthropic.com",
+  claudeMaxTokens: parseInt(process.env.CLAUDE_MAX_TOKENS || "1024", 10),
+
+  // Answer every generation request with canned demo configurations
+  llmDemoMode: process.env.LLM_DEMO_MODE === "true",
+
+  // Seconds a provider's model list is reused before it is fetched again
+  llmModelCacheTtl: parseInt(process.env.LLM_MODEL_CACHE_TTL || "600", 10),
 
   // Ollama configuration
   ollamaBaseUrl: process.env.OLLAMA_BASE_URL || "http://localhost:11434",
@@ -28,12 +41,45 @@ export const config = {
   defaultSshPassword: process.env.DEFAULT_SSH_PASSWORD || "",
   defaultEnablePassword: process.env.DEFAULT_ENABLE_PASSWORD || "",
 
+  // Simulated device connections (set to "false" to open real SSH sessions)
+  simulationEnabled: process.env.SIMULATION_ENABLED !== "false",
+  // Let the LLM answer simulator commands the CLI engine does not implement
+  simulatorLlmFallback: process.env.SIMULATOR_LLM_FALLBACK === "true",
+  // Let the LLM review configs applied by automation before they are merged
+  simulatorLlmReview: process.env.SIMULATOR_LLM_REVIEW === "true",
+  // Operations kept in the simulator log; older ones are dropped first
+  simulatorLogLimit: parseInt(process.env.SIMULATOR_LOG_LIMIT || "1000", 10),
+  // Seconds a simulator CLI session is kept unused; IOS exec-timeout defaults to 10 minutes
+  simulatorSessionIdleTimeout: parseInt(
+    process.env.SIMULATOR_SESSION_IDLE_TIMEOUT || "600",
+    10,
+  ),
+
+  // Reachability poller (defaults to on only when talking to real devices)
+  pollerEnabled: process.env.POLLER_ENABLED
+    ? process.env.POLLER_ENABLED === "true"
+    : process.env.SIMULATION_ENABLED === "false",
+  pollIntervalSeconds: parseInt(process.env.POLL_INTERVAL || "60", 10),
+  pollTimeoutSeconds: parseInt(process.env.POLL_TIMEOUT || "5", 10),
+  pollWarningLatencyMs: parseInt(
+    process.env.POLL_WARNING_LATENCY_MS || "200",
+    10,
+  ),
+  pollFailureThreshold: parseInt(process.env.POLL_FAILURE_THRESHOLD || "3", 10),
+  pollSshBanner: process.env.POLL_SSH_BANNER === "true",
+
   // Security settings
   sshTimeout: parseInt(process.env.SSH_TIMEOUT || "30", 10),
   maxConcurrentConnections: parseInt(
     process.env.MAX_CONCURRENT_CONNECTIONS || "10",
     10,
   ),
+  maxSessionsPerDevice: parseInt(
+    process.env.MAX_SESSIONS_PER_DEVICE || "2",
+    10,
+  ),
+  // Seconds an unused pooled session stays open
+  sessionIdleTimeout: parseInt(process.env.SESSION_IDLE_TIMEOUT || "300", 10),
 
   // Logging configuration
   logLevel: process.env.LOG_LEVEL || "info",
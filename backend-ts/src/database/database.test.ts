@@ -0,0 +1,87 @@
+import Database from "better-sqlite3";
+import { openDatabase, resolveDatabasePath, runMigrations } from "./database";
+import { migrations } from "./migrations";
+
+describe("database", () => {
+  it("resolves SQLAlchemy-style URLs", () => {
+    expect(resolveDatabasePath("sqlite:///network_whisperer.db")).toBe(
+      "network_whisperer.db",
+    );
+    expect(resolveDatabasePath("sqlite:////var/lib/nw.db")).toBe(
+      "/var/lib/nw.db",
+    );
+    expect(() => resolveDatabasePath("postgres://localhost/nw")).toThrow(
+      "Unsupported DATABASE_URL: postgres://localhost/nw",
+    );
+  });
+
+  it("applies every migration once", () => {
+    const db = openDatabase("sqlite:///:memory:");
+    runMigrations(db);
+
+    const versions = db
+      .prepare("SELECT version FROM schema_migrations ORDER BY version")
+      .all()
+      .map((row: any) => row.version);
+    expect(versions).toEqual(migrations.map(({ version }) => version));
+  });
+
+  describe("migration 3", () => {
+    let db: Database.Database;
+
+    // A database left at version 2, with last_seen as the UI used to write it
+    beforeEach(() => {
+      db = new Database(":memory:");
+      db.exec(`
+        CREATE TABLE schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at TEXT NOT NULL
+        )
+      `);
+      migrations.slice(0, 2).forEach((migration) => {
+        db.exec(migration.up);
+        db.prepare(
+          "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+        ).run(migration.version, migration.name, "2024-01-01T00:00:00.000Z");
+      });
+
+      const insert = db.prepare(
+        `INSERT INTO devices (id, name, ip, device_type, last_seen, created_at)
+         VALUES (?, ?, ?, 'cisco_ios', ?, '2024-01-01T00:00:00.000Z')`,
+      );
+      insert.run("seen", "R1", "10.0.0.1", "2024-01-15T10:00:00.000Z");
+      insert.run("relative", "R2", "10.0.0.2", "2 min ago");
+      insert.run("never", "R3", "10.0.0.3", "Never");
+    });
+
+    it("keeps ISO timestamps and clears values it cannot convert", () => {
+      runMigrations(db);
+
+      const lastSeen = Object.fromEntries(
+        db
+          .prepare("SELECT id, last_seen FROM devices")
+          .all()
+          .map((row: any) => [row.id, row.last_seen]),
+      );
+      expect(lastSeen).toEqual({
+        seen: "2024-01-15T10:00:00.000Z",
+        relative: null,
+        never: null,
+      });
+    });
+
+    it("lets last_seen be NULL afterwards", () => {
+      runMigrations(db);
+
+      expect(() =>
+        db
+          .prepare(
+            `INSERT INTO devices (id, name, ip, device_type, last_seen, created_at)
+             VALUES ('new', 'R4', '10.0.0.4', 'cisco_ios', NULL, '2024-01-01T00:00:00.000Z')`,
+          )
+          .run(),
+      ).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import Database from "better-sqlite3";
+import { logger } from "../utils/logger";
+import { config } from "../config/config";
+import { migrations } from "./migrations";
+
+let database: Database.Database | null = null;
+
+// "sqlite:///relative.db" and "sqlite:////absolute/path.db", as in SQLAlchemy URLs
+export const resolveDatabasePath = (databaseUrl: string): string => {
+  const match = databaseUrl.match(/^sqlite:\/\/\/(.+)$/);
+  if (!match) {
+    throw new Error(`Unsupported DATABASE_URL: ${databaseUrl}`);
+  }
+  return match[1];
+};
+
+export const runMigrations = (db: Database.Database): void => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    db
+      .prepare("SELECT version FROM schema_migrations")
+      .all()
+      .map((row: any) => row.version as number),
+  );
+
+  for (const migration of migrations) {
+    if (applied.has(migration.version)) continue;
+
+    db.transaction(() => {
+      db.exec(migration.up);
+      db.prepare(
+        "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+      ).run(migration.version, migration.name, new Date().toISOString());
+    })();
+
+    logger.info(
+      `Applied database migration ${migration.version}: ${migration.name}`,
+    );
+  }
+};
+
+export const openDatabase = (
+  databaseUrl: string = config.databaseUrl,
+): Database.Database => {
+  const db = new Database(resolveDatabasePath(databaseUrl));
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  runMigrations(db);
+  return db;
+};
+
+export const getDatabase = (): Database.Database => {
+  if (!database) {
+    database = openDatabase();
+    logger.info(`Database opened: ${config.databaseUrl}`);
+  }
+  return database;
+};
+
+export const closeDatabase = (): void => {
+  database?.close();
+  database = null;
+};
@@ -0,0 +1,82 @@
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+// Append new migrations to the end; applied versions are never re-run
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "create_device_inventory",
+    up: `
+      CREATE TABLE devices (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        ip TEXT NOT NULL,
+        device_type TEXT NOT NULL,
+        protocol TEXT NOT NULL DEFAULT 'ssh',
+        username TEXT,
+        password TEXT,
+        enable_password TEXT,
+        port INTEGER,
+        status TEXT NOT NULL DEFAULT 'offline',
+        last_seen TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE TABLE connection_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id TEXT NOT NULL,
+        device_name TEXT NOT NULL,
+        action TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        success INTEGER NOT NULL
+      );
+
+      CREATE TABLE config_push_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id TEXT NOT NULL,
+        device_name TEXT NOT NULL,
+        configuration TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        success INTEGER NOT NULL
+      );
+
+      CREATE INDEX idx_connection_history_device ON connection_history (device_id);
+      CREATE INDEX idx_config_push_history_device ON config_push_history (device_id);
+    `,
+  },
+  {
+    version: 2,
+    name: "add_device_sites_roles_and_tags",
+    up: `
+      ALTER TABLE devices ADD COLUMN site TEXT;
+      ALTER TABLE devices ADD COLUMN region TEXT;
+      ALTER TABLE devices ADD COLUMN role TEXT;
+      ALTER TABLE devices ADD COLUMN device_group TEXT;
+
+      CREATE TABLE device_tags (
+        device_id TEXT NOT NULL REFERENCES devices (id) ON DELETE CASCADE,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (device_id, tag)
+      );
+
+      CREATE INDEX idx_device_tags_tag ON device_tags (tag);
+      CREATE INDEX idx_devices_site ON devices (site);
+      CREATE INDEX idx_devices_region ON devices (region);
+    `,
+  },
+  {
+    version: 3,
+    name: "store_last_seen_as_timestamp",
+    // Relative strings such as "2 min ago" cannot be converted, so they become NULL
+    up: `
+      ALTER TABLE devices ADD COLUMN last_seen_at TEXT;
+      UPDATE devices SET last_seen_at = last_seen
+        WHERE last_seen GLOB '[0-9][0-9][0-9][0-9]-[0-9][0-9]-[0-9][0-9]T*';
+      ALTER TABLE devices DROP COLUMN last_seen;
+      ALTER TABLE devices RENAME COLUMN last_seen_at TO last_seen;
+    `,
+  },
+];
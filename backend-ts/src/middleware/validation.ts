@@ -1,6 +1,12 @@
 import { Request, Response, NextFunction } from "express";
 import Joi from "joi";
 import { logger } from "../utils/logger";
+import {
+  NetworkDevice,
+  DeviceImportRowError,
+  DeviceSelector,
+  DeviceFactName,
+} from "../types";
 
 const deviceSchema = Joi.object({
   id: Joi.string().optional(),
@@ -15,66 +21,385 @@ const deviceSchema = Joi.object({
       "cisco_ios",
       "cisco_asa",
       "cisco_wlc",
+      "cisco_nxos",
+      "arista_eos",
+      "juniper_junos",
     )
     .required(),
+  protocol: Joi.string().valid("ssh", "telnet").optional(),
   username: Joi.string().optional().allow(""),
   password: Joi.string().optional().allow(""),
   enablePassword: Joi.string().optional().allow(""),
   port: Joi.number().integer().min(1).max(65535).optional(),
+  site: Joi.string().max(100).optional().allow(""),
+  region: Joi.string().max(100).optional().allow(""),
+  role: Joi.string().max(100).optional().allow(""),
+  group: Joi.string().max(100).optional().allow(""),
+  tags: Joi.array().items(Joi.string().min(1).max(50)).optional(),
   status: Joi.string().valid("online", "offline", "warning").optional(),
-  lastSeen: Joi.string().optional(),
+  lastSeen: Joi.string().isoDate().optional().allow(null),
   createdAt: Joi.string().optional(),
 });
 
+// PATCH bodies may carry any subset of the device fields
+const devicePatchSchema = deviceSchema.fork(
+  ["name", "ip", "deviceType"],
+  (schema) => schema.optional(),
+);
+
+const deviceImportSchema = Joi.object({
+  format: Joi.string().valid("csv", "json", "yaml").required(),
+  content: Joi.alternatives().try(Joi.string().min(1), Joi.array()).required(),
+  dryRun: Joi.boolean().optional(),
+});
+
+// "tag" may repeat in a query string, so it arrives as a string or a list
+const deviceSelectorSchema = Joi.object({
+  site: Joi.string().max(100).optional(),
+  region: Joi.string().max(100).optional(),
+  role: Joi.string().max(100).optional(),
+  group: Joi.string().max(100).optional(),
+  tag: Joi.alternatives()
+    .try(Joi.string().min(1), Joi.array().items(Joi.string().min(1)))
+    .optional(),
+  tags: Joi.array().items(Joi.string().min(1)).optional(),
+});
+
+const deviceFactsSchema = Joi.array()
+  .items(
+    Joi.string().valid(
+      "version",
+      "interfaces",
+      "routes",
+      "arp",
+      "neighbors",
+      "inventory",
+    ),
+  )
+  .min(1)
+  .unique();
+
 const apiKeySchema = Joi.object({
   id: Joi.string().optional(),
   name: Joi.string().required().min(1).max(100),
-  provider: Joi.string().valid("groq", "openai", "claude", "ollama").required(),
+  // Checked against the registered providers by the route
+  provider: Joi.string().required().max(50),
   key: Joi.string().required().min(1),
   model: Joi.string().optional().allow(""),
+  baseUrl: Joi.string()
+    .uri({ scheme: ["http", "https"] })
+    .optional()
+    .allow(""),
+  apiVersion: Joi.string().optional().allow(""),
+  priority: Joi.number().integer().min(0).optional(),
+  timeout: Joi.number().integer().min(1000).max(600000).optional(),
   isActive: Joi.boolean().optional(),
   createdAt: Joi.string().optional(),
   lastUsed: Joi.string().optional().allow(null),
 });
 
-export const validateDevice = (
-  req: Request,
-  res: Response,
-  next: NextFunction,
-): void => {
-  const { error } = deviceSchema.validate(req.body);
+const routerInterfaceSchema = Joi.object({
+  name: Joi.string().required().min(1).max(100),
+  ipAddress: Joi.string()
+    .ip({ version: ["ipv4"] })
+    .optional(),
+  subnetMask: Joi.string()
+    .ip({ version: ["ipv4"] })
+    .optional(),
+  status: Joi.string().valid("up", "down", "administratively down").optional(),
+  description: Joi.string().max(240).optional().allow(""),
+}).and("ipAddress", "subnetMask");
+
+const simulatedRouterSchema = Joi.object({
+  name: Joi.string().required().pattern(/^\S+$/).max(63),
+  description: Joi.string().max(240).optional().allow(""),
+  managementIp: Joi.string()
+    .ip({ version: ["ipv4"] })
+    .required(),
+  model: Joi.string().max(100).optional(),
+  deviceType: Joi.string().max(100).optional(), // NetworkDevice deviceType
+  interfaces: Joi.array().items(routerInterfaceSchema).optional(),
+  config: Joi.string().optional().allow(""),
+}).oxor("model", "deviceType");
+
+const simulatedRouterPatchSchema = Joi.object({
+  name: Joi.string().pattern(/^\S+$/).max(63).optional(),
+  description: Joi.string().max(240).optional().allow(""),
+  managementIp: Joi.string()
+    .ip({ version: ["ipv4"] })
+    .optional(),
+  model: Joi.string().max(100).optional(),
+});
+
+const simulatorCommandSchema = Joi.object({
+  command: Joi.string().required().allow(""),
+  sessionId: Joi.string().max(100).optional(),
+});
+
+// Without replace the config is merged, as "copy file running-config" would
+const simulatorConfigSchema = Joi.object({
+  config: Joi.string().required().allow(""),
+  replace: Joi.boolean().optional(),
+  sessionId: Joi.string().max(100).optional(),
+});
+
+const linkEndpointSchema = Joi.object({
+  routerId: Joi.string().required(),
+  interfaceName: Joi.string().required(),
+});
+
+const simulatedLinkSchema = Joi.object({
+  endpoints: Joi.array().items(linkEndpointSchema).length(2).required(),
+});
+
+const simulatedLinkStatusSchema = Joi.object({
+  status: Joi.string().valid("up", "down").required(),
+});
+
+const topologyImportSchema = Joi.object({
+  format: Joi.string().valid("containerlab", "gns3", "eve-ng").required(),
+  content: Joi.string().min(1).required(),
+  configs: Joi.object().pattern(Joi.string(), Joi.string()).optional(),
+  replace: Joi.boolean().optional(),
+});
+
+// Which target fields a fault needs depends on its type; the injector checks them
+const faultSchema = Joi.object({
+  type: Joi.string()
+    .valid(
+      "interface-flap",
+      "link-down",
+      "high-cpu",
+      "high-memory",
+      "neighbor-failure",
+      "packet-loss",
+    )
+    .required(),
+  routerId: Joi.string().optional(),
+  interfaceName: Joi.string().optional(),
+  linkId: Joi.string().optional(),
+  protocol: Joi.string().valid("ospf", "bgp").optional(),
+  neighbor: Joi.string()
+    .ip({ version: ["ipv4"] })
+    .optional(),
+  level: Joi.number().min(1).max(100).optional(),
+  flapIntervalSeconds: Joi.number().integer().min(1).max(3600).optional(),
+  delaySeconds: Joi.number().min(0).max(86400).optional(),
+  durationSeconds: Joi.number().min(1).max(86400).optional(),
+  symptom: Joi.string().max(500).optional(),
+});
+
+const faultDiagnosisSchema = Joi.object({
+  diagnosis: Joi.string().required().min(1),
+  suggestedFix: Joi.string().optional().allow(""),
+});
+
+const snapshotSchema = Joi.object({
+  name: Joi.string()
+    .required()
+    .pattern(/^[\w.-]+$/)
+    .max(100),
+});
+
+const snapshotImportSchema = Joi.object({
+  snapshot: Joi.object({
+    name: Joi.string()
+      .required()
+      .pattern(/^[\w.-]+$/)
+      .max(100),
+    createdAt: Joi.string().isoDate().required(),
+    state: Joi.object({
+      routers: Joi.array().items(Joi.object().unknown()).required(),
+      links: Joi.array().items(Joi.object().unknown()).required(),
+      interfaceFaults: Joi.array().items(Joi.string()).required(),
+      log: Joi.array().items(Joi.object().unknown()).required(),
+      logDropped: Joi.number().integer().min(0).optional(),
+    }).required(),
+    faults: Joi.array().items(Joi.object().unknown()).required(),
+  }).required(),
+});
+
+// Each operation is checked as it is replayed, so only its kind is checked here
+const replaySchema = Joi.object({
+  operations: Joi.array()
+    .items(
+      Joi.object({
+        op: Joi.string()
+          .valid(
+            "create-router",
+            "update-router",
+            "delete-router",
+            "add-interface",
+            "remove-interface",
+            "replace-config",
+            "config-line",
+            "save-config",
+            "add-link",
+            "remove-link",
+            "link-status",
+            "link-loss",
+            "interface-fault",
+            "resource-usage",
+          )
+          .required(),
+      }).unknown(),
+    )
+    .optional(),
+  fromDefault: Joi.boolean().optional(),
+});
+
+const vaultRotationSchema = Joi.object({
+  currentSecret: Joi.string().required(),
+  newSecret: Joi.string().required().min(16),
+});
+
+// Every body validator shares one handler; the label names the schema in the log
+const validateBody =
+  (schema: Joi.ObjectSchema, label: string) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const { error } = schema.validate(req.body);
+
+    if (error) {
+      logger.warn(`${label} validation error: ${error.details[0].message}`);
+      res.status(400).json({
+        success: false,
+        error: `Validation error: ${error.details[0].message}`,
+      });
+      return;
+    }
+
+    next();
+  };
+
+export const validateDevice = validateBody(deviceSchema, "Device");
+export const validateDevicePatch = validateBody(devicePatchSchema, "Device");
+export const validateDeviceImport = validateBody(
+  deviceImportSchema,
+  "Device import",
+);
+
+export const parseDeviceSelector = (
+  data: any,
+): { error?: string; selector?: DeviceSelector } => {
+  const { error, value } = deviceSelectorSchema.validate(data || {});
 
   if (error) {
-    logger.warn(`Device validation error: ${error.details[0].message}`);
-    res.status(400).json({
-      success: false,
-      error: `Validation error: ${error.details[0].message}`,
-    });
-    return;
+    return { error: error.details[0].message };
   }
 
-  next();
+  const { tag, tags = [], ...fields } = value;
+  return {
+    selector: {
+      ...fields,
+      tags: [...tags, ...(Array.isArray(tag) ? tag : tag ? [tag] : [])],
+    },
+  };
 };
 
-export const validateApiKey = (
-  req: Request,
-  res: Response,
-  next: NextFunction,
-): void => {
-  const { error } = apiKeySchema.validate(req.body);
+// ?facts=version,routes limits collection to the named facts
+export const parseDeviceFactNames = (
+  data: any,
+): { error?: string; facts?: DeviceFactName[] } => {
+  if (!data?.facts) {
+    return {};
+  }
+
+  const names = String(data.facts)
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const { error, value } = deviceFactsSchema.validate(names);
 
   if (error) {
-    logger.warn(`API key validation error: ${error.details[0].message}`);
-    res.status(400).json({
-      success: false,
-      error: `Validation error: ${error.details[0].message}`,
-    });
-    return;
+    return { error: error.details[0].message };
   }
+  return { facts: value as DeviceFactName[] };
+};
+
+// Checks every imported row so one request reports all problems at once
+export const validateDeviceRows = (
+  rows: Record<string, unknown>[],
+): { devices: Partial<NetworkDevice>[]; errors: DeviceImportRowError[] } => {
+  const devices: Partial<NetworkDevice>[] = [];
+  const errors: DeviceImportRowError[] = [];
+  const rowsByIp = new Map<string, number>();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1;
+    const { error, value } = deviceSchema.validate(row, { abortEarly: false });
+    const messages = error ? error.details.map((detail) => detail.message) : [];
 
-  next();
+    if (value?.ip && rowsByIp.has(value.ip)) {
+      messages.push(
+        `"ip" ${value.ip} is already used by row ${rowsByIp.get(value.ip)}`,
+      );
+    } else if (value?.ip) {
+      rowsByIp.set(value.ip, rowNumber);
+    }
+
+    if (messages.length > 0) {
+      errors.push({ row: rowNumber, errors: messages });
+    } else {
+      devices.push(value);
+    }
+  });
+
+  return { devices, errors };
 };
 
+export const validateApiKey = validateBody(apiKeySchema, "API key");
+
+export const validateSimulatedRouter = validateBody(
+  simulatedRouterSchema,
+  "Simulated router",
+);
+export const validateSimulatedRouterPatch = validateBody(
+  simulatedRouterPatchSchema,
+  "Simulated router",
+);
+export const validateRouterInterface = validateBody(
+  routerInterfaceSchema,
+  "Router interface",
+);
+export const validateSimulatorCommand = validateBody(
+  simulatorCommandSchema,
+  "Simulator command",
+);
+export const validateSimulatorConfig = validateBody(
+  simulatorConfigSchema,
+  "Simulator config",
+);
+export const validateSimulatedLink = validateBody(
+  simulatedLinkSchema,
+  "Simulated link",
+);
+export const validateSimulatedLinkStatus = validateBody(
+  simulatedLinkStatusSchema,
+  "Simulated link",
+);
+export const validateTopologyImport = validateBody(
+  topologyImportSchema,
+  "Topology import",
+);
+
+export const validateFault = validateBody(faultSchema, "Fault");
+export const validateFaultDiagnosis = validateBody(
+  faultDiagnosisSchema,
+  "Fault diagnosis",
+);
+
+export const validateSnapshot = validateBody(snapshotSchema, "Snapshot");
+export const validateSnapshotImport = validateBody(
+  snapshotImportSchema,
+  "Snapshot import",
+);
+export const validateReplay = validateBody(replaySchema, "Replay");
+
+export const validateVaultRotation = validateBody(
+  vaultRotationSchema,
+  "Vault rotation",
+);
+
 export const validateSocketData = (
   schema: Joi.ObjectSchema,
   data: any,
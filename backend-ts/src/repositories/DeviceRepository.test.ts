@@ -0,0 +1,147 @@
+import { DeviceRepository } from "./DeviceRepository";
+import { openDatabase } from "../database/database";
+import { NetworkDevice } from "../types";
+
+const device = (
+  id: string,
+  fields: Partial<NetworkDevice> = {},
+): NetworkDevice => ({
+  id,
+  name: id,
+  ip: `10.0.0.${id.length}`,
+  deviceType: "cisco_ios",
+  status: "offline",
+  lastSeen: null,
+  createdAt: "2024-01-15T10:00:00.000Z",
+  ...fields,
+});
+
+describe("DeviceRepository", () => {
+  let repository: DeviceRepository;
+
+  beforeEach(() => {
+    repository = new DeviceRepository(openDatabase("sqlite:///:memory:"));
+  });
+
+  it("round-trips a device with its tags", () => {
+    const saved = device("core-1", {
+      protocol: "telnet",
+      port: 23,
+      site: "jnb",
+      group: "dc",
+      tags: ["edge", "core"],
+    });
+
+    repository.save(saved);
+
+    expect(repository.findById("core-1")).toEqual({
+      ...saved,
+      tags: ["core", "edge"],
+    });
+    expect(repository.findById("missing")).toBeNull();
+  });
+
+  it("matches site, region, role and group without regard to case", () => {
+    repository.saveMany([
+      device("jnb-1", { site: "JNB", region: "Africa", group: "DC" }),
+      device("jnb-2", { site: "jnb", region: "africa", role: "edge" }),
+      device("cpt-1", { site: "cpt", region: "africa" }),
+    ]);
+
+    const ids = (selector: object) =>
+      repository.findAll(selector).map(({ id }) => id);
+
+    expect(ids({ site: "Jnb" })).toEqual(["jnb-1", "jnb-2"]);
+    expect(ids({ region: "AFRICA", role: "EDGE" })).toEqual(["jnb-2"]);
+    expect(ids({ group: "dc" })).toEqual(["jnb-1"]);
+    expect(ids({ site: "lhr" })).toEqual([]);
+  });
+
+  it("needs every listed tag to match", () => {
+    repository.saveMany([
+      device("both", { tags: ["core", "edge"] }),
+      device("edge", { tags: ["edge"] }),
+      device("none"),
+    ]);
+
+    const ids = (tags: string[]) =>
+      repository.findAll({ tags }).map(({ id }) => id);
+
+    expect(ids(["edge"])).toEqual(["both", "edge"]);
+    expect(ids(["EDGE", "core"])).toEqual(["both"]);
+    expect(ids(["wan"])).toEqual([]);
+    expect(repository.resolveTargets({ tags: ["core"] })).toEqual(["both"]);
+    expect(repository.resolveTargets(["none", "gone"])).toEqual([
+      "none",
+      "gone",
+    ]);
+  });
+
+  it("saves nothing from a batch that fails part way", () => {
+    repository.save(device("existing", { name: "Before" }));
+
+    expect(() =>
+      repository.saveMany([
+        device("existing", { name: "After" }),
+        device("new-1"),
+        device("broken", { name: null as unknown as string }),
+      ]),
+    ).toThrow(/NOT NULL constraint failed: devices.name/);
+
+    expect(repository.count()).toBe(1);
+    expect(repository.findById("existing")!.name).toBe("Before");
+  });
+
+  it("reports whether a device was deleted", () => {
+    repository.save(device("core-1", { tags: ["core"] }));
+
+    expect(repository.delete("core-1")).toBe(true);
+    expect(repository.delete("core-1")).toBe(false);
+    expect(repository.findById("core-1")).toBeNull();
+  });
+
+  it("returns the newest history entries, oldest first", () => {
+    ["connect", "disconnect", "connect"].forEach((action, index) =>
+      repository.recordConnection({
+        deviceId: "core-1",
+        deviceName: "Core",
+        action: action as "connect" | "disconnect",
+        timestamp: `2024-01-15T10:0${index}:00.000Z`,
+        success: index !== 2,
+      }),
+    );
+    repository.recordConfigPush({
+      deviceId: "core-1",
+      deviceName: "Core",
+      configuration: "hostname Core",
+      timestamp: "2024-01-15T10:05:00.000Z",
+      success: true,
+    });
+
+    expect(repository.getConnectionHistory(2)).toEqual([
+      {
+        deviceId: "core-1",
+        deviceName: "Core",
+        action: "disconnect",
+        timestamp: "2024-01-15T10:01:00.000Z",
+        success: true,
+      },
+      {
+        deviceId: "core-1",
+        deviceName: "Core",
+        action: "connect",
+        timestamp: "2024-01-15T10:02:00.000Z",
+        success: false,
+      },
+    ]);
+    expect(repository.getConfigPushHistory(10)).toEqual([
+      {
+        deviceId: "core-1",
+        deviceName: "Core",
+        configuration: "hostname Core",
+        timestamp: "2024-01-15T10:05:00.000Z",
+        success: true,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,298 @@
+import Database from "better-sqlite3";
+import { getDatabase } from "../database/database";
+import {
+  NetworkDevice,
+  DeviceSelector,
+  DeviceTargets,
+  ConnectionHistoryEntry,
+  ConfigPushHistoryEntry,
+} from "../types";
+
+interface DeviceRow {
+  id: string;
+  name: string;
+  ip: string;
+  device_type: string;
+  protocol: "ssh" | "telnet";
+  username: string | null;
+  password: string | null;
+  enable_password: string | null;
+  port: number | null;
+  site: string | null;
+  region: string | null;
+  role: string | null;
+  device_group: string | null;
+  status: NetworkDevice["status"];
+  last_seen: string | null;
+  created_at: string;
+}
+
+interface ConnectionHistoryRow {
+  id: number;
+  device_id: string;
+  device_name: string;
+  action: ConnectionHistoryEntry["action"];
+  timestamp: string;
+  success: number;
+}
+
+interface ConfigPushHistoryRow {
+  id: number;
+  device_id: string;
+  device_name: string;
+  configuration: string;
+  timestamp: string;
+  success: number;
+}
+
+const SELECTOR_COLUMNS = {
+  site: "site",
+  region: "region",
+  role: "role",
+  group: "device_group",
+};
+
+export class DeviceRepository {
+  private db: Database.Database;
+
+  constructor(db: Database.Database = getDatabase()) {
+    this.db = db;
+  }
+
+  count(): number {
+    const { total } = this.db
+      .prepare("SELECT COUNT(*) AS total FROM devices")
+      .get() as { total: number };
+    return total;
+  }
+
+  findAll(selector: DeviceSelector = {}): NetworkDevice[] {
+    const clauses: string[] = [];
+    const params: string[] = [];
+
+    (Object.keys(SELECTOR_COLUMNS) as (keyof typeof SELECTOR_COLUMNS)[])
+      .filter((field) => selector[field])
+      .forEach((field) => {
+        clauses.push(`${SELECTOR_COLUMNS[field]} = ? COLLATE NOCASE`);
+        params.push(selector[field]!);
+      });
+
+    (selector.tags || []).forEach((tag) => {
+      clauses.push(
+        "EXISTS (SELECT 1 FROM device_tags WHERE device_tags.device_id = devices.id AND device_tags.tag = ?)",
+      );
+      params.push(tag.toLowerCase());
+    });
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM devices ${where} ORDER BY rowid`)
+      .all(...params) as DeviceRow[];
+
+    const tagsByDevice = this.findTags();
+    return rows.map((row) =>
+      this.toDevice(row, tagsByDevice.get(row.id) || []),
+    );
+  }
+
+  findById(deviceId: string): NetworkDevice | null {
+    const row = this.db
+      .prepare("SELECT * FROM devices WHERE id = ?")
+      .get(deviceId) as DeviceRow | undefined;
+    return row
+      ? this.toDevice(row, this.findTags(deviceId).get(deviceId) || [])
+      : null;
+  }
+
+  // Raw ID lists pass through untouched; selectors are resolved against the inventory
+  resolveTargets(targets: DeviceTargets): string[] {
+    if (Array.isArray(targets)) return targets;
+    return this.findAll(targets).map((device) => device.id);
+  }
+
+  save(device: NetworkDevice): void {
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO devices (id, name, ip, device_type, protocol, username, password, enable_password, port, site, region, role, device_group, status, last_seen, created_at)
+           VALUES (@id, @name, @ip, @device_type, @protocol, @username, @password, @enable_password, @port, @site, @region, @role, @device_group, @status, @last_seen, @created_at)
+           ON CONFLICT (id) DO UPDATE SET
+             name = excluded.name,
+             ip = excluded.ip,
+             device_type = excluded.device_type,
+             protocol = excluded.protocol,
+             username = excluded.username,
+             password = excluded.password,
+             enable_password = excluded.enable_password,
+             port = excluded.port,
+             site = excluded.site,
+             region = excluded.region,
+             role = excluded.role,
+             device_group = excluded.device_group,
+             status = excluded.status,
+             last_seen = excluded.last_seen`,
+        )
+        .run(this.toRow(device));
+
+      this.db
+        .prepare("DELETE FROM device_tags WHERE device_id = ?")
+        .run(device.id);
+      const insertTag = this.db.prepare(
+        "INSERT OR IGNORE INTO device_tags (device_id, tag) VALUES (?, ?)",
+      );
+      (device.tags || []).forEach((tag) => insertTag.run(device.id, tag));
+    })();
+  }
+
+  // Saves a batch atomically so a failed import leaves the inventory untouched
+  saveMany(devices: NetworkDevice[]): void {
+    this.db.transaction((batch: NetworkDevice[]) => {
+      batch.forEach((device) => this.save(device));
+    })(devices);
+  }
+
+  updateStatus(
+    deviceId: string,
+    status: NetworkDevice["status"],
+    lastSeen: string | null,
+  ): void {
+    this.db
+      .prepare("UPDATE devices SET status = ?, last_seen = ? WHERE id = ?")
+      .run(status, lastSeen, deviceId);
+  }
+
+  delete(deviceId: string): boolean {
+    const result = this.db
+      .prepare("DELETE FROM devices WHERE id = ?")
+      .run(deviceId);
+    return result.changes > 0;
+  }
+
+  recordConnection(entry: ConnectionHistoryEntry): void {
+    this.db
+      .prepare(
+        `INSERT INTO connection_history (device_id, device_name, action, timestamp, success)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(
+        entry.deviceId,
+        entry.deviceName,
+        entry.action,
+        entry.timestamp,
+        entry.success ? 1 : 0,
+      );
+  }
+
+  getConnectionHistory(limit: number): ConnectionHistoryEntry[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM (SELECT * FROM connection_history ORDER BY id DESC LIMIT ?) ORDER BY id`,
+      )
+      .all(limit) as ConnectionHistoryRow[];
+
+    return rows.map((row) => ({
+      deviceId: row.device_id,
+      deviceName: row.device_name,
+      action: row.action,
+      timestamp: row.timestamp,
+      success: row.success === 1,
+    }));
+  }
+
+  recordConfigPush(entry: ConfigPushHistoryEntry): void {
+    this.db
+      .prepare(
+        `INSERT INTO config_push_history (device_id, device_name, configuration, timestamp, success)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(
+        entry.deviceId,
+        entry.deviceName,
+        entry.configuration,
+        entry.timestamp,
+        entry.success ? 1 : 0,
+      );
+  }
+
+  getConfigPushHistory(limit: number): ConfigPushHistoryEntry[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM (SELECT * FROM config_push_history ORDER BY id DESC LIMIT ?) ORDER BY id`,
+      )
+      .all(limit) as ConfigPushHistoryRow[];
+
+    return rows.map((row) => ({
+      deviceId: row.device_id,
+      deviceName: row.device_name,
+      configuration: row.configuration,
+      timestamp: row.timestamp,
+      success: row.success === 1,
+    }));
+  }
+
+  private findTags(deviceId?: string): Map<string, string[]> {
+    const rows = (
+      deviceId
+        ? this.db
+            .prepare(
+              "SELECT device_id, tag FROM device_tags WHERE device_id = ? ORDER BY tag",
+            )
+            .all(deviceId)
+        : this.db
+            .prepare("SELECT device_id, tag FROM device_tags ORDER BY tag")
+            .all()
+    ) as { device_id: string; tag: string }[];
+
+    const tagsByDevice = new Map<string, string[]>();
+    rows.forEach(({ device_id, tag }) => {
+      tagsByDevice.set(device_id, [
+        ...(tagsByDevice.get(device_id) || []),
+        tag,
+      ]);
+    });
+    return tagsByDevice;
+  }
+
+  private toDevice(row: DeviceRow, tags: string[]): NetworkDevice {
+    return {
+      id: row.id,
+      name: row.name,
+      ip: row.ip,
+      deviceType: row.device_type,
+      protocol: row.protocol,
+      username: row.username ?? undefined,
+      password: row.password ?? undefined,
+      enablePassword: row.enable_password ?? undefined,
+      port: row.port ?? undefined,
+      site: row.site ?? undefined,
+      region: row.region ?? undefined,
+      role: row.role ?? undefined,
+      group: row.device_group ?? undefined,
+      tags,
+      status: row.status,
+      lastSeen: row.last_seen,
+      createdAt: row.created_at,
+    };
+  }
+
+  private toRow(device: NetworkDevice): DeviceRow {
+    return {
+      id: device.id,
+      name: device.name,
+      ip: device.ip,
+      device_type: device.deviceType,
+      protocol: device.protocol || "ssh",
+      username: device.username ?? null,
+      password: device.password ?? null,
+      enable_password: device.enablePassword ?? null,
+      port: device.port ?? null,
+      site: device.site ?? null,
+      region: device.region ?? null,
+      role: device.role ?? null,
+      device_group: device.group ?? null,
+      status: device.status,
+      last_seen: device.lastSeen ?? null,
+      created_at: device.createdAt,
+    };
+  }
+}
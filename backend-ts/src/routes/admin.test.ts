@@ -0,0 +1,71 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { adminRoutes } from "./admin";
+import { config } from "../config/config";
+import { credentialVault } from "../services/CredentialVault";
+
+describe("POST /api/admin/vault/rotate", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/admin", adminRoutes);
+    server = app.listen(0, "127.0.0.1", () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/admin`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(() => done());
+  });
+
+  const rotate = (body: object) =>
+    fetch(`${baseUrl}/vault/rotate`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  it("refuses to rotate without the current secret", async () => {
+    const response = await rotate({
+      currentSecret: "not-the-secret",
+      newSecret: "a-new-secret-of-enough-length",
+    });
+    const body: any = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(body.error).toBe("Current secret does not match");
+    expect(credentialVault.isActiveSecret(config.secretKey)).toBe(true);
+  });
+
+  it("rotates to the new secret", async () => {
+    const sealed = credentialVault.seal("enable-secret");
+
+    const response = await rotate({
+      currentSecret: config.secretKey,
+      newSecret: "a-new-secret-of-enough-length",
+    });
+    const body: any = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({ success: true });
+    expect(
+      credentialVault.isActiveSecret("a-new-secret-of-enough-length"),
+    ).toBe(true);
+    // Nothing registered this token, so it went with the old key
+    expect(() => credentialVault.reveal(sealed)).toThrow(/Unknown vault key/);
+  });
+
+  it("rejects a short new secret", async () => {
+    const response = await rotate({
+      currentSecret: "a-new-secret-of-enough-length",
+      newSecret: "short",
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
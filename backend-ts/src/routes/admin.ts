@@ -0,0 +1,29 @@
+import { Router, Request, Response } from "express";
+import { credentialVault } from "../services/CredentialVault";
+import { logger } from "../utils/logger";
+import { validateVaultRotation } from "../middleware/validation";
+
+const router = Router();
+
+// POST /api/admin/vault/rotate - Re-encrypt stored secrets under a new key
+router.post(
+  "/vault/rotate",
+  validateVaultRotation,
+  (req: Request, res: Response) => {
+    try {
+      const { currentSecret, newSecret } = req.body;
+      if (!credentialVault.isActiveSecret(currentSecret)) {
+        return res
+          .status(403)
+          .json({ success: false, error: "Current secret does not match" });
+      }
+      const rotation = credentialVault.rotateKey(newSecret);
+      return res.json({ success: true, ...rotation });
+    } catch (error) {
+      logger.error(`Error rotating vault key: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+export { router as adminRoutes };
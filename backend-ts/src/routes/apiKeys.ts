@@ -1,19 +1,22 @@
 import { Router, Request, Response } from "express";
-import { LLMIntegration } from "../services/LLMIntegration";
+import { llmIntegration } from "../services/LLMIntegration";
+import { llmProviders } from "../services/LLMProviders";
 import { logger } from "../utils/logger";
 import { validateApiKey } from "../middleware/validation";
 
+type KeyParams = { keyId: string };
+type ProviderParams = { provider: string };
+
 const router = Router();
-const llmIntegration = new LLMIntegration();
 
 // GET /api/api-keys - Get all API keys (masked)
 router.get("/", (req: Request, res: Response) => {
   try {
     const keys = llmIntegration.getApiKeys();
-    res.json({ success: true, keys });
+    return res.json({ success: true, keys });
   } catch (error) {
     logger.error(`Error getting API keys: ${error}`);
-    res.status(500).json({ success: false, error: String(error) });
+    return res.status(500).json({ success: false, error: String(error) });
   }
 });
 
@@ -21,23 +24,56 @@ router.get("/", (req: Request, res: Response) => {
 router.post("/", validateApiKey, (req: Request, res: Response) => {
   try {
     const keyData = req.body;
+    if (!llmProviders.get(keyData.provider)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown LLM provider: ${keyData.provider}`,
+      });
+    }
     const key = llmIntegration.addApiKey(keyData);
-    res.json({ success: true, key });
+    return res.json({ success: true, key });
   } catch (error) {
     logger.error(`Error adding API key: ${error}`);
-    res.status(500).json({ success: false, error: String(error) });
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// GET /api/api-keys/providers - Get the registered LLM providers
+router.get("/providers", (req: Request, res: Response) => {
+  try {
+    const providers = llmIntegration.getProviders();
+    return res.json({ success: true, providers });
+  } catch (error) {
+    logger.error(`Error getting LLM providers: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// GET /api/api-keys/:keyId/health - Check that a key's provider answers
+router.get("/:keyId/health", async (req: Request<KeyParams>, res: Response) => {
+  try {
+    const health = await llmIntegration.checkHealth(req.params.keyId);
+    if (!health) {
+      return res
+        .status(404)
+        .json({ success: false, error: "API key not found" });
+    }
+    return res.json({ success: true, health });
+  } catch (error) {
+    logger.error(`Error checking API key health: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
   }
 });
 
 // DELETE /api/api-keys/:keyId - Delete an API key
-router.delete("/:keyId", (req: Request, res: Response) => {
+router.delete("/:keyId", (req: Request<KeyParams>, res: Response) => {
   try {
     const { keyId } = req.params;
     const success = llmIntegration.deleteApiKey(keyId);
-    res.json({ success });
+    return res.json({ success });
   } catch (error) {
     logger.error(`Error deleting API key: ${error}`);
-    res.status(500).json({ success: false, error: String(error) });
+    return res.status(500).json({ success: false, error: String(error) });
   }
 });
 
@@ -45,25 +81,37 @@ router.delete("/:keyId", (req: Request, res: Response) => {
 router.get("/usage", (req: Request, res: Response) => {
   try {
     const statistics = llmIntegration.getUsageStatistics();
-    res.json({ success: true, statistics });
+    return res.json({ success: true, statistics });
   } catch (error) {
     logger.error(`Error getting usage statistics: ${error}`);
-    res.status(500).json({ success: false, error: String(error) });
+    return res.status(500).json({ success: false, error: String(error) });
   }
 });
 
 // GET /api/api-keys/models/:provider - Get available models for a provider
-router.get("/models/:provider", (req: Request, res: Response) => {
-  try {
-    const { provider } = req.params;
-    const models = llmIntegration.getAvailableModels(provider);
-    res.json({ success: true, models });
-  } catch (error) {
-    logger.error(
-      `Error getting models for provider ${req.params.provider}: ${error}`,
-    );
-    res.status(500).json({ success: false, error: String(error) });
-  }
-});
+router.get(
+  "/models/:provider",
+  async (req: Request<ProviderParams>, res: Response) => {
+    try {
+      const { provider } = req.params;
+      if (!llmProviders.get(provider)) {
+        return res.status(404).json({
+          success: false,
+          error: `Unknown LLM provider: ${provider}`,
+        });
+      }
+      const list = await llmIntegration.getAvailableModels(
+        provider,
+        req.query.refresh === "true",
+      );
+      return res.json({ success: true, ...list });
+    } catch (error) {
+      logger.error(
+        `Error getting models for provider ${req.params.provider}: ${error}`,
+      );
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
 
 export { router as apiKeyRoutes };
@@ -0,0 +1,107 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { deviceRoutes } from "./devices";
+
+// The route's inventory lives in a private in-memory database
+jest.mock("../database/database", () => {
+  const actual = jest.requireActual("../database/database");
+  const db = actual.openDatabase("sqlite:///:memory:");
+  return { ...actual, getDatabase: () => db };
+});
+
+describe("POST /api/devices/import", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/devices", deviceRoutes);
+    server = app.listen(0, "127.0.0.1", () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/devices`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(() => done());
+  });
+
+  const importDevices = async (rows: object[], dryRun: boolean) => {
+    const response = await fetch(`${baseUrl}/import`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        format: "json",
+        content: JSON.stringify(rows),
+        dryRun,
+      }),
+    });
+    const body: any = await response.json();
+    return { status: response.status, body };
+  };
+
+  const devicesAt = async (ip: string) => {
+    const body: any = await (await fetch(baseUrl)).json();
+    return body.devices.filter((device: any) => device.ip === ip);
+  };
+
+  const duplicated = [
+    { name: "Edge-01", ip: "10.9.0.1", deviceType: "Router" },
+    { name: "Edge-02", ip: "10.9.0.2", deviceType: "Router" },
+    { name: "Edge-01a", ip: "10.9.0.1", deviceType: "Router" },
+  ];
+
+  it.each([true, false])(
+    "rejects a file that repeats an IP (dryRun %s)",
+    async (dryRun) => {
+      const { status, body } = await importDevices(duplicated, dryRun);
+
+      expect(status).toBe(400);
+      expect(body).toMatchObject({
+        success: false,
+        dryRun,
+        errors: [
+          { row: 3, errors: ['"ip" 10.9.0.1 is already used by row 1'] },
+        ],
+      });
+      expect(await devicesAt("10.9.0.1")).toHaveLength(0);
+      expect(await devicesAt("10.9.0.2")).toHaveLength(0);
+    },
+  );
+
+  it("previews an import without saving it", async () => {
+    const { status, body } = await importDevices(
+      [
+        { name: "Edge-03", ip: "10.9.0.3", deviceType: "Router" },
+        { name: "Core-B", ip: "192.168.1.10", deviceType: "Switch" },
+      ],
+      true,
+    );
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ success: true, dryRun: true });
+    expect(body.created.map(({ name }: any) => name)).toEqual(["Edge-03"]);
+    expect(body.updated.map(({ name }: any) => name)).toEqual(["Core-B"]);
+    expect(await devicesAt("10.9.0.3")).toHaveLength(0);
+    expect((await devicesAt("192.168.1.10"))[0].name).toBe("Core-Switch-01");
+  });
+
+  it("creates new devices and updates the ones it matches by IP", async () => {
+    const { status, body } = await importDevices(
+      [
+        { name: "Edge-03", ip: "10.9.0.3", deviceType: "Router" },
+        { name: "Core-B", ip: "192.168.1.10", deviceType: "Switch" },
+      ],
+      false,
+    );
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ success: true, dryRun: false });
+    expect(await devicesAt("10.9.0.3")).toHaveLength(1);
+    expect(await devicesAt("192.168.1.10")).toEqual([
+      expect.objectContaining({ name: "Core-B" }),
+    ]);
+  });
+});
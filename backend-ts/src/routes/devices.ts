@@ -1,19 +1,44 @@
 import { Router, Request, Response } from "express";
-import { NetworkOperations } from "../services/NetworkOperations";
+import { getNetworkOperations } from "../services/NetworkOperations";
+import { DeviceInventoryIO } from "../services/DeviceInventoryIO";
 import { logger } from "../utils/logger";
-import { validateDevice } from "../middleware/validation";
+import {
+  validateDevice,
+  validateDevicePatch,
+  validateDeviceImport,
+  validateDeviceRows,
+  parseDeviceSelector,
+  parseDeviceFactNames,
+} from "../middleware/validation";
+import { DeviceInventoryFormat } from "../types";
 
 const router = Router();
-const networkOps = new NetworkOperations();
+const networkOps = getNetworkOperations();
+const inventoryIO = new DeviceInventoryIO();
 
-// GET /api/devices - Get all devices
+type DeviceParams = { deviceId: string };
+
+const EXPORT_CONTENT_TYPES: Record<DeviceInventoryFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  yaml: "application/yaml",
+};
+
+// GET /api/devices - Get all devices, optionally filtered by site, region, role, group or tag
 router.get("/", (req: Request, res: Response) => {
   try {
-    const devices = networkOps.getAllDevices();
-    res.json({ success: true, devices });
+    const { error, selector } = parseDeviceSelector(req.query);
+    if (error) {
+      return res
+        .status(400)
+        .json({ success: false, error: `Validation error: ${error}` });
+    }
+
+    const devices = networkOps.getAllDevices(selector);
+    return res.json({ success: true, devices });
   } catch (error) {
     logger.error(`Error getting devices: ${error}`);
-    res.status(500).json({ success: false, error: String(error) });
+    return res.status(500).json({ success: false, error: String(error) });
   }
 });
 
@@ -22,27 +47,142 @@ router.post("/", validateDevice, (req: Request, res: Response) => {
   try {
     const deviceData = req.body;
     const device = networkOps.addDevice(deviceData);
-    res.json({ success: true, device });
+    return res.json({ success: true, device });
   } catch (error) {
     logger.error(`Error adding device: ${error}`);
-    res.status(500).json({ success: false, error: String(error) });
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// POST /api/devices/import - Bulk import devices from CSV, JSON or YAML
+router.post("/import", validateDeviceImport, (req: Request, res: Response) => {
+  try {
+    const { format, content, dryRun = false } = req.body;
+
+    let rows: Record<string, unknown>[];
+    try {
+      rows = inventoryIO.parse(content, format);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: `Could not parse ${format} inventory: ${error instanceof Error ? error.message : error}`,
+      });
+    }
+
+    // Nothing is imported unless every row is valid
+    const { devices, errors } = validateDeviceRows(rows);
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        dryRun,
+        created: [],
+        updated: [],
+        errors,
+        error: `${errors.length} of ${rows.length} rows failed validation`,
+      });
+    }
+
+    const result = networkOps.importDevices(devices, dryRun);
+    return res.json(result);
+  } catch (error) {
+    logger.error(`Error importing devices: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
   }
 });
 
+// GET /api/devices/export - Export the inventory with secrets redacted
+router.get("/export", (req: Request, res: Response) => {
+  try {
+    const format = String(req.query.format || "json") as DeviceInventoryFormat;
+    if (!EXPORT_CONTENT_TYPES[format]) {
+      return res.status(400).json({
+        success: false,
+        error: `Unsupported export format: ${format}`,
+      });
+    }
+
+    const content = inventoryIO.serialize(networkOps.getAllDevices(), format);
+    return res
+      .type(EXPORT_CONTENT_TYPES[format])
+      .attachment(`devices.${format}`)
+      .send(content);
+  } catch (error) {
+    logger.error(`Error exporting devices: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// GET /api/devices/sites - Devices grouped by region and site
+router.get("/sites", (req: Request, res: Response) => {
+  try {
+    const regions = networkOps.getSiteHierarchy();
+    return res.json({ success: true, regions });
+  } catch (error) {
+    logger.error(`Error getting site hierarchy: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// PUT /api/devices/:deviceId - Replace a device
+router.put(
+  "/:deviceId",
+  validateDevice,
+  (req: Request<DeviceParams>, res: Response) => {
+    try {
+      const { deviceId } = req.params;
+      const device = networkOps.replaceDevice(deviceId, req.body);
+
+      if (!device) {
+        return res
+          .status(404)
+          .json({ success: false, error: "Device not found" });
+      }
+
+      return res.json({ success: true, device });
+    } catch (error) {
+      logger.error(`Error replacing device: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// PATCH /api/devices/:deviceId - Update selected device fields
+router.patch(
+  "/:deviceId",
+  validateDevicePatch,
+  (req: Request<DeviceParams>, res: Response) => {
+    try {
+      const { deviceId } = req.params;
+      const device = networkOps.updateDevice(deviceId, req.body);
+
+      if (!device) {
+        return res
+          .status(404)
+          .json({ success: false, error: "Device not found" });
+      }
+
+      return res.json({ success: true, device });
+    } catch (error) {
+      logger.error(`Error updating device: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
 // DELETE /api/devices/:deviceId - Delete a device
-router.delete("/:deviceId", (req: Request, res: Response) => {
+router.delete("/:deviceId", (req: Request<DeviceParams>, res: Response) => {
   try {
     const { deviceId } = req.params;
     const success = networkOps.deleteDevice(deviceId);
-    res.json({ success });
+    return res.json({ success });
   } catch (error) {
     logger.error(`Error deleting device: ${error}`);
-    res.status(500).json({ success: false, error: String(error) });
+    return res.status(500).json({ success: false, error: String(error) });
   }
 });
 
 // GET /api/devices/:deviceId - Get device info
-router.get("/:deviceId", (req: Request, res: Response) => {
+router.get("/:deviceId", (req: Request<DeviceParams>, res: Response) => {
   try {
     const { deviceId } = req.params;
     const device = networkOps.getDeviceInfo(deviceId);
@@ -53,23 +193,49 @@ router.get("/:deviceId", (req: Request, res: Response) => {
         .json({ success: false, error: "Device not found" });
     }
 
-    res.json({ success: true, device });
+    return res.json({ success: true, device });
   } catch (error) {
     logger.error(`Error getting device info: ${error}`);
-    res.status(500).json({ success: false, error: String(error) });
+    return res.status(500).json({ success: false, error: String(error) });
   }
 });
 
 // GET /api/devices/:deviceId/status - Get device status
-router.get("/:deviceId/status", (req: Request, res: Response) => {
+router.get("/:deviceId/status", (req: Request<DeviceParams>, res: Response) => {
   try {
     const { deviceId } = req.params;
     const status = networkOps.getDeviceStatus(deviceId);
-    res.json({ success: true, status });
+    return res.json({ success: true, status });
   } catch (error) {
     logger.error(`Error getting device status: ${error}`);
-    res.status(500).json({ success: false, error: String(error) });
+    return res.status(500).json({ success: false, error: String(error) });
   }
 });
 
+// GET /api/devices/:deviceId/facts - Run show commands and return parsed facts
+router.get(
+  "/:deviceId/facts",
+  async (req: Request<DeviceParams>, res: Response) => {
+    try {
+      const { deviceId } = req.params;
+      const { error, facts } = parseDeviceFactNames(req.query);
+      if (error) {
+        return res
+          .status(400)
+          .json({ success: false, error: `Validation error: ${error}` });
+      }
+
+      const result = await networkOps.collectFacts(deviceId, facts);
+      if (!result.success && result.error === "Device not found") {
+        return res.status(404).json(result);
+      }
+
+      return res.status(result.success ? 200 : 502).json(result);
+    } catch (error) {
+      logger.error(`Error collecting device facts: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
 export { router as deviceRoutes };
@@ -0,0 +1,86 @@
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { simulatorRoutes } from "./simulator";
+import { routerSimulator } from "../services/RouterSimulator";
+import { LLMIntegration } from "../services/LLMIntegration";
+
+describe("PUT /api/simulator/routers/:routerId/config", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll((done) => {
+    // No provider answers, as on a machine without network access
+    jest
+      .spyOn(LLMIntegration.prototype, "generateConfiguration")
+      .mockResolvedValue({
+        success: false,
+        error: "All LLM providers failed: groq: unreachable",
+      });
+
+    const app = express();
+    app.use(express.json());
+    app.use("/api/simulator", simulatorRoutes);
+    server = app.listen(0, "127.0.0.1", () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/simulator`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    jest.restoreAllMocks();
+    server.close(() => done());
+  });
+
+  const putConfig = (routerId: string, body: object) =>
+    fetch(`${baseUrl}/routers/${routerId}/config`, {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  it("merges into the running config without an LLM", async () => {
+    const r1 = routerSimulator
+      .getAllRouters()
+      .find(({ name }) => name === "R1")!;
+
+    const response = await putConfig(r1.id, {
+      config: "interface Loopback0\n ip address 1.1.1.1 255.255.255.255",
+    });
+    const body: any = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.success).toBe(true);
+    expect(body.config.runningConfig).toContain(
+      "interface Loopback0\n ip address 1.1.1.1 255.255.255.255",
+    );
+    // The rest of the config is kept
+    expect(body.config.runningConfig).toContain("router ospf 1");
+    expect(
+      LLMIntegration.prototype.generateConfiguration,
+    ).not.toHaveBeenCalled();
+  });
+
+  it("reports rejected lines and applies the rest", async () => {
+    const r2 = routerSimulator
+      .getAllRouters()
+      .find(({ name }) => name === "R2")!;
+
+    const response = await putConfig(r2.id, {
+      config:
+        "ip route 10.9.0.0 255.255.0.0 10.0.2.2\ninterface GigabitEthernet0/1\n ip address 10.0.0.5 255.255.255.0",
+    });
+    const body: any = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error).toContain("ip address 10.0.0.5 255.255.255.0");
+    expect(routerSimulator.getRouterConfig(r2.id)?.runningConfig).toContain(
+      "ip route 10.9.0.0 255.255.0.0 10.0.2.2",
+    );
+  });
+
+  it("returns 404 for an unknown router", async () => {
+    const response = await putConfig("missing", { config: "hostname X" });
+    expect(response.status).toBe(404);
+  });
+});
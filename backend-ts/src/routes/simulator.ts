@@ -0,0 +1,697 @@
+import { Router, Request, Response } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { routerSimulator } from "../services/RouterSimulator";
+import { TopologyIO } from "../services/TopologyIO";
+import { FaultInjector } from "../services/FaultInjector";
+import { SimulatorSnapshots } from "../services/SimulatorSnapshots";
+import { logger } from "../utils/logger";
+import {
+  validateSimulatedRouter,
+  validateSimulatedRouterPatch,
+  validateRouterInterface,
+  validateSimulatorCommand,
+  validateSimulatorConfig,
+  validateSimulatedLink,
+  validateSimulatedLinkStatus,
+  validateTopologyImport,
+  validateFault,
+  validateFaultDiagnosis,
+  validateSnapshot,
+  validateSnapshotImport,
+  validateReplay,
+} from "../middleware/validation";
+import { RouterInterface } from "../types";
+
+type RouterParams = { routerId: string };
+type InterfaceParams = { routerId: string; interfaceName: string };
+type SessionParams = { sessionId: string };
+type LinkParams = { linkId: string };
+type FaultParams = { faultId: string };
+type SnapshotParams = { name: string };
+
+const router = Router();
+const topologyIO = new TopologyIO();
+const faultInjector = new FaultInjector(routerSimulator);
+const snapshots = new SimulatorSnapshots(routerSimulator, faultInjector);
+
+const snapshotNotFound = (res: Response) =>
+  res.status(404).json({ success: false, error: "Snapshot not found" });
+
+const routerNotFound = (res: Response) =>
+  res.status(404).json({ success: false, error: "Router not found" });
+
+// GET /api/simulator/routers - Get all simulated routers
+router.get("/routers", (req: Request, res: Response) => {
+  try {
+    const routers = routerSimulator.getAllRouters();
+    return res.json({ success: true, routers });
+  } catch (error) {
+    logger.error(`Error getting simulated routers: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// POST /api/simulator/routers - Create a router, optionally with ports and a config
+router.post(
+  "/routers",
+  validateSimulatedRouter,
+  (req: Request, res: Response) => {
+    try {
+      const {
+        name,
+        description = "",
+        managementIp,
+        deviceType,
+        interfaces = [],
+      } = req.body;
+      if (
+        routerSimulator.getAllRouters().some((other) => other.name === name)
+      ) {
+        return res
+          .status(409)
+          .json({ success: false, error: `Router ${name} already exists` });
+      }
+
+      const model = deviceType
+        ? routerSimulator.modelForDeviceType(deviceType)
+        : req.body.model;
+      if (deviceType && !model) {
+        return res.status(400).json({
+          success: false,
+          error: `Device type ${deviceType} cannot be simulated`,
+        });
+      }
+
+      const created = routerSimulator.createRouter(
+        name,
+        description,
+        managementIp,
+        model,
+      );
+      interfaces.forEach((iface: RouterInterface) =>
+        routerSimulator.addInterface(created.id, {
+          ...iface,
+          status: iface.status || "up",
+        }),
+      );
+      if (req.body.config) {
+        routerSimulator.updateRunningConfig(created.id, req.body.config);
+        // Configs without a hostname keep the name from the request
+        const named = routerSimulator
+          .getIosConfig(created.id)
+          ?.lines()
+          .some((line) => line.startsWith("hostname "));
+        if (!named) routerSimulator.updateRouter(created.id, { name });
+      }
+
+      return res.json({
+        success: true,
+        router: routerSimulator.getRouter(created.id),
+      });
+    } catch (error) {
+      logger.error(`Error creating simulated router: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// GET /api/simulator/platforms - Device personalities routers can be simulated as
+router.get("/platforms", (req: Request, res: Response) => {
+  try {
+    const platforms = routerSimulator.getPlatforms();
+    return res.json({ success: true, platforms });
+  } catch (error) {
+    logger.error(`Error getting simulator platforms: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// GET /api/simulator/routers/:routerId - Get a simulated router
+router.get(
+  "/routers/:routerId",
+  (req: Request<RouterParams>, res: Response) => {
+    try {
+      const simulated = routerSimulator.getRouter(req.params.routerId);
+      if (!simulated) return routerNotFound(res);
+
+      return res.json({ success: true, router: simulated });
+    } catch (error) {
+      logger.error(`Error getting simulated router: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// PATCH /api/simulator/routers/:routerId - Rename or update router details
+router.patch(
+  "/routers/:routerId",
+  validateSimulatedRouterPatch,
+  (req: Request<RouterParams>, res: Response) => {
+    try {
+      const { routerId } = req.params;
+      const { name } = req.body;
+      if (
+        name &&
+        routerSimulator
+          .getAllRouters()
+          .some((other) => other.name === name && other.id !== routerId)
+      ) {
+        return res
+          .status(409)
+          .json({ success: false, error: `Router ${name} already exists` });
+      }
+
+      const updated = routerSimulator.updateRouter(routerId, req.body);
+      if (!updated) return routerNotFound(res);
+
+      return res.json({ success: true, router: updated });
+    } catch (error) {
+      logger.error(`Error updating simulated router: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// DELETE /api/simulator/routers/:routerId - Delete a router and its links
+router.delete(
+  "/routers/:routerId",
+  (req: Request<RouterParams>, res: Response) => {
+    try {
+      const success = routerSimulator.deleteRouter(req.params.routerId);
+      return res.json({ success });
+    } catch (error) {
+      logger.error(`Error deleting simulated router: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// GET /api/simulator/routers/:routerId/interfaces - Get router interfaces
+router.get(
+  "/routers/:routerId/interfaces",
+  (req: Request<RouterParams>, res: Response) => {
+    try {
+      const simulated = routerSimulator.getRouter(req.params.routerId);
+      if (!simulated) return routerNotFound(res);
+
+      return res.json({ success: true, interfaces: simulated.interfaces });
+    } catch (error) {
+      logger.error(`Error getting simulated interfaces: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// POST /api/simulator/routers/:routerId/interfaces - Add or update an interface by name
+router.post(
+  "/routers/:routerId/interfaces",
+  validateRouterInterface,
+  (req: Request<RouterParams>, res: Response) => {
+    try {
+      const { routerId } = req.params;
+      if (
+        !routerSimulator.addInterface(routerId, { status: "up", ...req.body })
+      ) {
+        return routerNotFound(res);
+      }
+
+      const iface = routerSimulator
+        .getRouter(routerId)
+        ?.interfaces.find((candidate) => candidate.name === req.body.name);
+      return res.json({ success: true, interface: iface });
+    } catch (error) {
+      logger.error(`Error adding simulated interface: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// DELETE /api/simulator/routers/:routerId/interfaces/:interfaceName - Remove an
+// interface (URL-encode the slashes in its name)
+router.delete(
+  "/routers/:routerId/interfaces/:interfaceName",
+  (req: Request<InterfaceParams>, res: Response) => {
+    try {
+      const { routerId, interfaceName } = req.params;
+      const success = routerSimulator.removeInterface(routerId, interfaceName);
+      return res.json({ success });
+    } catch (error) {
+      logger.error(`Error removing simulated interface: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// POST /api/simulator/routers/:routerId/execute - Run CLI input in a session
+router.post(
+  "/routers/:routerId/execute",
+  validateSimulatorCommand,
+  async (req: Request<RouterParams>, res: Response) => {
+    try {
+      const { routerId } = req.params;
+      const { command, sessionId = uuidv4() } = req.body;
+
+      const result = await routerSimulator.executeCommand(
+        routerId,
+        command,
+        sessionId,
+      );
+      if (!result.success && result.error === "Router not found") {
+        return res.status(404).json(result);
+      }
+
+      return res
+        .status(result.success ? 200 : 502)
+        .json({ ...result, sessionId });
+    } catch (error) {
+      logger.error(`Error executing simulator command: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// GET /api/simulator/routers/:routerId/config - Get running and startup configs
+router.get(
+  "/routers/:routerId/config",
+  (req: Request<RouterParams>, res: Response) => {
+    try {
+      const routerConfig = routerSimulator.getRouterConfig(req.params.routerId);
+      if (!routerConfig) return routerNotFound(res);
+
+      return res.json({ success: true, config: routerConfig });
+    } catch (error) {
+      logger.error(`Error getting simulator config: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// PUT /api/simulator/routers/:routerId/config - Merge or replace the running config
+router.put(
+  "/routers/:routerId/config",
+  validateSimulatorConfig,
+  (req: Request<RouterParams>, res: Response) => {
+    try {
+      const { routerId } = req.params;
+      const { config, replace = false } = req.body;
+
+      if (replace) {
+        if (!routerSimulator.updateRunningConfig(routerId, config)) {
+          return routerNotFound(res);
+        }
+      } else {
+        // Applied to the config tree directly, so merging works offline
+        const result = routerSimulator.mergeRunningConfig(routerId, config);
+        if (!result.success) {
+          return res
+            .status(result.error === "Router not found" ? 404 : 400)
+            .json(result);
+        }
+      }
+
+      return res.json({
+        success: true,
+        config: routerSimulator.getRouterConfig(routerId),
+      });
+    } catch (error) {
+      logger.error(`Error applying simulator config: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// POST /api/simulator/routers/:routerId/config/save - Copy running to startup
+router.post(
+  "/routers/:routerId/config/save",
+  (req: Request<RouterParams>, res: Response) => {
+    try {
+      const { routerId } = req.params;
+      if (!routerSimulator.saveRunningConfigToStartup(routerId)) {
+        return routerNotFound(res);
+      }
+
+      return res.json({
+        success: true,
+        config: routerSimulator.getRouterConfig(routerId),
+      });
+    } catch (error) {
+      logger.error(`Error saving simulator config: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// DELETE /api/simulator/sessions/:sessionId - End a CLI session
+router.delete(
+  "/sessions/:sessionId",
+  (req: Request<SessionParams>, res: Response) => {
+    try {
+      const success = routerSimulator.disconnectSession(req.params.sessionId);
+      return res.json({ success });
+    } catch (error) {
+      logger.error(`Error ending simulator session: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// GET /api/simulator/links - Get all simulated links
+router.get("/links", (req: Request, res: Response) => {
+  try {
+    const links = routerSimulator.getLinks();
+    return res.json({ success: true, links });
+  } catch (error) {
+    logger.error(`Error getting simulated links: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// POST /api/simulator/links - Cable two router interfaces together
+router.post("/links", validateSimulatedLink, (req: Request, res: Response) => {
+  try {
+    const [a, b] = req.body.endpoints;
+    const result = routerSimulator.addLink(a, b);
+    return res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    logger.error(`Error adding simulated link: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// PATCH /api/simulator/links/:linkId - Bring a link up or down
+router.patch(
+  "/links/:linkId",
+  validateSimulatedLinkStatus,
+  (req: Request<LinkParams>, res: Response) => {
+    try {
+      const { linkId } = req.params;
+      if (!routerSimulator.setLinkStatus(linkId, req.body.status)) {
+        return res
+          .status(404)
+          .json({ success: false, error: "Link not found" });
+      }
+
+      const link = routerSimulator
+        .getLinks()
+        .find((candidate) => candidate.id === linkId);
+      return res.json({ success: true, link });
+    } catch (error) {
+      logger.error(`Error updating simulated link: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// DELETE /api/simulator/links/:linkId - Remove a link
+router.delete("/links/:linkId", (req: Request<LinkParams>, res: Response) => {
+  try {
+    const success = routerSimulator.removeLink(req.params.linkId);
+    return res.json({ success });
+  } catch (error) {
+    logger.error(`Error removing simulated link: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// POST /api/simulator/topology/import - Build routers and links from a lab file
+router.post(
+  "/topology/import",
+  validateTopologyImport,
+  (req: Request, res: Response) => {
+    try {
+      const { format, content, configs = {}, replace = false } = req.body;
+
+      let topology;
+      try {
+        topology = topologyIO.parse(content, format, configs);
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: `Could not parse ${format} topology: ${error instanceof Error ? error.message : error}`,
+        });
+      }
+
+      const result = routerSimulator.importTopology(topology, replace);
+      return res.status(result.success ? 200 : 409).json(result);
+    } catch (error) {
+      logger.error(`Error importing topology: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// GET /api/simulator/topology/export - Export the lab as containerlab YAML
+router.get("/topology/export", (req: Request, res: Response) => {
+  try {
+    const name = String(req.query.name || "lab");
+    const content = topologyIO.serializeContainerlab(
+      routerSimulator.exportTopology(name),
+    );
+    return res
+      .type("application/yaml")
+      .attachment(`${name}.clab.yml`)
+      .send(content);
+  } catch (error) {
+    logger.error(`Error exporting topology: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// GET /api/simulator/faults - Get injected and scheduled fault scenarios
+router.get("/faults", (req: Request, res: Response) => {
+  try {
+    const scenarios = faultInjector.getScenarios();
+    return res.json({ success: true, scenarios });
+  } catch (error) {
+    logger.error(`Error getting fault scenarios: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// POST /api/simulator/faults - Inject a fault now or after delaySeconds
+router.post("/faults", validateFault, (req: Request, res: Response) => {
+  try {
+    const result = faultInjector.injectFault(req.body);
+    return res.status(result.success ? 200 : 400).json(result);
+  } catch (error) {
+    logger.error(`Error injecting fault: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// GET /api/simulator/faults/:faultId - Get a scenario with its ground truth
+router.get("/faults/:faultId", (req: Request<FaultParams>, res: Response) => {
+  try {
+    const scenario = faultInjector.getScenario(req.params.faultId);
+    if (!scenario) {
+      return res
+        .status(404)
+        .json({ success: false, error: "Fault scenario not found" });
+    }
+
+    return res.json({ success: true, scenario });
+  } catch (error) {
+    logger.error(`Error getting fault scenario: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// DELETE /api/simulator/faults/:faultId - Clear a fault and restore the lab
+router.delete(
+  "/faults/:faultId",
+  (req: Request<FaultParams>, res: Response) => {
+    try {
+      const success = faultInjector.clearFault(req.params.faultId);
+      return res.json({ success });
+    } catch (error) {
+      logger.error(`Error clearing fault: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// POST /api/simulator/faults/:faultId/diagnose - Ask the troubleshooting agent and score it
+router.post(
+  "/faults/:faultId/diagnose",
+  async (req: Request<FaultParams>, res: Response) => {
+    try {
+      const result = await faultInjector.diagnose(req.params.faultId);
+      if (!result.success && result.error === "Fault scenario not found") {
+        return res.status(404).json(result);
+      }
+
+      return res.status(result.success ? 200 : 502).json(result);
+    } catch (error) {
+      logger.error(`Error diagnosing fault: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// POST /api/simulator/faults/:faultId/score - Score a diagnosis made elsewhere
+router.post(
+  "/faults/:faultId/score",
+  validateFaultDiagnosis,
+  (req: Request<FaultParams>, res: Response) => {
+    try {
+      const diagnosis = faultInjector.scoreDiagnosis(
+        req.params.faultId,
+        req.body,
+      );
+      if (!diagnosis) {
+        return res
+          .status(404)
+          .json({ success: false, error: "Fault scenario not found" });
+      }
+
+      return res.json({ success: true, diagnosis });
+    } catch (error) {
+      logger.error(`Error scoring diagnosis: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// GET /api/simulator/snapshots - List saved snapshots
+router.get("/snapshots", (req: Request, res: Response) => {
+  try {
+    return res.json({ success: true, snapshots: snapshots.listSnapshots() });
+  } catch (error) {
+    logger.error(`Error listing simulator snapshots: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// POST /api/simulator/snapshots - Save the lab, its faults and its log under a name
+router.post("/snapshots", validateSnapshot, (req: Request, res: Response) => {
+  try {
+    const snapshot = snapshots.saveSnapshot(req.body.name);
+    return res.json({
+      success: true,
+      snapshot: snapshots
+        .listSnapshots()
+        .find((summary) => summary.name === snapshot.name),
+    });
+  } catch (error) {
+    logger.error(`Error saving simulator snapshot: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// POST /api/simulator/snapshots/import - Load a snapshot exported earlier
+router.post(
+  "/snapshots/import",
+  validateSnapshotImport,
+  (req: Request, res: Response) => {
+    try {
+      snapshots.importSnapshot(req.body.snapshot);
+      return res.json({ success: true, name: req.body.snapshot.name });
+    } catch (error) {
+      logger.error(`Error importing simulator snapshot: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// GET /api/simulator/snapshots/:name - Export a full snapshot
+router.get(
+  "/snapshots/:name",
+  (req: Request<SnapshotParams>, res: Response) => {
+    try {
+      const snapshot = snapshots.getSnapshot(req.params.name);
+      if (!snapshot) return snapshotNotFound(res);
+
+      return res.json({ success: true, snapshot });
+    } catch (error) {
+      logger.error(`Error getting simulator snapshot: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// POST /api/simulator/snapshots/:name/restore - Return the lab to a snapshot
+router.post(
+  "/snapshots/:name/restore",
+  (req: Request<SnapshotParams>, res: Response) => {
+    try {
+      if (!snapshots.restoreSnapshot(req.params.name)) {
+        return snapshotNotFound(res);
+      }
+
+      return res.json({
+        success: true,
+        routers: routerSimulator.getAllRouters(),
+      });
+    } catch (error) {
+      logger.error(`Error restoring simulator snapshot: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// DELETE /api/simulator/snapshots/:name - Delete a snapshot
+router.delete(
+  "/snapshots/:name",
+  (req: Request<SnapshotParams>, res: Response) => {
+    try {
+      const success = snapshots.deleteSnapshot(req.params.name);
+      return res.json({ success });
+    } catch (error) {
+      logger.error(`Error deleting simulator snapshot: ${error}`);
+      return res.status(500).json({ success: false, error: String(error) });
+    }
+  },
+);
+
+// POST /api/simulator/reset - Clear faults and rebuild the default lab
+router.post("/reset", (req: Request, res: Response) => {
+  try {
+    snapshots.reset();
+    return res.json({
+      success: true,
+      routers: routerSimulator.getAllRouters(),
+    });
+  } catch (error) {
+    logger.error(`Error resetting simulator: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// GET /api/simulator/log - Operations recorded since the default lab was built
+router.get("/log", (req: Request, res: Response) => {
+  try {
+    return res.json({
+      success: true,
+      log: routerSimulator.getLog(),
+      dropped: routerSimulator.getDroppedLogEntries(),
+    });
+  } catch (error) {
+    logger.error(`Error getting simulator log: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+// POST /api/simulator/replay - Replay a log, by default the current one, onto a fresh lab
+router.post("/replay", validateReplay, (req: Request, res: Response) => {
+  try {
+    const { operations, fromDefault = true } = req.body;
+    const dropped = routerSimulator.getDroppedLogEntries();
+    // A log missing its oldest entries would rebuild a different lab
+    if (!operations && fromDefault && dropped > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `The log no longer starts at the default lab: its oldest ${dropped} entries were dropped`,
+      });
+    }
+    const result = snapshots.replay(
+      operations || routerSimulator.getLog(),
+      fromDefault,
+    );
+    return res.status(result.success ? 200 : 422).json(result);
+  } catch (error) {
+    logger.error(`Error replaying simulator log: ${error}`);
+    return res.status(500).json({ success: false, error: String(error) });
+  }
+});
+
+export { router as simulatorRoutes };
@@ -7,9 +7,17 @@ import { logger } from "./utils/logger";
 import { config } from "./config/config";
 import { deviceRoutes } from "./routes/devices";
 import { apiKeyRoutes } from "./routes/apiKeys";
-import { setupSocketHandlers } from "./socket/socketHandlers";
+import { simulatorRoutes } from "./routes/simulator";
+import { adminRoutes } from "./routes/admin";
+import {
+  setupSocketHandlers,
+  setupStatusBroadcast,
+} from "./socket/socketHandlers";
 import { errorHandler } from "./middleware/errorHandler";
 import { rateLimiter } from "./middleware/rateLimiter";
+import { closeDatabase } from "./database/database";
+import { connectionPool } from "./services/ConnectionPool";
+import { ReachabilityPoller } from "./services/ReachabilityPoller";
 
 // Load environment variables
 dotenv.config();
@@ -51,10 +59,16 @@ app.get("/health", (req, res) => {
 // API Routes
 app.use("/api/devices", deviceRoutes);
 app.use("/api/api-keys", apiKeyRoutes);
+app.use("/api/simulator", simulatorRoutes);
+app.use("/api/admin", adminRoutes);
 
 // Setup Socket.IO handlers
 setupSocketHandlers(io);
 
+// Background reachability checks
+const reachabilityPoller = new ReachabilityPoller();
+setupStatusBroadcast(io, reachabilityPoller);
+
 // Error handling middleware
 app.use(errorHandler);
 
@@ -70,12 +84,19 @@ server.listen(PORT, HOST, () => {
   logger.info(`Environment: ${config.nodeEnv}`);
   logger.info(`CORS Origins: ${config.corsOrigins.join(", ")}`);
   logger.info("=".repeat(50));
+
+  if (config.pollerEnabled) {
+    reachabilityPoller.start();
+  }
 });
 
 // Graceful shutdown
 process.on("SIGTERM", () => {
   logger.info("SIGTERM received, shutting down gracefully");
+  reachabilityPoller.stop();
   server.close(() => {
+    connectionPool.closeAll();
+    closeDatabase();
     logger.info("Process terminated");
     process.exit(0);
   });
@@ -83,7 +104,10 @@ process.on("SIGTERM", () => {
 
 process.on("SIGINT", () => {
   logger.info("SIGINT received, shutting down gracefully");
+  reachabilityPoller.stop();
   server.close(() => {
+    connectionPool.closeAll();
+    closeDatabase();
     logger.info("Process terminated");
     process.exit(0);
   });
@@ -0,0 +1,680 @@
+import { createHash } from "crypto";
+import {
+  CliError,
+  CliNode,
+  CliReply,
+  IosCliEngine,
+  ROUTE_CODES,
+} from "./IosCliEngine";
+import { IosConfigTree } from "./IosConfigTree";
+import {
+  SimulatedRouter,
+  RouterInterface,
+  CliContext,
+  ConfigCommand,
+  DevicePlatform,
+} from "../types";
+import {
+  ipToNumber,
+  isIpv4,
+  maskToPrefix,
+  prefixToMask,
+  inSubnet,
+  invertMask,
+} from "../utils/ipv4";
+
+// ASA names interfaces with nameif and routes through those names; OSPF
+// network statements take masks rather than wildcards
+export class AsaCliEngine extends IosCliEngine {
+  public readonly platform: DevicePlatform = "asa";
+  public readonly vendor: string = "Cisco";
+  public readonly defaultModel: string = "ASAv";
+  public readonly softwareVersion: string = "ASA 9.16(2)";
+  public readonly models: RegExp = /asa/i;
+  public readonly deviceTypes: string[] = ["cisco_asa", "Firewall"];
+  public readonly evidenceCommands: string[] = [
+    "show interface ip brief",
+    "show ospf neighbor",
+    "show bgp summary",
+    "show route",
+    "show cpu usage",
+    "show memory",
+  ];
+
+  // Lines of "show running-config" that are not commands
+  public configCommands(text: string): ConfigCommand[] {
+    return IosConfigTree.commands(text).filter(
+      ({ line }) => !/^(:|ASA Version|Cryptochecksum)/.test(line),
+    );
+  }
+
+  public render(config: IosConfigTree): string {
+    const body = this.nativeConfig(config)
+      .render()
+      .replace(/\nend$/, "");
+    return `ASA Version ${this.version()} \n${body}\n: end`;
+  }
+
+  protected translate(
+    section: string[],
+    command: string,
+    config: IosConfigTree,
+  ): ConfigCommand[] | string {
+    const route = command.match(/^route (\S+) (\S+) (\S+) (\S+)( \d+)?$/);
+    if (section.length === 0 && route) {
+      const [, name, network, mask, gateway, distance = ""] = route;
+      if (!this.interfaceByNameif(config, name)) {
+        return `ERROR: '${name}' is not a valid interface name`;
+      }
+      return [
+        { path: [], line: `ip route ${network} ${mask} ${gateway}${distance}` },
+      ];
+    }
+
+    const network = command.match(/^network (\S+) (\S+) area (\S+)$/);
+    if (section[0]?.startsWith("router ospf") && network) {
+      const [, address, mask, area] = network;
+      if (!isIpv4(mask) || maskToPrefix(mask) < 0) {
+        return "ERROR: Invalid network mask";
+      }
+      return [
+        {
+          path: section,
+          line: `network ${address} ${invertMask(mask)} area ${area}`,
+        },
+      ];
+    }
+
+    const user = command.match(
+      /^username (\S+) password (\S+)( privilege \d+)?$/,
+    );
+    if (user) {
+      const [, name, secret, privilege = ""] = user;
+      return [
+        {
+          path: section,
+          line: `username ${name}${privilege} secret ${secret}`,
+        },
+      ];
+    }
+
+    const renamed = section[0]?.startsWith("interface ")
+      ? command.replace(/^ospf /, "ip ospf ")
+      : command
+          .replace(/^domain-name /, "ip domain-name ")
+          .replace(/^enable password /, "enable secret ");
+    return super.translate(section, renamed, config);
+  }
+
+  // ASA has no terminal lines, and interfaces join OSPF by network statement
+  protected fromIos(
+    path: string[],
+    line: string,
+    config: IosConfigTree,
+  ): ConfigCommand[] {
+    if (
+      path[0]?.startsWith("line ") ||
+      line.startsWith("line ") ||
+      line === "service password-encryption"
+    ) {
+      return [];
+    }
+
+    const route = line.match(/^ip route (\S+) (\S+) (\S+)( \d+)?$/);
+    if (route) {
+      const [, network, mask, gateway, distance = ""] = route;
+      return isIpv4(gateway)
+        ? [
+            {
+              path,
+              line: `route ${this.nameifFor(config, gateway)} ${network} ${mask} ${gateway}${distance}`,
+            },
+          ]
+        : [];
+    }
+
+    if (path[0]?.startsWith("interface ")) {
+      const area = line.match(/^ip ospf (\S+) area (\S+)$/);
+      if (area) {
+        const address = config
+          .lines(path)
+          .map((text) => text.match(/^ip address (\S+) \S+$/))
+          .find((match) => match !== null)?.[1];
+        return address
+          ? [
+              {
+                path: [`router ospf ${area[1]}`],
+                line: `network ${address} 255.255.255.255 area ${area[2]}`,
+              },
+            ]
+          : [];
+      }
+      return [{ path, line: line.replace(/^ip ospf /, "ospf ") }];
+    }
+
+    const network = line.match(/^network (\S+) (\S+) area (\S+)$/);
+    if (path[0]?.startsWith("router ospf") && network) {
+      const [, address, wildcard, area] = network;
+      return [
+        {
+          path,
+          line: `network ${address} ${invertMask(wildcard)} area ${area}`,
+        },
+      ];
+    }
+
+    const user = line.match(/^username (\S+)( privilege \d+)? secret (\S+)$/);
+    if (user) {
+      const [, name, privilege = "", secret] = user;
+      return [
+        { path, line: `username ${name} password ${secret}${privilege}` },
+      ];
+    }
+
+    return [
+      {
+        path,
+        line: line
+          .replace(/^ip domain-name /, "domain-name ")
+          .replace(/^enable secret /, "enable password "),
+      },
+    ];
+  }
+
+  protected save(context: CliContext): string {
+    context.saveConfig();
+    const { runningConfig } = context.router;
+    const checksum = this.checksum(runningConfig).match(/.{8}/g)!.join(" ");
+    return `Building configuration...\nCryptochecksum: ${checksum} \n\n${Buffer.byteLength(runningConfig)} bytes copied in 0.140 secs\n[OK]`;
+  }
+
+  protected errorResult(
+    context: CliContext,
+    line: string,
+    walk: CliError,
+  ): CliReply {
+    const reply = super.errorResult(context, line, walk);
+    return { ...reply, output: reply.output.replace(/^(\s*)%/m, "$1ERROR: %") };
+  }
+
+  protected buildExecCommands(): CliNode[] {
+    return this.editTree(super.buildExecCommands(), ["terminal"], (node) => ({
+      ...node,
+      children: [
+        {
+          keyword: "pager",
+          help: "Control page length for pagers",
+          children: [
+            {
+              keyword: "<0-2147483647>",
+              help: "Number of lines (0 to disable paging)",
+              argument: "number",
+              range: [0, 2147483647],
+              run: () => "",
+            },
+          ],
+        },
+      ],
+    }));
+  }
+
+  protected buildShowCommands(): CliNode[] {
+    return [
+      {
+        keyword: "arp",
+        help: "Show the ARP table",
+        run: ({ router }) => this.showArp(router),
+      },
+      {
+        keyword: "bgp",
+        help: "Show BGP information",
+        children: [
+          {
+            keyword: "summary",
+            help: "Summary of BGP neighbor status",
+            run: ({ router }) => this.showIpBgpSummary(router),
+          },
+        ],
+      },
+      {
+        keyword: "clock",
+        help: "Display the system clock",
+        run: () => this.showClock(),
+      },
+      {
+        keyword: "cpu",
+        help: "Show CPU information",
+        children: [
+          {
+            keyword: "usage",
+            help: "Show CPU usage",
+            run: ({ router }) => this.showCpuUsage(router),
+          },
+        ],
+      },
+      {
+        keyword: "interface",
+        help: "Show interface status and statistics",
+        run: ({ router }) => this.showInterface(router, router.interfaces),
+        children: [
+          {
+            keyword: "INTERFACE",
+            help: "",
+            argument: "interface",
+            run: ({ router }, [name]) =>
+              this.showInterface(
+                router,
+                router.interfaces.filter((iface) => iface.name === name),
+              ),
+          },
+          {
+            keyword: "ip",
+            help: "Show IP information",
+            children: [
+              {
+                keyword: "brief",
+                help: "Show brief IP information",
+                run: ({ router }) => this.showIpInterfaceBrief(router),
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "inventory",
+        help: "Show the physical inventory",
+        run: ({ router }) => this.showInventory(router),
+      },
+      {
+        keyword: "memory",
+        help: "System memory utilization",
+        run: ({ router }) => this.showMemory(router),
+      },
+      {
+        keyword: "ospf",
+        help: "Show OSPF information",
+        children: [
+          {
+            keyword: "neighbor",
+            help: "Neighbor list",
+            run: ({ router }) => this.showIpOspfNeighbor(router),
+          },
+        ],
+      },
+      {
+        keyword: "route",
+        help: "Show the routing table",
+        run: ({ router }) => this.showRoute(router),
+      },
+      {
+        keyword: "running-config",
+        help: "Show the running configuration",
+        privileged: true,
+        run: ({ router }) => this.showRunningConfig(router),
+      },
+      {
+        keyword: "startup-config",
+        help: "Show the startup configuration",
+        privileged: true,
+        run: ({ router }) => this.showStartupConfig(router),
+      },
+      {
+        keyword: "version",
+        help: "Display system software version",
+        run: ({ router }) => this.showVersion(router),
+      },
+    ];
+  }
+
+  protected buildConfigCommands(): CliNode[] {
+    const commands = super
+      .buildConfigCommands()
+      .filter(
+        (node) =>
+          !["enable", "ip", "line", "service", "username"].includes(
+            node.keyword,
+          ),
+      );
+    const word = (help: string, children?: CliNode[]): CliNode => ({
+      keyword: "WORD",
+      help,
+      argument: "word",
+      run: this.configure,
+      children,
+    });
+
+    return this.sorted([
+      ...commands,
+      {
+        keyword: "domain-name",
+        help: "Change domain name",
+        children: [word("Domain name")],
+      },
+      {
+        keyword: "enable",
+        help: "Configure password for the enable command",
+        children: [
+          {
+            keyword: "password",
+            help: "Assign the privileged level password",
+            children: [word("The enable password")],
+          },
+        ],
+      },
+      {
+        keyword: "route",
+        help: "Configure a static route for an interface",
+        children: [
+          {
+            keyword: "WORD",
+            help: "Name of the interface the gateway is reached through",
+            argument: "word",
+            children: [
+              {
+                keyword: "A.B.C.D",
+                help: "IP destination address",
+                argument: "ip",
+                children: [
+                  {
+                    keyword: "A.B.C.D",
+                    help: "IP destination netmask",
+                    argument: "ip",
+                    children: [
+                      {
+                        keyword: "A.B.C.D",
+                        help: "IP address of the gateway",
+                        argument: "ip",
+                        run: this.configure,
+                        children: [
+                          {
+                            keyword: "<1-255>",
+                            help: "Distance metric for this route",
+                            argument: "number",
+                            range: [1, 255],
+                            run: this.configure,
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "username",
+        help: "Configure user authentication local database",
+        children: [
+          {
+            keyword: "WORD",
+            help: "Username",
+            argument: "word",
+            children: [
+              {
+                keyword: "password",
+                help: "The password for this user",
+                children: [
+                  word("The password", [
+                    {
+                      keyword: "privilege",
+                      help: "Enter the privilege level for this user",
+                      children: [
+                        {
+                          keyword: "<0-15>",
+                          help: "The privilege level",
+                          argument: "number",
+                          range: [0, 15],
+                          run: this.configure,
+                        },
+                      ],
+                    },
+                  ]),
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  }
+
+  protected buildInterfaceCommands(): CliNode[] {
+    const commands = super.buildInterfaceCommands();
+    const ip = commands.find((node) => node.keyword === "ip")!;
+    const ospf = ip.children!.find((node) => node.keyword === "ospf")!;
+
+    return this.sorted([
+      ...commands.filter((node) => node.keyword !== "ip"),
+      {
+        ...ip,
+        children: ip.children!.filter((node) => node.keyword !== "ospf"),
+      },
+      {
+        keyword: "nameif",
+        help: "Assign name to interface",
+        children: [
+          {
+            keyword: "WORD",
+            help: "Name of the interface",
+            argument: "word",
+            run: this.configure,
+          },
+        ],
+      },
+      {
+        // "ip ospf <process> area" has no ASA form
+        ...ospf,
+        children: ospf.children!.filter((node) => !node.argument),
+      },
+      {
+        keyword: "security-level",
+        help: "Specify the security level of this interface",
+        children: [
+          {
+            keyword: "<0-100>",
+            help: "Security level",
+            argument: "number",
+            range: [0, 100],
+            run: this.configure,
+          },
+        ],
+      },
+    ]);
+  }
+
+  protected buildOspfCommands(): CliNode[] {
+    return this.editTree(
+      super.buildOspfCommands(),
+      ["network", "A.B.C.D", "A.B.C.D"],
+      (node) => ({ ...node, help: "OSPF network mask" }),
+    );
+  }
+
+  protected showVersion(router: SimulatedRouter): string {
+    const version = this.version(router);
+    return [
+      "",
+      `Cisco Adaptive Security Appliance Software Version ${version} `,
+      "SSP Operating System Version 2.10(1.162)",
+      "Device Manager Version 7.16(1)",
+      "",
+      "Compiled on Thu 03-Jun-21 19:44 GMT by builders",
+      `System image file is "boot:/asa${version.replace(/\D/g, "")}-smp-k8.bin"`,
+      'Config file at boot was "startup-config"',
+      "",
+      `${router.name} up ${this.formatUptime(router.createdAt)}`,
+      "",
+      `Hardware:   ${router.model}, 2048 MB RAM, CPU Xeon 4100/6100/8100 series 2200 MHz,`,
+      "Model Id:   ASAv10",
+      "",
+      ...router.interfaces.map(
+        (iface, index) =>
+          ` ${index}: Int: ${iface.name.padEnd(20)}: address is ${iface.macAddress}, irq 10`,
+      ),
+      "",
+      `Serial Number: ${router.serialNumber}`,
+      "Configuration register is 0x1",
+    ].join("\n");
+  }
+
+  // Known neighbors, keyed by the nameif of the interface they are on
+  protected showArp(router: SimulatedRouter): string {
+    const nameifs = this.nameifs(router);
+    return router.arpTable
+      .filter((entry) => entry.ageMinutes !== null)
+      .sort((a, b) => ipToNumber(a.ipAddress) - ipToNumber(b.ipAddress))
+      .map(
+        (entry) =>
+          `\t${nameifs.get(entry.interface ?? "") ?? entry.interface} ${entry.ipAddress} ${entry.macAddress ?? "0000.0000.0000"} ${(entry.ageMinutes ?? 0) * 60}`,
+      )
+      .join("\n");
+  }
+
+  protected showRunningConfig(router: SimulatedRouter): string {
+    const config = router.runningConfig.replace(
+      /\n: end$/,
+      `\nCryptochecksum:${this.checksum(router.runningConfig)}\n: end`,
+    );
+    return `: Saved\n\n:\n: Serial Number: ${router.serialNumber}\n: Hardware:   ${router.model}, 2048 MB RAM, CPU Xeon 4100/6100/8100 series 2200 MHz\n:\n${config}`;
+  }
+
+  private showInterface(
+    router: SimulatedRouter,
+    interfaces: RouterInterface[],
+  ): string {
+    const nameifs = this.nameifs(router);
+    return interfaces
+      .map((iface) => {
+        const lines = [
+          `Interface ${iface.name} "${nameifs.get(iface.name) ?? ""}", is ${iface.status}, line protocol is ${this.lineProtocol(iface)}`,
+          "  Hardware is net_vmxnet3, BW 1000 Mbps, DLY 10 usec",
+          "\tAuto-Duplex(Full-duplex), Auto-Speed(1000 Mbps)",
+        ];
+        if (iface.description) {
+          lines.push(`\tDescription: ${iface.description}`);
+        }
+        lines.push(
+          `\tMAC address ${iface.macAddress}, MTU 1500`,
+          iface.ipAddress && iface.subnetMask
+            ? `\tIP address ${iface.ipAddress}, subnet mask ${iface.subnetMask}`
+            : "\tIP address unassigned",
+        );
+        return lines.join("\n");
+      })
+      .join("\n");
+  }
+
+  // ASA prints masks and routes through interface names
+  private showRoute(router: SimulatedRouter): string {
+    const nameifs = this.nameifs(router);
+    const defaultRoute = router.routingTable.find(
+      (route) => route.prefixLength === 0 && route.nextHop,
+    );
+    const routes = [...router.routingTable].sort(
+      (a, b) =>
+        ipToNumber(a.network) - ipToNumber(b.network) ||
+        a.prefixLength - b.prefixLength,
+    );
+
+    return [
+      ROUTE_CODES,
+      "",
+      defaultRoute
+        ? `Gateway of last resort is ${defaultRoute.nextHop} to network 0.0.0.0`
+        : "Gateway of last resort is not set",
+      "",
+      ...routes.map((route) => {
+        const destination = `${route.network} ${prefixToMask(route.prefixLength)}`;
+        const via = nameifs.get(route.interface ?? "") ?? route.interface;
+        const detail =
+          !route.nextHop && route.interface
+            ? `is directly connected, ${via}`
+            : [
+                `[${route.adminDistance ?? 0}/${route.metric ?? 0}] via ${route.nextHop}`,
+                route.age,
+                via,
+              ]
+                .filter(Boolean)
+                .join(", ");
+        return `${route.code.padEnd(9)}${destination} ${detail}`;
+      }),
+    ].join("\n");
+  }
+
+  private showCpuUsage(router: SimulatedRouter): string {
+    const cpu = Math.round(router.cpuUsage);
+    return `CPU utilization for 5 seconds = ${cpu}%; 1 minute: ${cpu}%; 5 minutes: ${cpu}%`;
+  }
+
+  private showMemory(router: SimulatedRouter): string {
+    const total = 2147483648;
+    const used = Math.round((total * router.memoryUsage) / 100);
+    const row = (label: string, bytes: number, percent: number) =>
+      `${label.padEnd(14)}${String(bytes).padStart(16)} bytes (${Math.round(percent)}%)`;
+    return [
+      row("Free memory:", total - used, 100 - router.memoryUsage),
+      row("Used memory:", used, router.memoryUsage),
+      "-------------     ------------------",
+      row("Total memory:", total, 100),
+    ].join("\n");
+  }
+
+  private version(router?: SimulatedRouter): string {
+    return (router?.iosVersion ?? this.softwareVersion).replace(/^ASA\s*/i, "");
+  }
+
+  private checksum(config: string): string {
+    return createHash("md5").update(config).digest("hex");
+  }
+
+  private nameifs(router: SimulatedRouter): Map<string, string> {
+    const config = new IosConfigTree(router.runningConfig);
+    const names = new Map<string, string>();
+    config.sections("interface").forEach((header) => {
+      const nameif = config
+        .lines([header])
+        .find((line) => line.startsWith("nameif "));
+      if (nameif) {
+        names.set(header.slice("interface ".length), nameif.slice(7));
+      }
+    });
+    return names;
+  }
+
+  private interfaceByNameif(
+    config: IosConfigTree,
+    name: string,
+  ): string | undefined {
+    return config
+      .sections("interface")
+      .find((header) => config.lines([header]).includes(`nameif ${name}`));
+  }
+
+  // The nameif of the interface on the gateway's subnet
+  private nameifFor(config: IosConfigTree, gateway: string): string {
+    const nameif = (header: string) =>
+      config
+        .lines([header])
+        .find((line) => line.startsWith("nameif "))
+        ?.slice("nameif ".length);
+    const headers = config.sections("interface");
+    const connected = headers.find((header) =>
+      config.lines([header]).some((line) => {
+        const address = line.match(/^ip address (\S+) (\S+)$/);
+        const prefixLength = address ? maskToPrefix(address[2]) : -1;
+        return (
+          address !== null &&
+          prefixLength >= 0 &&
+          inSubnet(gateway, address[1], prefixLength)
+        );
+      }),
+    );
+    return (
+      (connected && nameif(connected)) ||
+      headers.map(nameif).find(Boolean) ||
+      "outside"
+    );
+  }
+}
@@ -0,0 +1,303 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { ClaudeProvider } from "./ClaudeProvider";
+import { LLMIntegration } from "./LLMIntegration";
+import { LLMProviderConfig } from "../types";
+
+interface Exchange {
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+// Answers /v1/messages as the Anthropic Messages API would, choosing the
+// reply by API key
+const startMessagesApi = (): Promise<{
+  server: http.Server;
+  baseUrl: string;
+  received: Exchange[];
+}> => {
+  const received: Exchange[] = [];
+  const server = http.createServer((req, res) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      const body = JSON.parse(data || "{}");
+      received.push({ headers: req.headers, body });
+      const reply = (status: number, payload: object) => {
+        res.writeHead(status, { "content-type": "application/json" });
+        res.end(JSON.stringify(payload));
+      };
+
+      switch (req.headers["x-api-key"]) {
+        case "rate-limited":
+          return reply(429, {
+            type: "error",
+            error: {
+              type: "rate_limit_error",
+              message: "Number of requests has exceeded your rate limit",
+            },
+          });
+        case "revoked":
+          return reply(401, {
+            type: "error",
+            error: {
+              type: "authentication_error",
+              message: "invalid x-api-key",
+            },
+          });
+        case "overloaded":
+          return reply(529, {
+            type: "error",
+            error: { type: "overloaded_error", message: "Overloaded" },
+          });
+      }
+
+      if (req.headers["x-api-key"] === "stalls") {
+        // Starts the reply, then goes quiet with the connection open
+        res.writeHead(200, { "content-type": "text/event-stream" });
+        res.write(
+          `data: ${JSON.stringify({
+            type: "content_block_delta",
+            delta: { type: "text_delta", text: "hostname " },
+          })}\n\n`,
+        );
+        return;
+      }
+
+      if (body.stream) {
+        res.writeHead(200, { "content-type": "text/event-stream" });
+        [
+          {
+            type: "message_start",
+            message: { model: "claude-3-5-haiku-20241022" },
+          },
+          {
+            type: "content_block_delta",
+            delta: { type: "text_delta", text: "hostname " },
+          },
+          {
+            type: "content_block_delta",
+            delta: { type: "text_delta", text: "R1\n" },
+          },
+          { type: "message_delta", delta: { stop_reason: "end_turn" } },
+        ].forEach((event) =>
+          res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+        );
+        return res.end();
+      }
+
+      return reply(200, {
+        model: "claude-3-5-haiku-20241022",
+        content: [{ type: "text", text: " interface Loopback0\n" }],
+        stop_reason: "max_tokens",
+      });
+    });
+  });
+
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () =>
+      resolve({
+        server,
+        baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        received,
+      }),
+    ),
+  );
+};
+
+describe("ClaudeProvider", () => {
+  const provider = new ClaudeProvider();
+  let server: http.Server;
+  let baseUrl: string;
+  let received: Exchange[];
+
+  const settings = (apiKey: string): LLMProviderConfig => ({
+    provider: "claude",
+    apiKey,
+    baseUrl,
+    models: provider.models,
+    defaultModel: provider.defaultModel,
+    priority: 0,
+    timeout: 5000,
+    maxTokens: 256,
+  });
+
+  beforeAll(async () => {
+    ({ server, baseUrl, received } = await startMessagesApi());
+  });
+
+  afterAll((done) => {
+    server.closeAllConnections();
+    server.close(() => done());
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  it("sends the system prompt, key and version and reads the reply", async () => {
+    const completion = await provider.complete(settings("good"), {
+      system: "You are a network engineer",
+      prompt: "Add a loopback",
+      temperature: 1.5,
+    });
+
+    expect(completion).toEqual({
+      text: "interface Loopback0",
+      model: "claude-3-5-haiku-20241022",
+      truncated: true,
+    });
+    expect(received[0].headers).toMatchObject({
+      "x-api-key": "good",
+      "anthropic-version": "2023-06-01",
+    });
+    expect(received[0].body).toMatchObject({
+      model: provider.defaultModel,
+      system: "You are a network engineer",
+      messages: [{ role: "user", content: "Add a loopback" }],
+      max_tokens: 256,
+      temperature: 1,
+      stream: false,
+    });
+  });
+
+  it("streams text deltas", async () => {
+    const pieces: string[] = [];
+
+    const completion = await provider.stream(
+      settings("good"),
+      { system: "", prompt: "Set the hostname" },
+      (text) => pieces.push(text),
+    );
+
+    expect(pieces).toEqual(["hostname ", "R1\n"]);
+    expect(completion).toEqual({
+      text: "hostname R1",
+      model: "claude-3-5-haiku-20241022",
+      truncated: false,
+    });
+  });
+
+  it("abandons a stream that stops sending", async () => {
+    const pieces: string[] = [];
+
+    const error = await provider
+      .stream(
+        { ...settings("stalls"), streamIdleTimeout: 200 },
+        { system: "", prompt: "Set the hostname" },
+        (text) => pieces.push(text),
+      )
+      .catch((error) => error);
+
+    expect(pieces).toEqual(["hostname "]);
+    expect(provider.describeError(error)).toBe(
+      "Claude stream stalled: no data for 0.2s",
+    );
+  });
+
+  it("stops a stream when the caller cancels it", async () => {
+    const controller = new AbortController();
+
+    const error = await provider
+      .stream(
+        settings("stalls"),
+        { system: "", prompt: "Set the hostname", signal: controller.signal },
+        () => controller.abort(),
+      )
+      .catch((error) => error);
+
+    expect(provider.describeError(error)).toBe("Claude request cancelled");
+  });
+
+  it("maps API errors to a reason with the server's message", async () => {
+    const failure = (apiKey: string, stream = false) =>
+      (stream
+        ? provider.stream(
+            settings(apiKey),
+            { system: "", prompt: "x" },
+            () => undefined,
+          )
+        : provider.complete(settings(apiKey), { system: "", prompt: "x" })
+      ).catch((error) => error);
+
+    const revoked = await failure("revoked");
+    expect(provider.describeError(revoked)).toBe(
+      "Claude invalid API key: invalid x-api-key",
+    );
+    expect(provider.isRetryable(revoked)).toBe(false);
+
+    // A streamed error body is read before it is described
+    const streamed = await failure("revoked", true);
+    expect(provider.describeError(streamed)).toBe(
+      "Claude invalid API key: invalid x-api-key",
+    );
+
+    const overloaded = await failure("overloaded");
+    expect(provider.describeError(overloaded)).toBe(
+      "Claude overloaded: Overloaded",
+    );
+    expect(provider.isRetryable(overloaded)).toBe(true);
+  });
+
+  describe("through LLMIntegration", () => {
+    let llm: LLMIntegration;
+
+    const addClaudeKey = (name: string, key: string, priority: number) =>
+      llm.addApiKey({
+        name,
+        provider: "claude",
+        key,
+        baseUrl,
+        priority,
+        isActive: true,
+      });
+
+    beforeEach(() => {
+      llm = new LLMIntegration();
+    });
+
+    it("fails over to the next key when rate limited", async () => {
+      addClaudeKey("Claude primary", "rate-limited", 0);
+      addClaudeKey("Claude backup", "good", 1);
+
+      const result = await llm.generateConfiguration(
+        "Add a loopback",
+        "claude",
+      );
+
+      expect(result).toMatchObject({
+        success: true,
+        configuration: "interface Loopback0",
+        provider: "claude",
+        skipped: [
+          {
+            provider: "claude",
+            keyName: "Claude primary",
+            reason:
+              "Claude rate limit exceeded: Number of requests has exceeded your rate limit",
+          },
+        ],
+      });
+      expect(received.map(({ headers }) => headers["x-api-key"])).toEqual([
+        "rate-limited",
+        "good",
+      ]);
+    });
+
+    it("stops at an error the next key would not fix", async () => {
+      addClaudeKey("Claude primary", "revoked", 0);
+      addClaudeKey("Claude backup", "good", 1);
+
+      const result = await llm.generateConfiguration(
+        "Add a loopback",
+        "claude",
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        error: "Claude invalid API key: invalid x-api-key",
+      });
+      expect(received).toHaveLength(1);
+    });
+  });
+});
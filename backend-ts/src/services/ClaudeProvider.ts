@@ -0,0 +1,131 @@
+import axios from "axios";
+import { LLMProvider } from "./LLMProvider";
+import { config as settings } from "../config/config";
+import {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMModelInfo,
+  LLMProviderConfig,
+} from "../types";
+
+const API_VERSION = "2023-06-01";
+
+// Anthropic Messages API: the system prompt is a top-level field, max_tokens
+// is required and temperature is limited to 0-1
+export class ClaudeProvider extends LLMProvider {
+  public readonly name: string = "claude";
+  public readonly label: string = "Claude";
+  public readonly defaultModel: string = "claude-3-5-haiku-latest";
+  public readonly models: string[] = [
+    "claude-3-5-haiku-latest",
+    "claude-3-7-sonnet-latest",
+    "claude-sonnet-4-0",
+    "claude-opus-4-0",
+  ];
+  public readonly defaultBaseUrl: string = "https://api.anthropic.com";
+  public readonly defaults: Partial<LLMProviderConfig> = {
+    apiKey: settings.claudeApiKey,
+    baseUrl: settings.claudeBaseUrl,
+    maxTokens: settings.claudeMaxTokens,
+  };
+
+  public async complete(
+    config: LLMProviderConfig,
+    request: LLMCompletionRequest,
+  ): Promise<LLMCompletion> {
+    const model = this.model(config, request);
+    const response = await this.post(
+      config,
+      `${this.baseUrl(config)}/v1/messages`,
+      this.body(config, request, model, false),
+      this.headers(config),
+      request,
+    );
+
+    const text = (response.data.content || [])
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("");
+    return {
+      text: text.trim(),
+      model: response.data.model || model,
+      truncated: response.data.stop_reason === "max_tokens",
+    };
+  }
+
+  public async stream(
+    config: LLMProviderConfig,
+    request: LLMCompletionRequest,
+    onText: (text: string) => void,
+  ): Promise<LLMCompletion> {
+    const model = this.model(config, request);
+    const completion: LLMCompletion = { text: "", model, truncated: false };
+    await this.postStream(
+      config,
+      `${this.baseUrl(config)}/v1/messages`,
+      this.body(config, request, model, true),
+      this.headers(config),
+      request,
+      (line) => {
+        if (!line.startsWith("data:")) return;
+        const event = JSON.parse(line.slice("data:".length));
+
+        switch (event.type) {
+          case "message_start":
+            completion.model = event.message?.model || model;
+            break;
+          case "content_block_delta":
+            if (event.delta?.type === "text_delta") {
+              completion.text += event.delta.text;
+              onText(event.delta.text);
+            }
+            break;
+          case "message_delta":
+            completion.truncated = event.delta?.stop_reason === "max_tokens";
+            break;
+          case "error":
+            throw new Error(`${this.label} ${event.error?.message}`);
+        }
+      },
+    );
+
+    completion.text = completion.text.trim();
+    return completion;
+  }
+
+  public async listModels(config: LLMProviderConfig): Promise<LLMModelInfo[]> {
+    const response = await axios.get(`${this.baseUrl(config)}/v1/models`, {
+      headers: this.headers(config),
+      params: { limit: 1000 },
+      timeout: config.timeout,
+    });
+    return (response.data.data || []).map((model: any) => ({
+      id: model.id,
+      name: model.display_name,
+      streaming: this.streaming,
+    }));
+  }
+
+  private headers(config: LLMProviderConfig): Record<string, string> {
+    return {
+      "x-api-key": config.apiKey || "",
+      "anthropic-version": API_VERSION,
+    };
+  }
+
+  private body(
+    config: LLMProviderConfig,
+    request: LLMCompletionRequest,
+    model: string,
+    stream: boolean,
+  ): object {
+    return {
+      model,
+      system: request.system,
+      messages: [{ role: "user", content: request.prompt }],
+      max_tokens: config.maxTokens,
+      temperature: Math.min(Math.max(request.temperature ?? 0.1, 0), 1),
+      stream,
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { CliSession } from "./CliSession";
+import { NetworkDevice } from "../types";
+
+// Replies to each written line with the queued output, or stays silent
+class ScriptedSession extends CliSession {
+  public readonly protocol = "ssh" as const;
+  public replies: string[] = [];
+
+  public isOpen(): boolean {
+    return true;
+  }
+
+  public deliver(data: string): void {
+    this.receive(data);
+  }
+
+  protected async connectTransport(): Promise<void> {
+    setImmediate(() => this.receive("R1#"));
+  }
+
+  protected writeRaw(data: string): void {
+    const reply = this.replies.shift();
+    if (reply !== undefined) {
+      setImmediate(() => this.receive(`${data.trim()}\r\n${reply}`));
+    }
+  }
+
+  protected closeTransport(): void {}
+}
+
+describe("CliSession", () => {
+  const device: NetworkDevice = {
+    id: "1",
+    name: "R1",
+    ip: "127.0.0.1",
+    deviceType: "cisco_ios",
+    status: "online",
+    lastSeen: null,
+    createdAt: new Date().toISOString(),
+  };
+
+  it("discards partial output when a read times out", async () => {
+    const session = new ScriptedSession(device, 200);
+    session.replies.push("R1#");
+    await session.open();
+
+    // No prompt follows, so the read gives up with this output buffered
+    const stalled = session.sendCommand("show tech-support");
+    session.deliver(
+      "show tech-support\r\n------ show clock ------\r\nR1>stale",
+    );
+    await expect(stalled).rejects.toThrow("Timed out waiting for prompt");
+
+    session.deliver("late output from the stalled command\r\n");
+    session.replies.push("Cisco IOS Software\r\nR1#");
+    await expect(session.sendCommand("show version")).resolves.toBe(
+      "Cisco IOS Software",
+    );
+    expect(session.getPrompt()).toBe("R1#");
+  });
+});
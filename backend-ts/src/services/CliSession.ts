@@ -0,0 +1,199 @@
+import { logger } from "../utils/logger";
+import { NetworkDevice } from "../types";
+
+// Matches IOS prompts such as "R1>", "R1#" or "R1(config-if)#" at the end of the buffer
+export const PROMPT_PATTERN =
+  /(?:^|\n)([\w.\-\/:@]+(?:\([\w.\-\/]+\))?[>#])\s*$/;
+export const PASSWORD_PATTERN = /[Pp]assword:\s*$/;
+const MORE_PATTERN = /\s*-+\s*More\s*-+\s*$/;
+const HOSTNAME_COMMAND = /^\s*hostname\s+(\S+)\s*$/i;
+
+interface PendingRead {
+  check: () => void;
+  fail: (error: Error) => void;
+}
+
+// Shared prompt handling for interactive CLI sessions; subclasses provide the transport
+export abstract class CliSession {
+  protected device: NetworkDevice;
+  protected timeout: number;
+  private buffer: string = "";
+  private prompt: string = "";
+  private hostname: string = "";
+  private pending: PendingRead | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(device: NetworkDevice, timeout: number) {
+    this.device = device;
+    this.timeout = timeout;
+  }
+
+  public abstract readonly protocol: "ssh" | "telnet";
+
+  protected abstract connectTransport(): Promise<void>;
+
+  protected abstract writeRaw(data: string): void;
+
+  protected abstract closeTransport(): void;
+
+  public abstract isOpen(): boolean;
+
+  public async open(): Promise<string> {
+    await this.connectTransport();
+
+    const banner = await this.login();
+    this.updatePrompt(banner);
+
+    if (this.prompt.endsWith(">") && this.device.enablePassword) {
+      await this.enable();
+    }
+
+    // Disable paging so show output arrives in one piece
+    await this.sendCommand("terminal length 0");
+
+    logger.info(
+      `${this.protocol.toUpperCase()} session opened to ${this.device.name} (${this.prompt})`,
+    );
+    return banner;
+  }
+
+  public sendCommand(command: string): Promise<string> {
+    const run = this.queue.then(() => this.runCommand(command));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  public getPrompt(): string {
+    return this.prompt;
+  }
+
+  public dispose(): void {
+    this.closeTransport();
+  }
+
+  // Waits for the first exec prompt; transports that log in over the CLI override this
+  protected login(): Promise<string> {
+    return this.readUntil(PROMPT_PATTERN);
+  }
+
+  protected receive(data: string): void {
+    this.buffer += data.replace(/\r/g, "");
+    this.pending?.check();
+  }
+
+  protected transportClosed(): void {
+    this.pending?.fail(
+      new Error(`Session to ${this.device.name} closed by remote host`),
+    );
+  }
+
+  protected write(line: string): void {
+    // Drop anything that arrived after the last read gave up waiting
+    if (!this.pending) this.buffer = "";
+    this.writeRaw(`${line}\n`);
+  }
+
+  protected readUntil(pattern: RegExp): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending = null;
+        // Partial output would otherwise open the next command's reply
+        this.buffer = "";
+        reject(
+          new Error(
+            `Timed out waiting for prompt from ${this.device.name} after ${this.timeout}ms`,
+          ),
+        );
+      }, this.timeout);
+
+      const check = () => {
+        // Page through any output that slipped past "terminal length 0"
+        if (MORE_PATTERN.test(this.buffer)) {
+          this.buffer = this.buffer.replace(MORE_PATTERN, "\n");
+          this.writeRaw(" ");
+          return;
+        }
+
+        if (pattern.test(this.buffer)) {
+          clearTimeout(timer);
+          this.pending = null;
+          const output = this.buffer;
+          this.buffer = "";
+          resolve(output);
+        }
+      };
+
+      this.pending = {
+        check,
+        fail: (error: Error) => {
+          clearTimeout(timer);
+          this.pending = null;
+          reject(error);
+        },
+      };
+      check();
+    });
+  }
+
+  private async runCommand(command: string): Promise<string> {
+    if (!this.isOpen()) {
+      throw new Error(`Session to ${this.device.name} is not open`);
+    }
+
+    // Renaming the device changes the prompt that ends this command's output
+    const renamed = command.match(HOSTNAME_COMMAND)?.[1];
+    this.write(command);
+    const raw = await this.readUntil(this.promptPattern(renamed));
+    this.updatePrompt(raw);
+
+    const lines = raw.split("\n");
+    // Drop the echoed command and the trailing prompt
+    if (lines.length > 0 && lines[0].trim().endsWith(command.trim())) {
+      lines.shift();
+    }
+    lines.pop();
+
+    return lines.join("\n").replace(/^\n+|\s+$/g, "");
+  }
+
+  private async enable(): Promise<void> {
+    this.write("enable");
+    const response = await this.readUntil(
+      new RegExp(
+        `(?:${PASSWORD_PATTERN.source})|(?:${this.promptPattern().source})`,
+      ),
+    );
+
+    if (PASSWORD_PATTERN.test(response)) {
+      this.write(this.device.enablePassword || "");
+      this.updatePrompt(await this.readUntil(this.promptPattern()));
+    } else {
+      this.updatePrompt(response);
+    }
+
+    if (!this.prompt.endsWith("#")) {
+      throw new Error(`Enable mode rejected by ${this.device.name}`);
+    }
+  }
+
+  // Once the hostname is known only its own prompt ends a read, so output
+  // lines that happen to end in ">" or "#" are not mistaken for one
+  private promptPattern(renamed?: string): RegExp {
+    if (!this.hostname) return PROMPT_PATTERN;
+
+    const names = [this.hostname, renamed]
+      .filter((name): name is string => !!name)
+      .map((name) => name.replace(/[.*+?^${}()|[\]\\\/]/g, "\\$&"));
+    return new RegExp(
+      `(?:^|\\n)((?:${names.join("|")})(?:\\([\\w.\\-\\/]+\\))?[>#])\\s*$`,
+    );
+  }
+
+  private updatePrompt(output: string): void {
+    const match = output.match(PROMPT_PATTERN);
+    if (match) {
+      this.prompt = match[1];
+      this.hostname = match[1].replace(/(?:\([^)]*\))?[>#]$/, "");
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { AddressInfo } from "net";
+import { Server } from "ssh2";
+import { ConnectionPool } from "./ConnectionPool";
+import { SSHSession } from "./SSHSession";
+import { startStandIn } from "../testing/iosStandIn";
+import { NetworkDevice } from "../types";
+
+describe("ConnectionPool", () => {
+  let server: Server;
+  let pool: ConnectionPool;
+  let logins: number;
+  const received: string[] = [];
+
+  const device = (id: string): NetworkDevice => ({
+    id,
+    name: id,
+    ip: "127.0.0.1",
+    deviceType: "cisco_ios",
+    port: (server.address() as AddressInfo).port,
+    username: "admin",
+    password: "secret",
+    enablePassword: "enable-secret",
+    status: "offline",
+    lastSeen: null,
+    createdAt: "2024-01-15T10:00:00.000Z",
+  });
+
+  const open = (deviceId: string) => async () => {
+    const session = new SSHSession(device(deviceId), 5000);
+    await session.open();
+    return session;
+  };
+
+  const run = (deviceId: string) =>
+    pool.withSession(deviceId, open(deviceId), (session) =>
+      session.sendCommand("show clock"),
+    );
+
+  // Takes a session and keeps it until release is called
+  const hold = async (deviceId: string, onStart?: () => void) => {
+    let release: () => void = () => undefined;
+    const done = pool.withSession(deviceId, open(deviceId), () => {
+      onStart?.();
+      return new Promise<void>((resolve) => (release = resolve));
+    });
+    while (pool.getStats(deviceId).busy === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return { release: () => release(), done };
+  };
+
+  beforeAll(async () => {
+    server = await startStandIn(received);
+    server.on("connection", () => logins++);
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    logins = 0;
+    pool = new ConnectionPool({
+      maxSessions: 2,
+      maxSessionsPerDevice: 1,
+      acquireTimeoutMs: 5000,
+      idleTimeoutMs: 60000,
+    });
+  });
+
+  afterEach(() => pool.closeAll());
+
+  it("reuses an idle session for the same device", async () => {
+    await run("r1");
+    await run("r1");
+
+    expect(logins).toBe(1);
+    expect(pool.getStats("r1")).toMatchObject({ total: 1, idle: 1, busy: 0 });
+  });
+
+  it("runs one lease at a time per device and queues the rest", async () => {
+    const order: string[] = [];
+    const first = await hold("r1", () => order.push("first started"));
+    const second = run("r1").then(() => order.push("second done"));
+
+    expect(pool.getStats("r1")).toMatchObject({ busy: 1, waiting: 1 });
+    order.push("first released");
+    first.release();
+    await Promise.all([first.done, second]);
+
+    expect(order).toEqual(["first started", "first released", "second done"]);
+    expect(logins).toBe(1);
+  });
+
+  it("gives up on a queued request after the acquire timeout", async () => {
+    pool.closeAll();
+    pool = new ConnectionPool({
+      maxSessions: 2,
+      maxSessionsPerDevice: 1,
+      acquireTimeoutMs: 50,
+      idleTimeoutMs: 60000,
+    });
+    const first = await hold("r1");
+
+    await expect(run("r1")).rejects.toThrow(
+      "Timed out after 50ms waiting for a session to device r1 (1/2 sessions in use)",
+    );
+    first.release();
+    await first.done;
+  });
+
+  describe("idle sessions", () => {
+    const now = jest.spyOn(Date, "now");
+
+    afterEach(() => now.mockRestore());
+
+    it("closes sessions left idle past the timeout", async () => {
+      now.mockReturnValue(1000000);
+      await run("r1");
+
+      now.mockReturnValue(1000000 + 59000);
+      expect(pool.evictIdle()).toBe(0);
+      now.mockReturnValue(1000000 + 61000);
+      expect(pool.evictIdle()).toBe(1);
+      expect(pool.getStats("r1").total).toBe(0);
+
+      await run("r1");
+      expect(logins).toBe(2);
+    });
+
+    it("makes room by closing the least recently used idle session", async () => {
+      now.mockReturnValue(1000000);
+      await run("r1");
+      now.mockReturnValue(1000000 + 1000);
+      await run("r2");
+      now.mockReturnValue(1000000 + 2000);
+      await run("r3");
+
+      expect(pool.getStats()).toMatchObject({ total: 2, idle: 2 });
+      expect(pool.getStats("r1").total).toBe(0);
+      expect(pool.getStats("r2").total).toBe(1);
+      expect(logins).toBe(3);
+    });
+  });
+
+  it("closes a device's busy session when its lease ends", async () => {
+    const first = await hold("r1");
+
+    pool.closeDevice("r1");
+    expect(pool.getStats("r1").busy).toBe(1);
+    first.release();
+    await first.done;
+
+    expect(pool.getStats("r1").total).toBe(0);
+  });
+});
@@ -0,0 +1,257 @@
+import { v4 as uuidv4 } from "uuid";
+import { logger } from "../utils/logger";
+import { config } from "../config/config";
+import { CliSession } from "./CliSession";
+import { ConnectionPoolConfig, ConnectionPoolStats } from "../types";
+
+type SessionOpener = () => Promise<CliSession>;
+
+interface PooledSession {
+  id: string;
+  deviceId: string;
+  session: CliSession | null;
+  state: "opening" | "busy" | "idle";
+  lastUsed: number;
+  // Closed as soon as the current lease ends
+  retired: boolean;
+}
+
+interface Waiter {
+  deviceId: string;
+  open: SessionOpener;
+  resolve: (entry: PooledSession) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout | null;
+}
+
+// Authenticated CLI sessions shared by every NetworkOperations instance.
+// A session serves one lease at a time, so config-mode pushes never interleave.
+export class ConnectionPool {
+  private poolConfig: ConnectionPoolConfig;
+  private entries: PooledSession[] = [];
+  private waiters: Waiter[] = [];
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(poolConfig: Partial<ConnectionPoolConfig> = {}) {
+    this.poolConfig = {
+      maxSessions: config.maxConcurrentConnections,
+      maxSessionsPerDevice: config.maxSessionsPerDevice,
+      acquireTimeoutMs: config.sshTimeout * 1000,
+      idleTimeoutMs: config.sessionIdleTimeout * 1000,
+      ...poolConfig,
+    };
+
+    this.sweepTimer = setInterval(
+      () => this.evictIdle(),
+      Math.min(this.poolConfig.idleTimeoutMs, 60000),
+    );
+    // The sweep alone should never keep the process alive
+    this.sweepTimer.unref();
+  }
+
+  public async withSession<T>(
+    deviceId: string,
+    open: SessionOpener,
+    work: (session: CliSession) => Promise<T>,
+  ): Promise<T> {
+    const entry = await this.acquire(deviceId, open);
+    try {
+      return await work(entry.session!);
+    } finally {
+      this.release(entry);
+    }
+  }
+
+  // Closes idle sessions now and busy ones when their lease ends
+  public closeDevice(deviceId: string): void {
+    this.entries
+      .filter((entry) => entry.deviceId === deviceId)
+      .forEach((entry) => this.retire(entry));
+    this.dispatch();
+  }
+
+  public closeAll(): void {
+    this.waiters.forEach((waiter) => {
+      this.clearWaitTimer(waiter);
+      waiter.reject(new Error("Connection pool closed"));
+    });
+    this.waiters = [];
+    [...this.entries].forEach((entry) => this.retire(entry));
+    clearInterval(this.sweepTimer);
+  }
+
+  public evictIdle(): number {
+    const cutoff = Date.now() - this.poolConfig.idleTimeoutMs;
+    const stale = this.entries.filter(
+      (entry) => entry.state === "idle" && entry.lastUsed < cutoff,
+    );
+
+    stale.forEach((entry) => this.remove(entry));
+    if (stale.length > 0) {
+      logger.info(`Evicted ${stale.length} idle device session(s)`);
+      this.dispatch();
+    }
+    return stale.length;
+  }
+
+  public getStats(deviceId?: string): ConnectionPoolStats {
+    const entries = deviceId
+      ? this.entries.filter((entry) => entry.deviceId === deviceId)
+      : this.entries;
+    const waiters = deviceId
+      ? this.waiters.filter((waiter) => waiter.deviceId === deviceId)
+      : this.waiters;
+
+    return {
+      total: entries.length,
+      busy: entries.filter((entry) => entry.state === "busy").length,
+      idle: entries.filter((entry) => entry.state === "idle").length,
+      opening: entries.filter((entry) => entry.state === "opening").length,
+      waiting: waiters.length,
+      maxSessions: this.poolConfig.maxSessions,
+      maxSessionsPerDevice: this.poolConfig.maxSessionsPerDevice,
+    };
+  }
+
+  private acquire(
+    deviceId: string,
+    open: SessionOpener,
+  ): Promise<PooledSession> {
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { deviceId, open, resolve, reject, timer: null };
+
+      if (this.tryServe(waiter)) return;
+
+      waiter.timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((queued) => queued !== waiter);
+        reject(
+          new Error(
+            `Timed out after ${this.poolConfig.acquireTimeoutMs}ms waiting for a session to device ${deviceId} (${this.entries.length}/${this.poolConfig.maxSessions} sessions in use)`,
+          ),
+        );
+      }, this.poolConfig.acquireTimeoutMs);
+      this.waiters.push(waiter);
+    });
+  }
+
+  private release(entry: PooledSession): void {
+    if (entry.retired || !entry.session?.isOpen()) {
+      this.remove(entry);
+    } else {
+      entry.state = "idle";
+      entry.lastUsed = Date.now();
+    }
+    this.dispatch();
+  }
+
+  private dispatch(): void {
+    // Reuse comes first so eviction never closes a session a queued request wants
+    const hasIdle = (waiter: Waiter) =>
+      this.entries.some(
+        (entry) =>
+          entry.deviceId === waiter.deviceId &&
+          entry.state === "idle" &&
+          !entry.retired,
+      );
+    const ordered = [
+      ...this.waiters.filter(hasIdle),
+      ...this.waiters.filter((waiter) => !hasIdle(waiter)),
+    ];
+
+    for (const waiter of ordered) {
+      if (this.tryServe(waiter)) {
+        this.waiters = this.waiters.filter((queued) => queued !== waiter);
+      }
+    }
+  }
+
+  private tryServe(waiter: Waiter): boolean {
+    const idle = this.entries.find(
+      (entry) =>
+        entry.deviceId === waiter.deviceId &&
+        entry.state === "idle" &&
+        !entry.retired,
+    );
+
+    if (idle) {
+      // The device may have dropped the session while it sat idle
+      if (!idle.session?.isOpen()) {
+        this.remove(idle);
+        return this.tryServe(waiter);
+      }
+      idle.state = "busy";
+      this.clearWaitTimer(waiter);
+      waiter.resolve(idle);
+      return true;
+    }
+
+    const deviceEntries = this.entries.filter(
+      (entry) => entry.deviceId === waiter.deviceId,
+    );
+    if (deviceEntries.length >= this.poolConfig.maxSessionsPerDevice) {
+      return false;
+    }
+
+    if (this.entries.length >= this.poolConfig.maxSessions) {
+      // Make room by closing the least recently used idle session of another device
+      const victim = this.entries
+        .filter((entry) => entry.state === "idle")
+        .sort((a, b) => a.lastUsed - b.lastUsed)[0];
+      if (!victim) return false;
+      this.remove(victim);
+    }
+
+    const entry: PooledSession = {
+      id: uuidv4(),
+      deviceId: waiter.deviceId,
+      session: null,
+      state: "opening",
+      lastUsed: Date.now(),
+      retired: false,
+    };
+    this.entries.push(entry);
+    // Opening has its own login timeout, so the queue deadline no longer applies
+    this.clearWaitTimer(waiter);
+
+    waiter
+      .open()
+      .then((session) => {
+        entry.session = session;
+        entry.state = "busy";
+        waiter.resolve(entry);
+      })
+      .catch((error) => {
+        this.remove(entry);
+        waiter.reject(error instanceof Error ? error : new Error(error));
+        this.dispatch();
+      });
+
+    return true;
+  }
+
+  private clearWaitTimer(waiter: Waiter): void {
+    if (waiter.timer) {
+      clearTimeout(waiter.timer);
+      waiter.timer = null;
+    }
+  }
+
+  private retire(entry: PooledSession): void {
+    if (entry.state === "idle") {
+      this.remove(entry);
+    } else {
+      entry.retired = true;
+    }
+  }
+
+  private remove(entry: PooledSession): void {
+    this.entries = this.entries.filter((pooled) => pooled !== entry);
+    try {
+      entry.session?.dispose();
+    } catch (error) {
+      logger.warn(`Error closing pooled session: ${error}`);
+    }
+  }
+}
+
+export const connectionPool = new ConnectionPool();
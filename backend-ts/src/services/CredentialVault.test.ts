@@ -0,0 +1,103 @@
+import { CredentialVault } from "./CredentialVault";
+import { NetworkOperations } from "./NetworkOperations";
+import { LLMIntegration } from "./LLMIntegration";
+import { ClaudeProvider } from "./ClaudeProvider";
+import { DeviceRepository } from "../repositories/DeviceRepository";
+import { openDatabase } from "../database/database";
+
+describe("CredentialVault", () => {
+  const FIRST_SECRET = "first-vault-secret";
+  const SECOND_SECRET = "second-vault-secret";
+  let vault: CredentialVault;
+
+  beforeEach(() => {
+    vault = new CredentialVault(FIRST_SECRET);
+  });
+
+  it("seals and reveals a secret", () => {
+    const sealed = vault.seal("enable-secret")!;
+
+    expect(sealed).toMatch(/^vault:v1:/);
+    expect(sealed).not.toContain("enable-secret");
+    expect(vault.seal(sealed)).toBe(sealed);
+    expect(vault.reveal(sealed)).toBe("enable-secret");
+    // Plaintext from before the vault passes through
+    expect(vault.reveal("legacy")).toBe("legacy");
+  });
+
+  it("rejects a token whose authentication tag was changed", () => {
+    const parts = vault.encrypt("enable-secret").split(":");
+    const tag = Buffer.from(parts[4], "base64");
+    tag[0] ^= 0xff;
+    parts[4] = tag.toString("base64");
+
+    expect(() => vault.decrypt(parts.join(":"))).toThrow(
+      /unable to authenticate data/,
+    );
+  });
+
+  describe("rotateKey", () => {
+    const healthCheck = jest.spyOn(ClaudeProvider.prototype, "healthCheck");
+
+    afterAll(() => healthCheck.mockRestore());
+
+    beforeEach(() => {
+      healthCheck.mockReset();
+      healthCheck.mockResolvedValue({
+        provider: "claude",
+        healthy: true,
+        latencyMs: 1,
+      });
+    });
+
+    it("re-encrypts persisted device and API key secrets", async () => {
+      const repository = new DeviceRepository(
+        openDatabase("sqlite:///:memory:"),
+      );
+      const operations = new NetworkOperations({}, repository, vault);
+      const llm = new LLMIntegration(vault);
+      const deviceId = operations.addDevice({
+        name: "R1",
+        ip: "10.0.0.1",
+        password: "ssh-secret",
+        enablePassword: "enable-secret",
+      }).id;
+      const keyId = llm.addApiKey({
+        name: "Claude",
+        provider: "claude",
+        key: "sk-ant-test",
+      }).id;
+      const before = repository.findById(deviceId)!;
+
+      const rotation = vault.rotateKey(SECOND_SECRET);
+
+      const after = repository.findById(deviceId)!;
+      expect(rotation.reencrypted).toBeGreaterThanOrEqual(3);
+      expect(after.password).not.toBe(before.password);
+      // The new key alone opens the stored secrets
+      const rotated = new CredentialVault(SECOND_SECRET);
+      expect(rotated.reveal(after.password)).toBe("ssh-secret");
+      expect(rotated.reveal(after.enablePassword)).toBe("enable-secret");
+      await llm.checkHealth(keyId);
+      expect(healthCheck.mock.calls[0][0].apiKey).toBe("sk-ant-test");
+      expect(vault.isActiveSecret(SECOND_SECRET)).toBe(true);
+
+      operations.dispose();
+      llm.dispose();
+    });
+
+    it("no longer reaches an instance once it is disposed", async () => {
+      const llm = new LLMIntegration(vault);
+      const keyId = llm.addApiKey({
+        name: "Claude",
+        provider: "claude",
+        key: "sk-ant-test",
+      }).id;
+
+      llm.dispose();
+      vault.rotateKey(SECOND_SECRET);
+
+      await expect(llm.checkHealth(keyId)).rejects.toThrow(/Unknown vault key/);
+    });
+  });
+});
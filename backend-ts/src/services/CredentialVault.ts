@@ -0,0 +1,176 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  scryptSync,
+} from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { logger } from "../utils/logger";
+import { config } from "../config/config";
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_SALT = "ai-network-whisperer-credential-vault";
+// vault:v1:<keyId>:<iv>:<authTag>:<ciphertext>, all base64 except the key id
+const TOKEN_PREFIX = "vault:v1:";
+
+type SecretStore = () => number;
+
+export class CredentialVault {
+  private keys: Map<string, Buffer> = new Map();
+  private activeKeyId: string;
+  private encryptConfigs: boolean = true;
+  private secretStores: Map<string, SecretStore> = new Map();
+
+  constructor(secret: string, previousSecrets: string[] = []) {
+    // Previous keys stay available for decryption until secrets are re-encrypted
+    previousSecrets.forEach((previous) => this.addKey(previous));
+    this.activeKeyId = this.addKey(secret);
+  }
+
+  public isEncrypted(value: string | undefined): boolean {
+    return !!value && value.startsWith(TOKEN_PREFIX);
+  }
+
+  public encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(
+      ALGORITHM,
+      this.keys.get(this.activeKeyId)!,
+      iv,
+    );
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, "utf8"),
+      cipher.final(),
+    ]);
+
+    return [
+      TOKEN_PREFIX + this.activeKeyId,
+      iv.toString("base64"),
+      cipher.getAuthTag().toString("base64"),
+      ciphertext.toString("base64"),
+    ].join(":");
+  }
+
+  public decrypt(token: string): string {
+    if (!this.isEncrypted(token)) {
+      throw new Error("Value is not a vault token");
+    }
+
+    const [keyId, iv, authTag, ciphertext] = token
+      .slice(TOKEN_PREFIX.length)
+      .split(":");
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Unknown vault key: ${keyId}`);
+    }
+
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      key,
+      Buffer.from(iv, "base64"),
+    );
+    decipher.setAuthTag(Buffer.from(authTag, "base64"));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+
+  // Encrypts a secret unless it is empty or already sealed
+  public seal(value: string | undefined): string | undefined {
+    if (!value || this.isEncrypted(value)) return value;
+    return this.encrypt(value);
+  }
+
+  // Decrypts a sealed secret; legacy plaintext values are returned unchanged
+  public reveal(value: string | undefined): string | undefined {
+    if (!value || !this.isEncrypted(value)) return value;
+    return this.decrypt(value);
+  }
+
+  // Re-encrypts a sealed value under the active key
+  public reencrypt(value: string | undefined): string | undefined {
+    if (!value || !this.isEncrypted(value)) return this.seal(value);
+    if (value.startsWith(TOKEN_PREFIX + this.activeKeyId + ":")) return value;
+    return this.encrypt(this.decrypt(value));
+  }
+
+  public setConfigEncryption(enabled: boolean): void {
+    if (this.encryptConfigs !== enabled) {
+      logger.info(
+        `Stored config encryption ${enabled ? "enabled" : "disabled"}`,
+      );
+    }
+    this.encryptConfigs = enabled;
+  }
+
+  public isConfigEncryptionEnabled(): boolean {
+    return this.encryptConfigs;
+  }
+
+  // Stored router configs follow SystemConfig.security.encryptConfigs
+  public sealConfig(configuration: string): string {
+    return this.encryptConfigs ? this.encrypt(configuration) : configuration;
+  }
+
+  public revealConfig(configuration: string): string {
+    return this.reveal(configuration) ?? configuration;
+  }
+
+  public registerSecretStore(reencrypt: SecretStore): string {
+    const id = uuidv4();
+    this.secretStores.set(id, reencrypt);
+    return id;
+  }
+
+  public unregisterSecretStore(id: string): void {
+    this.secretStores.delete(id);
+  }
+
+  // Lets an admin prove they hold the secret before it is replaced
+  public isActiveSecret(secret: string): boolean {
+    return this.deriveKey(secret).keyId === this.activeKeyId;
+  }
+
+  public rotateKey(newSecret: string): {
+    keyId: string;
+    reencrypted: number;
+  } {
+    const previousKeyIds = Array.from(this.keys.keys());
+    this.activeKeyId = this.addKey(newSecret);
+
+    let reencrypted = 0;
+    for (const reencrypt of this.secretStores.values()) {
+      reencrypted += reencrypt();
+    }
+
+    // Every registered store now uses the new key, so older keys can go
+    previousKeyIds
+      .filter((keyId) => keyId !== this.activeKeyId)
+      .forEach((keyId) => this.keys.delete(keyId));
+
+    logger.info(
+      `Vault key rotated to ${this.activeKeyId}; re-encrypted ${reencrypted} secrets`,
+    );
+    return { keyId: this.activeKeyId, reencrypted };
+  }
+
+  private addKey(secret: string): string {
+    const { keyId, key } = this.deriveKey(secret);
+    this.keys.set(keyId, key);
+    return keyId;
+  }
+
+  private deriveKey(secret: string): { keyId: string; key: Buffer } {
+    const key = scryptSync(secret, KEY_SALT, 32);
+    const keyId = createHash("sha256").update(key).digest("hex").slice(0, 12);
+    return { keyId, key };
+  }
+}
+
+export const credentialVault = new CredentialVault(
+  config.secretKey,
+  config.previousSecretKeys,
+);
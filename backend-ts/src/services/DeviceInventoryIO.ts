@@ -0,0 +1,176 @@
+import YAML from "yaml";
+import { NetworkDevice, DeviceInventoryFormat } from "../types";
+
+// Tags share one CSV cell, e.g. "wan;core"
+const CSV_TAG_SEPARATOR = ";";
+
+// Column order used for CSV export; import matches headers case-insensitively
+const INVENTORY_COLUMNS: (keyof NetworkDevice)[] = [
+  "id",
+  "name",
+  "ip",
+  "deviceType",
+  "protocol",
+  "port",
+  "username",
+  "password",
+  "enablePassword",
+  "site",
+  "region",
+  "role",
+  "group",
+  "tags",
+  "status",
+  "lastSeen",
+  "createdAt",
+];
+
+export class DeviceInventoryIO {
+  public parse(
+    content: string | unknown[],
+    format: DeviceInventoryFormat,
+  ): Record<string, unknown>[] {
+    if (Array.isArray(content)) {
+      return content as Record<string, unknown>[];
+    }
+
+    switch (format) {
+      case "csv":
+        return this.parseCsv(content);
+      case "json":
+        return this.unwrapRows(JSON.parse(content));
+      case "yaml":
+        return this.unwrapRows(YAML.parse(content));
+      default:
+        throw new Error(`Unsupported inventory format: ${format}`);
+    }
+  }
+
+  public serialize(
+    devices: NetworkDevice[],
+    format: DeviceInventoryFormat,
+  ): string {
+    const rows = devices.map((device) => {
+      const row: Record<string, unknown> = {};
+      INVENTORY_COLUMNS.forEach((column) => {
+        const value = device[column];
+        if (value === undefined || value === "") return;
+        if (Array.isArray(value) && value.length === 0) return;
+        row[column] =
+          format === "csv" && Array.isArray(value)
+            ? value.join(CSV_TAG_SEPARATOR)
+            : value;
+      });
+      return row;
+    });
+
+    switch (format) {
+      case "csv":
+        return [
+          INVENTORY_COLUMNS.join(","),
+          ...rows.map((row) =>
+            INVENTORY_COLUMNS.map((column) => this.escapeCsv(row[column])).join(
+              ",",
+            ),
+          ),
+        ].join("\n");
+      case "json":
+        return JSON.stringify(rows, null, 2);
+      case "yaml":
+        return YAML.stringify(rows);
+      default:
+        throw new Error(`Unsupported inventory format: ${format}`);
+    }
+  }
+
+  // Accepts either a bare list or { devices: [...] }
+  private unwrapRows(parsed: unknown): Record<string, unknown>[] {
+    const rows =
+      parsed && !Array.isArray(parsed) && typeof parsed === "object"
+        ? (parsed as { devices?: unknown }).devices
+        : parsed;
+
+    if (!Array.isArray(rows)) {
+      throw new Error("Inventory must be a list of devices");
+    }
+    return rows as Record<string, unknown>[];
+  }
+
+  private parseCsv(content: string): Record<string, unknown>[] {
+    const records = this.splitCsv(content).filter((record) =>
+      record.some((field) => field.trim() !== ""),
+    );
+    if (records.length === 0) return [];
+
+    const columnsByName = new Map(
+      INVENTORY_COLUMNS.map((column) => [column.toLowerCase(), column]),
+    );
+    const header = records[0].map((name) => {
+      const trimmed = name.trim();
+      return columnsByName.get(trimmed.toLowerCase()) || trimmed;
+    });
+
+    return records.slice(1).map((record) => {
+      const row: Record<string, unknown> = {};
+      header.forEach((column, index) => {
+        const value = (record[index] ?? "").trim();
+        // Empty cells mean "not set" so defaults apply
+        if (value === "") return;
+        row[column] =
+          column === "tags"
+            ? value.split(CSV_TAG_SEPARATOR).map((tag) => tag.trim())
+            : value;
+      });
+      return row;
+    });
+  }
+
+  // RFC 4180 splitting: quoted fields may contain commas, quotes and newlines
+  private splitCsv(content: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ",") {
+        record.push(field);
+        field = "";
+      } else if (char === "\n" || char === "\r") {
+        if (char === "\r" && content[i + 1] === "\n") i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== "" || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    return records;
+  }
+
+  private escapeCsv(value: unknown): string {
+    if (value === undefined || value === null) return "";
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
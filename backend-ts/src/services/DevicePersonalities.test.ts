@@ -0,0 +1,229 @@
+import { DevicePersonalities } from "./DevicePersonalities";
+import { RouterSimulator } from "./RouterSimulator";
+import { LLMIntegration } from "./LLMIntegration";
+import { SimulatedRouter } from "../types";
+
+describe("DevicePersonalities", () => {
+  const personalities = new DevicePersonalities();
+  let simulator: RouterSimulator;
+
+  // A router of the given model with one port, and a CLI session on it
+  const open = (model: string, name: string, port: string) => {
+    const router = simulator.createRouter(name, "", "192.0.2.10", model);
+    simulator.addInterface(router.id, { name: port, status: "up" });
+    const run = async (...commands: string[]) => {
+      let output = "";
+      for (const command of commands) {
+        output = (await simulator.executeCommand(router.id, command, name))
+          .output!;
+      }
+      return output;
+    };
+    const prompt = async () =>
+      (await simulator.executeCommand(router.id, "", name)).prompt;
+    return { router, run, prompt };
+  };
+
+  // The personality reads back what it renders without errors or changes
+  const expectStableRender = (router: SimulatedRouter) => {
+    const personality = personalities.forModel(router.model);
+    const rendered = simulator.getRouterConfig(router.id)!.runningConfig;
+    const { config, errors } = personality.parse(rendered);
+
+    expect(errors).toEqual([]);
+    expect(personality.render(config)).toBe(rendered);
+  };
+
+  beforeEach(() => {
+    simulator = new RouterSimulator(new LLMIntegration(), {
+      llmFallback: false,
+    });
+  });
+
+  it("picks a personality by model, platform and device type", () => {
+    expect(personalities.forModel("ASAv").platform).toBe("asa");
+    expect(personalities.forModel("N9K-C9300v").platform).toBe("nx-os");
+    expect(personalities.forModel("cEOS").platform).toBe("eos");
+    expect(personalities.forModel("vSRX").platform).toBe("junos");
+    expect(personalities.forModel("7200").platform).toBe("ios-xe");
+    expect(personalities.forPlatform("eos").defaultModel).toBe("vEOS-lab");
+    expect(personalities.forDeviceType("juniper_junos")?.platform).toBe(
+      "junos",
+    );
+    expect(personalities.forDeviceType("hp_comware")).toBeUndefined();
+    expect(personalities.list().map(({ platform }) => platform)).toEqual([
+      "asa",
+      "nx-os",
+      "eos",
+      "junos",
+      "ios-xe",
+    ]);
+  });
+
+  describe("ASA", () => {
+    it("configures named interfaces and shows them the ASA way", async () => {
+      const { router, run, prompt } = open("ASAv", "FW1", "GigabitEthernet0/0");
+
+      await run(
+        "enable",
+        "",
+        "configure terminal",
+        "interface GigabitEthernet0/0",
+        "nameif outside",
+        "security-level 0",
+        "ip address 203.0.113.2 255.255.255.0",
+        "exit",
+        "route outside 0.0.0.0 0.0.0.0 203.0.113.1",
+      );
+      expect(await prompt()).toBe("FW1(config)#");
+      expect(await run("bogus line")).toMatch(
+        /^ERROR: % Invalid input detected at '\^' marker\.$/m,
+      );
+
+      await run("end");
+      expect(await run("show route")).toContain(
+        "S*       0.0.0.0 0.0.0.0 [1/0] via 203.0.113.1",
+      );
+      expect(await run("show route")).toContain(
+        "C        203.0.113.0 255.255.255.0 is directly connected, outside",
+      );
+      expect(await run("show interface ip brief")).toMatch(
+        /^GigabitEthernet0\/0\s+203\.0\.113\.2\s+YES manual up\s+up$/m,
+      );
+      expect(await run("show version")).toMatch(
+        /^Cisco Adaptive Security Appliance Software Version 9\.16\(2\)/m,
+      );
+      const running = await run("show running-config");
+      expect(running).toContain(
+        [
+          "interface GigabitEthernet0/0",
+          " nameif outside",
+          " security-level 0",
+          " ip address 203.0.113.2 255.255.255.0",
+        ].join("\n"),
+      );
+      expect(running).toContain("route outside 0.0.0.0 0.0.0.0 203.0.113.1");
+      expectStableRender(router);
+    });
+  });
+
+  describe("NX-OS", () => {
+    it("takes prefix-length addresses and per-interface OSPF", async () => {
+      const { router, run, prompt } = open("N9K-C9300v", "NX1", "Ethernet1/1");
+
+      await run(
+        "configure terminal",
+        "feature ospf",
+        "router ospf UNDERLAY",
+        "router-id 1.1.1.1",
+        "interface Ethernet1/1",
+        "no switchport",
+        "ip address 10.1.1.1/30",
+        "ip router ospf UNDERLAY area 0.0.0.0",
+        "no shutdown",
+      );
+      expect(await prompt()).toBe("NX1(config-if)#");
+      expect(await run("bogus line")).toMatch(
+        /^% Invalid input detected at '\^' marker\.$/m,
+      );
+
+      await run("end");
+      expect(await run("show ip interface brief")).toMatch(
+        /^Eth1\/1\s+10\.1\.1\.1\s+protocol-up\/link-up\/admin-up$/m,
+      );
+      expect(await run("show ip route")).toContain(
+        "10.1.1.0/30, ubest/mbest: 1/0, attached\n    *via 10.1.1.1, Eth1/1, [0/0], 00:00:00, direct",
+      );
+      expect(await run("show version")).toMatch(
+        /^Cisco Nexus Operating System \(NX-OS\) Software/,
+      );
+      const running = await run("show running-config");
+      expect(running).toContain("feature ospf");
+      expect(running).toContain(
+        [
+          "interface Ethernet1/1",
+          "  ip address 10.1.1.1/30",
+          "  ip router ospf UNDERLAY area 0.0.0.0",
+          "  no shutdown",
+        ].join("\n"),
+      );
+      expect(running).toContain("router ospf UNDERLAY\n  router-id 1.1.1.1");
+      expectStableRender(router);
+    });
+  });
+
+  describe("EOS", () => {
+    it("names the interface in the prompt and routes by prefix", async () => {
+      const { router, run, prompt } = open("vEOS-lab", "EOS1", "Ethernet1");
+
+      await run(
+        "enable",
+        "configure terminal",
+        "interface Ethernet1",
+        "no switchport",
+        "ip address 10.2.2.1/24",
+      );
+      expect(await prompt()).toBe("EOS1(config-if-Et1)#");
+      await run("exit", "ip route 0.0.0.0/0 10.2.2.254");
+      expect(await run("bogus line")).toMatch(
+        /^% Invalid input detected at '\^' marker\.$/m,
+      );
+
+      await run("end");
+      expect(await run("show ip interface brief")).toMatch(
+        /^Ethernet1\s+10\.2\.2\.1\/24\s+up\s+up\s+1500$/m,
+      );
+      expect(await run("show ip route")).toContain(
+        " S        0.0.0.0/0 [1/0] via 10.2.2.254",
+      );
+      expect(await run("show version")).toMatch(/^Arista vEOS-lab$/m);
+      const running = await run("show running-config");
+      expect(running).toContain(
+        "interface Ethernet1\n   ip address 10.2.2.1/24\n!",
+      );
+      expect(running).toContain("ip route 0.0.0.0/0 10.2.2.254");
+      expectStableRender(router);
+    });
+  });
+
+  describe("Junos", () => {
+    it("stages set commands until commit", async () => {
+      const { router, run, prompt } = open("vMX", "PE1", "ge-0/0/0");
+
+      await run(
+        "configure",
+        "set interfaces ge-0/0/0 unit 0 family inet address 10.3.3.1/30",
+        "set routing-options static route 0.0.0.0/0 next-hop 10.3.3.2",
+      );
+      expect(await prompt()).toBe("admin@PE1#");
+      expect(await run("set bogus")).toContain("unknown command.");
+      expect(await run("show | compare")).toContain(
+        [
+          "+ set interfaces ge-0/0/0 unit 0 family inet address 10.3.3.1/30",
+          "+ set routing-options static route 0.0.0.0/0 next-hop 10.3.3.2",
+        ].join("\n"),
+      );
+      // Nothing reaches the running config before the commit
+      expect(await run("run show route")).not.toContain("10.3.3.2");
+
+      expect(await run("commit")).toContain("commit complete");
+      await run("exit");
+      expect(await prompt()).toBe("admin@PE1>");
+      expect(await run("show interfaces terse")).toMatch(
+        /^ge-0\/0\/0\.0\s+up\s+up\s+inet\s+10\.3\.3\.1\/30$/m,
+      );
+      expect(await run("show route")).toContain(
+        "0.0.0.0/0          *[Static/5] 00:00:00, metric 0\n                    >  to 10.3.3.2 via ge-0/0/0.0",
+      );
+      expect(await run("show version")).toMatch(/^Junos: 21\.4R1\.12$/m);
+      expect(await run("show configuration | display set")).toBe(
+        [
+          "set system host-name PE1",
+          "set interfaces ge-0/0/0 unit 0 family inet address 10.3.3.1/30",
+          "set routing-options static route 0.0.0.0/0 next-hop 10.3.3.2",
+        ].join("\n"),
+      );
+      expectStableRender(router);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { DevicePersonality } from "./DevicePersonality";
+import { IosCliEngine } from "./IosCliEngine";
+import { AsaCliEngine } from "./AsaCliEngine";
+import { NxosCliEngine } from "./NxosCliEngine";
+import { EosCliEngine } from "./EosCliEngine";
+import { JunosCliEngine } from "./JunosCliEngine";
+import { DevicePersonalitySummary, DevicePlatform } from "../types";
+
+// Picks the personality a router is simulated with. Models that match no
+// platform, such as "7200" from older labs, run as IOS XE.
+export class DevicePersonalities {
+  private ios: DevicePersonality = new IosCliEngine();
+  private personalities: DevicePersonality[] = [
+    new AsaCliEngine(),
+    new NxosCliEngine(),
+    new EosCliEngine(),
+    new JunosCliEngine(),
+    this.ios,
+  ];
+
+  public forModel(model: string): DevicePersonality {
+    return (
+      this.personalities.find((personality) =>
+        personality.models.test(model),
+      ) || this.ios
+    );
+  }
+
+  public forPlatform(platform: DevicePlatform): DevicePersonality {
+    return (
+      this.personalities.find(
+        (personality) => personality.platform === platform,
+      ) || this.ios
+    );
+  }
+
+  public forDeviceType(deviceType: string): DevicePersonality | undefined {
+    return this.personalities.find((personality) =>
+      personality.deviceTypes.includes(deviceType),
+    );
+  }
+
+  public list(): DevicePersonalitySummary[] {
+    return this.personalities.map((personality) => personality.summary());
+  }
+}
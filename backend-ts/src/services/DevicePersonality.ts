@@ -0,0 +1,113 @@
+import { IosConfigTree } from "./IosConfigTree";
+import { ipToNumber, isIpv4 } from "../utils/ipv4";
+import {
+  CliCommandResult,
+  CliContext,
+  ConfigCommand,
+  DevicePersonalitySummary,
+  DevicePlatform,
+} from "../types";
+
+// A simulated platform: its CLI and its config syntax. Routers keep their
+// running config in IOS form, which routing and validation read; each
+// personality translates its own config lines into that form and renders the
+// config back in its own syntax.
+export abstract class DevicePersonality {
+  public abstract readonly platform: DevicePlatform;
+  public abstract readonly vendor: string;
+  public abstract readonly defaultModel: string;
+  public abstract readonly softwareVersion: string;
+  public abstract readonly models: RegExp; // models simulated as this platform
+  public abstract readonly deviceTypes: string[];
+  // Show commands that give the troubleshooting agent the router's state
+  public abstract readonly evidenceCommands: string[];
+
+  public abstract execute(context: CliContext, line: string): CliCommandResult;
+
+  public abstract prompt(context: CliContext): string;
+
+  // Config text in the platform's syntax as the lines it would run
+  public abstract configCommands(text: string): ConfigCommand[];
+
+  // The IOS-form commands for one native line; a string is the device's error
+  public abstract toIos(
+    path: string[],
+    line: string,
+    config: IosConfigTree,
+  ): ConfigCommand[] | string;
+
+  public abstract render(config: IosConfigTree): string;
+
+  // Lines the platform rejects are skipped and reported
+  public parse(text: string): { config: IosConfigTree; errors: string[] } {
+    const config = new IosConfigTree();
+    const errors: string[] = [];
+    this.configCommands(text).forEach(({ path, line }) => {
+      const commands = this.toIos(path, line, config);
+      if (typeof commands === "string") {
+        errors.push(`${line}: ${commands}`);
+        return;
+      }
+      commands.forEach((command) => config.apply(command.path, command.line));
+    });
+    return { config, errors };
+  }
+
+  public summary(): DevicePersonalitySummary {
+    return {
+      platform: this.platform,
+      vendor: this.vendor,
+      defaultModel: this.defaultModel,
+      softwareVersion: this.softwareVersion,
+      deviceTypes: this.deviceTypes,
+    };
+  }
+
+  // The OSPF area of each interface, from "ip ospf <process> area" or else
+  // the most specific network statement, for platforms that only have one
+  protected ospfAreas(
+    config: IosConfigTree,
+  ): Map<string, { process: string; area: string }> {
+    const areas = new Map<string, { process: string; area: string }>();
+    const statements = config.sections("router ospf").flatMap((header) =>
+      config
+        .lines([header])
+        .map((line) => line.match(/^network (\S+) (\S+) area (\S+)$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .filter(([, network, wildcard]) => isIpv4(network) && isIpv4(wildcard))
+        .map(([, network, wildcard, area]) => ({
+          process: header.split(" ")[2],
+          network: ipToNumber(network),
+          wildcard: ipToNumber(wildcard),
+          area,
+        })),
+    );
+    statements.sort((a, b) => a.wildcard - b.wildcard);
+
+    config.sections("interface").forEach((header) => {
+      const lines = config.lines([header]);
+      const name = header.slice("interface ".length);
+      const explicit = lines
+        .map((line) => line.match(/^ip ospf (\S+) area (\S+)$/))
+        .find((match) => match !== null);
+      if (explicit) {
+        areas.set(name, { process: explicit[1], area: explicit[2] });
+        return;
+      }
+
+      const address = lines
+        .map((line) => line.match(/^ip address (\S+) \S+$/))
+        .find((match) => match !== null)?.[1];
+      if (!address || !isIpv4(address)) return;
+      const value = ipToNumber(address);
+      const statement = statements.find(
+        ({ network, wildcard }) =>
+          (value | wildcard) >>> 0 === (network | wildcard) >>> 0,
+      );
+      if (statement) {
+        areas.set(name, { process: statement.process, area: statement.area });
+      }
+    });
+    return areas;
+  }
+}
@@ -0,0 +1,516 @@
+import { CliNode, IosCliEngine, LOOPBACK_INTERFACE } from "./IosCliEngine";
+import { IosConfigTree } from "./IosConfigTree";
+import {
+  SimulatedRouter,
+  RouteEntry,
+  RouteProtocol,
+  CliContext,
+  ConfigCommand,
+  DevicePlatform,
+} from "../types";
+import {
+  ipToNumber,
+  isIpv4,
+  maskToPrefix,
+  numberToIp,
+  invertMask,
+  parsePrefix,
+  classfulPrefix,
+} from "../utils/ipv4";
+
+const ROUTE_CODES = `VRF: default
+Codes: C - connected, S - static, K - kernel,
+       O - OSPF, IA - OSPF inter area, E1 - OSPF external type 1,
+       E2 - OSPF external type 2, N1 - OSPF NSSA external type 1,
+       N2 - OSPF NSSA external type2, B - Other BGP Routes,
+       B I - iBGP, B E - eBGP, R - RIP, I L1 - IS-IS level 1,
+       I L2 - IS-IS level 2, O3 - OSPFv3, A B - BGP Aggregate,
+       A O - OSPF Summary, NG - Nexthop Group Static Route,
+       V - VXLAN Control Service, M - Martian,
+       DH - DHCP client installed default route,
+       DP - Dynamic Policy Route, L - VRF Leaked,
+       G  - gRIBI, RC - Route Cache Route`;
+
+// Arista EOS: prefix notation throughout, OSPF areas that may be set on the
+// interface, and prompts that name the interface or protocol being configured
+export class EosCliEngine extends IosCliEngine {
+  public readonly platform: DevicePlatform = "eos";
+  public readonly vendor: string = "Arista";
+  public readonly defaultModel: string = "vEOS-lab";
+  public readonly softwareVersion: string = "EOS 4.28.3M";
+  public readonly models: RegExp = /eos|arista/i;
+  public readonly deviceTypes: string[] = ["arista_eos"];
+  public readonly evidenceCommands: string[] = [
+    "show ip interface brief",
+    "show ip ospf neighbor",
+    "show ip bgp summary",
+    "show ip route",
+    "show processes top once",
+  ];
+
+  public prompt(context: CliContext): string {
+    const { mode, section } = context.session;
+    const name = context.router.name;
+    if (mode === "config-if" || mode === "config-subif") {
+      return `${name}(config-if-${this.shortName(section!.slice("interface ".length))})#`;
+    }
+    if (mode === "config-router") {
+      return `${name}(config-router-${section!.split(" ")[1]})#`;
+    }
+    return super.prompt(context);
+  }
+
+  // Three-space indents, with routing enabled and routed ports marked
+  public render(config: IosConfigTree): string {
+    const native = this.nativeConfig(config);
+    native.apply([], "ip routing");
+    native.sections("interface").forEach((header) => {
+      const lines = native.lines([header]);
+      if (
+        /^interface Ethernet/.test(header) &&
+        lines.some((line) => line.startsWith("ip address ")) &&
+        !lines.includes("switchport")
+      ) {
+        native.apply([header], "no switchport");
+      }
+    });
+    return native
+      .render()
+      .replace(/^ +/gm, (indent) => "   ".repeat(indent.length));
+  }
+
+  protected translate(
+    section: string[],
+    command: string,
+    config: IosConfigTree,
+  ): ConfigCommand[] | string {
+    const header = section[0] || "";
+
+    const route = command.match(/^ip route (\S+) (.+)$/);
+    if (section.length === 0 && route) {
+      const prefix = parsePrefix(route[1]);
+      return prefix
+        ? [{ path: [], line: `ip route ${prefix.join(" ")} ${route[2]}` }]
+        : "% Invalid input";
+    }
+    if (section.length === 0 && command.startsWith("dns domain ")) {
+      return [
+        {
+          path: [],
+          line: `ip domain-name ${command.slice("dns domain ".length)}`,
+        },
+      ];
+    }
+
+    if (header.startsWith("interface ")) {
+      const address = command.match(/^ip address (\S+)$/);
+      if (address) {
+        const prefix = parsePrefix(address[1]);
+        return prefix
+          ? [{ path: section, line: `ip address ${prefix.join(" ")}` }]
+          : "% Invalid input";
+      }
+      // A single OSPF instance, so the process comes from "router ospf"
+      const area = command.match(/^ip ospf area( \S+)?$/);
+      if (area) {
+        const process = config.sections("router ospf")[0]?.split(" ")[2] || "1";
+        return [
+          { path: section, line: `ip ospf ${process} area${area[1] ?? ""}` },
+        ];
+      }
+    }
+
+    if (header.startsWith("router ospf")) {
+      const network = command.match(/^network (\S+) area (\S+)$/);
+      if (network) {
+        const prefix = parsePrefix(network[1]);
+        return prefix
+          ? [
+              {
+                path: section,
+                line: `network ${prefix[0]} ${invertMask(prefix[1])} area ${network[2]}`,
+              },
+            ]
+          : "% Invalid input";
+      }
+    }
+
+    if (header.startsWith("router bgp")) {
+      const network = command.match(/^network (\S+)$/);
+      if (network) {
+        const prefix = parsePrefix(network[1]);
+        return prefix
+          ? [{ path: section, line: `network ${prefix.join(" mask ")}` }]
+          : "% Invalid input";
+      }
+      if (command.startsWith("router-id ")) {
+        return [{ path: section, line: `bgp ${command}` }];
+      }
+    }
+
+    return super.translate(section, command, config);
+  }
+
+  protected fromIos(
+    path: string[],
+    line: string,
+    config: IosConfigTree,
+  ): ConfigCommand[] {
+    const header = path[0] || "";
+
+    if (path.length === 0) {
+      // EOS has no terminal lines to configure
+      if (line.startsWith("line ") || line === "service password-encryption") {
+        return [];
+      }
+      const route = line.match(/^ip route (\S+) (\S+) (.+)$/);
+      if (route) {
+        const [, network, mask, rest] = route;
+        return [
+          { path, line: `ip route ${network}/${maskToPrefix(mask)} ${rest}` },
+        ];
+      }
+      return [{ path, line: line.replace(/^ip domain-name /, "dns domain ") }];
+    }
+    if (header.startsWith("line ")) return [];
+
+    if (header.startsWith("interface ")) {
+      const address = line.match(/^ip address (\S+) (\S+)$/);
+      if (address) {
+        return [
+          {
+            path,
+            line: `ip address ${address[1]}/${maskToPrefix(address[2])}`,
+          },
+        ];
+      }
+      const area = line.match(/^ip ospf \S+ area (\S+)$/);
+      if (area) {
+        return [{ path, line: `ip ospf area ${this.dottedArea(area[1])}` }];
+      }
+    }
+
+    if (header.startsWith("router ospf")) {
+      const network = line.match(/^network (\S+) (\S+) area (\S+)$/);
+      if (network) {
+        const [, address, wildcard, area] = network;
+        return [
+          {
+            path,
+            line: `network ${address}/${maskToPrefix(invertMask(wildcard))} area ${this.dottedArea(area)}`,
+          },
+        ];
+      }
+    }
+
+    if (header.startsWith("router bgp")) {
+      const network = line.match(/^network (\S+)(?: mask (\S+))?$/);
+      if (network) {
+        const [, address, mask] = network;
+        const length = mask ? maskToPrefix(mask) : classfulPrefix(address);
+        return [{ path, line: `network ${address}/${length}` }];
+      }
+      return [{ path, line: line.replace(/^bgp router-id /, "router-id ") }];
+    }
+
+    return [{ path, line }];
+  }
+
+  protected save(context: CliContext): string {
+    context.saveConfig();
+    return "Copy completed successfully.";
+  }
+
+  // "configure" alone enters global configuration
+  protected buildExecCommands(): CliNode[] {
+    return super
+      .buildExecCommands()
+      .map((node) =>
+        node.keyword === "configure"
+          ? { ...node, run: node.children![0].run }
+          : node,
+      );
+  }
+
+  protected buildShowCommands(): CliNode[] {
+    const commands = super.buildShowCommands();
+
+    return this.sorted([
+      ...commands.filter((node) => node.keyword !== "processes"),
+      {
+        keyword: "processes",
+        help: "Show processes in the system",
+        children: [
+          {
+            keyword: "top",
+            help: "Show the top CPU users",
+            children: [
+              {
+                keyword: "once",
+                help: "Only run top once",
+                run: ({ router }) => this.showProcessesTop(router),
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  }
+
+  protected buildConfigCommands(): CliNode[] {
+    const commands = super.buildConfigCommands();
+    const ip = commands.find((node) => node.keyword === "ip")!;
+    const route = ip.children!.find((node) => node.keyword === "route")!;
+
+    return this.sorted([
+      ...commands.filter(
+        (node) => !["ip", "line", "service"].includes(node.keyword),
+      ),
+      {
+        keyword: "dns",
+        help: "Domain Name Service settings",
+        children: [
+          {
+            keyword: "domain",
+            help: "Configure the DNS domain name",
+            children: [
+              {
+                keyword: "WORD",
+                help: "Domain name",
+                argument: "word",
+                run: this.configure,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        ...ip,
+        children: [
+          {
+            ...route,
+            children: [
+              {
+                keyword: "A.B.C.D/M",
+                help: "Destination prefix",
+                argument: "prefix",
+                children: route.children![0].children![0].children,
+              },
+            ],
+          },
+          {
+            keyword: "routing",
+            help: "Enable IP routing",
+            run: this.configure,
+          },
+        ],
+      },
+    ]);
+  }
+
+  protected buildInterfaceCommands(): CliNode[] {
+    const commands = super.buildInterfaceCommands();
+    const ip = commands.find((node) => node.keyword === "ip")!;
+    const address = ip.children!.find((node) => node.keyword === "address")!;
+    const ospf = ip.children!.find((node) => node.keyword === "ospf")!;
+
+    return this.sorted([
+      ...commands.filter((node) => node.keyword !== "ip"),
+      {
+        ...ip,
+        children: [
+          {
+            ...address,
+            children: [
+              {
+                keyword: "A.B.C.D/M",
+                help: "IP address with mask length",
+                argument: "prefix",
+                run: this.configure,
+              },
+            ],
+          },
+          {
+            ...ospf,
+            children: [
+              {
+                keyword: "area",
+                help: "Configure the OSPF area of the interface",
+                children: this.ospfArea(),
+              },
+              ...ospf.children!.filter((node) => !node.argument),
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "switchport",
+        help: "Set switching mode characteristics",
+        run: this.configure,
+      },
+    ]);
+  }
+
+  protected buildOspfCommands(): CliNode[] {
+    return this.editTree(super.buildOspfCommands(), ["network"], (node) => ({
+      ...node,
+      children: [
+        {
+          keyword: "A.B.C.D/M",
+          help: "Network prefix",
+          argument: "prefix",
+          children: node.children![0].children![0].children,
+        },
+      ],
+    }));
+  }
+
+  protected buildBgpCommands(): CliNode[] {
+    const commands = super.buildBgpCommands();
+    const routerId = commands.find((node) => node.keyword === "bgp")!
+      .children![0];
+
+    return this.sorted([
+      ...commands.filter(
+        (node) => node.keyword !== "bgp" && node.keyword !== "network",
+      ),
+      {
+        keyword: "network",
+        help: "Configure routing for a network",
+        children: [
+          {
+            keyword: "A.B.C.D/M",
+            help: "Prefix to advertise",
+            argument: "prefix",
+            run: this.configure,
+          },
+        ],
+      },
+      routerId,
+    ]);
+  }
+
+  protected showVersion(router: SimulatedRouter): string {
+    const version = this.version(router);
+    const total = 2006156;
+    const mac = router.interfaces[0]?.macAddress || "5254.0000.0000";
+    return [
+      `Arista ${router.model}`,
+      "Hardware version: ",
+      `Serial number: ${router.serialNumber}`,
+      `Hardware MAC address: ${mac}`,
+      `System MAC address: ${mac}`,
+      "",
+      `Software image version: ${version}`,
+      "Architecture: x86_64",
+      `Internal build version: ${version}-28837868.${version.replace(/\./g, "")}`,
+      "",
+      `Uptime: ${this.formatUptime(router.createdAt)}`,
+      `Total memory: ${total} kB`,
+      `Free memory: ${Math.round((total * (100 - router.memoryUsage)) / 100)} kB`,
+    ].join("\n");
+  }
+
+  protected showIpInterfaceBrief(router: SimulatedRouter): string {
+    const rows = router.interfaces.map((iface) => {
+      const address =
+        iface.ipAddress && iface.subnetMask
+          ? `${iface.ipAddress}/${maskToPrefix(iface.subnetMask)}`
+          : "unassigned";
+      const status =
+        iface.status === "administratively down" ? "adminDown" : iface.status;
+      const mtu = LOOPBACK_INTERFACE.test(iface.name) ? 65535 : 1500;
+      return `${iface.name.padEnd(17)} ${address.padEnd(18)} ${status.padEnd(12)} ${this.lineProtocol(iface).padEnd(14)} ${String(mtu).padStart(7)}`;
+    });
+    return [
+      "                                                                      Address",
+      "Interface         IP Address         Status       Protocol         MTU    Owner",
+      "----------------- ------------------ ------------ -------------- ------- -------",
+      ...rows,
+    ].join("\n");
+  }
+
+  // EOS leaves local host routes out and prints the gateway as a route
+  protected showIpRoute(
+    router: SimulatedRouter,
+    protocols?: RouteProtocol[],
+  ): string {
+    const routes = router.routingTable
+      .filter((route) => route.protocol !== "local")
+      .filter((route) => !protocols || protocols.includes(route.protocol))
+      .sort(
+        (a, b) =>
+          ipToNumber(a.network) - ipToNumber(b.network) ||
+          a.prefixLength - b.prefixLength,
+      );
+    const defaults = routes.filter((route) => route.prefixLength === 0);
+
+    return [
+      ROUTE_CODES,
+      "",
+      ...(defaults.length > 0
+        ? [
+            "Gateway of last resort:",
+            ...defaults.map((route) => this.formatRoute(route)),
+            "",
+          ]
+        : ["Gateway of last resort is not set", ""]),
+      ...routes
+        .filter((route) => route.prefixLength > 0)
+        .map((route) => this.formatRoute(route)),
+    ].join("\n");
+  }
+
+  protected showRunningConfig(router: SimulatedRouter): string {
+    return `! Command: show running-config\n! device: ${router.name} (${router.model}, EOS-${this.version(router)})\n!\n! boot system flash:/${router.model}.swi\n${router.runningConfig}`;
+  }
+
+  private formatRoute(route: RouteEntry): string {
+    const code =
+      route.protocol === "bgp"
+        ? "B E"
+        : route.protocol === "connected"
+          ? "C"
+          : route.code.replace("*", "");
+    const destination = `${route.network}/${route.prefixLength}`;
+    const detail =
+      !route.nextHop && route.interface
+        ? `is directly connected, ${route.interface}`
+        : [
+            `[${route.adminDistance ?? 0}/${route.metric ?? 0}] via ${route.nextHop}`,
+            route.interface,
+          ]
+            .filter(Boolean)
+            .join(", ");
+    return ` ${code.padEnd(8)} ${destination} ${detail}`;
+  }
+
+  private showProcessesTop(router: SimulatedRouter): string {
+    const cpu = router.cpuUsage;
+    const total = 2006156;
+    const used = Math.round((total * router.memoryUsage) / 100);
+    const load = (cpu / 100).toFixed(2);
+    return [
+      `top - ${new Date().toISOString().slice(11, 19)} up ${this.formatUptime(router.createdAt)},  load average: ${load}, ${load}, ${load}`,
+      "Tasks: 245 total,   1 running, 244 sleeping,   0 stopped,   0 zombie",
+      `%Cpu(s): ${(cpu * 0.7).toFixed(1)} us, ${(cpu * 0.3).toFixed(1)} sy,  0.0 ni, ${(100 - cpu).toFixed(1)} id,  0.0 wa,  0.0 hi,  0.0 si,  0.0 st`,
+      `KiB Mem :  ${total} total,  ${total - used} free,  ${used} used,        0 buff/cache`,
+      "",
+      "  PID USER      PR  NI    VIRT    RES    SHR S  %CPU %MEM     TIME+ COMMAND",
+      ` 1834 root      20   0  543212 212344  98764 S ${(cpu * 0.6).toFixed(1).padStart(5)}  10.6   1:23.45 Sysdb`,
+      ` 2011 root      20   0  612876 198432  87612 S ${(cpu * 0.4).toFixed(1).padStart(5)}   9.9   0:54.12 Rib`,
+    ].join("\n");
+  }
+
+  private shortName(name: string): string {
+    return name.replace(/^Ethernet/, "Et").replace(/^Loopback/, "Lo");
+  }
+
+  private dottedArea(area: string): string {
+    return isIpv4(area) ? area : numberToIp(Number(area));
+  }
+
+  private version(router?: SimulatedRouter): string {
+    return (router?.iosVersion ?? this.softwareVersion).replace(/^EOS\s*/i, "");
+  }
+}
@@ -0,0 +1,48 @@
+import { FaultInjector } from "./FaultInjector";
+import { RouterSimulator } from "./RouterSimulator";
+import { LLMIntegration } from "./LLMIntegration";
+
+describe("FaultInjector", () => {
+  let simulator: RouterSimulator;
+  let faultInjector: FaultInjector;
+
+  beforeEach(() => {
+    simulator = new RouterSimulator(new LLMIntegration(), {
+      llmFallback: false,
+    });
+    faultInjector = new FaultInjector(simulator);
+  });
+
+  it("lists each ground-truth term once when both link ends share a port name", () => {
+    const [r1, r2] = ["R1", "R2"].map((name) =>
+      simulator.getAllRouters().find((r) => r.name === name)!,
+    );
+    const link = simulator
+      .getLinks()
+      .find((candidate) =>
+        candidate.endpoints.every((end) =>
+          [r1.id, r2.id].includes(end.routerId),
+        ),
+      )!;
+
+    const { scenario } = faultInjector.injectFault({
+      type: "link-down",
+      linkId: link.id,
+    });
+
+    expect(scenario!.groundTruth.keywords[1]).toEqual([
+      "GigabitEthernet0/0",
+      "Gi0/0",
+      "Gig0/0",
+    ]);
+    scenario!.groundTruth.keywords.forEach((group) =>
+      expect(new Set(group).size).toBe(group.length),
+    );
+
+    const diagnosis = faultInjector.scoreDiagnosis(scenario!.id, {
+      diagnosis: "Gi0/0 between R1 and R2 is down, check the cable",
+    });
+    expect(diagnosis).toMatchObject({ score: 1, missed: [] });
+    faultInjector.clearFault(scenario!.id);
+  });
+});
@@ -0,0 +1,660 @@
+import { v4 as uuidv4 } from "uuid";
+import { logger } from "../utils/logger";
+import { RouterSimulator } from "./RouterSimulator";
+import { AIAgentSystem } from "./AIAgentSystem";
+import { llmIntegration } from "./LLMIntegration";
+import { MemoryManager } from "./MemoryManager";
+import {
+  FaultSpec,
+  FaultScenario,
+  FaultGroundTruth,
+  FaultDiagnosis,
+  SimulatedLink,
+  SimulatedRouter,
+} from "../types";
+
+// How one fault is put in place and taken out again
+interface FaultPlan {
+  groundTruth: FaultGroundTruth;
+  symptom: string;
+  routerIds: string[]; // routers whose state the agent is shown
+  extraCommands: { routerId: string; command: string }[];
+  inject: () => string | undefined;
+  clear: () => void;
+}
+
+const DEFAULT_LEVELS = { "high-cpu": 95, "high-memory": 92, "packet-loss": 20 };
+const DEFAULT_FLAP_INTERVAL = 5;
+
+// Breaks the simulated lab in known ways and scores diagnoses against the
+// recorded cause, to rehearse the troubleshooting agent
+export class FaultInjector {
+  private simulator: RouterSimulator;
+  private agentSystem: AIAgentSystem;
+  private scenarios: Map<string, FaultScenario> = new Map();
+  private plans: Map<string, FaultPlan> = new Map();
+  private timers: Map<string, NodeJS.Timeout[]> = new Map();
+
+  constructor(
+    simulator: RouterSimulator,
+    agentSystem: AIAgentSystem = new AIAgentSystem(
+      llmIntegration,
+      new MemoryManager(),
+    ),
+  ) {
+    this.simulator = simulator;
+    this.agentSystem = agentSystem;
+    logger.info("Fault Injector initialized");
+  }
+
+  public injectFault(spec: FaultSpec): {
+    success: boolean;
+    scenario?: FaultScenario;
+    error?: string;
+  } {
+    const id = uuidv4();
+    const plan = this.plan(id, spec);
+    if (typeof plan === "string") {
+      return { success: false, error: plan };
+    }
+
+    const now = Date.now();
+    const delay = (spec.delaySeconds || 0) * 1000;
+    const scenario: FaultScenario = {
+      id,
+      spec: { ...spec },
+      status: "scheduled",
+      symptom: spec.symptom || plan.symptom,
+      groundTruth: this.withUniqueTerms(plan.groundTruth),
+      diagnoses: [],
+      createdAt: new Date(now).toISOString(),
+      startsAt: new Date(now + delay).toISOString(),
+      activatedAt: null,
+      clearedAt: null,
+    };
+    this.scenarios.set(id, scenario);
+    this.plans.set(id, plan);
+
+    if (delay > 0) {
+      this.addTimer(
+        id,
+        setTimeout(() => this.activate(scenario), delay),
+      );
+      logger.info(
+        `Scheduled ${spec.type} fault ${id} for ${scenario.startsAt}`,
+      );
+    } else {
+      this.activate(scenario);
+    }
+    return { success: true, scenario };
+  }
+
+  // Cleared scenarios are kept so their diagnoses can still be read
+  public clearFault(scenarioId: string): boolean {
+    const scenario = this.scenarios.get(scenarioId);
+    if (!scenario) return false;
+
+    this.stopTimers(scenarioId);
+    if (scenario.status === "active") {
+      const plan = this.plans.get(scenarioId);
+      if (plan) this.simulator.unrecorded(plan.clear);
+    }
+    if (scenario.status === "active" || scenario.status === "scheduled") {
+      scenario.status = "cleared";
+      scenario.clearedAt = new Date().toISOString();
+      logger.info(`Cleared ${scenario.spec.type} fault ${scenarioId}`);
+    }
+    return true;
+  }
+
+  public getScenario(scenarioId: string): FaultScenario | undefined {
+    return this.scenarios.get(scenarioId);
+  }
+
+  public getScenarios(): FaultScenario[] {
+    return Array.from(this.scenarios.values());
+  }
+
+  // Shows the agent the symptom, the configs and the show output of the
+  // affected routers, then scores its answer
+  public async diagnose(scenarioId: string): Promise<{
+    success: boolean;
+    diagnosis?: FaultDiagnosis;
+    error?: string;
+  }> {
+    const scenario = this.scenarios.get(scenarioId);
+    const plan = this.plans.get(scenarioId);
+    if (!scenario || !plan) {
+      return { success: false, error: "Fault scenario not found" };
+    }
+    if (scenario.status !== "active") {
+      return { success: false, error: `Fault is ${scenario.status}` };
+    }
+
+    try {
+      const routers = plan.routerIds
+        .map((routerId) => this.simulator.getRouter(routerId))
+        .filter((router): router is SimulatedRouter => router !== undefined);
+      const deviceInfo = await Promise.all(
+        routers.map(async (router) => ({
+          name: router.name,
+          model: router.model,
+          cpuUsage: router.cpuUsage,
+          memoryUsage: router.memoryUsage,
+          interfaces: router.interfaces,
+          show: await this.collectEvidence(router, plan),
+        })),
+      );
+      const configuration = routers
+        .map((router) => `! ${router.name}\n${router.runningConfig}`)
+        .join("\n");
+
+      const result = await this.agentSystem.troubleshootConfiguration(
+        configuration,
+        scenario.symptom,
+        { routers: deviceInfo },
+      );
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      const diagnosis = this.scoreDiagnosis(
+        scenarioId,
+        {
+          diagnosis: result.diagnosis || "",
+          suggestedFix: result.suggestedFix || "",
+        },
+        "agent",
+      );
+      return { success: true, diagnosis };
+    } catch (error) {
+      logger.error(`Error diagnosing fault ${scenarioId}: ${error}`);
+      return { success: false, error: String(error) };
+    }
+  }
+
+  public scoreDiagnosis(
+    scenarioId: string,
+    answer: { diagnosis: string; suggestedFix?: string },
+    source: FaultDiagnosis["source"] = "manual",
+  ): FaultDiagnosis | undefined {
+    const scenario = this.scenarios.get(scenarioId);
+    if (!scenario) return undefined;
+
+    const text =
+      `${answer.diagnosis} ${answer.suggestedFix || ""}`.toLowerCase();
+    const matched: string[] = [];
+    const missed: string[][] = [];
+    scenario.groundTruth.keywords.forEach((group) => {
+      const term = group.find((candidate) =>
+        text.includes(candidate.toLowerCase()),
+      );
+      if (term) {
+        matched.push(term);
+      } else {
+        missed.push(group);
+      }
+    });
+
+    const groups = scenario.groundTruth.keywords.length;
+    const diagnosis: FaultDiagnosis = {
+      source,
+      diagnosis: answer.diagnosis,
+      suggestedFix: answer.suggestedFix || "",
+      score: groups > 0 ? Math.round((matched.length / groups) * 100) / 100 : 0,
+      matched,
+      missed,
+      diagnosedAt: new Date().toISOString(),
+    };
+    scenario.diagnoses.push(diagnosis);
+    logger.info(
+      `Scored ${source} diagnosis of fault ${scenarioId}: ${diagnosis.score}`,
+    );
+    return diagnosis;
+  }
+
+  private activate(scenario: FaultScenario): void {
+    const plan = this.plans.get(scenario.id);
+    const error = plan && this.simulator.unrecorded(plan.inject);
+    if (error) {
+      this.stopTimers(scenario.id);
+      scenario.status = "failed";
+      scenario.error = error;
+      logger.warn(`Could not inject fault ${scenario.id}: ${error}`);
+      return;
+    }
+
+    scenario.status = "active";
+    scenario.activatedAt = scenario.activatedAt || new Date().toISOString();
+    if (scenario.spec.durationSeconds) {
+      const endsAt =
+        Date.parse(scenario.activatedAt) + scenario.spec.durationSeconds * 1000;
+      this.addTimer(
+        scenario.id,
+        setTimeout(
+          () => this.clearFault(scenario.id),
+          Math.max(0, endsAt - Date.now()),
+        ),
+      );
+    }
+    logger.info(
+      `Injected ${scenario.spec.type} fault ${scenario.id}: ${scenario.groundTruth.cause}`,
+    );
+  }
+
+  // Takes active faults out of the lab without ending their scenarios, so
+  // snapshots hold the unbroken state
+  public suspend(): void {
+    this.scenarios.forEach((scenario) => {
+      this.stopTimers(scenario.id);
+      const plan = this.plans.get(scenario.id);
+      if (scenario.status === "active" && plan) {
+        this.simulator.unrecorded(plan.clear);
+      }
+    });
+  }
+
+  // Re-plans against the current lab, then re-injects active faults and
+  // re-arms scheduled ones with the time they had left
+  public resume(): void {
+    this.scenarios.forEach((scenario) => {
+      if (scenario.status !== "active" && scenario.status !== "scheduled") {
+        return;
+      }
+      const plan = this.plan(scenario.id, scenario.spec);
+      if (typeof plan === "string") {
+        scenario.status = "failed";
+        scenario.error = plan;
+        return;
+      }
+      this.plans.set(scenario.id, plan);
+
+      if (scenario.status === "active") {
+        this.activate(scenario);
+      } else {
+        this.addTimer(
+          scenario.id,
+          setTimeout(
+            () => this.activate(scenario),
+            Math.max(0, Date.parse(scenario.startsAt) - Date.now()),
+          ),
+        );
+      }
+    });
+  }
+
+  // Faults must be suspended first; the replacements take effect on resume
+  public replaceScenarios(scenarios: FaultScenario[]): void {
+    this.scenarios.forEach((scenario) => this.stopTimers(scenario.id));
+    this.scenarios = new Map(
+      scenarios.map((scenario) => [
+        scenario.id,
+        JSON.parse(JSON.stringify(scenario)),
+      ]),
+    );
+    this.plans.clear();
+  }
+
+  public exportScenarios(): FaultScenario[] {
+    return JSON.parse(JSON.stringify(this.getScenarios()));
+  }
+
+  private async collectEvidence(
+    router: SimulatedRouter,
+    plan: FaultPlan,
+  ): Promise<Record<string, string>> {
+    const sessionId = uuidv4();
+    // Each platform has its own show commands for the same state
+    const commands = [
+      ...(this.simulator.getPersonality(router.id)?.evidenceCommands || []),
+      ...plan.extraCommands
+        .filter((extra) => extra.routerId === router.id)
+        .map((extra) => extra.command),
+    ];
+
+    const show: Record<string, string> = {};
+    for (const command of commands) {
+      const result = await this.simulator.executeCommand(
+        router.id,
+        command,
+        sessionId,
+      );
+      show[command] = result.output ?? result.error ?? "";
+    }
+    this.simulator.disconnectSession(sessionId);
+    return show;
+  }
+
+  private plan(id: string, spec: FaultSpec): FaultPlan | string {
+    switch (spec.type) {
+      case "interface-flap":
+        return this.planInterfaceFlap(id, spec);
+      case "link-down":
+        return this.planLinkDown(spec);
+      case "high-cpu":
+      case "high-memory":
+        return this.planHighLoad(spec);
+      case "neighbor-failure":
+        return spec.protocol === "bgp"
+          ? this.planBgpNeighborFailure(spec)
+          : this.planOspfNeighborFailure(spec);
+      case "packet-loss":
+        return this.planPacketLoss(spec);
+      default:
+        return `Unknown fault type: ${spec.type}`;
+    }
+  }
+
+  private planInterfaceFlap(id: string, spec: FaultSpec): FaultPlan | string {
+    const router = this.simulator.getRouter(spec.routerId || "");
+    if (!router) return "Router not found";
+    const name = spec.interfaceName || "";
+    if (!router.interfaces.some((iface) => iface.name === name)) {
+      return `Interface ${name} not found on ${router.name}`;
+    }
+
+    const interval = spec.flapIntervalSeconds || DEFAULT_FLAP_INTERVAL;
+    const link = this.linkOf(router.id, name);
+    return {
+      groundTruth: {
+        cause: `${name} on ${router.name} is flapping: the port loses carrier every ${interval} seconds`,
+        keywords: [
+          [router.name],
+          this.interfaceTerms(name),
+          ["flap", "bouncing", "carrier", "physical", "cable", "layer 1"],
+        ],
+      },
+      symptom: `Users behind ${router.name} report intermittent connectivity`,
+      routerIds: link ? link.endpoints.map((end) => end.routerId) : [router.id],
+      extraCommands: [],
+      inject: () => {
+        if (!this.simulator.setInterfaceFault(router.id, name, true)) {
+          return `Interface ${name} no longer exists on ${router.name}`;
+        }
+        let down = true;
+        this.addTimer(
+          id,
+          setInterval(() => {
+            down = !down;
+            this.simulator.unrecorded(() =>
+              this.simulator.setInterfaceFault(router.id, name, down),
+            );
+          }, interval * 1000),
+        );
+        return undefined;
+      },
+      clear: () => {
+        this.simulator.setInterfaceFault(router.id, name, false);
+      },
+    };
+  }
+
+  private planLinkDown(spec: FaultSpec): FaultPlan | string {
+    const link = this.findLink(spec.linkId);
+    if (!link) return "Link not found";
+
+    const [a, b] = this.linkEnds(link);
+    return {
+      groundTruth: {
+        cause: `Link ${a.routerName} ${a.interfaceName} <-> ${b.routerName} ${b.interfaceName} is down at layer 1`,
+        keywords: [
+          [a.routerName, b.routerName],
+          [
+            ...this.interfaceTerms(a.interfaceName),
+            ...this.interfaceTerms(b.interfaceName),
+          ],
+          ["down", "cable", "physical", "layer 1", "carrier"],
+        ],
+      },
+      symptom: `Traffic between ${a.routerName} and ${b.routerName} fails or takes a longer path`,
+      routerIds: link.endpoints.map((end) => end.routerId),
+      extraCommands: [],
+      inject: () =>
+        this.simulator.setLinkStatus(link.id, "down")
+          ? undefined
+          : "Link no longer exists",
+      clear: () => {
+        this.simulator.setLinkStatus(link.id, "up");
+      },
+    };
+  }
+
+  private planHighLoad(spec: FaultSpec): FaultPlan | string {
+    const router = this.simulator.getRouter(spec.routerId || "");
+    if (!router) return "Router not found";
+
+    const cpu = spec.type === "high-cpu";
+    const field = cpu ? "cpuUsage" : "memoryUsage";
+    const level =
+      spec.level ?? DEFAULT_LEVELS[cpu ? "high-cpu" : "high-memory"];
+    const previous = router[field];
+    const usage = (value: number) =>
+      cpu ? { cpuUsage: value } : { memoryUsage: value };
+    return {
+      groundTruth: cpu
+        ? {
+            cause: `CPU on ${router.name} is pinned at ${level}% by the IP Input process`,
+            keywords: [[router.name], ["cpu", "processor"]],
+          }
+        : {
+            cause: `Memory on ${router.name} is ${level}% used and close to exhaustion`,
+            keywords: [[router.name], ["memory"]],
+          },
+      symptom: cpu
+        ? `${router.name} is slow to respond at the CLI`
+        : `${router.name} intermittently refuses new sessions`,
+      routerIds: [router.id],
+      extraCommands: [],
+      inject: () =>
+        this.simulator.setResourceUsage(router.id, usage(level))
+          ? undefined
+          : "Router no longer exists",
+      clear: () => {
+        this.simulator.setResourceUsage(router.id, usage(previous));
+      },
+    };
+  }
+
+  // A hello interval that differs from the peer's keeps the adjacency down
+  private planOspfNeighborFailure(spec: FaultSpec): FaultPlan | string {
+    const router = this.simulator.getRouter(spec.routerId || "");
+    if (!router) return "Router not found";
+
+    const neighbor = router.ospfNeighbors.find(
+      (candidate) =>
+        !spec.interfaceName || candidate.interface === spec.interfaceName,
+    );
+    if (!neighbor) {
+      return `No OSPF neighbor to break on ${router.name}${spec.interfaceName ? ` ${spec.interfaceName}` : ""}`;
+    }
+
+    const name = neighbor.interface;
+    const section = `interface ${name}`;
+    const existing = this.simulator
+      .getIosConfig(router.id)
+      ?.lines([section])
+      .find((line) => line.startsWith("ip ospf hello-interval "));
+    const current = existing ? Number(existing.split(" ").pop()) : 10;
+    const injected = current === 5 ? 10 : 5;
+    const peer = this.routerWithAddress(neighbor.address);
+    const peerName = peer?.name || neighbor.neighborId;
+    return {
+      groundTruth: {
+        cause: `OSPF hello interval on ${router.name} ${name} is ${injected} seconds but ${peerName} uses ${current}, so the adjacency never forms`,
+        keywords: [
+          [router.name, peerName],
+          this.interfaceTerms(name),
+          ["hello", "dead", "timer", "interval"],
+        ],
+      },
+      symptom: `Routes from ${peerName} are missing on ${router.name}`,
+      routerIds: peer ? [router.id, peer.id] : [router.id],
+      extraCommands: [],
+      inject: () =>
+        this.simulator.applyIosConfigCommand(
+          router.id,
+          [section],
+          `ip ospf hello-interval ${injected}`,
+        ).error,
+      clear: () => {
+        this.simulator.applyIosConfigCommand(
+          router.id,
+          [section],
+          existing || "no ip ospf hello-interval",
+        );
+      },
+    };
+  }
+
+  // A mistyped remote-as leaves the session stuck in Active
+  private planBgpNeighborFailure(spec: FaultSpec): FaultPlan | string {
+    const router = this.simulator.getRouter(spec.routerId || "");
+    if (!router) return "Router not found";
+
+    const tree = this.simulator.getIosConfig(router.id);
+    const section = tree?.sections("router bgp")[0];
+    if (!section) return `BGP is not configured on ${router.name}`;
+    const original = tree
+      ?.lines([section])
+      .find((line) =>
+        spec.neighbor
+          ? line.startsWith(`neighbor ${spec.neighbor} remote-as `)
+          : /^neighbor \S+ remote-as \d+$/.test(line),
+      );
+    if (!original) {
+      return spec.neighbor
+        ? `No BGP neighbor ${spec.neighbor} on ${router.name}`
+        : `No BGP neighbors on ${router.name}`;
+    }
+
+    const [, address, , remoteAs] = original.split(" ");
+    const injected = Number(remoteAs) + 1;
+    const peer = this.routerWithAddress(address);
+    return {
+      groundTruth: {
+        cause: `BGP neighbor ${address} on ${router.name} is configured with remote-as ${injected}, but the peer is in AS ${remoteAs}`,
+        keywords: [
+          [router.name],
+          [address, ...(peer ? [peer.name] : [])],
+          ["remote-as", "remote as", "as number", "asn", "autonomous system"],
+        ],
+      },
+      symptom: `BGP routes from ${peer?.name || address} are missing on ${router.name}`,
+      routerIds: peer ? [router.id, peer.id] : [router.id],
+      extraCommands: [],
+      inject: () =>
+        this.simulator.applyIosConfigCommand(
+          router.id,
+          [section],
+          `neighbor ${address} remote-as ${injected}`,
+        ).error,
+      clear: () => {
+        this.simulator.applyIosConfigCommand(router.id, [section], original);
+      },
+    };
+  }
+
+  private planPacketLoss(spec: FaultSpec): FaultPlan | string {
+    const link = this.findLink(spec.linkId);
+    if (!link) return "Link not found";
+
+    const level = spec.level ?? DEFAULT_LEVELS["packet-loss"];
+    const [a, b] = this.linkEnds(link);
+    const target = this.simulator
+      .getRouter(b.routerId)
+      ?.interfaces.find((iface) => iface.name === b.interfaceName)?.ipAddress;
+    return {
+      groundTruth: {
+        cause: `Link ${a.routerName} ${a.interfaceName} <-> ${b.routerName} ${b.interfaceName} drops ${level}% of packets`,
+        keywords: [
+          [a.routerName, b.routerName],
+          [
+            ...this.interfaceTerms(a.interfaceName),
+            ...this.interfaceTerms(b.interfaceName),
+          ],
+          ["loss", "drop", "errors", "crc", "congestion"],
+        ],
+      },
+      symptom: `Pings between ${a.routerName} and ${b.routerName} intermittently fail`,
+      routerIds: link.endpoints.map((end) => end.routerId),
+      extraCommands: target
+        ? [{ routerId: a.routerId, command: `ping ${target}` }]
+        : [],
+      inject: () =>
+        this.simulator.setLinkLoss(link.id, level)
+          ? undefined
+          : "Link no longer exists",
+      clear: () => {
+        this.simulator.setLinkLoss(link.id, 0);
+      },
+    };
+  }
+
+  private findLink(linkId?: string): SimulatedLink | undefined {
+    return this.simulator.getLinks().find((link) => link.id === linkId);
+  }
+
+  private linkOf(
+    routerId: string,
+    interfaceName: string,
+  ): SimulatedLink | undefined {
+    return this.simulator
+      .getLinks()
+      .find((link) =>
+        link.endpoints.some(
+          (end) =>
+            end.routerId === routerId && end.interfaceName === interfaceName,
+        ),
+      );
+  }
+
+  private linkEnds(
+    link: SimulatedLink,
+  ): { routerId: string; routerName: string; interfaceName: string }[] {
+    return link.endpoints.map((end) => ({
+      ...end,
+      routerName: this.simulator.getRouter(end.routerId)?.name || end.routerId,
+    }));
+  }
+
+  private routerWithAddress(address: string): SimulatedRouter | undefined {
+    return this.simulator
+      .getAllRouters()
+      .find((router) =>
+        router.interfaces.some((iface) => iface.ipAddress === address),
+      );
+  }
+
+  // Diagnoses usually abbreviate port names, as in "Gi0/1"
+  // Both ends of a link often share a port name, and a router can be its
+  // own peer's name; each group lists a term once
+  private withUniqueTerms(groundTruth: FaultGroundTruth): FaultGroundTruth {
+    return {
+      ...groundTruth,
+      keywords: groundTruth.keywords.map((group) => Array.from(new Set(group))),
+    };
+  }
+
+  private interfaceTerms(name: string): string[] {
+    const port = name.replace(/^[A-Za-z-]+/, "");
+    return Array.from(
+      new Set([
+        name,
+        `${name.slice(0, 2)}${port}`,
+        `${name.slice(0, 3)}${port}`,
+      ]),
+    );
+  }
+
+  private addTimer(scenarioId: string, timer: NodeJS.Timeout): void {
+    this.timers.set(scenarioId, [
+      ...(this.timers.get(scenarioId) || []),
+      timer,
+    ]);
+  }
+
+  private stopTimers(scenarioId: string): void {
+    (this.timers.get(scenarioId) || []).forEach((timer) => clearTimeout(timer));
+    this.timers.delete(scenarioId);
+  }
+}
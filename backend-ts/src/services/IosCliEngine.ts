@@ -0,0 +1,2226 @@
+import { DevicePersonality } from "./DevicePersonality";
+import { IosConfigTree } from "./IosConfigTree";
+import { ShowCommandParser } from "./ShowCommandParser";
+import {
+  SimulatedRouter,
+  RouterInterface,
+  RouteEntry,
+  RouteProtocol,
+  CliContext,
+  CliCommandResult,
+  CliMode,
+  CliSessionState,
+  ConfigCommand,
+  DevicePlatform,
+} from "../types";
+import {
+  isIpv4,
+  ipToNumber,
+  maskToPrefix,
+  networkAddress,
+  classfulPrefix,
+} from "../utils/ipv4";
+
+export type CliRun = (
+  context: CliContext,
+  args: string[],
+  line: string,
+) => string;
+
+export interface CliNode {
+  keyword: string; // shown in help; placeholders such as "<0-512>" for arguments
+  help: string;
+  argument?:
+    | "interface"
+    | "interface-name"
+    | "number"
+    | "ip"
+    | "prefix" // A.B.C.D/nn
+    | "word"
+    | "line";
+  range?: [number, number];
+  privileged?: boolean; // hidden in user exec mode
+  negatable?: boolean; // false for commands without a "no" form
+  children?: CliNode[];
+  run?: CliRun;
+}
+
+interface CliToken {
+  text: string;
+  offset: number;
+}
+
+export type CliReply = Omit<CliCommandResult, "prompt">;
+
+export type CliError =
+  { error: "invalid"; offset: number } | { error: "ambiguous" };
+
+type CliWalk =
+  { node: CliNode | null; args: string[]; words: string[] } | CliError;
+
+export const MODE_PROMPTS: Record<CliMode, string> = {
+  user: ">",
+  privileged: "#",
+  config: "(config)#",
+  "config-if": "(config-if)#",
+  "config-subif": "(config-subif)#",
+  "config-router": "(config-router)#",
+  "config-line": "(config-line)#",
+};
+
+const MODE_TITLES: Record<CliMode, string> = {
+  user: "Exec commands:",
+  privileged: "Exec commands:",
+  config: "Configure commands:",
+  "config-if": "Interface configuration commands:",
+  "config-subif": "Interface configuration commands:",
+  "config-router": "Router configuration commands:",
+  "config-line": "Line configuration commands:",
+};
+
+// Handled before the command tree, so they only appear in help listings
+const CONFIG_PREFIXES: CliNode[] = [
+  { keyword: "do", help: "To run exec commands in config mode" },
+  { keyword: "no", help: "Negate a command or set its defaults" },
+];
+
+// Config mode may create these; physical ports must already exist
+const VIRTUAL_INTERFACE_TYPES = ["Loopback", "Port-channel", "Tunnel", "Vlan"];
+
+export const LOOPBACK_INTERFACE = /^(lo|loopback)\d/i;
+
+// IOS commands the engine does not model. They only make abbreviations
+// ambiguous, as on a real router: "s" could be send, set, setup or show.
+const USER_KEYWORDS = [
+  "access-enable",
+  "connect",
+  "disconnect",
+  "help",
+  "lock",
+  "login",
+  "ppp",
+  "release",
+  "renew",
+  "resume",
+  "rlogin",
+  "set",
+  "slip",
+  "ssh",
+  "systat",
+  "telnet",
+  "tunnel",
+  "where",
+];
+
+const EXEC_KEYWORDS = [
+  ...USER_KEYWORDS,
+  "archive",
+  "cd",
+  "clear",
+  "debug",
+  "delete",
+  "dir",
+  "erase",
+  "format",
+  "monitor",
+  "more",
+  "pwd",
+  "reload",
+  "rename",
+  "send",
+  "setup",
+  "squeeze",
+  "start-chat",
+  "test",
+  "undebug",
+  "verify",
+];
+
+const CONFIG_KEYWORDS = [
+  "aaa",
+  "access-list",
+  "banner",
+  "boot",
+  "cdp",
+  "class-map",
+  "clock",
+  "crypto",
+  "default",
+  "logging",
+  "login",
+  "policy-map",
+  "route-map",
+  "snmp-server",
+  "spanning-tree",
+  "vrf",
+];
+
+const INTERFACE_KEYWORDS = [
+  "bandwidth",
+  "cdp",
+  "default",
+  "delay",
+  "duplex",
+  "encapsulation",
+  "mtu",
+  "negotiation",
+  "service-policy",
+  "speed",
+  "standby",
+  "switchport",
+  "vrf",
+];
+
+const ROUTER_KEYWORDS = [
+  "auto-cost",
+  "default",
+  "default-metric",
+  "distance",
+  "maximum-paths",
+  "neighbor",
+  "nsf",
+  "redistribute",
+  "summary-address",
+  "timers",
+];
+
+const LINE_KEYWORDS = [
+  "access-class",
+  "exec-timeout",
+  "history",
+  "length",
+  "logging",
+  "password",
+  "privilege",
+  "session-timeout",
+];
+
+const OUTPUT_MODIFIERS: [string, string][] = [
+  ["begin", "Begin with the line that matches"],
+  ["exclude", "Exclude lines that match"],
+  ["include", "Include lines that match"],
+];
+
+export const ROUTE_CODES = `Codes: L - local, C - connected, S - static, R - RIP, M - mobile, B - BGP
+       D - EIGRP, EX - EIGRP external, O - OSPF, IA - OSPF inter area
+       N1 - OSPF NSSA external type 1, N2 - OSPF NSSA external type 2
+       E1 - OSPF external type 1, E2 - OSPF external type 2
+       i - IS-IS, su - IS-IS summary, L1 - IS-IS level-1, L2 - IS-IS level-2
+       ia - IS-IS inter area, * - candidate default, U - per-user static route
+       o - ODR, P - periodic downloaded static route, H - NHRP, l - LISP
+       a - application route
+       + - replicated route, % - next hop override, p - overrides from PfR`;
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+// Parses and answers IOS commands from the simulated router's own state.
+// The session carries the CLI mode; config lines go to context.applyConfig.
+// Platforms with IOS-like CLIs extend it and swap parts of the command trees.
+export class IosCliEngine extends DevicePersonality {
+  public readonly platform: DevicePlatform = "ios-xe";
+  public readonly vendor: string = "Cisco";
+  public readonly defaultModel: string = "CSR1000v";
+  public readonly softwareVersion: string = "IOS-XE 17.3.1a";
+  public readonly models: RegExp = /csr|c8000v|iol|iou|iosv|vios|7200|3725/i;
+  public readonly deviceTypes: string[] = [
+    "cisco_ios",
+    "cisco_xe",
+    "Router",
+    "Switch",
+  ];
+  public readonly evidenceCommands: string[] = [
+    "show ip interface brief",
+    "show ip ospf neighbor",
+    "show ip bgp summary",
+    "show ip route",
+    "show processes cpu",
+    "show processes memory",
+  ];
+  private trees: Record<CliMode, CliNode[]>;
+  private bgpCommands: CliNode[];
+  // Keywords outside each top-level tree that abbreviations must not match
+  private otherKeywords: Map<CliNode[], string[]> = new Map();
+  private showParser: ShowCommandParser = new ShowCommandParser();
+
+  constructor() {
+    super();
+    const execCommands = this.buildExecCommands();
+    const interfaceCommands = this.buildInterfaceCommands();
+    this.trees = {
+      user: this.userCommands(execCommands),
+      privileged: execCommands,
+      config: this.buildConfigCommands(),
+      "config-if": interfaceCommands,
+      "config-subif": interfaceCommands,
+      "config-router": this.buildOspfCommands(),
+      "config-line": this.buildLineCommands(),
+    };
+    this.bgpCommands = this.buildBgpCommands();
+    this.otherKeywords
+      .set(this.trees.user, USER_KEYWORDS)
+      .set(this.trees.privileged, EXEC_KEYWORDS)
+      .set(this.trees.config, CONFIG_KEYWORDS)
+      .set(interfaceCommands, INTERFACE_KEYWORDS)
+      .set(this.trees["config-router"], ROUTER_KEYWORDS)
+      .set(this.trees["config-line"], LINE_KEYWORDS)
+      .set(this.bgpCommands, ROUTER_KEYWORDS);
+  }
+
+  public execute(context: CliContext, line: string): CliCommandResult {
+    const reply = this.dispatch(context, line);
+    return { ...reply, prompt: this.prompt(context) };
+  }
+
+  public prompt(context: CliContext): string {
+    return context.router.name + MODE_PROMPTS[context.session.mode];
+  }
+
+  public configCommands(text: string): ConfigCommand[] {
+    return IosConfigTree.commands(text);
+  }
+
+  // Section headers translate like any other line, into a single header
+  public toIos(
+    path: string[],
+    line: string,
+    config: IosConfigTree,
+  ): ConfigCommand[] | string {
+    let section: string[] = [];
+    for (const header of path) {
+      const commands = this.translate(section, header, config);
+      if (typeof commands === "string") return commands;
+      const last = commands[commands.length - 1];
+      section = [...last.path, last.line];
+    }
+
+    const negated = line.startsWith("no ");
+    const commands = this.translate(
+      section,
+      negated ? line.slice("no ".length) : line,
+      config,
+    );
+    if (typeof commands === "string" || !negated) return commands;
+    // Only the command itself is negated, not what it set up
+    const last = commands[commands.length - 1];
+    return [{ ...last, line: `no ${last.line}` }];
+  }
+
+  public render(config: IosConfigTree): string {
+    return config.render();
+  }
+
+  // One positive command under an IOS-form section. Pasted configs may
+  // abbreviate interface names, as in "interface gi0/1".
+  protected translate(
+    section: string[],
+    command: string,
+    _config: IosConfigTree,
+  ): ConfigCommand[] | string {
+    const match = command.match(/^interface (.+)$/);
+    const line = match
+      ? `interface ${this.showParser.normalizeInterfaceName(match[1])}`
+      : command;
+    return [{ path: section, line }];
+  }
+
+  // The reverse of translate, for one line of the rendered IOS config
+  protected fromIos(
+    path: string[],
+    line: string,
+    _config: IosConfigTree,
+  ): ConfigCommand[] {
+    return [{ path, line }];
+  }
+
+  // Rebuilds the config in the platform's syntax, with IOS ordering
+  protected nativeConfig(config: IosConfigTree): IosConfigTree {
+    const native = new IosConfigTree();
+    IosConfigTree.commands(config.render()).forEach(({ path, line }) =>
+      this.fromIos(path, line, config).forEach((command) =>
+        native.apply(command.path, command.line),
+      ),
+    );
+    return native;
+  }
+
+  // Copies a command tree with the node at a keyword path changed or removed
+  protected editTree(
+    nodes: CliNode[],
+    path: string[],
+    edit: (node: CliNode) => CliNode | null,
+  ): CliNode[] {
+    const [keyword, ...rest] = path;
+    return nodes.flatMap((node) => {
+      if (node.keyword !== keyword) return [node];
+      if (rest.length > 0) {
+        return [
+          { ...node, children: this.editTree(node.children || [], rest, edit) },
+        ];
+      }
+      const edited = edit(node);
+      return edited ? [edited] : [];
+    });
+  }
+
+  private dispatch(context: CliContext, line: string): CliReply {
+    const text = line.replace(/\s+$/, "");
+    const configuring = this.isConfiguring(context.session);
+    if (text.trim() === "") {
+      return { handled: true, output: "" };
+    }
+    // Ctrl-Z leaves configuration mode from any depth
+    if (configuring && (text === "\x1a" || text.trim() === "^Z")) {
+      return { handled: true, output: this.endConfig(context) };
+    }
+    if (text.endsWith("?")) {
+      return { handled: true, output: this.help(context, text.slice(0, -1)) };
+    }
+
+    const tokens = this.tokenize(text);
+    if (!configuring) {
+      return this.runExec(
+        context,
+        text,
+        tokens,
+        this.trees[context.session.mode],
+      );
+    }
+
+    const prefix = tokens[0].text.toLowerCase();
+    if (prefix === "do") {
+      return this.runExec(
+        context,
+        text,
+        tokens.slice(1),
+        this.trees.privileged,
+      );
+    }
+    return prefix === "no"
+      ? this.runConfig(context, text, tokens.slice(1), true)
+      : this.runConfig(context, text, tokens, false);
+  }
+
+  private runExec(
+    context: CliContext,
+    text: string,
+    tokens: CliToken[],
+    tree: CliNode[],
+  ): CliReply {
+    // Output modifiers only apply to exec commands
+    const pipeIndex = text.indexOf("|");
+    const commandTokens =
+      pipeIndex >= 0
+        ? tokens.filter((token) => token.offset < pipeIndex)
+        : tokens;
+    const walk = this.walk(tree, commandTokens, context);
+    if ("error" in walk) {
+      const reply = this.errorResult(context, text, walk);
+      // Privileged commands are known, just not allowed at this level
+      const privileged =
+        tree === this.trees.user &&
+        !("error" in this.walk(this.trees.privileged, commandTokens, context));
+      return privileged ? { ...reply, handled: true } : reply;
+    }
+    if (!walk.node?.run) {
+      return { handled: true, output: "% Incomplete command." };
+    }
+
+    const output = walk.node.run(context, walk.args, walk.words.join(" "));
+    return pipeIndex >= 0
+      ? this.applyModifier(context, text, pipeIndex, output)
+      : { handled: true, output };
+  }
+
+  private runConfig(
+    context: CliContext,
+    text: string,
+    tokens: CliToken[],
+    negated: boolean,
+  ): CliReply {
+    const { session } = context;
+    let walk = this.walk(this.treeFor(session), tokens, context);
+
+    // Global commands typed in a sub-mode drop back to global config first
+    if ("error" in walk && session.mode !== "config") {
+      const global = this.walk(this.trees.config, tokens, context);
+      if (!("error" in global)) {
+        session.mode = "config";
+        session.section = undefined;
+        walk = global;
+      }
+    }
+    if ("error" in walk) {
+      return this.errorResult(context, text, walk);
+    }
+
+    const { node } = walk;
+    const line = walk.words.join(" ");
+    if (negated) {
+      // "no ip address" is valid although "ip address" alone is incomplete
+      const complete =
+        node !== null &&
+        node.negatable !== false &&
+        (node.run !== undefined ||
+          (node.children || []).some((child) => child.argument));
+      return complete
+        ? { handled: true, output: this.configure(context, [], `no ${line}`) }
+        : { handled: true, output: "% Incomplete command." };
+    }
+    if (!node?.run) {
+      return { handled: true, output: "% Incomplete command." };
+    }
+    return { handled: true, output: node.run(context, walk.args, line) };
+  }
+
+  protected configure: CliRun = (context, _args, line) =>
+    context.applyConfig(context.session.section ?? null, line) || "";
+
+  protected enter(context: CliContext, mode: CliMode, section: string): string {
+    const error = context.applyConfig(null, section);
+    if (error) return error;
+
+    context.session.mode = mode;
+    context.session.section = section;
+    return "";
+  }
+
+  private endConfig(context: CliContext): string {
+    context.session.mode = "privileged";
+    context.session.section = undefined;
+    return "";
+  }
+
+  private exitMode(context: CliContext): string {
+    if (context.session.mode === "config") {
+      return this.endConfig(context);
+    }
+    context.session.mode = "config";
+    context.session.section = undefined;
+    return "";
+  }
+
+  private isConfiguring(session: CliSessionState): boolean {
+    return session.mode.startsWith("config");
+  }
+
+  private treeFor(session: CliSessionState): CliNode[] {
+    return session.mode === "config-router" &&
+      session.section?.startsWith("router bgp")
+      ? this.bgpCommands
+      : this.trees[session.mode];
+  }
+
+  // Subclasses list the commands they add in help order, as IOS does
+  protected sorted(nodes: CliNode[]): CliNode[] {
+    return [...nodes].sort((a, b) => a.keyword.localeCompare(b.keyword));
+  }
+
+  private userCommands(nodes: CliNode[]): CliNode[] {
+    return nodes
+      .filter((node) => !node.privileged)
+      .map((node) =>
+        node.children
+          ? { ...node, children: this.userCommands(node.children) }
+          : node,
+      );
+  }
+
+  protected buildExecCommands(): CliNode[] {
+    const save: CliRun = (context) => this.save(context);
+    const logout = ({ endSession }: CliContext) => {
+      endSession();
+      return "";
+    };
+
+    return [
+      {
+        keyword: "configure",
+        help: "Enter configuration mode",
+        privileged: true,
+        children: [
+          {
+            keyword: "terminal",
+            help: "Configure from the terminal",
+            run: ({ session }) => {
+              session.mode = "config";
+              return "Enter configuration commands, one per line.  End with CNTL/Z.";
+            },
+          },
+        ],
+      },
+      {
+        keyword: "copy",
+        help: "Copy from one file to another",
+        privileged: true,
+        children: [
+          {
+            keyword: "running-config",
+            help: "Copy from current system configuration",
+            children: [
+              {
+                keyword: "startup-config",
+                help: "Copy to startup configuration",
+                run: save,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "disable",
+        help: "Turn off privileged commands",
+        privileged: true,
+        run: ({ session }) => {
+          session.mode = "user";
+          return "";
+        },
+      },
+      {
+        keyword: "enable",
+        help: "Turn on privileged commands",
+        run: ({ session }) => {
+          session.mode = "privileged";
+          return "";
+        },
+      },
+      { keyword: "exit", help: "Exit from the EXEC", run: logout },
+      { keyword: "logout", help: "Exit from the EXEC", run: logout },
+      {
+        keyword: "ping",
+        help: "Send echo messages",
+        children: [
+          this.probeTarget("Ping destination address", (context, args) =>
+            this.ping(context, args),
+          ),
+        ],
+      },
+      {
+        keyword: "show",
+        help: "Show running system information",
+        children: this.buildShowCommands(),
+      },
+      {
+        keyword: "terminal",
+        help: "Set terminal line parameters",
+        children: [
+          {
+            keyword: "length",
+            help: "Set number of lines on a screen",
+            children: [
+              {
+                keyword: "<0-512>",
+                help: "Number of lines on screen (0 for no pausing)",
+                argument: "number",
+                range: [0, 512],
+                run: () => "",
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "traceroute",
+        help: "Trace route to destination",
+        children: [
+          this.probeTarget(
+            "Trace route to destination address",
+            (context, args) => this.traceroute(context, args),
+          ),
+        ],
+      },
+      {
+        keyword: "write",
+        help: "Write running configuration to memory, network, or terminal",
+        privileged: true,
+        run: save,
+        children: [
+          { keyword: "memory", help: "Write to NV memory", run: save },
+        ],
+      },
+    ];
+  }
+
+  protected buildShowCommands(): CliNode[] {
+    return [
+      {
+        keyword: "arp",
+        help: "ARP table",
+        run: ({ router }) => this.showArp(router),
+      },
+      {
+        keyword: "clock",
+        help: "Display the system clock",
+        run: () => this.showClock(),
+      },
+      {
+        keyword: "interfaces",
+        help: "Interface status and configuration",
+        run: ({ router }) => this.showInterfaces(router.interfaces),
+        children: [
+          {
+            keyword: "INTERFACE",
+            help: "",
+            argument: "interface",
+            run: ({ router }, [name]) =>
+              this.showInterfaces(
+                router.interfaces.filter((iface) => iface.name === name),
+              ),
+          },
+        ],
+      },
+      {
+        keyword: "inventory",
+        help: "Show the physical inventory",
+        run: ({ router }) => this.showInventory(router),
+      },
+      {
+        keyword: "ip",
+        help: "IP information",
+        children: [
+          {
+            keyword: "arp",
+            help: "IP ARP table",
+            run: ({ router }) => this.showArp(router),
+          },
+          {
+            keyword: "bgp",
+            help: "BGP information",
+            children: [
+              {
+                keyword: "summary",
+                help: "Summary of BGP neighbor status",
+                run: ({ router }) => this.showIpBgpSummary(router),
+              },
+            ],
+          },
+          {
+            keyword: "interface",
+            help: "IP interface status and configuration",
+            children: [
+              {
+                keyword: "brief",
+                help: "Brief summary of IP status and configuration",
+                run: ({ router }) => this.showIpInterfaceBrief(router),
+              },
+            ],
+          },
+          {
+            keyword: "ospf",
+            help: "OSPF information",
+            children: [
+              {
+                keyword: "neighbor",
+                help: "Neighbor list",
+                run: ({ router }) => this.showIpOspfNeighbor(router),
+              },
+            ],
+          },
+          {
+            keyword: "route",
+            help: "IP routing table",
+            run: ({ router }) => this.showIpRoute(router),
+            children: (
+              [
+                ["bgp", "Border Gateway Protocol (BGP)", ["bgp"]],
+                ["connected", "Connected", ["connected", "local"]],
+                ["ospf", "Open Shortest Path First (OSPF)", ["ospf"]],
+                ["static", "Static routes", ["static"]],
+              ] as [string, string, RouteProtocol[]][]
+            ).map(([keyword, help, protocols]) => ({
+              keyword,
+              help,
+              run: ({ router }: CliContext) =>
+                this.showIpRoute(router, protocols),
+            })),
+          },
+        ],
+      },
+      {
+        keyword: "processes",
+        help: "Active process statistics",
+        run: ({ router }) => this.showProcessesCpu(router),
+        children: [
+          {
+            keyword: "cpu",
+            help: "Show CPU use per process",
+            run: ({ router }) => this.showProcessesCpu(router),
+          },
+          {
+            keyword: "memory",
+            help: "Show memory use per process",
+            run: ({ router }) => this.showProcessesMemory(router),
+          },
+        ],
+      },
+      {
+        keyword: "running-config",
+        help: "Current operating configuration",
+        privileged: true,
+        run: ({ router }) => this.showRunningConfig(router),
+      },
+      {
+        keyword: "startup-config",
+        help: "Contents of startup configuration",
+        privileged: true,
+        run: ({ router }) => this.showStartupConfig(router),
+      },
+      {
+        keyword: "version",
+        help: "System hardware and software status",
+        run: ({ router }) => this.showVersion(router),
+      },
+    ];
+  }
+
+  protected save(context: CliContext): string {
+    context.saveConfig();
+    return "Building configuration...\n[OK]";
+  }
+
+  private probeTarget(help: string, run: CliRun): CliNode {
+    return {
+      keyword: "A.B.C.D",
+      help,
+      argument: "ip",
+      run,
+      children: [
+        {
+          keyword: "source",
+          help: "specify source address or name",
+          children: [
+            {
+              keyword: "A.B.C.D",
+              help: "Source address",
+              argument: "ip",
+              run,
+            },
+            { keyword: "INTERFACE", help: "", argument: "interface", run },
+          ],
+        },
+      ],
+    };
+  }
+
+  protected buildConfigCommands(): CliNode[] {
+    // Running configs spell the console line "line con 0"
+    const enterLine: CliRun = (context, _args, line) =>
+      this.enter(
+        context,
+        "config-line",
+        line.replace(/^line console/, "line con"),
+      );
+    const enterRouter: CliRun = (context, _args, line) =>
+      this.enter(context, "config-router", line);
+    const routeTarget: CliNode[] = [
+      {
+        keyword: "<1-255>",
+        help: "Distance metric for this route",
+        argument: "number",
+        range: [1, 255],
+        run: this.configure,
+      },
+    ];
+    const secret: CliNode = {
+      keyword: "secret",
+      help: "Specify the secret for the user",
+      children: [
+        {
+          keyword: "LINE",
+          help: "The secret for the user",
+          argument: "line",
+          run: this.configure,
+        },
+      ],
+    };
+
+    return [
+      {
+        keyword: "enable",
+        help: "Modify enable password parameters",
+        children: [
+          {
+            keyword: "secret",
+            help: "Assign the privileged level secret",
+            children: [
+              {
+                keyword: "LINE",
+                help: "The UNENCRYPTED (cleartext) 'enable' secret",
+                argument: "line",
+                run: this.configure,
+              },
+            ],
+          },
+        ],
+      },
+      ...this.modeCommands("Exit from configure mode"),
+      {
+        keyword: "hostname",
+        help: "Set system's network name",
+        children: [
+          {
+            keyword: "WORD",
+            help: "This system's network name",
+            argument: "word",
+            run: this.configure,
+          },
+        ],
+      },
+      {
+        keyword: "interface",
+        help: "Select an interface to configure",
+        children: [
+          {
+            keyword: "INTERFACE",
+            help: "",
+            argument: "interface-name",
+            run: (context, [name], line) =>
+              this.enter(
+                context,
+                name.includes(".") ? "config-subif" : "config-if",
+                line,
+              ),
+          },
+        ],
+      },
+      {
+        keyword: "ip",
+        help: "Global IP configuration subcommands",
+        children: [
+          {
+            keyword: "domain-name",
+            help: "Define the default domain name",
+            children: [
+              {
+                keyword: "WORD",
+                help: "Default domain name",
+                argument: "word",
+                run: this.configure,
+              },
+            ],
+          },
+          {
+            keyword: "route",
+            help: "Establish static routes",
+            children: [
+              {
+                keyword: "A.B.C.D",
+                help: "Destination prefix",
+                argument: "ip",
+                children: [
+                  {
+                    keyword: "A.B.C.D",
+                    help: "Destination prefix mask",
+                    argument: "ip",
+                    children: [
+                      {
+                        keyword: "A.B.C.D",
+                        help: "Forwarding router's address",
+                        argument: "ip",
+                        run: this.configure,
+                        children: routeTarget,
+                      },
+                      {
+                        keyword: "INTERFACE",
+                        help: "",
+                        argument: "interface",
+                        run: this.configure,
+                        children: routeTarget,
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "line",
+        help: "Configure a terminal line",
+        children: [
+          {
+            keyword: "console",
+            help: "Primary terminal line",
+            children: [
+              {
+                keyword: "<0-0>",
+                help: "First Line number",
+                argument: "number",
+                range: [0, 0],
+                run: enterLine,
+              },
+            ],
+          },
+          {
+            keyword: "vty",
+            help: "Virtual terminal",
+            children: [
+              {
+                keyword: "<0-15>",
+                help: "First Line number",
+                argument: "number",
+                range: [0, 15],
+                run: enterLine,
+                children: [
+                  {
+                    keyword: "<1-15>",
+                    help: "Last Line number",
+                    argument: "number",
+                    range: [1, 15],
+                    run: enterLine,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "ntp",
+        help: "Configure NTP",
+        children: [
+          {
+            keyword: "server",
+            help: "Configure NTP server",
+            children: [
+              {
+                keyword: "A.B.C.D",
+                help: "IP address of peer",
+                argument: "ip",
+                run: this.configure,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "router",
+        help: "Enable a routing process",
+        children: [
+          {
+            keyword: "bgp",
+            help: "Border Gateway Protocol (BGP)",
+            children: [
+              {
+                keyword: "<1-4294967295>",
+                help: "Autonomous system number",
+                argument: "number",
+                range: [1, 4294967295],
+                run: enterRouter,
+              },
+            ],
+          },
+          {
+            keyword: "ospf",
+            help: "Open Shortest Path First (OSPF)",
+            children: [
+              {
+                keyword: "<1-65535>",
+                help: "Process ID",
+                argument: "number",
+                range: [1, 65535],
+                run: enterRouter,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "service",
+        help: "Modify use of network based services",
+        children: [
+          {
+            keyword: "password-encryption",
+            help: "Encrypt system passwords",
+            run: this.configure,
+          },
+        ],
+      },
+      {
+        keyword: "username",
+        help: "Establish User Name Authentication",
+        children: [
+          {
+            keyword: "WORD",
+            help: "User name",
+            argument: "word",
+            children: [
+              {
+                keyword: "privilege",
+                help: "Set user privilege level",
+                children: [
+                  {
+                    keyword: "<0-15>",
+                    help: "User privilege level",
+                    argument: "number",
+                    range: [0, 15],
+                    children: [secret],
+                  },
+                ],
+              },
+              secret,
+            ],
+          },
+        ],
+      },
+    ];
+  }
+
+  protected buildInterfaceCommands(): CliNode[] {
+    return [
+      {
+        keyword: "description",
+        help: "Interface specific description",
+        children: [
+          {
+            keyword: "LINE",
+            help: "Up to 240 characters describing this interface",
+            argument: "line",
+            run: this.configure,
+          },
+        ],
+      },
+      ...this.modeCommands("Exit from interface configuration mode"),
+      {
+        keyword: "ip",
+        help: "Interface Internet Protocol config commands",
+        children: [
+          {
+            keyword: "address",
+            help: "Set the IP address of an interface",
+            children: [
+              {
+                keyword: "A.B.C.D",
+                help: "IP address",
+                argument: "ip",
+                children: [
+                  {
+                    keyword: "A.B.C.D",
+                    help: "IP subnet mask",
+                    argument: "ip",
+                    run: this.configure,
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            keyword: "ospf",
+            help: "OSPF interface commands",
+            children: [
+              {
+                keyword: "<1-65535>",
+                help: "Process ID",
+                argument: "number",
+                range: [1, 65535],
+                children: [
+                  {
+                    keyword: "area",
+                    help: "Set the OSPF area ID",
+                    children: this.ospfArea(),
+                  },
+                ],
+              },
+              {
+                keyword: "cost",
+                help: "Interface cost",
+                children: [
+                  {
+                    keyword: "<1-65535>",
+                    help: "Cost",
+                    argument: "number",
+                    range: [1, 65535],
+                    run: this.configure,
+                  },
+                ],
+              },
+              {
+                keyword: "dead-interval",
+                help: "Interval after which a neighbor is declared dead",
+                children: [
+                  {
+                    keyword: "<1-65535>",
+                    help: "Seconds",
+                    argument: "number",
+                    range: [1, 65535],
+                    run: this.configure,
+                  },
+                ],
+              },
+              {
+                keyword: "hello-interval",
+                help: "Time between HELLO packets",
+                children: [
+                  {
+                    keyword: "<1-65535>",
+                    help: "Seconds",
+                    argument: "number",
+                    range: [1, 65535],
+                    run: this.configure,
+                  },
+                ],
+              },
+              {
+                keyword: "priority",
+                help: "Router priority",
+                children: [
+                  {
+                    keyword: "<0-255>",
+                    help: "Priority",
+                    argument: "number",
+                    range: [0, 255],
+                    run: this.configure,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "shutdown",
+        help: "Shutdown the selected interface",
+        run: this.configure,
+      },
+    ];
+  }
+
+  protected ospfArea(): CliNode[] {
+    return [
+      {
+        keyword: "<0-4294967295>",
+        help: "OSPF area ID as a decimal value",
+        argument: "number",
+        range: [0, 4294967295],
+        run: this.configure,
+      },
+      {
+        keyword: "A.B.C.D",
+        help: "OSPF area ID in IP address format",
+        argument: "ip",
+        run: this.configure,
+      },
+    ];
+  }
+
+  protected buildOspfCommands(): CliNode[] {
+    const area = this.ospfArea();
+
+    return [
+      {
+        keyword: "default-information",
+        help: "Control distribution of default information",
+        children: [
+          {
+            keyword: "originate",
+            help: "Distribute a default route",
+            run: this.configure,
+            children: [
+              {
+                keyword: "always",
+                help: "Always advertise default route",
+                run: this.configure,
+              },
+            ],
+          },
+        ],
+      },
+      ...this.modeCommands("Exit from routing protocol configuration mode"),
+      {
+        keyword: "network",
+        help: "Enable routing on an IP network",
+        children: [
+          {
+            keyword: "A.B.C.D",
+            help: "Network number",
+            argument: "ip",
+            children: [
+              {
+                keyword: "A.B.C.D",
+                help: "OSPF wild card bits",
+                argument: "ip",
+                children: [
+                  {
+                    keyword: "area",
+                    help: "Set the OSPF area ID",
+                    children: area,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "passive-interface",
+        help: "Suppress routing updates on an interface",
+        children: [
+          {
+            keyword: "default",
+            help: "Suppress routing updates on all interfaces",
+            run: this.configure,
+          },
+          {
+            keyword: "INTERFACE",
+            help: "",
+            argument: "interface",
+            run: this.configure,
+          },
+        ],
+      },
+      {
+        keyword: "router-id",
+        help: "router-id for this OSPF process",
+        children: [
+          {
+            keyword: "A.B.C.D",
+            help: "OSPF router-id in IP address format",
+            argument: "ip",
+            run: this.configure,
+          },
+        ],
+      },
+    ];
+  }
+
+  protected buildBgpCommands(): CliNode[] {
+    return [
+      {
+        keyword: "bgp",
+        help: "BGP specific commands",
+        children: [
+          {
+            keyword: "router-id",
+            help: "Override configured router identifier",
+            children: [
+              {
+                keyword: "A.B.C.D",
+                help: "Manually configured router identifier",
+                argument: "ip",
+                run: this.configure,
+              },
+            ],
+          },
+        ],
+      },
+      ...this.modeCommands("Exit from routing protocol configuration mode"),
+      {
+        keyword: "neighbor",
+        help: "Specify a neighbor router",
+        children: [
+          {
+            keyword: "A.B.C.D",
+            help: "Neighbor address",
+            argument: "ip",
+            children: [
+              {
+                keyword: "remote-as",
+                help: "Specify a BGP neighbor",
+                children: [
+                  {
+                    keyword: "<1-4294967295>",
+                    help: "AS of remote neighbor",
+                    argument: "number",
+                    range: [1, 4294967295],
+                    run: this.configure,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "network",
+        help: "Specify a network to announce via BGP",
+        children: [
+          {
+            keyword: "A.B.C.D",
+            help: "Network number",
+            argument: "ip",
+            run: this.configure,
+            children: [
+              {
+                keyword: "mask",
+                help: "Network mask",
+                children: [
+                  {
+                    keyword: "A.B.C.D",
+                    help: "Network mask",
+                    argument: "ip",
+                    run: this.configure,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ];
+  }
+
+  protected buildLineCommands(): CliNode[] {
+    const transport: CliNode[] = [
+      ["all", "All protocols"],
+      ["none", "No protocols"],
+      ["ssh", "TCP/IP SSH protocol"],
+      ["telnet", "TCP/IP Telnet protocol"],
+    ].map(([keyword, help]) => ({ keyword, help, run: this.configure }));
+
+    return [
+      ...this.modeCommands("Exit from line configuration mode"),
+      {
+        keyword: "exec-timeout",
+        help: "Set the EXEC timeout",
+        children: [
+          {
+            keyword: "<0-35791>",
+            help: "Timeout in minutes",
+            argument: "number",
+            range: [0, 35791],
+            run: this.configure,
+            children: [
+              {
+                keyword: "<0-2147483>",
+                help: "Timeout in seconds",
+                argument: "number",
+                range: [0, 2147483],
+                run: this.configure,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "logging",
+        help: "Modify message logging facilities",
+        children: [
+          {
+            keyword: "synchronous",
+            help: "Synchronized message output",
+            run: this.configure,
+          },
+        ],
+      },
+      {
+        keyword: "login",
+        help: "Enable password checking",
+        run: this.configure,
+        children: [
+          {
+            keyword: "local",
+            help: "Local password checking",
+            run: this.configure,
+          },
+        ],
+      },
+      {
+        keyword: "password",
+        help: "Set a password",
+        children: [
+          {
+            keyword: "LINE",
+            help: "The UNENCRYPTED (cleartext) line password",
+            argument: "line",
+            run: this.configure,
+          },
+        ],
+      },
+      {
+        keyword: "transport",
+        help: "Define transport protocols for line",
+        children: [
+          {
+            keyword: "input",
+            help: "Define which protocols to use when connecting to the terminal server",
+            children: transport,
+          },
+        ],
+      },
+    ];
+  }
+
+  protected modeCommands(exitHelp: string): CliNode[] {
+    return [
+      {
+        keyword: "end",
+        help: "Exit from configure mode",
+        negatable: false,
+        run: (context) => this.endConfig(context),
+      },
+      {
+        keyword: "exit",
+        help: exitHelp,
+        negatable: false,
+        run: (context) => this.exitMode(context),
+      },
+    ];
+  }
+
+  private tokenize(text: string): CliToken[] {
+    return Array.from(text.matchAll(/\S+/g), (match) => ({
+      text: match[0],
+      offset: match.index!,
+    }));
+  }
+
+  // Follows the tokens down the command tree, accepting any unique abbreviation
+  private walk(
+    nodes: CliNode[],
+    tokens: CliToken[],
+    context: CliContext,
+  ): CliWalk {
+    let level = nodes;
+    let current: CliNode | null = null;
+    const args: string[] = [];
+    const words: string[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const word = tokens[i].text.toLowerCase();
+      const keywords = level.filter(
+        (node) => !node.argument && node.keyword.startsWith(word),
+      );
+      const exact = keywords.find((node) => node.keyword === word);
+      const others = (i === 0 ? this.otherKeywords.get(nodes) || [] : [])
+        .filter((keyword) => keyword.startsWith(word))
+        .filter(
+          (keyword) => !keywords.some((node) => node.keyword === keyword),
+        );
+
+      if (!exact && keywords.length + others.length > 1) {
+        return { error: "ambiguous" };
+      }
+      let next = exact || (others.length === 0 ? keywords[0] : undefined);
+
+      if (next) {
+        words.push(next.keyword);
+      } else {
+        for (const argumentNode of level.filter((node) => node.argument)) {
+          const value = this.matchArgument(argumentNode, tokens, i, context);
+          if (value) {
+            args.push(value.value);
+            words.push(value.value);
+            i += value.count - 1;
+            next = argumentNode;
+            break;
+          }
+        }
+      }
+
+      if (!next) {
+        return { error: "invalid", offset: tokens[i].offset };
+      }
+      current = next;
+      level = next.children || [];
+    }
+
+    return { node: current, args, words };
+  }
+
+  private matchArgument(
+    node: CliNode,
+    tokens: CliToken[],
+    index: number,
+    context: CliContext,
+  ): { value: string; count: number } | null {
+    const token = tokens[index].text;
+
+    switch (node.argument) {
+      case "number": {
+        const value = Number(token);
+        const [min, max] = node.range || [0, Number.MAX_SAFE_INTEGER];
+        return /^\d+$/.test(token) && value >= min && value <= max
+          ? { value: token, count: 1 }
+          : null;
+      }
+      case "ip":
+        return isIpv4(token) ? { value: token, count: 1 } : null;
+      case "prefix": {
+        const [address, length] = token.split("/");
+        return isIpv4(address) &&
+          /^\d{1,2}$/.test(length) &&
+          Number(length) <= 32
+          ? { value: token, count: 1 }
+          : null;
+      }
+      case "word":
+        return { value: token, count: 1 };
+      case "line":
+        return {
+          value: tokens
+            .slice(index)
+            .map(({ text }) => text)
+            .join(" "),
+          count: tokens.length - index,
+        };
+    }
+
+    const resolve = (text: string) =>
+      node.argument === "interface-name"
+        ? this.resolveInterfaceName(context.router, text)
+        : this.findInterface(context.router, text)?.name;
+
+    // Interfaces may be typed as "gi0/1" or "gi 0/1"
+    const next = tokens[index + 1]?.text;
+    if (next && /^[A-Za-z-]+$/.test(token)) {
+      const spaced = resolve(token + next);
+      if (spaced) return { value: spaced, count: 2 };
+    }
+    const name = resolve(token);
+    return name ? { value: name, count: 1 } : null;
+  }
+
+  private findInterface(
+    router: SimulatedRouter,
+    text: string,
+  ): RouterInterface | undefined {
+    const match = text.match(/^([A-Za-z-]+)([\d/.:]+)$/);
+    if (!match) return undefined;
+
+    const candidates = router.interfaces.filter((iface) => {
+      const parts = iface.name.match(/^([A-Za-z-]+)([\d/.:]+)$/);
+      return (
+        parts !== null &&
+        parts[2] === match[2] &&
+        parts[1].toLowerCase().startsWith(match[1].toLowerCase())
+      );
+    });
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  // Existing interfaces, plus new subinterfaces and virtual interfaces
+  private resolveInterfaceName(
+    router: SimulatedRouter,
+    text: string,
+  ): string | undefined {
+    const existing = this.findInterface(router, text);
+    if (existing) return existing.name;
+
+    const subinterface = text.match(/^(.+\d)\.(\d+)$/);
+    if (subinterface) {
+      const parent = this.findInterface(router, subinterface[1]);
+      return parent && !parent.name.includes(".")
+        ? `${parent.name}.${subinterface[2]}`
+        : undefined;
+    }
+
+    const match = text.match(/^([A-Za-z-]+)(\d+)$/);
+    if (!match) return undefined;
+    const types = VIRTUAL_INTERFACE_TYPES.filter((type) =>
+      type.toLowerCase().startsWith(match[1].toLowerCase()),
+    );
+    return types.length === 1 ? `${types[0]}${match[2]}` : undefined;
+  }
+
+  private help(context: CliContext, text: string): string {
+    const { session } = context;
+    const configuring = this.isConfiguring(session);
+    if (!configuring && text.includes("|")) {
+      return this.formatHelp(OUTPUT_MODIFIERS);
+    }
+
+    const tokens = this.tokenize(text);
+    const partial = text !== "" && !/\s$/.test(text) ? tokens.pop() : undefined;
+
+    let tree = this.treeFor(session);
+    let title = MODE_TITLES[session.mode];
+    const prefix = configuring ? tokens[0]?.text.toLowerCase() : undefined;
+    if (prefix === "do" || prefix === "no") {
+      tokens.shift();
+      if (prefix === "do") {
+        tree = this.trees.privileged;
+        title = MODE_TITLES.privileged;
+      }
+    }
+
+    const walk = this.walk(tree, tokens, context);
+    if ("error" in walk) {
+      return this.errorResult(context, text, walk).output;
+    }
+    const level = walk.node
+      ? walk.node.children || []
+      : configuring && !prefix
+        ? [...tree, ...CONFIG_PREFIXES].sort((a, b) =>
+            a.keyword.localeCompare(b.keyword),
+          )
+        : tree;
+
+    if (partial) {
+      const matches = level.filter(
+        (node) =>
+          !node.argument && node.keyword.startsWith(partial.text.toLowerCase()),
+      );
+      return matches.length > 0
+        ? matches.map((node) => node.keyword).join("  ") + "  "
+        : "% Unrecognized command";
+    }
+
+    const rows: [string, string][] = [];
+    level.forEach((node) => {
+      if (node.argument === "interface" || node.argument === "interface-name") {
+        const types = this.interfaceTypes(context.router);
+        const creatable =
+          node.argument === "interface-name"
+            ? VIRTUAL_INTERFACE_TYPES.filter((type) => !types.includes(type))
+            : [];
+        [...types, ...creatable]
+          .sort()
+          .forEach((type) => rows.push([type, `${type} interface`]));
+      } else {
+        rows.push([node.keyword, node.help]);
+      }
+    });
+    if (walk.node?.run) {
+      rows.push(["<cr>", ""]);
+    }
+
+    const listing = this.formatHelp(rows);
+    return walk.node ? listing : `${title}\n${listing}`;
+  }
+
+  private formatHelp(rows: [string, string][]): string {
+    const width = Math.max(...rows.map(([keyword]) => keyword.length)) + 2;
+    return rows
+      .map(([keyword, help]) => `  ${keyword.padEnd(width)}${help}`.trimEnd())
+      .join("\n");
+  }
+
+  private interfaceTypes(router: SimulatedRouter): string[] {
+    return Array.from(
+      new Set(
+        router.interfaces.map((iface) => iface.name.replace(/[\d/.:]+$/, "")),
+      ),
+    );
+  }
+
+  protected errorResult(
+    context: CliContext,
+    line: string,
+    walk: CliError,
+  ): CliReply {
+    if (walk.error === "ambiguous") {
+      return {
+        handled: true,
+        output: `% Ambiguous command:  "${line.trim()}"`,
+      };
+    }
+
+    // The caret lines up with the offending word after the prompt. Config
+    // lines are never sent to the LLM, since it cannot change router state.
+    const indent = " ".repeat(this.prompt(context).length + walk.offset);
+    return {
+      handled: this.isConfiguring(context.session),
+      output: `${indent}^\n% Invalid input detected at '^' marker.`,
+    };
+  }
+
+  private applyModifier(
+    context: CliContext,
+    line: string,
+    pipeIndex: number,
+    output: string,
+  ): CliReply {
+    const modifierText = line.slice(pipeIndex + 1);
+    const [keyword] = this.tokenize(modifierText);
+    if (!keyword) {
+      return { handled: true, output: "% Incomplete command." };
+    }
+
+    const matches = OUTPUT_MODIFIERS.filter(([name]) =>
+      name.startsWith(keyword.text.toLowerCase()),
+    );
+    if (matches.length !== 1) {
+      return this.errorResult(context, line, {
+        error: "invalid",
+        offset: pipeIndex + 1 + keyword.offset,
+      });
+    }
+
+    const pattern = modifierText
+      .slice(keyword.offset + keyword.text.length)
+      .trim();
+    if (pattern === "") {
+      return { handled: true, output: "% Incomplete command." };
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern);
+    } catch {
+      regex = new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    }
+
+    const lines = output.split("\n");
+    const start = lines.findIndex((text) => regex.test(text));
+    const filtered =
+      matches[0][0] === "include"
+        ? lines.filter((text) => regex.test(text))
+        : matches[0][0] === "exclude"
+          ? lines.filter((text) => !regex.test(text))
+          : start >= 0
+            ? lines.slice(start)
+            : [];
+
+    return { handled: true, output: filtered.join("\n") };
+  }
+
+  private ping(context: CliContext, [destination, source]: string[]): string {
+    const result = context.probe(destination, source);
+    if (result.error) return result.error;
+
+    const lines = [
+      "Type escape sequence to abort.",
+      `Sending 5, 100-byte ICMP Echos to ${destination}, timeout is 2 seconds:`,
+    ];
+    if (source) {
+      lines.push(
+        `Packet sent with a source address of ${result.forward.source}`,
+      );
+    }
+
+    if (result.reachable) {
+      // Round trips grow with the hop count so repeated pings match
+      const hops =
+        result.forward.hops.length + (result.reply?.hops.length || 0);
+      const rtt = Math.max(1, hops);
+      // Each echo takes its own chance on lossy links
+      const markers = Array.from({ length: 5 }, () =>
+        Math.random() * 100 < (result.lossPercent || 0) ? "." : "!",
+      ).join("");
+      const received = markers.split("!").length - 1;
+      lines.push(
+        markers,
+        received > 0
+          ? `Success rate is ${received * 20} percent (${received}/5), round-trip min/avg/max = ${rtt}/${rtt}/${rtt} ms`
+          : "Success rate is 0 percent (0/5)",
+      );
+    } else {
+      lines.push(
+        result.forward.outcome === "unreachable" ? "U.U.U" : ".....",
+        "Success rate is 0 percent (0/5)",
+      );
+    }
+    return lines.join("\n");
+  }
+
+  private traceroute(
+    context: CliContext,
+    [destination, source]: string[],
+  ): string {
+    const result = context.probe(destination, source);
+    if (result.error) return result.error;
+
+    const { forward } = result;
+    const lines = [
+      "Type escape sequence to abort.",
+      `Tracing the route to ${destination}`,
+      "VRF info: (vrf in name/id, vrf out name/id)",
+    ];
+    forward.hops.forEach((hop, index) => {
+      const last = index === forward.hops.length - 1;
+      // The destination itself answers with the address that was traced
+      const address =
+        last && forward.outcome === "delivered" ? destination : hop.ipAddress;
+      const timing =
+        last && forward.outcome === "unreachable"
+          ? "!H  !H  !H"
+          : Array(3)
+              .fill(`${index + 1} msec`)
+              .join(" ");
+      lines.push(`${String(index + 1).padStart(3)} ${address} ${timing}`);
+    });
+
+    if (forward.outcome === "timeout" || forward.outcome === "no-route") {
+      for (let ttl = forward.hops.length + 1; ttl <= 30; ttl++) {
+        lines.push(`${String(ttl).padStart(3)}  *  *  * `);
+      }
+    }
+    return lines.join("\n");
+  }
+
+  // Load above the idle baseline is charged to IP Input, the usual culprit
+  private showProcessesCpu(router: SimulatedRouter): string {
+    const cpu = Math.round(router.cpuUsage);
+    const interrupt = Math.round(cpu / 10);
+    const ipInput = Math.max(0, cpu - 4);
+    const processes: [number, string, number][] = [
+      [1, "Chunk Manager", 0],
+      [2, "Load Meter", 0],
+      [67, "IP Input", ipInput],
+      [112, "OSPF-1 Hello", Math.min(1, cpu)],
+      [145, "CDP Protocol", 0],
+      [201, "Exec", cpu - ipInput - Math.min(1, cpu)],
+    ];
+
+    return [
+      `CPU utilization for five seconds: ${cpu}%/${interrupt}%; one minute: ${cpu}%; five minutes: ${cpu}%`,
+      " PID Runtime(ms)     Invoked      uSecs   5Sec   1Min   5Min TTY Process ",
+      ...processes
+        .sort((a, b) => b[2] - a[2] || a[0] - b[0])
+        .map(([pid, name, percent]) => {
+          const load = `${percent.toFixed(2)}%`.padStart(6);
+          return `${String(pid).padStart(4)}${String(percent * 1000 + 12).padStart(12)}${String(percent * 400 + 340).padStart(12)}${String(35).padStart(11)} ${load} ${load} ${load}   0 ${name}`;
+        }),
+    ].join("\n");
+  }
+
+  private showProcessesMemory(router: SimulatedRouter): string {
+    const total = 2072007 * 1024;
+    const used = Math.round((total * router.memoryUsage) / 100);
+    const pad = (value: number) => String(value).padStart(11);
+    return [
+      `Processor Pool Total: ${pad(total)} Used: ${pad(used)} Free: ${pad(total - used)}`,
+      ` lsmpi_io Pool Total: ${pad(6295128)} Used: ${pad(6294296)} Free: ${pad(832)}`,
+    ].join("\n");
+  }
+
+  protected showVersion(router: SimulatedRouter): string {
+    const version = router.iosVersion.replace(/^IOS[- ]?XE\s*/i, "");
+    // IOS XE pads the train numbers, e.g. 17.3.1a becomes 17.03.01a
+    const paddedVersion = version
+      .split(".")
+      .map((part, index) =>
+        index > 0
+          ? part.replace(/^\d+/, (digits) => digits.padStart(2, "0"))
+          : part,
+      )
+      .join(".");
+    const gigabitCount = router.interfaces.filter((iface) =>
+      iface.name.startsWith("GigabitEthernet"),
+    ).length;
+
+    return [
+      `Cisco IOS XE Software, Version ${paddedVersion}`,
+      `Cisco IOS Software, Virtual XE Software (X86_64_LINUX_IOSD-UNIVERSALK9-M), Version ${version}, RELEASE SOFTWARE (fc3)`,
+      "Technical Support: http://www.cisco.com/techsupport",
+      "Copyright (c) 1986-2020 by Cisco Systems, Inc.",
+      "",
+      "ROM: IOS-XE ROMMON",
+      "",
+      `${router.name} uptime is ${this.formatUptime(router.createdAt)}`,
+      "System returned to ROM by reload",
+      'System image file is "bootflash:packages.conf"',
+      "Last reload reason: reload",
+      "",
+      `cisco ${router.model.toUpperCase()} (VXE) processor (revision VXE) with 2072007K/3075K bytes of memory.`,
+      `Processor board ID ${router.serialNumber}`,
+      ...(gigabitCount > 0
+        ? [`${gigabitCount} Gigabit Ethernet interfaces`]
+        : []),
+      "32768K bytes of non-volatile configuration memory.",
+      "3978484K bytes of physical memory.",
+      "",
+      "Configuration register is 0x2102",
+    ].join("\n");
+  }
+
+  protected showClock(): string {
+    const now = new Date();
+    const pad = (value: number, length: number = 2) =>
+      String(value).padStart(length, "0");
+
+    return `*${pad(now.getUTCHours())}:${pad(now.getUTCMinutes())}:${pad(now.getUTCSeconds())}.${pad(now.getUTCMilliseconds(), 3)} UTC ${DAYS[now.getUTCDay()]} ${MONTHS[now.getUTCMonth()]} ${now.getUTCDate()} ${now.getUTCFullYear()}`;
+  }
+
+  private showInterfaces(interfaces: RouterInterface[]): string {
+    return interfaces
+      .map((iface) => {
+        const loopback = LOOPBACK_INTERFACE.test(iface.name);
+        const lines = [
+          `${iface.name} is ${iface.status}, line protocol is ${this.lineProtocol(iface)}`,
+          loopback
+            ? "  Hardware is Loopback"
+            : `  Hardware is CSR vNIC, address is ${iface.macAddress} (bia ${iface.macAddress})`,
+        ];
+
+        if (iface.description) {
+          lines.push(`  Description: ${iface.description}`);
+        }
+        if (iface.ipAddress && iface.subnetMask) {
+          lines.push(
+            `  Internet address is ${iface.ipAddress}/${maskToPrefix(iface.subnetMask)}`,
+          );
+        }
+
+        lines.push(
+          loopback
+            ? "  MTU 1514 bytes, BW 8000000 Kbit/sec, DLY 5000 usec,"
+            : "  MTU 1500 bytes, BW 1000000 Kbit/sec, DLY 10 usec,",
+          "     reliability 255/255, txload 1/255, rxload 1/255",
+          `  Encapsulation ${loopback ? "LOOPBACK" : "ARPA"}, loopback not set`,
+        );
+        return lines.join("\n");
+      })
+      .join("\n");
+  }
+
+  protected showIpInterfaceBrief(router: SimulatedRouter): string {
+    const rows = router.interfaces.map((iface) =>
+      [
+        iface.name.padEnd(22),
+        (iface.ipAddress || "unassigned").padEnd(15),
+        "YES",
+        (iface.addressMethod || (iface.ipAddress ? "NVRAM" : "unset")).padEnd(
+          6,
+        ),
+        iface.status.padEnd(21),
+        this.lineProtocol(iface),
+      ].join(" "),
+    );
+
+    return [
+      "Interface              IP-Address      OK? Method Status                Protocol",
+      ...rows,
+    ].join("\n");
+  }
+
+  protected showArp(router: SimulatedRouter): string {
+    const rows = [...router.arpTable]
+      .sort((a, b) => ipToNumber(a.ipAddress) - ipToNumber(b.ipAddress))
+      .map((entry) =>
+        `Internet  ${entry.ipAddress.padEnd(16)}${(entry.ageMinutes === null ? "-" : String(entry.ageMinutes)).padStart(9)}   ${(entry.macAddress || "Incomplete").padEnd(14)}  ${entry.type.padEnd(5)}  ${entry.interface || ""}`.trimEnd(),
+      );
+
+    return [
+      "Protocol  Address          Age (min)  Hardware Addr   Type   Interface",
+      ...rows,
+    ].join("\n");
+  }
+
+  // Subnets are grouped under their classful network, as IOS prints them
+  protected showIpRoute(
+    router: SimulatedRouter,
+    protocols?: RouteProtocol[],
+  ): string {
+    const routes = router.routingTable
+      .filter((route) => !protocols || protocols.includes(route.protocol))
+      .sort(
+        (a, b) =>
+          ipToNumber(a.network) - ipToNumber(b.network) ||
+          a.prefixLength - b.prefixLength,
+      );
+    // A protocol filter still reports the gateway from the whole table
+    const defaultRoute = router.routingTable.find(
+      (route) => route.prefixLength === 0 && route.nextHop,
+    );
+
+    const lines = [
+      ROUTE_CODES,
+      "",
+      defaultRoute
+        ? `Gateway of last resort is ${defaultRoute.nextHop} to network 0.0.0.0`
+        : "Gateway of last resort is not set",
+      "",
+    ];
+
+    const blocks = new Map<string, RouteEntry[]>();
+    routes.forEach((route) => {
+      const classful = classfulPrefix(route.network);
+      const key =
+        classful > 0 && route.prefixLength >= classful
+          ? networkAddress(route.network, classful)
+          : `${route.network}/${route.prefixLength}`;
+      blocks.set(key, [...(blocks.get(key) || []), route]);
+    });
+
+    blocks.forEach((entries, key) => {
+      const classful = classfulPrefix(entries[0].network);
+      const masks = new Set(entries.map((entry) => entry.prefixLength));
+      const subnets = new Set(
+        entries.map((entry) => `${entry.network}/${entry.prefixLength}`),
+      ).size;
+
+      if (key.includes("/") || (masks.size === 1 && masks.has(classful))) {
+        lines.push(...this.formatRoutes(entries, true, 6));
+      } else if (masks.size === 1) {
+        lines.push(
+          `      ${key}/${entries[0].prefixLength} is subnetted, ${subnets} subnet${subnets > 1 ? "s" : ""}`,
+          ...this.formatRoutes(entries, false, 9),
+        );
+      } else {
+        lines.push(
+          `      ${key}/${classful} is variably subnetted, ${subnets} subnets, ${masks.size} masks`,
+          ...this.formatRoutes(entries, true, 9),
+        );
+      }
+    });
+
+    return lines.join("\n");
+  }
+
+  private formatRoutes(
+    entries: RouteEntry[],
+    showPrefix: boolean,
+    codeWidth: number,
+  ): string[] {
+    let previous: RouteEntry | undefined;
+
+    return entries.map((entry) => {
+      const destination = showPrefix
+        ? `${entry.network}/${entry.prefixLength}`
+        : entry.network;
+      const detail =
+        !entry.nextHop && entry.interface
+          ? `is directly connected, ${entry.interface}`
+          : [
+              `[${entry.adminDistance ?? 0}/${entry.metric ?? 0}] via ${entry.nextHop}`,
+              entry.age,
+              entry.interface,
+            ]
+              .filter(Boolean)
+              .join(", ");
+
+      // Equal-cost paths repeat only the path detail under the first line
+      const samePrefix =
+        previous?.network === entry.network &&
+        previous?.prefixLength === entry.prefixLength;
+      previous = entry;
+
+      return samePrefix
+        ? `${" ".repeat(codeWidth + destination.length + 1)}${detail}`
+        : `${entry.code.padEnd(codeWidth)}${destination} ${detail}`;
+    });
+  }
+
+  protected showIpOspfNeighbor(router: SimulatedRouter): string {
+    if (router.ospfNeighbors.length === 0) return "";
+
+    const rows = router.ospfNeighbors.map(
+      (neighbor) =>
+        `${neighbor.neighborId.padEnd(15)}${String(neighbor.priority).padStart(4)}   ${neighbor.state.padEnd(16)}00:00:38    ${neighbor.address.padEnd(16)}${neighbor.interface}`,
+    );
+    return [
+      "",
+      "Neighbor ID     Pri   State           Dead Time   Address         Interface",
+      ...rows,
+    ].join("\n");
+  }
+
+  protected showIpBgpSummary(router: SimulatedRouter): string {
+    const bgp = router.bgp;
+    if (!bgp) return "% BGP not active";
+
+    const version = bgp.networkEntries + 1;
+    const lines = [
+      `BGP router identifier ${bgp.routerId}, local AS number ${bgp.localAs}`,
+      `BGP table version is ${version}, main routing table version ${version}`,
+    ];
+    if (bgp.networkEntries > 0) {
+      const networkBytes = bgp.networkEntries * 248;
+      const pathBytes = bgp.pathEntries * 136;
+      lines.push(
+        `${bgp.networkEntries} network entries using ${networkBytes} bytes of memory`,
+        `${bgp.pathEntries} path entries using ${pathBytes} bytes of memory`,
+        `BGP using ${networkBytes + pathBytes} total bytes of memory`,
+      );
+    }
+    if (bgp.neighbors.length === 0) return lines.join("\n");
+
+    // Keepalives go out every 60 seconds once the session is up
+    const rows = bgp.neighbors.map((neighbor) => {
+      const seconds = neighbor.establishedAt
+        ? Math.max(
+            0,
+            Math.floor(
+              (Date.now() - new Date(neighbor.establishedAt).getTime()) / 1000,
+            ),
+          )
+        : 0;
+      const messages = neighbor.establishedAt
+        ? 4 + Math.floor(seconds / 60)
+        : 0;
+      const tableVersion = neighbor.establishedAt ? version : 0;
+      const state =
+        neighbor.state === "Established"
+          ? String(neighbor.prefixesReceived).padStart(8)
+          : neighbor.state;
+      const upDown = neighbor.establishedAt
+        ? this.formatBgpUptime(seconds)
+        : "never";
+      return `${neighbor.address.padEnd(16)}4${String(neighbor.remoteAs).padStart(13)}${String(messages).padStart(8)}${String(messages).padStart(8)}${String(tableVersion).padStart(9)}    0    0 ${upDown.padEnd(8)} ${state}`;
+    });
+    return [
+      ...lines,
+      "",
+      "Neighbor        V           AS MsgRcvd MsgSent   TblVer  InQ OutQ Up/Down  State/PfxRcd",
+      ...rows,
+    ].join("\n");
+  }
+
+  protected showRunningConfig(router: SimulatedRouter): string {
+    return `Building configuration...\n\nCurrent configuration : ${Buffer.byteLength(router.runningConfig)} bytes\n${router.runningConfig}`;
+  }
+
+  protected showStartupConfig(router: SimulatedRouter): string {
+    if (!router.startupConfig) {
+      return "startup-config is not present";
+    }
+    return `Using ${Buffer.byteLength(router.startupConfig)} out of 33554432 bytes\n${router.startupConfig}`;
+  }
+
+  protected showInventory(router: SimulatedRouter): string {
+    const pid = router.model.toUpperCase();
+    return [
+      `NAME: "Chassis", DESCR: "Cisco ${pid} Chassis"`,
+      `PID: ${pid.padEnd(18)}, VID: V00  , SN: ${router.serialNumber}`,
+      "",
+      `NAME: "module R0", DESCR: "Cisco ${pid} Route Processor"`,
+      `PID: ${pid.padEnd(18)}, VID: V00  , SN: ${router.serialNumber}`,
+    ].join("\n");
+  }
+
+  protected lineProtocol(iface: RouterInterface): "up" | "down" {
+    return iface.lineProtocol || (iface.status === "up" ? "up" : "down");
+  }
+
+  protected formatUptime(since: string): string {
+    let seconds = Math.max(
+      0,
+      Math.floor((Date.now() - new Date(since).getTime()) / 1000),
+    );
+    const parts: string[] = [];
+
+    (
+      [
+        ["year", 31536000],
+        ["week", 604800],
+        ["day", 86400],
+        ["hour", 3600],
+        ["minute", 60],
+      ] as [string, number][]
+    ).forEach(([unit, size]) => {
+      const count = Math.floor(seconds / size);
+      seconds -= count * size;
+      if (count > 0) parts.push(`${count} ${unit}${count > 1 ? "s" : ""}`);
+    });
+
+    return parts.length > 0 ? parts.join(", ") : "0 minutes";
+  }
+
+  // hh:mm:ss for the first day, then 1d02h and 1w2d
+  protected formatBgpUptime(seconds: number): string {
+    const pad = (value: number) => String(value).padStart(2, "0");
+    const hours = Math.floor(seconds / 3600);
+    if (hours < 24) {
+      return `${pad(hours)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+    }
+    const days = Math.floor(hours / 24);
+    return days < 7
+      ? `${days}d${pad(hours % 24)}h`
+      : `${Math.floor(days / 7)}w${days % 7}d`;
+  }
+}
@@ -0,0 +1,278 @@
+import { ConfigCommand } from "../types";
+
+interface ConfigNode {
+  line: string;
+  children: ConfigNode[];
+}
+
+type LineOrder = (RegExp | "other")[];
+
+// Single-valued commands, where a new value replaces the configured line
+const REPLACED_COMMANDS = [
+  "bgp router-id",
+  "description",
+  "enable secret",
+  "encapsulation",
+  "exec-timeout",
+  "hostname",
+  "ip address",
+  "ip domain-name",
+  "ip ospf cost",
+  "ip ospf dead-interval",
+  "ip ospf hello-interval",
+  "ip ospf priority",
+  "login",
+  "password",
+  "router-id",
+  "shutdown",
+  "transport input",
+];
+
+// Commands that are on by default, so the running config shows their "no" form
+const STORED_NEGATIONS = [
+  "cdp run",
+  "ip domain lookup",
+  "ip domain-lookup",
+  "ip http secure-server",
+  "ip http server",
+  "shutdown",
+];
+
+const SECTION_HEADER =
+  /^(interface|router|line|ip access-list|route-map|vrf definition|ip vrf|class-map|policy-map|key chain) /;
+
+// Unindented lines after a section header still belong to it unless they are
+// global commands, as when the snippet is typed at the CLI
+const GLOBAL_COMMAND =
+  /^(no )?(hostname|interface|router|line|ip (route|domain|name-server|access-list|http|ssh|dhcp|nat|prefix-list|routing|vrf)|username|enable|service|ntp|logging|snmp-server|banner|access-list|aaa|crypto|spanning-tree|route-map|clock|boot|cdp|lldp|key chain|vrf definition|version|feature|route)\b/;
+
+// Terminal noise in pasted configs and "show running-config" captures
+const IGNORED_LINE =
+  /^(!.*|end|configure terminal|conf t|building configuration.*|current configuration.*|write( memory)?|copy running-config startup-config)$/i;
+
+const GLOBAL_ORDER: LineOrder = [
+  /^version /,
+  /^(no )?service /,
+  /^hostname /,
+  /^feature /,
+  /^boot/,
+  /^enable /,
+  /^aaa /,
+  /^(no )?ip (domain|name-server)/,
+  /^username /,
+  /^interface /,
+  /^router /,
+  "other",
+  /^(ip )?route /,
+  /^ip access-list /,
+  /^access-list /,
+  /^(logging|snmp-server|ntp) /,
+  /^line /,
+];
+
+const SECTION_ORDER: Record<string, LineOrder> = {
+  interface: [
+    /^description /,
+    /^encapsulation /,
+    /^(nameif|security-level|(no )?switchport)\b/,
+    /^ip address /,
+    /^ip /,
+    /^(no )?shutdown$/,
+    "other",
+  ],
+  router: [
+    /^(bgp )?router-id /,
+    /^bgp /,
+    /^passive-interface /,
+    /^network .* area /,
+    /^neighbor /,
+    "other",
+  ],
+  line: [/^exec-timeout /, /^password /, /^logging /, /^login/, /^transport /],
+};
+
+// Running config as a tree of command lines, edited with IOS merge semantics
+export class IosConfigTree {
+  private root: ConfigNode[] = [];
+
+  constructor(text = "") {
+    this.merge(text);
+  }
+
+  // Flattens config text into the commands it would run when typed in order
+  public static commands(text: string): ConfigCommand[] {
+    const commands: ConfigCommand[] = [];
+    const stack: { indent: number; line: string; section: boolean }[] = [];
+
+    for (const raw of text.split(/\r?\n/)) {
+      const line = raw.trim();
+      if (line === "" || IGNORED_LINE.test(line)) continue;
+      if (/^exit(-\S+)?$/.test(line)) {
+        stack.pop();
+        continue;
+      }
+
+      let indent = raw.length - raw.trimStart().length;
+      if (
+        indent === 0 &&
+        stack.length > 0 &&
+        stack[0].section &&
+        !GLOBAL_COMMAND.test(line)
+      ) {
+        indent = stack[0].indent + 1;
+      }
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+        stack.pop();
+      }
+
+      commands.push({ path: stack.map((entry) => entry.line), line });
+      stack.push({ indent, line, section: SECTION_HEADER.test(line) });
+    }
+    return commands;
+  }
+
+  public merge(text: string): void {
+    IosConfigTree.commands(text).forEach(({ path, line }) =>
+      this.apply(path, line),
+    );
+  }
+
+  public apply(path: string[], line: string): void {
+    const siblings = this.childrenOf(path);
+    const negated = line.startsWith("no ");
+    const command = negated ? line.slice("no ".length) : line;
+    const key = this.configKey(command);
+
+    if (negated && !STORED_NEGATIONS.includes(key)) {
+      // Removing a section header removes everything configured under it
+      const kept = siblings.filter(
+        (node) => node.line !== command && !node.line.startsWith(`${command} `),
+      );
+      siblings.splice(0, siblings.length, ...kept);
+      return;
+    }
+
+    const existing = siblings.find(
+      (node) => this.configKey(node.line.replace(/^no /, "")) === key,
+    );
+    if (existing) {
+      existing.line = line;
+    } else {
+      siblings.push({ line, children: [] });
+    }
+  }
+
+  // Lines directly under a section, or the global lines for an empty path
+  public lines(path: string[] = []): string[] {
+    const children = path.length === 0 ? this.root : this.find(path)?.children;
+    return (children || []).map((node) => node.line);
+  }
+
+  public sections(keyword: string): string[] {
+    return this.root
+      .filter((node) => node.line.startsWith(`${keyword} `))
+      .filter((node) => SECTION_HEADER.test(node.line))
+      .map((node) => node.line);
+  }
+
+  public render(): string {
+    const output = ["!"];
+    const nodes = this.sortNodes(this.root, GLOBAL_ORDER);
+
+    nodes.forEach((node, index) => {
+      if (this.isSection(node)) {
+        output.push(node.line, ...this.renderChildren(node, " "), "!");
+        return;
+      }
+      output.push(node.line);
+      // Runs of global lines of one kind share a separator
+      const next = nodes[index + 1];
+      if (
+        !next ||
+        this.isSection(next) ||
+        this.rank(next.line, GLOBAL_ORDER) !==
+          this.rank(node.line, GLOBAL_ORDER)
+      ) {
+        output.push("!");
+      }
+    });
+
+    output.push("end");
+    return output.join("\n");
+  }
+
+  private renderChildren(node: ConfigNode, indent: string): string[] {
+    const order = SECTION_ORDER[node.line.split(" ")[0]] || ["other"];
+    return this.sortNodes(node.children, order).flatMap((child) => [
+      indent + child.line,
+      ...this.renderChildren(child, indent + " "),
+    ]);
+  }
+
+  private sortNodes(nodes: ConfigNode[], order: LineOrder): ConfigNode[] {
+    const position = (node: ConfigNode) => {
+      // Subinterfaces follow their parent interface
+      const parent = node.line.match(/^interface ([^.]+)\./);
+      const anchor = parent
+        ? nodes.findIndex((other) => other.line === `interface ${parent[1]}`)
+        : -1;
+      return anchor >= 0 ? anchor + 0.5 : nodes.indexOf(node);
+    };
+    return [...nodes].sort(
+      (a, b) =>
+        this.rank(a.line, order) - this.rank(b.line, order) ||
+        position(a) - position(b),
+    );
+  }
+
+  private rank(line: string, order: LineOrder): number {
+    const index = order.findIndex(
+      (entry) => entry !== "other" && entry.test(line),
+    );
+    if (index >= 0) return index;
+    const other = order.indexOf("other");
+    return other >= 0 ? other : order.length;
+  }
+
+  private isSection(node: ConfigNode): boolean {
+    return node.children.length > 0 || SECTION_HEADER.test(node.line);
+  }
+
+  private find(path: string[]): ConfigNode | undefined {
+    let siblings = this.root;
+    let node: ConfigNode | undefined;
+    for (const header of path) {
+      node = siblings.find((candidate) => candidate.line === header);
+      if (!node) return undefined;
+      siblings = node.children;
+    }
+    return node;
+  }
+
+  // Entering a section that does not exist yet creates it
+  private childrenOf(path: string[]): ConfigNode[] {
+    let siblings = this.root;
+    for (const header of path) {
+      let node = siblings.find((candidate) => candidate.line === header);
+      if (!node) {
+        node = { line: header, children: [] };
+        siblings.push(node);
+      }
+      siblings = node.children;
+    }
+    return siblings;
+  }
+
+  private configKey(command: string): string {
+    const replaced = REPLACED_COMMANDS.find(
+      (prefix) => command === prefix || command.startsWith(`${prefix} `),
+    );
+    if (replaced) return replaced;
+    if (/^ip ospf \S+ area /.test(command)) return "ip ospf area";
+    return (
+      command.match(
+        /^(username \S+|neighbor \S+ (remote-as|description))/,
+      )?.[1] || command
+    );
+  }
+}
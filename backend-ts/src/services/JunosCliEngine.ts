@@ -0,0 +1,1978 @@
+import { DevicePersonality } from "./DevicePersonality";
+import { IosConfigTree } from "./IosConfigTree";
+import { CliReply } from "./IosCliEngine";
+import {
+  CliCommandResult,
+  CliContext,
+  ConfigCommand,
+  DevicePlatform,
+  RouteProtocol,
+  SimulatedRouter,
+} from "../types";
+import {
+  classfulPrefix,
+  inSubnet,
+  isIpv4,
+  maskToPrefix,
+  networkAddress,
+  numberToIp,
+  parsePrefix,
+} from "../utils/ipv4";
+
+type JunosRun = (
+  context: CliContext,
+  args: Record<string, string>,
+  displaySet: boolean,
+) => string;
+
+type JunosArgument =
+  | "area"
+  | "interface"
+  | "ip"
+  | "number"
+  | "prefix"
+  | "text"
+  | "unit" // logical interface, "ge-0/0/0" meaning unit 0
+  | "word";
+
+interface JunosNode {
+  keyword?: string; // unset for a bare value, such as an interface name
+  help: string;
+  argument?: JunosArgument;
+  values?: string[]; // the choices for a word argument
+  single?: boolean; // a new value replaces the configured one
+  inline?: boolean; // printed on its parent's line, as in "then accept;"
+  complete?: boolean; // may end a statement although it has children
+  children?: JunosNode[];
+  run?: JunosRun;
+}
+
+interface JunosToken {
+  text: string;
+  offset: number;
+}
+
+interface JunosStep {
+  node: JunosNode;
+  words: string[]; // the keyword in full and its value
+}
+
+type JunosWalk =
+  | { steps: JunosStep[]; level: JunosNode[] }
+  | { error: string; offset: number };
+
+interface JunosBlock {
+  label: string;
+  rank: number; // position in the schema, which orders the display
+  inline: boolean;
+  children: JunosBlock[];
+}
+
+const USER = "admin";
+const OSPF_PROCESS = "1";
+// BGP networks render as the terms of one export policy
+const EXPORT_POLICY = "EXPORT-BGP";
+
+const INTERFACE_NAME =
+  /^([a-z]{2}-\d+\/\d+\/\d+|(lo|fxp|em|ae|irb|vlan)\d*)(\.\d+)?$/;
+// Config may name these although the chassis has no such port
+const VIRTUAL_INTERFACE = /^(lo|ae|irb|vlan)\d*$/;
+
+const ARGUMENT_NAMES: Record<JunosArgument, string> = {
+  area: "<area_id>",
+  interface: "<interface_name>",
+  ip: "<address>",
+  number: "<value>",
+  prefix: "<prefix>",
+  text: "<description>",
+  unit: "<interface_name>",
+  word: "<name>",
+};
+
+const OSPF_SETTINGS: Record<string, string> = {
+  metric: "cost",
+  "hello-interval": "hello-interval",
+  "dead-interval": "dead-interval",
+  priority: "priority",
+};
+
+const setting = (keyword: string, help: string): JunosNode => ({
+  keyword,
+  help,
+  argument: "number",
+  single: true,
+});
+
+const CONFIG_SCHEMA: JunosNode[] = [
+  {
+    keyword: "system",
+    help: "System parameters",
+    children: [
+      {
+        keyword: "host-name",
+        help: "Hostname for this router",
+        argument: "word",
+        single: true,
+      },
+      {
+        keyword: "domain-name",
+        help: "Domain name for this router",
+        argument: "word",
+        single: true,
+      },
+      {
+        keyword: "ntp",
+        help: "Network Time Protocol services",
+        children: [{ keyword: "server", help: "NTP server", argument: "ip" }],
+      },
+      {
+        keyword: "services",
+        help: "System services",
+        children: [{ keyword: "ssh", help: "Allow ssh access" }],
+      },
+    ],
+  },
+  {
+    keyword: "interfaces",
+    help: "Interface configuration",
+    children: [
+      {
+        help: "Interface name",
+        argument: "interface",
+        children: [
+          {
+            keyword: "description",
+            help: "Text description of interface",
+            argument: "text",
+            single: true,
+          },
+          { keyword: "disable", help: "Disable this interface" },
+          {
+            keyword: "unit",
+            help: "Logical interface",
+            argument: "number",
+            children: [
+              {
+                keyword: "family",
+                help: "Protocol family",
+                argument: "word",
+                values: ["inet"],
+                children: [
+                  {
+                    keyword: "address",
+                    help: "Interface address/destination prefix",
+                    argument: "prefix",
+                    single: true,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    keyword: "routing-options",
+    help: "Protocol-independent routing option configuration",
+    children: [
+      {
+        keyword: "router-id",
+        help: "Router identifier",
+        argument: "ip",
+        single: true,
+      },
+      {
+        keyword: "autonomous-system",
+        help: "Autonomous system number",
+        argument: "number",
+        single: true,
+      },
+      {
+        keyword: "static",
+        help: "Static routes",
+        children: [
+          {
+            keyword: "route",
+            help: "Static route",
+            argument: "prefix",
+            children: [
+              {
+                keyword: "next-hop",
+                help: "Next hop to destination",
+                argument: "ip",
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    keyword: "protocols",
+    help: "Routing protocol configuration",
+    children: [
+      {
+        keyword: "ospf",
+        help: "OSPF configuration",
+        children: [
+          {
+            keyword: "area",
+            help: "Configure an OSPF area",
+            argument: "area",
+            children: [
+              {
+                keyword: "interface",
+                help: "Include an interface in this area",
+                argument: "unit",
+                complete: true,
+                children: [
+                  {
+                    keyword: "passive",
+                    help: "Do not run OSPF, but advertise it",
+                  },
+                  setting("metric", "Interface metric"),
+                  setting("hello-interval", "Hello interval (seconds)"),
+                  setting("dead-interval", "Dead interval (seconds)"),
+                  setting("priority", "Designated router priority"),
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "bgp",
+        help: "BGP options",
+        children: [
+          {
+            keyword: "export",
+            help: "Export policy",
+            argument: "word",
+            single: true,
+          },
+          {
+            keyword: "group",
+            help: "Define a peer group",
+            argument: "word",
+            children: [
+              {
+                keyword: "type",
+                help: "Type of peer group",
+                argument: "word",
+                values: ["external", "internal"],
+                single: true,
+              },
+              setting("peer-as", "Autonomous system number"),
+              {
+                keyword: "export",
+                help: "Export policy",
+                argument: "word",
+                single: true,
+              },
+              {
+                keyword: "neighbor",
+                help: "Configure a neighbor",
+                argument: "ip",
+                complete: true,
+                children: [setting("peer-as", "Autonomous system number")],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    keyword: "policy-options",
+    help: "Policy option configuration",
+    children: [
+      {
+        keyword: "policy-statement",
+        help: "Routing policy",
+        argument: "word",
+        children: [
+          {
+            keyword: "term",
+            help: "Policy term",
+            argument: "word",
+            children: [
+              {
+                keyword: "from",
+                help: "Conditions to match the source of a route",
+                children: [
+                  {
+                    keyword: "route-filter",
+                    help: "List of routes to match",
+                    argument: "prefix",
+                    children: [
+                      {
+                        keyword: "exact",
+                        help: "Exactly match the prefix length",
+                        inline: true,
+                      },
+                    ],
+                  },
+                ],
+              },
+              {
+                keyword: "then",
+                help: "Actions to take if 'from' and 'to' conditions match",
+                children: [
+                  { keyword: "accept", help: "Accept a route", inline: true },
+                  { keyword: "reject", help: "Reject a route", inline: true },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+];
+
+const CONFIG_COMMANDS: [string, string][] = [
+  ["commit", "Commit current set of changes"],
+  ["delete", "Delete a data element"],
+  ["edit", "Edit a sub-element"],
+  ["exit", "Exit from this level"],
+  ["quit", "Quit from this level"],
+  ["rollback", "Roll back to previous committed configuration"],
+  ["run", "Run an operational-mode command"],
+  ["set", "Set a parameter"],
+  ["show", "Show a parameter"],
+  ["top", "Exit to top level of configuration"],
+  ["up", "Exit one level of configuration"],
+];
+
+const PIPES: [string, string][] = [
+  ["count", "Count occurrences"],
+  ["display", "Show additional kinds of information"],
+  ["except", "Show only text that does not match a pattern"],
+  ["find", "Search for first occurrence of pattern"],
+  ["match", "Show only text that matches a pattern"],
+  ["no-more", "Don't paginate output"],
+];
+
+const ROUTE_PROTOCOLS: Record<string, RouteProtocol> = {
+  bgp: "bgp",
+  direct: "connected",
+  local: "local",
+  ospf: "ospf",
+  static: "static",
+};
+
+const ROUTE_PREFERENCES: Partial<Record<RouteProtocol, string>> = {
+  connected: "Direct/0",
+  local: "Local/0",
+  static: "Static/5",
+  ospf: "OSPF/10",
+  bgp: "BGP/170",
+};
+
+const quote = (word: string): string =>
+  /[\s{};"]/.test(word) || word === "" ? `"${word}"` : word;
+
+const startsWith = (words: string[], prefix: string[]): boolean =>
+  prefix.length <= words.length &&
+  prefix.every((word, index) => words[index] === word);
+
+// Juniper Junos: operational and configuration modes, a candidate config
+// edited with set and delete and applied by commit, and the brace-format
+// hierarchy. The IOS-form running config is rebuilt on every commit.
+export class JunosCliEngine extends DevicePersonality {
+  public readonly platform: DevicePlatform = "junos";
+  public readonly vendor: string = "Juniper";
+  public readonly defaultModel: string = "vMX";
+  public readonly softwareVersion: string = "Junos 21.4R1.12";
+  public readonly models: RegExp =
+    /vmx|vsrx|vqfx|vjunos|junos|juniper|mx\d|srx\d|crpd/i;
+  public readonly deviceTypes: string[] = ["juniper_junos"];
+  public readonly evidenceCommands: string[] = [
+    "show interfaces terse",
+    "show ospf neighbor",
+    "show bgp summary",
+    "show route",
+    "show chassis routing-engine",
+  ];
+
+  private commands: JunosNode[] = this.buildCommands();
+
+  public execute(context: CliContext, line: string): CliCommandResult {
+    const reply =
+      context.session.mode === "config"
+        ? this.configMode(context, line)
+        : this.operational(context, line, 0);
+    return { ...reply, prompt: this.prompt(context) };
+  }
+
+  public prompt(context: CliContext): string {
+    const mode = context.session.mode === "config" ? "#" : ">";
+    return `${USER}@${context.router.name}${mode}`;
+  }
+
+  // Accepts "set" statements or the brace format. Group settings fold into
+  // each neighbor, and only the route-filters that an exported policy accepts
+  // survive, as the networks BGP advertises.
+  public configCommands(text: string): ConfigCommand[] {
+    const statements = this.statements(text).map((statement) => {
+      const walk = this.walk(CONFIG_SCHEMA, this.asTokens(statement));
+      return "error" in walk ? statement : this.wordsOf(walk.steps);
+    });
+    return this.fold(statements).map((statement) => ({
+      path: [],
+      line: this.join(statement),
+    }));
+  }
+
+  public toIos(
+    _path: string[],
+    line: string,
+    config: IosConfigTree,
+  ): ConfigCommand[] | string {
+    const walk = this.walk(
+      CONFIG_SCHEMA,
+      this.tokenize(line.replace(/^set\s+/, "")),
+    );
+    if ("error" in walk) return walk.error;
+    const last = walk.steps[walk.steps.length - 1];
+    if (!last || (last.node.children && !last.node.complete)) {
+      return "missing argument.";
+    }
+    return this.translate(this.wordsOf(walk.steps), config);
+  }
+
+  public render(config: IosConfigTree): string {
+    const version = this.softwareVersion.split(" ")[1];
+    return [`version ${version};`, this.braces(this.fromIos(config))].join(
+      "\n",
+    );
+  }
+
+  private buildCommands(): JunosNode[] {
+    const ping: JunosRun = (context, args) =>
+      this.ping(context, args.ip, args.source);
+    const traceroute: JunosRun = (context, args) =>
+      this.traceroute(context, args.ip, args.source);
+    const exit: JunosRun = (context) => {
+      context.endSession();
+      return "";
+    };
+    const configuration = (section?: string): JunosRun => {
+      return ({ router }, _args, displaySet) =>
+        this.showConfiguration(router, displaySet, section);
+    };
+    const terse: JunosRun = ({ router }, args) =>
+      this.showInterfacesTerse(router, args.interface);
+
+    return [
+      {
+        keyword: "configure",
+        help: "Manipulate software configuration information",
+        run: (context) => this.configure(context),
+      },
+      { keyword: "exit", help: "Exit the management session", run: exit },
+      {
+        keyword: "ping",
+        help: "Ping remote target",
+        children: [
+          {
+            help: "Hostname or IP address of remote host",
+            argument: "ip",
+            run: ping,
+            children: [
+              {
+                keyword: "source",
+                help: "Source address of echo request",
+                argument: "ip",
+                run: ping,
+              },
+            ],
+          },
+        ],
+      },
+      { keyword: "quit", help: "Exit the management session", run: exit },
+      {
+        keyword: "set",
+        help: "Set CLI properties, date/time, craft interface message",
+        children: [
+          {
+            keyword: "cli",
+            help: "Set CLI properties",
+            children: [
+              {
+                keyword: "screen-length",
+                help: "Set number of lines on screen",
+                argument: "number",
+                run: (_context, args) =>
+                  `Screen length set to ${args["screen-length"]}`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "show",
+        help: "Show system information",
+        children: [
+          {
+            keyword: "arp",
+            help: "Show system Address Resolution Protocol table entries",
+            run: ({ router }) => this.showArp(router),
+            children: [
+              {
+                keyword: "no-resolve",
+                help: "Don't attempt to print names",
+                run: ({ router }) => this.showArp(router),
+              },
+            ],
+          },
+          {
+            keyword: "bgp",
+            help: "Show BGP information",
+            children: [
+              {
+                keyword: "summary",
+                help: "Show overview of BGP information",
+                run: ({ router }) => this.showBgpSummary(router),
+              },
+            ],
+          },
+          {
+            keyword: "chassis",
+            help: "Show chassis information",
+            children: [
+              {
+                keyword: "hardware",
+                help: "Show installed hardware components",
+                run: ({ router }) => this.showChassisHardware(router),
+              },
+              {
+                keyword: "routing-engine",
+                help: "Show Routing Engine status",
+                run: ({ router }) => this.showRoutingEngine(router),
+              },
+            ],
+          },
+          {
+            keyword: "configuration",
+            help: "Show current configuration",
+            run: configuration(),
+            children: CONFIG_SCHEMA.map((node) => ({
+              keyword: node.keyword,
+              help: node.help,
+              run: configuration(node.keyword),
+            })),
+          },
+          {
+            keyword: "interfaces",
+            help: "Show interface information",
+            run: ({ router }) => this.showInterfaces(router),
+            children: [
+              { keyword: "terse", help: "Display terse output", run: terse },
+              {
+                help: "Name of physical or logical interface",
+                argument: "interface",
+                run: ({ router }, args) =>
+                  this.showInterfaces(router, args.interface),
+                children: [
+                  {
+                    keyword: "terse",
+                    help: "Display terse output",
+                    run: terse,
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            keyword: "ospf",
+            help: "Show OSPF information",
+            children: [
+              {
+                keyword: "neighbor",
+                help: "Show OSPF neighbor information",
+                run: ({ router }) => this.showOspfNeighbor(router),
+              },
+            ],
+          },
+          {
+            keyword: "route",
+            help: "Show routing table information",
+            run: ({ router }) => this.showRoute(router),
+            children: [
+              {
+                keyword: "protocol",
+                help: "Name of protocol",
+                argument: "word",
+                values: Object.keys(ROUTE_PROTOCOLS),
+                run: ({ router }, args) =>
+                  this.showRoute(router, ROUTE_PROTOCOLS[args.protocol]),
+              },
+            ],
+          },
+          {
+            keyword: "system",
+            help: "Show system information",
+            children: [
+              {
+                keyword: "uptime",
+                help: "Show time since system and processes started",
+                run: ({ router }) => this.showSystemUptime(router),
+              },
+            ],
+          },
+          {
+            keyword: "version",
+            help: "Show software process revision levels",
+            run: ({ router }) => this.showVersion(router),
+          },
+        ],
+      },
+      {
+        keyword: "traceroute",
+        help: "Trace route to remote host",
+        children: [
+          {
+            help: "Hostname or IP address of remote host",
+            argument: "ip",
+            run: traceroute,
+            children: [
+              {
+                keyword: "source",
+                help: "Source address to use in outgoing traceroute packets",
+                argument: "ip",
+                run: traceroute,
+              },
+            ],
+          },
+        ],
+      },
+    ];
+  }
+
+  // Operational mode, also reached with "run" from configuration mode, where
+  // offset is where the command starts on the line
+  private operational(
+    context: CliContext,
+    line: string,
+    offset: number,
+  ): CliReply {
+    if (line.trim() === "") return { handled: true, output: "" };
+    if (line.trimEnd().endsWith("?")) {
+      return { handled: true, output: this.help(this.commands, line) };
+    }
+
+    const [command, ...pipes] = line.split("|");
+    const tokens = this.tokenize(command);
+    const walk = this.walk(this.commands, tokens);
+    if ("error" in walk) {
+      // Unknown commands may still be answered by the LLM
+      return {
+        handled: false,
+        output: this.caret(context, walk.offset + offset, walk.error),
+      };
+    }
+    const last = walk.steps[walk.steps.length - 1]?.node;
+    if (!last?.run) {
+      return {
+        handled: true,
+        output: this.caret(
+          context,
+          command.trimEnd().length + 1 + offset,
+          "syntax error, expecting <command>.",
+        ),
+      };
+    }
+
+    const args: Record<string, string> = {};
+    walk.steps
+      .filter((step) => step.node.argument)
+      .forEach((step) => {
+        args[step.node.keyword ?? step.node.argument!] =
+          step.words[step.words.length - 1];
+      });
+    const displaySet = pipes.some((pipe) => /^\s*display\s+set\s*$/.test(pipe));
+    const output = last.run(context, args, displaySet);
+    return this.pipe(
+      output,
+      pipes.filter((pipe) => !/^\s*display\s+set\s*$/.test(pipe)),
+    );
+  }
+
+  private pipe(output: string, pipes: string[]): CliReply {
+    let lines = output.split("\n");
+    for (const pipe of pipes) {
+      const [keyword, ...rest] = pipe.trim().split(/\s+/);
+      const matches = PIPES.filter(([name]) => name.startsWith(keyword));
+      if (keyword === "" || matches.length !== 1) {
+        return { handled: true, output: "syntax error, expecting <command>." };
+      }
+      const pattern = rest.join(" ").replace(/^"(.*)"$/, "$1");
+      // Junos patterns are regular expressions; bad ones match literally
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern, "i");
+      } catch {
+        regex = new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+      }
+
+      const [name] = matches[0];
+      if (name === "match") lines = lines.filter((text) => regex.test(text));
+      if (name === "except") lines = lines.filter((text) => !regex.test(text));
+      if (name === "find") {
+        const start = lines.findIndex((text) => regex.test(text));
+        lines = start >= 0 ? lines.slice(start) : [];
+      }
+      if (name === "count") {
+        lines = [`Count: ${lines.filter((text) => text !== "").length} lines`];
+      }
+    }
+    return { handled: true, output: lines.join("\n") };
+  }
+
+  private configMode(context: CliContext, line: string): CliReply {
+    const reply = this.configCommand(context, line);
+    if (context.session.mode !== "config") return reply;
+    // Each reply ends with the level being edited
+    const path = this.editPath(context);
+    const banner = `[edit${path.length > 0 ? ` ${this.join(path)}` : ""}]`;
+    return { ...reply, output: [reply.output, banner].join("\n\n") };
+  }
+
+  private configCommand(context: CliContext, line: string): CliReply {
+    const tokens = this.tokenize(line);
+    if (tokens.length === 0) return { handled: true, output: "" };
+    if (line.trimEnd().endsWith("?")) {
+      return { handled: true, output: this.configHelp(context, line) };
+    }
+
+    const [first, ...rest] = tokens;
+    const matches = CONFIG_COMMANDS.filter(([name]) =>
+      name.startsWith(first.text),
+    );
+    if (matches.length !== 1) {
+      return {
+        handled: true,
+        output: this.caret(context, first.offset, "unknown command."),
+      };
+    }
+
+    const [command] = matches[0];
+    switch (command) {
+      case "set":
+        return { handled: true, output: this.set(context, rest) };
+      case "delete":
+        return { handled: true, output: this.delete(context, rest) };
+      case "edit":
+        return { handled: true, output: this.edit(context, rest) };
+      case "up":
+        return { handled: true, output: this.up(context) };
+      case "top":
+        context.session.section = undefined;
+        return { handled: true, output: "" };
+      case "exit":
+      case "quit":
+        return {
+          handled: true,
+          output:
+            this.editPath(context).length > 0
+              ? this.up(context)
+              : this.leave(context),
+        };
+      case "commit":
+        return { handled: true, output: this.commit(context, rest) };
+      case "rollback":
+        context.session.candidate = undefined;
+        return { handled: true, output: "load complete" };
+      case "run":
+        return rest.length > 0
+          ? this.operational(
+              context,
+              line.slice(rest[0].offset),
+              rest[0].offset,
+            )
+          : { handled: true, output: "syntax error, expecting <command>." };
+      default:
+        return { handled: true, output: this.showCandidate(context, line) };
+    }
+  }
+
+  private configure(context: CliContext): string {
+    context.session.mode = "config";
+    context.session.section = undefined;
+    return "Entering configuration mode";
+  }
+
+  // Uncommitted changes stay in the candidate, as Junos keeps them for the
+  // next "configure"
+  private leave(context: CliContext): string {
+    const changed =
+      this.join(this.candidate(context).flat()) !==
+      this.join(this.committed(context.router).flat());
+    context.session.mode = "privileged";
+    context.session.section = undefined;
+    return changed
+      ? "The configuration has been changed but not committed\nExiting configuration mode"
+      : "Exiting configuration mode";
+  }
+
+  private set(context: CliContext, tokens: JunosToken[]): string {
+    const walk = this.walk(CONFIG_SCHEMA, [
+      ...this.asTokens(this.editPath(context)),
+      ...tokens,
+    ]);
+    if ("error" in walk) return this.caret(context, walk.offset, walk.error);
+    const last = walk.steps[walk.steps.length - 1];
+    if (!last || (last.node.children && !last.node.complete)) {
+      return this.caret(context, this.lineEnd(tokens), "missing argument.");
+    }
+
+    const statement = this.wordsOf(walk.steps);
+    // Single-valued statements replace whatever value was set before
+    const replaced = walk.steps
+      .map((step, index) =>
+        step.node.single
+          ? [...this.wordsOf(walk.steps.slice(0, index)), step.words[0]]
+          : undefined,
+      )
+      .filter((prefix): prefix is string[] => prefix !== undefined);
+    const kept = this.candidate(context).filter(
+      (existing) =>
+        !startsWith(statement, existing) &&
+        !replaced.some((prefix) => startsWith(existing, prefix)),
+    );
+    if (!kept.some((existing) => startsWith(existing, statement))) {
+      kept.push(statement);
+    }
+    context.session.candidate = kept.map((words) => this.join(words));
+    return "";
+  }
+
+  private delete(context: CliContext, tokens: JunosToken[]): string {
+    const walk = this.walk(CONFIG_SCHEMA, [
+      ...this.asTokens(this.editPath(context)),
+      ...tokens,
+    ]);
+    if ("error" in walk) return this.caret(context, walk.offset, walk.error);
+
+    const prefix = this.wordsOf(walk.steps);
+    const candidate = this.candidate(context);
+    const kept = candidate.filter((words) => !startsWith(words, prefix));
+    if (kept.length === candidate.length) {
+      return "warning: statement not found";
+    }
+    context.session.candidate = kept.map((words) => this.join(words));
+    return "";
+  }
+
+  private edit(context: CliContext, tokens: JunosToken[]): string {
+    const walk = this.walk(CONFIG_SCHEMA, [
+      ...this.asTokens(this.editPath(context)),
+      ...tokens,
+    ]);
+    if ("error" in walk) return this.caret(context, walk.offset, walk.error);
+    const last = walk.steps[walk.steps.length - 1];
+    if (!last?.node.children) {
+      return this.caret(
+        context,
+        this.lineEnd(tokens),
+        "syntax error, expecting <statement>.",
+      );
+    }
+    context.session.section = this.join(this.wordsOf(walk.steps));
+    return "";
+  }
+
+  private up(context: CliContext): string {
+    const walk = this.walk(
+      CONFIG_SCHEMA,
+      this.asTokens(this.editPath(context)),
+    );
+    if ("error" in walk || walk.steps.length <= 1) {
+      context.session.section = undefined;
+    } else {
+      context.session.section = this.join(
+        this.wordsOf(walk.steps.slice(0, -1)),
+      );
+    }
+    return "";
+  }
+
+  private commit(context: CliContext, tokens: JunosToken[]): string {
+    const options = tokens.map(
+      ({ text }) =>
+        ["and-quit", "check"].find((option) => option.startsWith(text)) || text,
+    );
+    const unknown = options.find(
+      (option) => option !== "and-quit" && option !== "check",
+    );
+    if (unknown) {
+      const token = tokens[options.indexOf(unknown)];
+      return this.caret(context, token.offset, "syntax error.");
+    }
+
+    const candidate = this.candidate(context);
+    const text = candidate.map((words) => `set ${this.join(words)}`).join("\n");
+    const errors = [
+      ...this.missingInterfaces(context.router, candidate),
+      ...this.parse(text).errors,
+    ];
+    if (errors.length > 0) {
+      return [
+        ...errors.map((error) => `error: ${error}`),
+        "error: configuration check-out failed",
+      ].join("\n");
+    }
+    if (options.includes("check")) return "configuration check succeeds";
+
+    context.replaceConfig(text);
+    context.saveConfig();
+    // The candidate is rebuilt from what the router now runs
+    context.session.candidate = undefined;
+    if (!options.includes("and-quit")) return "commit complete";
+    context.session.mode = "privileged";
+    context.session.section = undefined;
+    return "commit complete\nExiting configuration mode";
+  }
+
+  private missingInterfaces(
+    router: SimulatedRouter,
+    statements: string[][],
+  ): string[] {
+    const names = new Set(
+      statements
+        .map((words) =>
+          words[0] === "interfaces"
+            ? words[1]
+            : words[1] === "ospf"
+              ? words[5]?.split(".")[0]
+              : undefined,
+        )
+        .filter((name): name is string => name !== undefined),
+    );
+    return Array.from(names)
+      .filter((name) => !VIRTUAL_INTERFACE.test(name))
+      .filter((name) => !router.interfaces.some((iface) => iface.name === name))
+      .map((name) => `device ${name} not found`);
+  }
+
+  private showCandidate(context: CliContext, line: string): string {
+    const [command, ...pipes] = line.split("|");
+    const tokens = this.tokenize(command).slice(1);
+    const walk = this.walk(CONFIG_SCHEMA, [
+      ...this.asTokens(this.editPath(context)),
+      ...tokens,
+    ]);
+    if ("error" in walk) return this.caret(context, walk.offset, walk.error);
+
+    const prefix = this.wordsOf(walk.steps);
+    const selected = this.candidate(context).filter((words) =>
+      startsWith(words, prefix),
+    );
+    const pipe = pipes.join("|").trim();
+    if (/^compare$/.test(pipe)) {
+      const committed = this.committed(context.router).map((words) =>
+        this.join(words),
+      );
+      const current = selected.map((words) => this.join(words));
+      return [
+        ...committed
+          .filter((statement) => startsWith(this.words(statement), prefix))
+          .filter((statement) => !current.includes(statement))
+          .map((statement) => `- set ${statement}`),
+        ...current
+          .filter((statement) => !committed.includes(statement))
+          .map((statement) => `+ set ${statement}`),
+      ].join("\n");
+    }
+    if (/^display\s+set$/.test(pipe)) {
+      return selected.map((words) => `set ${this.join(words)}`).join("\n");
+    }
+    if (pipe !== "") return "syntax error, expecting <command>.";
+    return this.braces(selected, walk.steps.length);
+  }
+
+  // The statements being edited, which start out as the committed config
+  private candidate(context: CliContext): string[][] {
+    const { candidate } = context.session;
+    return candidate
+      ? candidate.map((statement) => this.words(statement))
+      : this.committed(context.router);
+  }
+
+  private committed(router: SimulatedRouter): string[][] {
+    return this.statements(router.runningConfig);
+  }
+
+  private editPath(context: CliContext): string[] {
+    const { section } = context.session;
+    return section ? this.words(section) : [];
+  }
+
+  private configHelp(context: CliContext, line: string): string {
+    const tokens = this.tokenize(line.trimEnd().slice(0, -1));
+    const partial = /\s\?$/.test(line.trimEnd()) || tokens.length === 0;
+    if (tokens.length === 0 || (tokens.length === 1 && !partial)) {
+      const prefix = partial ? "" : tokens[0].text;
+      return this.listing(
+        CONFIG_COMMANDS.filter(([name]) => name.startsWith(prefix)),
+      );
+    }
+
+    const command = CONFIG_COMMANDS.find(([name]) =>
+      name.startsWith(tokens[0].text),
+    )?.[0];
+    if (command === "run") {
+      return this.help(
+        this.commands,
+        line.slice(tokens[1]?.offset ?? line.length - 1),
+      );
+    }
+    const path = this.editPath(context).join(" ");
+    return this.help(
+      CONFIG_SCHEMA,
+      `${path} ${line.slice(tokens[1]?.offset ?? line.length - 1)}`,
+    );
+  }
+
+  // "?" lists what may follow the words typed, or completes a partial word
+  private help(nodes: JunosNode[], line: string): string {
+    const text = line.trimEnd().slice(0, -1);
+    const tokens = this.tokenize(text);
+    const partial = text !== "" && !/\s$/.test(text) ? tokens.pop() : undefined;
+    const walk = this.walk(nodes, tokens);
+    if ("error" in walk) return walk.error;
+
+    const last = walk.steps[walk.steps.length - 1]?.node;
+    const rows: [string, string][] = [];
+    if (last?.run || (last && (!last.children || last.complete))) {
+      rows.push(["<[Enter]>", "Execute this command"]);
+    }
+    walk.level.forEach((node) => {
+      const name = node.keyword ?? ARGUMENT_NAMES[node.argument!];
+      if (!partial || node.keyword?.startsWith(partial.text)) {
+        rows.push([name, node.help]);
+      }
+    });
+    if (last?.run) rows.push(["|", "Pipe through a command"]);
+    return this.listing(rows);
+  }
+
+  private listing(rows: [string, string][]): string {
+    if (rows.length === 0) return "No valid completions";
+    return [
+      "Possible completions:",
+      ...rows.map(([name, help]) => `  ${name.padEnd(21)}${help}`),
+    ].join("\n");
+  }
+
+  private caret(context: CliContext, offset: number, message: string): string {
+    const indent = " ".repeat(this.prompt(context).length + offset);
+    return `${indent}^\n${message}`;
+  }
+
+  private lineEnd(tokens: JunosToken[]): number {
+    const last = tokens[tokens.length - 1];
+    return last ? last.offset + last.text.length + 1 : 0;
+  }
+
+  // Follows the words down a schema, accepting any unique abbreviation of a
+  // keyword. Bare values, such as interface names, match by their syntax.
+  private walk(nodes: JunosNode[], tokens: JunosToken[]): JunosWalk {
+    const steps: JunosStep[] = [];
+    let level = nodes;
+    for (let index = 0; index < tokens.length; index++) {
+      const token = tokens[index];
+      const keywords = level.filter((node) =>
+        node.keyword?.startsWith(token.text),
+      );
+      let node =
+        keywords.find((candidate) => candidate.keyword === token.text) ||
+        (keywords.length === 1 ? keywords[0] : undefined);
+      if (!node && keywords.length > 1) {
+        return { error: `'${token.text}' is ambiguous.`, offset: token.offset };
+      }
+
+      if (node) {
+        const words = [node.keyword!];
+        if (node.argument) {
+          const next = tokens[index + 1];
+          if (!next) {
+            return {
+              error: "missing argument.",
+              offset: token.offset + token.text.length + 1,
+            };
+          }
+          const value = this.value(node, next.text);
+          if (value === undefined) {
+            return { error: "syntax error.", offset: next.offset };
+          }
+          words.push(value);
+          index++;
+        }
+        steps.push({ node, words });
+      } else {
+        node = level.find(
+          (candidate) =>
+            !candidate.keyword &&
+            this.value(candidate, token.text) !== undefined,
+        );
+        if (!node) {
+          return {
+            error: steps.length === 0 ? "unknown command." : "syntax error.",
+            offset: token.offset,
+          };
+        }
+        steps.push({ node, words: [this.value(node, token.text)!] });
+      }
+      level = node.children || [];
+    }
+    return { steps, level };
+  }
+
+  // The value in canonical form, or undefined when it does not fit
+  private value(node: JunosNode, text: string): string | undefined {
+    switch (node.argument) {
+      case "number":
+        return /^\d+$/.test(text) ? String(Number(text)) : undefined;
+      case "ip":
+        return isIpv4(text) ? text : undefined;
+      case "prefix":
+        return parsePrefix(text) ? text : undefined;
+      case "area":
+        if (isIpv4(text)) return text;
+        return /^\d+$/.test(text) ? numberToIp(Number(text)) : undefined;
+      case "interface":
+        return INTERFACE_NAME.test(text) ? text : undefined;
+      case "unit":
+        if (!INTERFACE_NAME.test(text)) return undefined;
+        return text.includes(".") ? text : `${text}.0`;
+      case "word": {
+        if (!node.values) return /^[\w.:/-]+$/.test(text) ? text : undefined;
+        if (node.values.includes(text)) return text;
+        const matches = node.values.filter((value) => value.startsWith(text));
+        return matches.length === 1 ? matches[0] : undefined;
+      }
+      default:
+        return text;
+    }
+  }
+
+  private tokenize(text: string): JunosToken[] {
+    return Array.from(
+      text.matchAll(/"([^"]*)"?|[{};]|[^\s{};"]+/g),
+      (match) => ({ text: match[1] ?? match[0], offset: match.index! }),
+    );
+  }
+
+  private asTokens(words: string[]): JunosToken[] {
+    return words.map((text) => ({ text, offset: 0 }));
+  }
+
+  private words(statement: string): string[] {
+    return this.tokenize(statement).map((token) => token.text);
+  }
+
+  private wordsOf(steps: JunosStep[]): string[] {
+    return steps.flatMap((step) => step.words);
+  }
+
+  private join(words: string[]): string {
+    return words.map(quote).join(" ");
+  }
+
+  // Statements from "set" lines or from the brace format
+  private statements(text: string): string[][] {
+    const lines = text
+      .replace(/\/\*[\s\S]*?\*\//g, "")
+      .split(/\r?\n/)
+      .filter((line) => !/^\s*(#.*)?$/.test(line));
+    if (lines.some((line) => /^\s*set\s/.test(line))) {
+      return lines
+        .filter((line) => /^\s*set\s/.test(line))
+        .map((line) => this.words(line).slice(1));
+    }
+
+    const statements: string[][] = [];
+    const stack: { words: string[]; empty: boolean }[] = [];
+    const emit = (words: string[]) => {
+      statements.push([...stack.flatMap((block) => block.words), ...words]);
+      stack.forEach((block) => (block.empty = false));
+    };
+    let words: string[] = [];
+    this.tokenize(lines.join("\n")).forEach(({ text: token }) => {
+      if (token === "{") {
+        stack.push({ words, empty: true });
+      } else if (token === ";") {
+        if (words.length > 0) emit(words);
+      } else if (token === "}") {
+        if (words.length > 0) emit(words);
+        // An empty block, as in "ssh { }", is a statement of its own
+        const block = stack.pop();
+        if (block?.empty) emit(block.words);
+      } else {
+        words.push(token);
+        return;
+      }
+      words = [];
+    });
+    return statements.filter((statement) => statement[0] !== "version");
+  }
+
+  private fold(statements: string[][]): string[][] {
+    const localAs = statements.find(
+      ([top, keyword]) =>
+        top === "routing-options" && keyword === "autonomous-system",
+    )?.[2];
+    const groups = new Map<string, { type?: string; peerAs?: string }>();
+    const exported = new Set<string>();
+    const accepted = new Set<string>();
+    statements.forEach((statement) => {
+      const [top, protocol, kind, group, keyword, value] = statement;
+      if (top === "protocols" && protocol === "bgp") {
+        if (statement[statement.length - 2] === "export") {
+          exported.add(statement[statement.length - 1]);
+        }
+        if (kind === "group" && statement.length === 6) {
+          const settings = groups.get(group) || {};
+          if (keyword === "type") settings.type = value;
+          if (keyword === "peer-as") settings.peerAs = value;
+          groups.set(group, settings);
+        }
+      }
+      if (
+        top === "policy-options" &&
+        statement.slice(5).join(" ") === "then accept"
+      ) {
+        accepted.add(`${statement[2]} ${statement[4]}`);
+      }
+    });
+
+    const folded = statements.flatMap((statement) => {
+      const [top, protocol, kind, group, keyword] = statement;
+      if (top === "protocols" && protocol === "bgp") {
+        if (kind !== "group" || keyword !== "neighbor") return [];
+        if (statement.length > 6) return [statement];
+        // A neighbor's own peer-as wins over the group's
+        if (
+          statements.some(
+            (other) => other.length > 6 && startsWith(other, statement),
+          )
+        ) {
+          return [];
+        }
+        const settings = groups.get(group) || {};
+        const peerAs =
+          settings.peerAs ??
+          (settings.type === "internal" ? localAs : undefined);
+        return [peerAs ? [...statement, "peer-as", peerAs] : statement];
+      }
+      if (top === "policy-options") {
+        const [, , policy, , term, clause] = statement;
+        return clause === "from" &&
+          exported.has(policy) &&
+          accepted.has(`${policy} ${term}`)
+          ? [statement]
+          : [];
+      }
+      return [statement];
+    });
+
+    const rank = ([top]: string[]) => {
+      const index = CONFIG_SCHEMA.findIndex((node) => node.keyword === top);
+      return index >= 0 ? index : CONFIG_SCHEMA.length;
+    };
+    return folded.sort((a, b) => rank(a) - rank(b));
+  }
+
+  // The IOS-form commands for one canonical statement
+  private translate(
+    words: string[],
+    config: IosConfigTree,
+  ): ConfigCommand[] | string {
+    const [top, second] = words;
+    const value = words[words.length - 1];
+    const routerId = config
+      .lines()
+      .map((line) => line.match(/^router-id (\S+)$/)?.[1])
+      .find((id) => id !== undefined);
+    const [bgpHeader] = config.sections("router bgp");
+
+    if (top === "system") {
+      if (second === "host-name")
+        return [{ path: [], line: `hostname ${value}` }];
+      if (second === "domain-name") {
+        return [{ path: [], line: `ip domain-name ${value}` }];
+      }
+      if (second === "ntp") return [{ path: [], line: `ntp server ${value}` }];
+      return [{ path: ["line vty 0 4"], line: "transport input ssh" }];
+    }
+
+    if (top === "interfaces") {
+      const [, physical, keyword, unit, , , , address] = words;
+      const name =
+        unit === undefined || unit === "0" ? physical : `${physical}.${unit}`;
+      const header = `interface ${name}`;
+      const line =
+        keyword === "description"
+          ? `description ${value}`
+          : keyword === "disable"
+            ? "shutdown"
+            : `ip address ${parsePrefix(address)!.join(" ")}`;
+      return [
+        { path: [], line: header },
+        { path: [header], line },
+      ];
+    }
+
+    if (top === "routing-options") {
+      if (second === "router-id") {
+        return [
+          { path: [], line: `router-id ${value}` },
+          ...config.sections("router ospf").map((header) => ({
+            path: [header],
+            line: `router-id ${value}`,
+          })),
+          ...config.sections("router bgp").map((header) => ({
+            path: [header],
+            line: `bgp router-id ${value}`,
+          })),
+        ];
+      }
+      if (second === "autonomous-system") {
+        const header = `router bgp ${value}`;
+        return [
+          { path: [], line: header },
+          ...(routerId
+            ? [{ path: [header], line: `bgp router-id ${routerId}` }]
+            : []),
+        ];
+      }
+      // routing-options static route <prefix> next-hop <address>
+      const [address, mask] = parsePrefix(words[3])!;
+      const network = networkAddress(address, maskToPrefix(mask));
+      return [{ path: [], line: `ip route ${network} ${mask} ${value}` }];
+    }
+
+    if (top === "protocols" && second === "ospf") {
+      // protocols ospf area <area> interface <unit> [setting [value]]
+      const [, , , area, , unit, keyword] = words;
+      const name = unit.replace(/\.0$/, "");
+      const header = `router ospf ${OSPF_PROCESS}`;
+      const commands: ConfigCommand[] = [
+        { path: [], line: header },
+        ...(routerId
+          ? [{ path: [header], line: `router-id ${routerId}` }]
+          : []),
+        { path: [], line: `interface ${name}` },
+        {
+          path: [`interface ${name}`],
+          line: `ip ospf ${OSPF_PROCESS} area ${area}`,
+        },
+      ];
+      if (keyword === "passive") {
+        commands.push({ path: [header], line: `passive-interface ${name}` });
+      } else if (keyword) {
+        commands.push({
+          path: [`interface ${name}`],
+          line: `ip ospf ${OSPF_SETTINGS[keyword]} ${value}`,
+        });
+      }
+      return commands;
+    }
+
+    if (top === "protocols") {
+      // Only "group <name> neighbor <address> peer-as <as>" is left once
+      // group settings are folded
+      const [, , kind, group, keyword, address, , peerAs] = words;
+      if (kind !== "group" || keyword !== "neighbor") return [];
+      if (!bgpHeader) {
+        return "routing-options autonomous-system must be configured for BGP";
+      }
+      if (!peerAs) {
+        return `peer-as must be configured for external neighbor ${address} in group ${group}`;
+      }
+      return [
+        { path: [bgpHeader], line: `neighbor ${address} remote-as ${peerAs}` },
+        { path: [bgpHeader], line: `neighbor ${address} description ${group}` },
+      ];
+    }
+
+    // policy-options policy-statement <name> term <name> from route-filter
+    // <prefix> exact, for a policy that BGP exports
+    if (words[5] !== "from" || !bgpHeader) return [];
+    const [address, mask] = parsePrefix(words[7])!;
+    const network = networkAddress(address, maskToPrefix(mask));
+    return [{ path: [bgpHeader], line: `network ${network} mask ${mask}` }];
+  }
+
+  // The reverse of translate, over the whole IOS-form config
+  private fromIos(config: IosConfigTree): string[][] {
+    const statements: string[][] = [];
+    const global = config.lines();
+    const [ospfHeader] = config.sections("router ospf");
+    const [bgpHeader] = config.sections("router bgp");
+    const ospf = ospfHeader ? config.lines([ospfHeader]) : [];
+    const bgp = bgpHeader ? config.lines([bgpHeader]) : [];
+    const first = (lines: string[], pattern: RegExp) =>
+      lines.map((line) => line.match(pattern)?.[1]).find((match) => match);
+
+    const hostname = first(global, /^hostname (\S+)$/);
+    if (hostname) statements.push(["system", "host-name", hostname]);
+    const domain = first(global, /^ip domain-name (\S+)$/);
+    if (domain) statements.push(["system", "domain-name", domain]);
+    global
+      .map((line) => line.match(/^ntp server (\S+)/)?.[1])
+      .filter((server): server is string => server !== undefined)
+      .forEach((server) =>
+        statements.push(["system", "ntp", "server", server]),
+      );
+    const ssh = config
+      .sections("line")
+      .some((header) =>
+        config
+          .lines([header])
+          .some((line) => /^transport input .*ssh/.test(line)),
+      );
+    if (ssh) statements.push(["system", "services", "ssh"]);
+
+    const areas = this.ospfAreas(config);
+    const passiveDefault = ospf.includes("passive-interface default");
+    config.sections("interface").forEach((header) => {
+      const name = header.slice("interface ".length);
+      const [physical, unit = "0"] = name.split(".");
+      const lines = config.lines([header]);
+      const logical = `${physical}.${unit}`;
+
+      const description = first(lines, /^description (.+)$/);
+      if (description && unit === "0") {
+        statements.push(["interfaces", physical, "description", description]);
+      }
+      if (lines.includes("shutdown") && unit === "0") {
+        statements.push(["interfaces", physical, "disable"]);
+      }
+      const address = lines
+        .map((line) => line.match(/^ip address (\S+) (\S+)$/))
+        .find((match) => match !== null);
+      if (address && isIpv4(address[2])) {
+        statements.push([
+          "interfaces",
+          physical,
+          "unit",
+          unit,
+          "family",
+          "inet",
+          "address",
+          `${address[1]}/${maskToPrefix(address[2])}`,
+        ]);
+      }
+
+      const area = areas.get(name)?.area;
+      if (area === undefined) return;
+      const ospfInterface = [
+        "protocols",
+        "ospf",
+        "area",
+        isIpv4(area) ? area : numberToIp(Number(area)),
+        "interface",
+        logical,
+      ];
+      statements.push(ospfInterface);
+      const passive = passiveDefault
+        ? !ospf.includes(`no passive-interface ${name}`)
+        : ospf.includes(`passive-interface ${name}`);
+      if (passive) statements.push([...ospfInterface, "passive"]);
+      Object.entries(OSPF_SETTINGS).forEach(([keyword, ios]) => {
+        const value = first(lines, new RegExp(`^ip ospf ${ios} (\\d+)$`));
+        if (value) statements.push([...ospfInterface, keyword, value]);
+      });
+    });
+
+    const routerId =
+      first(global, /^router-id (\S+)$/) ||
+      first(ospf, /^router-id (\S+)$/) ||
+      first(bgp, /^bgp router-id (\S+)$/);
+    if (routerId) statements.push(["routing-options", "router-id", routerId]);
+    global
+      .map((line) => line.match(/^ip route (\S+) (\S+) (\S+)/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .filter(([, , mask, nextHop]) => isIpv4(mask) && isIpv4(nextHop))
+      .forEach(([, network, mask, nextHop]) =>
+        statements.push([
+          "routing-options",
+          "static",
+          "route",
+          `${network}/${maskToPrefix(mask)}`,
+          "next-hop",
+          nextHop,
+        ]),
+      );
+
+    if (bgpHeader) {
+      const localAs = bgpHeader.split(" ")[2];
+      statements.push(["routing-options", "autonomous-system", localAs]);
+      bgp
+        .map((line) => line.match(/^neighbor (\S+) remote-as (\d+)$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .forEach(([, address, remoteAs]) => {
+          const internal = remoteAs === localAs;
+          const group =
+            first(
+              bgp,
+              new RegExp(
+                `^neighbor ${address.replace(/\./g, "\\.")} description (\\S+)`,
+              ),
+            ) || (internal ? "IBGP" : "EBGP");
+          const prefix = ["protocols", "bgp", "group", group];
+          statements.push([
+            ...prefix,
+            "type",
+            internal ? "internal" : "external",
+          ]);
+          statements.push(
+            internal
+              ? [...prefix, "neighbor", address]
+              : [...prefix, "neighbor", address, "peer-as", remoteAs],
+          );
+        });
+
+      const networks = bgp
+        .map((line) => line.match(/^network (\S+)(?: mask (\S+))?$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(([, network, mask]) =>
+          mask
+            ? `${network}/${maskToPrefix(mask)}`
+            : `${network}/${classfulPrefix(network)}`,
+        );
+      networks.forEach((network, index) => {
+        const term = [
+          "policy-options",
+          "policy-statement",
+          EXPORT_POLICY,
+          "term",
+          String(index + 1),
+        ];
+        statements.push(
+          [...term, "from", "route-filter", network, "exact"],
+          [...term, "then", "accept"],
+        );
+      });
+      if (networks.length > 0) {
+        statements.push(["protocols", "bgp", "export", EXPORT_POLICY]);
+      }
+    }
+    return statements;
+  }
+
+  // The brace format, ordered as the schema is. Steps before skip belong to
+  // the level being edited and are left out.
+  private braces(statements: string[][], skip = 0): string {
+    const root: JunosBlock = {
+      label: "",
+      rank: 0,
+      inline: false,
+      children: [],
+    };
+    statements.forEach((statement) => {
+      const walk = this.walk(CONFIG_SCHEMA, this.asTokens(statement));
+      if ("error" in walk) return;
+      let block = root;
+      let level = CONFIG_SCHEMA;
+      walk.steps.forEach((step, index) => {
+        const rank = level.indexOf(step.node);
+        level = step.node.children || [];
+        if (index < skip) return;
+
+        const label = this.join(step.words);
+        let child = block.children.find((other) => other.label === label);
+        if (!child) {
+          child = { label, rank, inline: !!step.node.inline, children: [] };
+          block.children.push(child);
+        }
+        block = child;
+      });
+    });
+    return this.renderBlocks(root.children, "").join("\n");
+  }
+
+  private renderBlocks(blocks: JunosBlock[], indent: string): string[] {
+    return [...blocks]
+      .sort((a, b) => a.rank - b.rank)
+      .flatMap((block) => {
+        if (block.children.length === 0) return [`${indent}${block.label};`];
+        if (
+          block.children.every(
+            (child) => child.inline && child.children.length === 0,
+          )
+        ) {
+          const inline = block.children.map((child) => child.label).join(" ");
+          return [`${indent}${block.label} ${inline};`];
+        }
+        return [
+          `${indent}${block.label} {`,
+          ...this.renderBlocks(block.children, `${indent}    `),
+          `${indent}}`,
+        ];
+      });
+  }
+
+  private showConfiguration(
+    router: SimulatedRouter,
+    displaySet: boolean,
+    section?: string,
+  ): string {
+    const statements = this.committed(router).filter(
+      ([top]) => !section || top === section,
+    );
+    if (displaySet) {
+      return statements.map((words) => `set ${this.join(words)}`).join("\n");
+    }
+    const header = section
+      ? []
+      : [
+          `## Last commit: ${this.timestamp(router.lastModified)} by ${USER}`,
+          `version ${router.iosVersion.split(" ")[1] ?? router.iosVersion};`,
+        ];
+    return [...header, this.braces(statements, section ? 1 : 0)].join("\n");
+  }
+
+  private showVersion(router: SimulatedRouter): string {
+    const version = router.iosVersion.split(" ")[1] ?? router.iosVersion;
+    const build = "20211202.a8bd7ed_builder_stable_12";
+    return [
+      `Hostname: ${router.name}`,
+      `Model: ${router.model.toLowerCase()}`,
+      `Junos: ${version}`,
+      `JUNOS OS Kernel 64-bit  [${build}]`,
+      `JUNOS OS libs [${build}]`,
+      `JUNOS OS runtime [${build}]`,
+      `JUNOS Routing Software Suite [${version}]`,
+    ].join("\n");
+  }
+
+  private showInterfacesTerse(router: SimulatedRouter, name?: string): string {
+    const rows = router.interfaces
+      .filter((iface) => !name || iface.name === name.replace(/\.0$/, ""))
+      .flatMap((iface) => {
+        const admin = iface.status === "administratively down" ? "down" : "up";
+        const link = iface.status === "up" ? "up" : "down";
+        const address = iface.ipAddress
+          ? `inet     ${iface.ipAddress}/${maskToPrefix(iface.subnetMask || "255.255.255.255")}`
+          : "";
+        const row = (label: string, proto: string) =>
+          `${label.padEnd(24)}${admin.padEnd(6)}${link.padEnd(5)}${proto}`.trimEnd();
+        return iface.name.includes(".")
+          ? [row(iface.name, address)]
+          : [
+              row(iface.name, ""),
+              ...(address ? [row(`${iface.name}.0`, address)] : []),
+            ];
+      });
+    if (name && rows.length === 0) {
+      return `error: device ${name} not found`;
+    }
+    return [
+      "Interface               Admin Link Proto    Local                 Remote",
+      ...rows,
+    ].join("\n");
+  }
+
+  private showInterfaces(router: SimulatedRouter, name?: string): string {
+    const interfaces = router.interfaces.filter(
+      (iface) => !name || iface.name === name.replace(/\.0$/, ""),
+    );
+    if (name && interfaces.length === 0) {
+      return `error: device ${name} not found`;
+    }
+    return interfaces
+      .map((iface) => {
+        const enabled =
+          iface.status === "administratively down" ? "Disabled" : "Enabled";
+        const link = iface.status === "up" ? "Up" : "Down";
+        const lines = [
+          `Physical interface: ${iface.name}, ${enabled}, Physical link is ${link}`,
+          `  Description: ${iface.description || ""}`,
+          `  Link-level type: Ethernet, MTU: 1514, Speed: 1000mbps`,
+          `  Current address: ${iface.macAddress || "00:00:00:00:00:00"}, Hardware address: ${iface.macAddress || "00:00:00:00:00:00"}`,
+        ];
+        if (!iface.description) lines.splice(1, 1);
+        if (iface.ipAddress) {
+          const length = maskToPrefix(iface.subnetMask || "255.255.255.255");
+          const unit = iface.name.includes(".")
+            ? iface.name
+            : `${iface.name}.0`;
+          lines.push(
+            "",
+            `  Logical interface ${unit}`,
+            "    Protocol inet, MTU: 1500",
+            "      Addresses, Flags: Is-Preferred Is-Primary",
+            `        Destination: ${networkAddress(iface.ipAddress, length)}/${length}, Local: ${iface.ipAddress}`,
+          );
+        }
+        return lines.join("\n");
+      })
+      .join("\n\n");
+  }
+
+  private showRoute(router: SimulatedRouter, protocol?: RouteProtocol): string {
+    const routes = router.routingTable.filter(
+      (route) =>
+        ROUTE_PREFERENCES[route.protocol] &&
+        (!protocol || route.protocol === protocol),
+    );
+    const total = router.routingTable.filter(
+      (route) => ROUTE_PREFERENCES[route.protocol],
+    ).length;
+    const age = this.duration(router.lastModified);
+    const rows = routes.flatMap((route) => {
+      const preference = ROUTE_PREFERENCES[route.protocol]!;
+      const detail =
+        route.protocol === "ospf" || route.protocol === "static"
+          ? `, metric ${route.metric ?? 0}`
+          : route.protocol === "bgp"
+            ? ", localpref 100"
+            : "";
+      const via = this.logical(
+        route.interface || this.egress(router, route.nextHop),
+      );
+      const hop =
+        route.protocol === "local"
+          ? `                       Local via ${via}`
+          : route.nextHop
+            ? `                    >  to ${route.nextHop}${via ? ` via ${via}` : ""}`
+            : `                    >  via ${via}`;
+      return [
+        `${`${route.network}/${route.prefixLength}`.padEnd(19)}*[${preference}] ${age}${detail}`,
+        hop,
+      ];
+    });
+    return [
+      "",
+      `inet.0: ${total} destinations, ${total} routes (${total} active, 0 holddown, 0 hidden)`,
+      "+ = Active Route, - = Last Active, * = Both",
+      "",
+      ...rows,
+    ].join("\n");
+  }
+
+  private showOspfNeighbor(router: SimulatedRouter): string {
+    if (router.ospfNeighbors.length === 0) return "";
+    const rows = router.ospfNeighbors.map((neighbor) => {
+      const state = neighbor.state.split("/")[0].trim().toLowerCase();
+      const label = state.charAt(0).toUpperCase() + state.slice(1);
+      return `${neighbor.address.padEnd(17)}${this.logical(neighbor.interface).padEnd(23)}${label.padEnd(16)}${neighbor.neighborId.padEnd(17)}${String(neighbor.priority).padStart(3)}   38`;
+    });
+    return [
+      "Address          Interface              State           ID               Pri  Dead",
+      ...rows,
+    ].join("\n");
+  }
+
+  private showBgpSummary(router: SimulatedRouter): string {
+    const bgp = router.bgp;
+    if (!bgp) return "BGP is not running";
+
+    const established = bgp.neighbors.filter(
+      (neighbor) => neighbor.state === "Established",
+    );
+    const received = established.reduce(
+      (sum, neighbor) => sum + neighbor.prefixesReceived,
+      0,
+    );
+    const rows = bgp.neighbors.map((neighbor) => {
+      const seconds = neighbor.establishedAt
+        ? Math.max(
+            0,
+            Math.floor(
+              (Date.now() - new Date(neighbor.establishedAt).getTime()) / 1000,
+            ),
+          )
+        : 0;
+      const messages = neighbor.establishedAt
+        ? 4 + Math.floor(seconds / 30)
+        : 0;
+      const state =
+        neighbor.state === "Established"
+          ? `Establ\n  inet.0: ${neighbor.prefixesReceived}/${neighbor.prefixesReceived}/${neighbor.prefixesReceived}/0`
+          : neighbor.state;
+      return `${neighbor.address.padEnd(20)}${String(neighbor.remoteAs).padStart(10)}${String(messages).padStart(11)}${String(messages).padStart(11)}       0       0 ${this.clock(seconds).padStart(11)} ${state}`;
+    });
+    return [
+      "Threading mode: BGP I/O",
+      `Groups: ${new Set(bgp.neighbors.map((neighbor) => neighbor.remoteAs === bgp.localAs)).size} Peers: ${bgp.neighbors.length} Down peers: ${bgp.neighbors.length - established.length}`,
+      "Table          Tot Paths  Act Paths Suppressed    History Damp State    Pending",
+      `inet.0               ${String(received).padStart(6)}     ${String(received).padStart(6)}          0          0          0          0`,
+      "Peer                     AS      InPkt     OutPkt    OutQ   Flaps Last Up/Dwn State|#Active/Received/Accepted/Damped...",
+      ...rows,
+    ].join("\n");
+  }
+
+  private showArp(router: SimulatedRouter): string {
+    const entries = router.arpTable.filter(
+      (entry) => entry.ageMinutes !== null && entry.macAddress,
+    );
+    return [
+      "MAC Address       Address         Name                      Interface               Flags",
+      ...entries.map(
+        (entry) =>
+          `${entry.macAddress!.padEnd(18)}${entry.ipAddress.padEnd(16)}${entry.ipAddress.padEnd(26)}${this.logical(entry.interface).padEnd(24)}none`,
+      ),
+      `Total entries: ${entries.length}`,
+    ].join("\n");
+  }
+
+  private showChassisHardware(router: SimulatedRouter): string {
+    return [
+      "Hardware inventory:",
+      "Item             Version  Part number  Serial number     Description",
+      `Chassis                                ${router.serialNumber.padEnd(18)}${router.model.toUpperCase()}`,
+      "Midplane",
+      "Routing Engine 0                                         RE-VMX",
+      "FPC 0                                                    Virtual FPC",
+      "  PIC 0                 BUILTIN      BUILTIN           Virtual",
+    ].join("\n");
+  }
+
+  private showRoutingEngine(router: SimulatedRouter): string {
+    const cpu = Math.round(router.cpuUsage);
+    const memory = Math.round(router.memoryUsage);
+    return [
+      "Routing Engine status:",
+      "    Temperature                 42 degrees C / 107 degrees F",
+      "    Total memory              2048 MB Max  " +
+        `${String(Math.round((2048 * memory) / 100)).padStart(4)} MB used (${String(memory).padStart(2)} percent)`,
+      "      Control plane memory    2048 MB Max  " +
+        `${String(Math.round((2048 * memory) / 100)).padStart(4)} MB used (${String(memory).padStart(2)} percent)`,
+      "    CPU utilization:",
+      `      User                    ${String(Math.round(cpu * 0.7)).padStart(3)} percent`,
+      `      Kernel                  ${String(cpu - Math.round(cpu * 0.7)).padStart(3)} percent`,
+      "      Interrupt                 0 percent",
+      `      Idle                    ${String(100 - cpu).padStart(3)} percent`,
+      "    Model                          RE-VMX",
+      `    Start time                     ${this.timestamp(router.createdAt)}`,
+      `    Uptime                         ${this.duration(router.createdAt)}`,
+    ].join("\n");
+  }
+
+  private showSystemUptime(router: SimulatedRouter): string {
+    return [
+      `Current time: ${this.timestamp(new Date().toISOString())}`,
+      `System booted: ${this.timestamp(router.createdAt)} (${this.duration(router.createdAt)} ago)`,
+      `Last configured: ${this.timestamp(router.lastModified)} (${this.duration(router.lastModified)} ago) by ${USER}`,
+    ].join("\n");
+  }
+
+  private ping(
+    context: CliContext,
+    destination: string,
+    source?: string,
+  ): string {
+    const result = context.probe(destination, source);
+    if (result.error) return result.error;
+
+    const lines = [`PING ${destination} (${destination}): 56 data bytes`];
+    let received = 0;
+    // Round trips grow with the hop count so repeated pings match
+    const hops = result.forward.hops.length + (result.reply?.hops.length || 0);
+    const rtt = (Math.max(1, hops) + 0.123).toFixed(3);
+    for (let sequence = 0; sequence < 5; sequence++) {
+      if (
+        !result.reachable ||
+        Math.random() * 100 < (result.lossPercent || 0)
+      ) {
+        continue;
+      }
+      received++;
+      const ttl = 64 - result.forward.hops.length + 1;
+      lines.push(
+        `64 bytes from ${destination}: icmp_seq=${sequence} ttl=${ttl} time=${rtt} ms`,
+      );
+    }
+    lines.push(
+      "",
+      `--- ${destination} ping statistics ---`,
+      `5 packets transmitted, ${received} packets received, ${100 - received * 20}% packet loss`,
+    );
+    if (received > 0) {
+      lines.push(
+        `round-trip min/avg/max/stddev = ${rtt}/${rtt}/${rtt}/0.000 ms`,
+      );
+    }
+    return lines.join("\n");
+  }
+
+  private traceroute(
+    context: CliContext,
+    destination: string,
+    source?: string,
+  ): string {
+    const result = context.probe(destination, source);
+    if (result.error) return result.error;
+
+    const { forward } = result;
+    const lines = [
+      `traceroute to ${destination} (${destination}), 30 hops max, 52 byte packets`,
+    ];
+    forward.hops.forEach((hop, index) => {
+      const last = index === forward.hops.length - 1;
+      // The destination itself answers with the address that was traced
+      const address =
+        last && forward.outcome === "delivered" ? destination : hop.ipAddress;
+      const time = `${index + 1}.123 ms`;
+      const timing =
+        last && forward.outcome === "unreachable"
+          ? `${time} !H  ${time} !H  ${time} !H`
+          : `${time}  ${time}  ${time}`;
+      lines.push(
+        `${String(index + 1).padStart(2)}  ${address} (${address})  ${timing}`,
+      );
+    });
+
+    if (forward.outcome === "timeout" || forward.outcome === "no-route") {
+      for (let ttl = forward.hops.length + 1; ttl <= 30; ttl++) {
+        lines.push(`${String(ttl).padStart(2)}  * * *`);
+      }
+    }
+    return lines.join("\n");
+  }
+
+  // Junos names the logical unit, as "ge-0/0/0.0" for a port's addresses
+  private logical(name?: string): string {
+    if (!name) return "";
+    return name.includes(".") ? name : `${name}.0`;
+  }
+
+  private egress(
+    router: SimulatedRouter,
+    nextHop?: string,
+  ): string | undefined {
+    if (!nextHop) return undefined;
+    return router.interfaces.find(
+      (iface) =>
+        iface.ipAddress &&
+        iface.subnetMask &&
+        inSubnet(nextHop, iface.ipAddress, maskToPrefix(iface.subnetMask)),
+    )?.name;
+  }
+
+  private duration(since: string): string {
+    const seconds = Math.max(
+      0,
+      Math.floor((Date.now() - new Date(since).getTime()) / 1000),
+    );
+    const days = Math.floor(seconds / 86400);
+    return days > 0
+      ? `${days}d ${this.clock(seconds % 86400)}`
+      : this.clock(seconds);
+  }
+
+  private clock(seconds: number): string {
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+  }
+
+  private timestamp(iso: string): string {
+    return `${iso.slice(0, 19).replace("T", " ")} UTC`;
+  }
+}
@@ -0,0 +1,123 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { LLMIntegration } from "./LLMIntegration";
+import { ClaudeProvider } from "./ClaudeProvider";
+import { config } from "../config/config";
+
+describe("LLMIntegration.getAvailableModels", () => {
+  const ttlMs = config.llmModelCacheTtl * 1000;
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: number;
+  let failing: boolean;
+  let llm: LLMIntegration;
+  const now = jest.spyOn(Date, "now");
+
+  beforeAll((done) => {
+    // Lists models as the Anthropic API does, or fails while `failing` is set
+    server = http.createServer((req, res) => {
+      requests++;
+      res.writeHead(failing ? 500 : 200, {
+        "content-type": "application/json",
+      });
+      res.end(
+        JSON.stringify(
+          failing
+            ? { type: "error", error: { type: "api_error", message: "down" } }
+            : {
+                data: [
+                  { id: "claude-sonnet-4-0", display_name: "Claude Sonnet 4" },
+                ],
+              },
+        ),
+      );
+    });
+    server.listen(0, "127.0.0.1", () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    now.mockRestore();
+    server.close(() => done());
+  });
+
+  beforeEach(() => {
+    requests = 0;
+    failing = false;
+    now.mockReturnValue(1000000);
+    llm = new LLMIntegration();
+  });
+
+  const addClaudeKey = () =>
+    llm.addApiKey({
+      name: "Claude",
+      provider: "claude",
+      key: "sk-ant-test",
+      baseUrl,
+      isActive: true,
+    });
+
+  it("serves the live list from the cache until the TTL passes", async () => {
+    addClaudeKey();
+
+    const live = await llm.getAvailableModels("claude");
+    now.mockReturnValue(1000000 + ttlMs - 1);
+    const cached = await llm.getAvailableModels("claude");
+    now.mockReturnValue(1000000 + ttlMs + 1);
+    const refetched = await llm.getAvailableModels("claude");
+
+    expect(live).toMatchObject({
+      source: "live",
+      models: [
+        {
+          id: "claude-sonnet-4-0",
+          name: "Claude Sonnet 4",
+          streaming: true,
+        },
+      ],
+    });
+    expect(cached).toMatchObject({ source: "cache", models: live.models });
+    expect(refetched.source).toBe("live");
+    expect(requests).toBe(2);
+  });
+
+  it("fetches again when asked to refresh", async () => {
+    addClaudeKey();
+
+    await llm.getAvailableModels("claude");
+    const refreshed = await llm.getAvailableModels("claude", true);
+
+    expect(refreshed.source).toBe("live");
+    expect(requests).toBe(2);
+  });
+
+  it("falls back to the built-in list without caching the failure", async () => {
+    addClaudeKey();
+    failing = true;
+
+    const fallback = await llm.getAvailableModels("claude");
+    failing = false;
+    const recovered = await llm.getAvailableModels("claude");
+
+    expect(fallback).toEqual({
+      provider: "claude",
+      models: new ClaudeProvider().staticModels(),
+      source: "static",
+      error: "Claude internal server error: down",
+    });
+    expect(recovered.source).toBe("live");
+    expect(requests).toBe(2);
+  });
+
+  it("falls back to the built-in list when no key can list models", async () => {
+    const fallback = await llm.getAvailableModels("claude");
+
+    expect(fallback).toMatchObject({
+      source: "static",
+      error: "No API key to list models with",
+    });
+    expect(requests).toBe(0);
+  });
+});
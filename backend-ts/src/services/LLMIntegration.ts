@@ -1,40 +1,59 @@
 import { v4 as uuidv4 } from "uuid";
-import axios from "axios";
 import { logger } from "../utils/logger";
 import { config } from "../config/config";
+import { CredentialVault, credentialVault } from "./CredentialVault";
+import { LLMProvider } from "./LLMProvider";
+import { LLMProviders, llmProviders } from "./LLMProviders";
 import {
   ApiKey,
   ConfigurationResult,
+  ConfigurationStreamOptions,
   UsageEntry,
   UsageStatistics,
   NetworkDevice,
+  LLMHealth,
+  LLMModelList,
+  LLMProviderConfig,
+  LLMProviderSkip,
+  LLMProviderSummary,
 } from "../types";
 
-// Import LLM SDKs
-let Groq: any;
-let OpenAI: any;
+const SYSTEM_PROMPT =
+  "You are a network engineer expert in Cisco IOS configuration.";
 
-try {
-  Groq = require("groq-sdk").Groq;
-} catch (error) {
-  logger.warn("Groq SDK not available");
-}
-
-try {
-  OpenAI = require("openai").OpenAI;
-} catch (error) {
-  logger.warn("OpenAI SDK not available");
-}
+// Per-call limits for keys that do not set their own
+const DEFAULT_TIMEOUT = 60000;
+const DEFAULT_MAX_TOKENS = 1000;
+// Model listing is a quick call; a server that is slower is treated as down
+const MODEL_LIST_TIMEOUT = 10000;
 
 export class LLMIntegration {
   private apiKeys: Map<string, ApiKey> = new Map();
+  // Masked previews computed once at add time so listing keys never decrypts them
+  private maskedKeys: Map<string, string> = new Map();
   private usageHistory: UsageEntry[] = [];
-  private groqClient: any = null;
-  private openaiClient: any = null;
-
-  constructor() {
+  // Live model lists by provider and endpoint; failed lookups are not kept
+  private modelCache: Map<string, { list: LLMModelList; expiresAt: number }> =
+    new Map();
+  private vault: CredentialVault;
+  private providers: LLMProviders;
+  private secretStoreId: string;
+
+  constructor(
+    vault: CredentialVault = credentialVault,
+    providers: LLMProviders = llmProviders,
+  ) {
+    this.vault = vault;
+    this.providers = providers;
     this.loadDemoKeys();
-    this.initializeClients();
+    this.secretStoreId = this.vault.registerSecretStore(() =>
+      this.reencryptKeys(),
+    );
+  }
+
+  // Stops key rotation from reaching an instance that is no longer used
+  public dispose(): void {
+    this.vault.unregisterSecretStore(this.secretStoreId);
   }
 
   private loadDemoKeys(): void {
@@ -43,7 +62,7 @@ export class LLMIntegration {
         name: "Groq Production",
         provider: "groq",
         key: "gsk_xxxxxxxxxxxxxxxxxxxxxxxxxxxx",
-        model: "llama3-8b-8192",
+        model: "llama-3.1-8b-instant",
         isActive: true,
         lastUsed: "2 hours ago",
       },
@@ -61,36 +80,20 @@ export class LLMIntegration {
       const apiKey: ApiKey = {
         ...keyData,
         id: (index + 1).toString(),
+        key: this.vault.encrypt(keyData.key),
         createdAt: new Date().toISOString(),
       };
       this.apiKeys.set(apiKey.id, apiKey);
+      this.maskedKeys.set(apiKey.id, this.maskKey(keyData.key));
     });
 
     logger.info(`Loaded ${demoKeys.length} demo API keys`);
   }
 
-  private initializeClients(): void {
-    try {
-      // Initialize Groq client
-      if (Groq && config.groqApiKey) {
-        this.groqClient = new Groq({ apiKey: config.groqApiKey });
-        logger.info("Groq client initialized");
-      }
-
-      // Initialize OpenAI client
-      if (OpenAI && config.openaiApiKey) {
-        this.openaiClient = new OpenAI({ apiKey: config.openaiApiKey });
-        logger.info("OpenAI client initialized");
-      }
-    } catch (error) {
-      logger.error(`Error initializing LLM clients: ${error}`);
-    }
-  }
-
   getApiKeys(): ApiKey[] {
     return Array.from(this.apiKeys.values()).map((key) => ({
       ...key,
-      key: this.maskKey(key.key),
+      key: this.maskedKeys.get(key.id) || "",
     }));
   }
 
@@ -99,25 +102,25 @@ export class LLMIntegration {
       id: keyData.id || uuidv4(),
       name: keyData.name || "",
       provider: keyData.provider || "groq",
-      key: keyData.key || "",
+      key: this.vault.encrypt(keyData.key || ""),
       model: keyData.model || this.getDefaultModel(keyData.provider || "groq"),
+      baseUrl: keyData.baseUrl || undefined,
+      apiVersion: keyData.apiVersion || undefined,
+      priority: keyData.priority ?? 0,
+      timeout: keyData.timeout,
       isActive: keyData.isActive ?? this.apiKeys.size === 0, // First key is active by default
       createdAt: keyData.createdAt || new Date().toISOString(),
       lastUsed: keyData.lastUsed,
     };
 
     this.apiKeys.set(apiKey.id, apiKey);
-
-    // Reinitialize clients if this is an active key
-    if (apiKey.isActive) {
-      this.initializeClients();
-    }
+    this.maskedKeys.set(apiKey.id, this.maskKey(keyData.key || ""));
 
     logger.info(`Added API key: ${apiKey.name} (${apiKey.provider})`);
 
     return {
       ...apiKey,
-      key: this.maskKey(apiKey.key),
+      key: this.maskedKeys.get(apiKey.id) || "",
     };
   }
 
@@ -126,17 +129,38 @@ export class LLMIntegration {
     if (!apiKey) return false;
 
     this.apiKeys.delete(keyId);
+    this.maskedKeys.delete(keyId);
     logger.info(`Deleted API key: ${apiKey.name}`);
     return true;
   }
 
-  private getActiveKeyForProvider(provider: string): ApiKey | null {
-    for (const key of this.apiKeys.values()) {
-      if (key.provider === provider && key.isActive) {
-        return key;
+  // Decrypted only at the moment a provider client or request needs it
+  private revealKey(apiKey: ApiKey): string {
+    return this.vault.reveal(apiKey.key) || "";
+  }
+
+  private reencryptKeys(): number {
+    let count = 0;
+    this.apiKeys.forEach((apiKey) => {
+      const reencrypted = this.vault.reencrypt(apiKey.key);
+      if (reencrypted && reencrypted !== apiKey.key) {
+        apiKey.key = reencrypted;
+        count++;
       }
-    }
-    return null;
+    });
+    return count;
+  }
+
+  // Active keys of known providers: the requested provider's first, then the
+  // rest by priority. The sort is stable, so ties keep the order keys were added.
+  private failoverChain(provider?: string): ApiKey[] {
+    return Array.from(this.apiKeys.values())
+      .filter((key) => key.isActive && this.providers.get(key.provider))
+      .sort(
+        (a, b) =>
+          Number(b.provider === provider) - Number(a.provider === provider) ||
+          (a.priority ?? 0) - (b.priority ?? 0),
+      );
   }
 
   private maskKey(key: string): string {
@@ -145,93 +169,196 @@ export class LLMIntegration {
   }
 
   private getDefaultModel(provider: string): string {
-    const defaultModels: Record<string, string> = {
-      groq: "llama3-8b-8192",
-      openai: "gpt-3.5-turbo",
-      claude: "claude-3-haiku-20240307",
-      ollama: "llama2",
-    };
-    return defaultModels[provider] || "";
+    return this.providers.get(provider)?.defaultModel || "";
   }
 
-  getAvailableModels(provider: string): string[] {
-    const models: Record<string, string[]> = {
-      groq: [
-        "llama3-8b-8192",
-        "llama3-70b-8192",
-        "mixtral-8x7b-32768",
-        "gemma-7b-it",
-        "gemma2-9b-it",
-      ],
-      openai: [
-        "gpt-3.5-turbo",
-        "gpt-4",
-        "gpt-4-turbo",
-        "gpt-4o",
-        "gpt-4o-mini",
-      ],
-      claude: [
-        "claude-3-haiku-20240307",
-        "claude-3-sonnet-20240229",
-        "claude-3-opus-20240229",
-      ],
-      ollama: [
-        "llama2",
-        "llama3",
-        "codellama",
-        "mistral",
-        "mixtral",
-        "neural-chat",
-        "starling-lm",
-        "dolphin-mixtral",
-      ],
+  // Asks the provider which models it offers, using its active key or else
+  // any key for it, and falls back to the built-in list when that fails
+  async getAvailableModels(
+    provider: string,
+    refresh = false,
+  ): Promise<LLMModelList> {
+    const llmProvider = this.providers.get(provider);
+    if (!llmProvider) {
+      return {
+        provider,
+        models: [],
+        source: "static",
+        error: `Unknown LLM provider: ${provider}`,
+      };
+    }
+
+    const keys = Array.from(this.apiKeys.values())
+      .filter((key) => key.provider === provider)
+      .sort((a, b) => Number(b.isActive) - Number(a.isActive));
+    const settings = this.providerConfig(keys[0], llmProvider);
+    settings.timeout = Math.min(settings.timeout, MODEL_LIST_TIMEOUT);
+    const fallback = (error: string): LLMModelList => ({
+      provider,
+      models: llmProvider.staticModels(),
+      source: "static",
+      error,
+    });
+
+    if (llmProvider.requiresApiKey && !settings.apiKey) {
+      return fallback("No API key to list models with");
+    }
+
+    const cacheKey = `${provider} ${settings.baseUrl || llmProvider.defaultBaseUrl}`;
+    const cached = this.modelCache.get(cacheKey);
+    if (cached && !refresh && cached.expiresAt > Date.now()) {
+      return { ...cached.list, source: "cache" };
+    }
+
+    try {
+      const list: LLMModelList = {
+        provider,
+        models: await llmProvider.listModels(settings),
+        source: "live",
+        fetchedAt: new Date().toISOString(),
+      };
+      this.modelCache.set(cacheKey, {
+        list,
+        expiresAt: Date.now() + config.llmModelCacheTtl * 1000,
+      });
+      return list;
+    } catch (error) {
+      const message = llmProvider.describeError(error);
+      logger.warn(`Could not list ${llmProvider.label} models: ${message}`);
+      return fallback(message);
+    }
+  }
+
+  getProviders(): LLMProviderSummary[] {
+    return this.providers.list();
+  }
+
+  async checkHealth(keyId: string): Promise<LLMHealth | null> {
+    const apiKey = this.apiKeys.get(keyId);
+    const provider = apiKey && this.providers.get(apiKey.provider);
+    if (!apiKey || !provider) return null;
+    return provider.healthCheck(this.providerConfig(apiKey, provider));
+  }
+
+  // The key's own settings, then the environment, then the provider defaults
+  private providerConfig(
+    apiKey: ApiKey | undefined,
+    provider: LLMProvider,
+  ): LLMProviderConfig {
+    const secret = apiKey ? this.revealKey(apiKey) : "";
+    // Keys for local servers such as Ollama hold the server URL instead
+    const keyIsUrl = /^https?:\/\//.test(secret);
+
+    return {
+      provider: provider.name,
+      models: provider.models,
+      defaultModel: provider.defaultModel,
+      priority: 0,
+      timeout: DEFAULT_TIMEOUT,
+      maxTokens: DEFAULT_MAX_TOKENS,
+      ...provider.defaults,
+      ...(keyIsUrl ? { baseUrl: secret } : secret ? { apiKey: secret } : {}),
+      ...(apiKey?.baseUrl ? { baseUrl: apiKey.baseUrl } : {}),
+      ...(apiKey?.apiVersion ? { apiVersion: apiKey.apiVersion } : {}),
+      ...(apiKey?.model ? { defaultModel: apiKey.model } : {}),
+      ...(apiKey?.priority !== undefined ? { priority: apiKey.priority } : {}),
+      ...(apiKey?.timeout ? { timeout: apiKey.timeout } : {}),
     };
-    return models[provider] || [];
   }
 
+  // Tries each active key in failover order until one answers. A provider
+  // that is rate limited, unreachable or failing with a server error passes
+  // the request on, unless it already streamed part of its answer; any other
+  // error ends it.
   async generateConfiguration(
     command: string,
-    provider: string = "groq",
+    provider?: string,
     deviceInfo?: NetworkDevice,
+    options: ConfigurationStreamOptions = {},
   ): Promise<ConfigurationResult> {
     try {
-      // Get the appropriate API key
-      const apiKey = this.getActiveKeyForProvider(provider);
+      if (config.llmDemoMode) {
+        this.logUsage("demo", command, true);
+        const result = this.generateDemoResponse(command, deviceInfo);
+        options.onText?.(result.configuration || "");
+        return result;
+      }
+      if (provider && !this.providers.get(provider)) {
+        return { success: false, error: `Unknown LLM provider: ${provider}` };
+      }
 
-      if (!apiKey) {
+      const chain = this.failoverChain(provider);
+      const skipped: LLMProviderSkip[] = [];
+      if (provider && !chain.some((key) => key.provider === provider)) {
+        skipped.push({ provider, reason: "No active API key" });
+      }
+      if (chain.length === 0) {
         return {
           success: false,
-          error: `No active API key found for provider: ${provider}`,
+          error: provider
+            ? `No active API key found for provider: ${provider}`
+            : "No active API keys",
+          skipped,
         };
       }
 
       // Prepare the prompt
       const prompt = this.buildConfigurationPrompt(command, deviceInfo);
 
-      let result: ConfigurationResult;
-
-      // Generate configuration based on provider
-      switch (provider) {
-        case "groq":
-          result = await this.generateWithGroq(prompt, apiKey);
-          break;
-        case "openai":
-          result = await this.generateWithOpenAI(prompt, apiKey);
-          break;
-        case "ollama":
-          result = await this.generateWithOllama(prompt, apiKey);
-          break;
-        default:
-          result = this.generateDemoResponse(command, deviceInfo);
+      for (const apiKey of chain) {
+        if (options.signal?.aborted) break;
+        const llmProvider = this.providers.get(apiKey.provider)!;
+        const settings = this.providerConfig(apiKey, llmProvider);
+        const skip = { provider: llmProvider.name, keyName: apiKey.name };
+
+        if (llmProvider.requiresApiKey && !settings.apiKey) {
+          skipped.push({ ...skip, reason: "No API key set" });
+          continue;
+        }
+
+        let streamed = false;
+        try {
+          const result = await this.generateWithProvider(
+            llmProvider,
+            settings,
+            prompt,
+            {
+              ...options,
+              onText:
+                options.onText &&
+                ((text) => {
+                  streamed = true;
+                  options.onText!(text);
+                }),
+            },
+          );
+          this.logUsage(llmProvider.name, command, true);
+          apiKey.lastUsed = new Date().toISOString();
+          return { ...result, skipped };
+        } catch (error) {
+          if (options.signal?.aborted) break;
+          const reason = llmProvider.describeError(error);
+          logger.error(`${llmProvider.label} API error: ${reason}`);
+          this.logUsage(llmProvider.name, command, false);
+          skipped.push({ ...skip, reason });
+
+          if (!llmProvider.isRetryable(error) || streamed) {
+            return { success: false, error: reason, skipped };
+          }
+        }
       }
 
-      // Log usage
-      this.logUsage(provider, command, result.success);
-
-      // Update last used timestamp
-      apiKey.lastUsed = new Date().toISOString();
+      if (options.signal?.aborted) {
+        return { success: false, error: "Generation cancelled", skipped };
+      }
 
-      return result;
+      return {
+        success: false,
+        error: `All LLM providers failed: ${skipped
+          .map(({ provider, reason }) => `${provider}: ${reason}`)
+          .join("; ")}`,
+        skipped,
+      };
     } catch (error) {
       const errorMsg = `Error generating configuration: ${error}`;
       logger.error(errorMsg);
@@ -271,128 +398,31 @@ Generate the configuration:`;
     return prompt;
   }
 
-  private async generateWithGroq(
+  private async generateWithProvider(
+    provider: LLMProvider,
+    settings: LLMProviderConfig,
     prompt: string,
-    apiKey: ApiKey,
+    { onText, signal }: ConfigurationStreamOptions,
   ): Promise<ConfigurationResult> {
-    try {
-      let client = this.groqClient;
-
-      if (!client && Groq) {
-        client = new Groq({ apiKey: apiKey.key });
-      }
-
-      if (!client) {
-        return this.generateDemoResponse(prompt);
-      }
-
-      const response = await client.chat.completions.create({
-        model: apiKey.model || "llama3-8b-8192",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a network engineer expert in Cisco IOS configuration.",
-          },
-          { role: "user", content: prompt },
-        ],
-        max_tokens: 1000,
-        temperature: 0.1,
-      });
-
-      const configuration = response.choices[0].message.content.trim();
-
-      return {
-        success: true,
-        configuration,
-        provider: "groq",
-        model: apiKey.model || "llama3-8b-8192",
-      };
-    } catch (error) {
-      logger.error(`Groq API error: ${error}`);
-      return this.generateDemoResponse(prompt);
+    const request = { system: SYSTEM_PROMPT, prompt, signal };
+    const completion = onText
+      ? await provider.stream(settings, request, onText)
+      : await provider.complete(settings, request);
+    if (!completion.text) {
+      throw new Error(`${provider.label} returned no text`);
     }
-  }
-
-  private async generateWithOpenAI(
-    prompt: string,
-    apiKey: ApiKey,
-  ): Promise<ConfigurationResult> {
-    try {
-      let client = this.openaiClient;
-
-      if (!client && OpenAI) {
-        client = new OpenAI({ apiKey: apiKey.key });
-      }
-
-      if (!client) {
-        return this.generateDemoResponse(prompt);
-      }
-
-      const response = await client.chat.completions.create({
-        model: apiKey.model || "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a network engineer expert in Cisco IOS configuration.",
-          },
-          { role: "user", content: prompt },
-        ],
-        max_tokens: 1000,
-        temperature: 0.1,
-      });
-
-      const configuration = response.choices[0].message.content.trim();
-
-      return {
-        success: true,
-        configuration,
-        provider: "openai",
-        model: apiKey.model || "gpt-3.5-turbo",
-      };
-    } catch (error) {
-      logger.error(`OpenAI API error: ${error}`);
-      return this.generateDemoResponse(prompt);
-    }
-  }
-
-  private async generateWithOllama(
-    prompt: string,
-    apiKey: ApiKey,
-  ): Promise<ConfigurationResult> {
-    try {
-      const ollamaUrl = apiKey.key.startsWith("http")
-        ? apiKey.key
-        : config.ollamaBaseUrl;
-
-      const response = await axios.post(
-        `${ollamaUrl}/api/generate`,
-        {
-          model: apiKey.model || config.ollamaModel,
-          prompt,
-          stream: false,
-        },
-        { timeout: 30000 },
+    if (completion.truncated) {
+      logger.warn(
+        `${provider.label} response truncated at ${settings.maxTokens} tokens`,
       );
-
-      if (response.status === 200) {
-        const configuration = response.data.response?.trim() || "";
-
-        return {
-          success: true,
-          configuration,
-          provider: "ollama",
-          model: apiKey.model || config.ollamaModel,
-        };
-      } else {
-        logger.error(`Ollama API error: ${response.status}`);
-        return this.generateDemoResponse(prompt);
-      }
-    } catch (error) {
-      logger.error(`Ollama API error: ${error}`);
-      return this.generateDemoResponse(prompt);
     }
+
+    return {
+      success: true,
+      configuration: completion.text,
+      provider: provider.name,
+      model: completion.model,
+    };
   }
 
   private generateDemoResponse(
@@ -558,3 +588,5 @@ ip route 0.0.0.0 0.0.0.0 192.168.1.254
     };
   }
 }
+
+export const llmIntegration = new LLMIntegration();
@@ -0,0 +1,251 @@
+import axios, { AxiosResponse } from "axios";
+import {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMHealth,
+  LLMModelInfo,
+  LLMProviderConfig,
+  LLMProviderSummary,
+} from "../types";
+
+const STATUS_REASONS: Record<number, string> = {
+  400: "invalid request",
+  401: "invalid API key",
+  403: "API key lacks permission",
+  404: "model or endpoint not found",
+  408: "request timed out",
+  413: "prompt too large",
+  429: "rate limit exceeded",
+  500: "internal server error",
+  502: "bad gateway",
+  503: "service unavailable",
+  504: "gateway timeout",
+  529: "overloaded",
+};
+
+// A stream that sends nothing for this long, or the call's timeout if
+// shorter, has stalled part way through its reply
+const DEFAULT_STREAM_IDLE_TIMEOUT = 30000;
+
+// A model API that configurations are generated with. Providers are
+// stateless: the key, endpoint and limits come with each call.
+export abstract class LLMProvider {
+  public abstract readonly name: string;
+  public abstract readonly label: string;
+  public abstract readonly defaultModel: string;
+  // Offered when the provider's own model list cannot be fetched
+  public abstract readonly models: string[];
+  public readonly streaming: boolean = true;
+  public readonly defaultBaseUrl?: string;
+  public readonly requiresApiKey: boolean = true;
+  // Settings from the environment, used where the API key leaves them unset
+  public readonly defaults: Partial<LLMProviderConfig> = {};
+
+  public abstract complete(
+    config: LLMProviderConfig,
+    request: LLMCompletionRequest,
+  ): Promise<LLMCompletion>;
+
+  // Calls onText with each piece of text as it arrives
+  public abstract stream(
+    config: LLMProviderConfig,
+    request: LLMCompletionRequest,
+    onText: (text: string) => void,
+  ): Promise<LLMCompletion>;
+
+  // The models the server offers now, with what it reports about them
+  public abstract listModels(
+    config: LLMProviderConfig,
+  ): Promise<LLMModelInfo[]>;
+
+  public staticModels(): LLMModelInfo[] {
+    return this.models.map((id) => ({ id, streaming: this.streaming }));
+  }
+
+  public async healthCheck(config: LLMProviderConfig): Promise<LLMHealth> {
+    const started = Date.now();
+    try {
+      const models = await this.listModels(config);
+      return {
+        provider: this.name,
+        healthy: true,
+        latencyMs: Date.now() - started,
+        models: models.length,
+      };
+    } catch (error) {
+      return {
+        provider: this.name,
+        healthy: false,
+        latencyMs: Date.now() - started,
+        error: this.describeError(error),
+      };
+    }
+  }
+
+  public describeError(error: any): string {
+    if (axios.isCancel(error)) return `${this.label} request cancelled`;
+    if (!axios.isAxiosError(error)) return String(error.message || error);
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return `${this.label} timed out: ${error.message}`;
+    }
+    if (!error.response) {
+      return `${this.label} unreachable: ${error.message}`;
+    }
+
+    const status: number = error.response.status;
+    const reason = STATUS_REASONS[status] || `HTTP ${status}`;
+    const data = error.response.data;
+    const detail =
+      data?.error?.message ||
+      (typeof data?.error === "string" ? data.error : undefined);
+    return `${this.label} ${reason}${detail ? `: ${detail}` : ""}`;
+  }
+
+  // Rate limits, network failures and server errors may pass on the next
+  // provider; other errors would fail there too or need fixing first
+  public isRetryable(error: any): boolean {
+    if (axios.isCancel(error) || !axios.isAxiosError(error)) return false;
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 500;
+  }
+
+  public summary(): LLMProviderSummary {
+    return {
+      name: this.name,
+      label: this.label,
+      defaultModel: this.defaultModel,
+      defaultBaseUrl: this.defaultBaseUrl,
+      requiresApiKey: this.requiresApiKey,
+    };
+  }
+
+  protected baseUrl(config: LLMProviderConfig): string {
+    const baseUrl = config.baseUrl || this.defaultBaseUrl;
+    if (!baseUrl) throw new Error(`${this.label} needs a base URL`);
+    return baseUrl.replace(/\/+$/, "");
+  }
+
+  protected model(
+    config: LLMProviderConfig,
+    request: LLMCompletionRequest,
+  ): string {
+    const model = request.model || config.defaultModel;
+    if (!model) throw new Error(`${this.label} needs a model name`);
+    return model;
+  }
+
+  protected async post(
+    config: LLMProviderConfig,
+    url: string,
+    body: object,
+    headers: Record<string, string>,
+    request: LLMCompletionRequest,
+    stream = false,
+  ): Promise<AxiosResponse> {
+    try {
+      return await axios.post(url, body, {
+        headers: { "content-type": "application/json", ...headers },
+        timeout: config.timeout,
+        signal: request.signal,
+        responseType: stream ? "stream" : "json",
+      });
+    } catch (error: any) {
+      // A streamed error body has to be read before it can be described
+      if (stream && error.response?.data?.on) {
+        const text = await this.readAll(error.response.data);
+        try {
+          error.response.data = JSON.parse(text);
+        } catch {
+          error.response.data = { error: text };
+        }
+      }
+      throw error;
+    }
+  }
+
+  // Posts a streaming request and reads its reply line by line. The reply is
+  // abandoned through the request's abort signal, as a cancel would, when it
+  // goes quiet part way through.
+  protected async postStream(
+    config: LLMProviderConfig,
+    url: string,
+    body: object,
+    headers: Record<string, string>,
+    request: LLMCompletionRequest,
+    onLine: (line: string) => void,
+  ): Promise<void> {
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    if (request.signal?.aborted) cancel();
+    request.signal?.addEventListener("abort", cancel);
+
+    const idleMs = Math.min(
+      config.timeout,
+      config.streamIdleTimeout ?? DEFAULT_STREAM_IDLE_TIMEOUT,
+    );
+    let stalled = false;
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const response = await this.post(
+        config,
+        url,
+        body,
+        headers,
+        { ...request, signal: controller.signal },
+        true,
+      );
+      timer = setTimeout(() => {
+        stalled = true;
+        controller.abort();
+      }, idleMs);
+      await this.readLines(response.data, (line) => {
+        timer?.refresh();
+        onLine(line);
+      });
+    } catch (error) {
+      if (stalled) {
+        throw new Error(
+          `${this.label} stream stalled: no data for ${idleMs / 1000}s`,
+        );
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener("abort", cancel);
+    }
+  }
+
+  // Server-sent events and NDJSON both arrive one record per line
+  protected async readLines(
+    stream: AsyncIterable<Buffer>,
+    onLine: (line: string) => void,
+  ): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      for await (const chunk of stream) {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        lines
+          .map((line) => line.trim())
+          .filter((line) => line !== "")
+          .forEach(onLine);
+      }
+    } catch (error: any) {
+      // The server closed the connection part way through the reply
+      if (error.code === "ECONNRESET" || error.message === "aborted") {
+        throw new Error(`${this.label} stream interrupted`);
+      }
+      throw error;
+    }
+    buffer += decoder.decode();
+    if (buffer.trim() !== "") onLine(buffer.trim());
+  }
+
+  private async readAll(stream: AsyncIterable<Buffer>): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks).toString("utf8");
+  }
+}
@@ -0,0 +1,45 @@
+import { LLMProvider } from "./LLMProvider";
+import {
+  GroqProvider,
+  OpenAICompatibleProvider,
+  OpenAIProvider,
+} from "./OpenAICompatibleProvider";
+import { ClaudeProvider } from "./ClaudeProvider";
+import { OllamaProvider } from "./OllamaProvider";
+import { logger } from "../utils/logger";
+import { LLMProviderSummary } from "../types";
+
+// The model APIs API keys can be added for, by provider name
+export class LLMProviders {
+  private providers: Map<string, LLMProvider> = new Map();
+
+  constructor() {
+    [
+      new GroqProvider(),
+      new OpenAIProvider(),
+      new ClaudeProvider(),
+      new OllamaProvider(),
+      new OpenAICompatibleProvider(),
+    ].forEach((provider) => this.register(provider));
+  }
+
+  // Registering under a taken name replaces that provider
+  public register(provider: LLMProvider): void {
+    if (this.providers.has(provider.name)) {
+      logger.warn(`Replacing LLM provider: ${provider.name}`);
+    }
+    this.providers.set(provider.name, provider);
+  }
+
+  public get(name: string): LLMProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  public list(): LLMProviderSummary[] {
+    return Array.from(this.providers.values()).map((provider) =>
+      provider.summary(),
+    );
+  }
+}
+
+export const llmProviders = new LLMProviders();
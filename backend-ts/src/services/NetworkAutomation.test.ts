@@ -0,0 +1,93 @@
+import { NetworkAutomation } from "./NetworkAutomation";
+import { NetworkOperations } from "./NetworkOperations";
+import { RouterSimulator } from "./RouterSimulator";
+import { LLMIntegration } from "./LLMIntegration";
+import { DeviceRepository } from "../repositories/DeviceRepository";
+import { openDatabase } from "../database/database";
+
+describe("NetworkAutomation targets", () => {
+  let simulator: RouterSimulator;
+  let operations: NetworkOperations;
+  let automation: NetworkAutomation;
+  let inventoryId: string;
+
+  beforeEach(() => {
+    const repository = new DeviceRepository(openDatabase("sqlite:///:memory:"));
+    simulator = new RouterSimulator(new LLMIntegration());
+    operations = new NetworkOperations({}, repository);
+    automation = new NetworkAutomation(simulator, repository, operations);
+    inventoryId = operations.addDevice({
+      name: "Branch-01",
+      ip: "10.20.0.1",
+      site: "jnb",
+    }).id;
+  });
+
+  it("reaches inventory devices picked by selector through NetworkOperations", async () => {
+    const executeCommand = jest
+      .spyOn(operations, "executeCommand")
+      .mockResolvedValue({
+        success: true,
+        output: "hostname Branch-01\nservice password-encryption",
+      });
+
+    const report = await automation.generateComplianceReport({ site: "jnb" });
+
+    expect(executeCommand).toHaveBeenCalledWith(
+      inventoryId,
+      "show running-config",
+    );
+    expect(report).toEqual({
+      compliant: true,
+      deviceReports: { [inventoryId]: { compliant: true, issues: [] } },
+    });
+  });
+
+  it("sends simulator router IDs to the simulator", async () => {
+    const executeCommand = jest.spyOn(operations, "executeCommand");
+    const routerId = simulator.getAllRouters()[0].id;
+
+    const result = await automation.executeCommand(
+      routerId,
+      "show version",
+      "bulk-test",
+    );
+
+    expect(result.success).toBe(true);
+    expect(executeCommand).not.toHaveBeenCalled();
+  });
+
+  it("runs a selector's bulk operation on a device connected through NetworkOperations", async () => {
+    await operations.connectToDevice(inventoryId);
+
+    const { id } = await automation.createBulkOperation(
+      "configuration",
+      { site: "jnb" },
+      "interface Loopback0\n description managed",
+      "bulk-test",
+    );
+    while (automation.getBulkOperation(id)!.status !== "completed") {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    expect(automation.getBulkOperation(id)).toMatchObject({
+      deviceIds: [inventoryId],
+      results: {
+        [inventoryId]: {
+          success: true,
+          output: "Configuration applied successfully (simulated)",
+        },
+      },
+    });
+  });
+
+  it("reports the inventory error rather than a missing router", async () => {
+    const result = await automation.executeCommand(
+      inventoryId,
+      "show version",
+      "bulk-test",
+    );
+
+    expect(result).toEqual({ success: false, error: "Device not connected" });
+  });
+});
@@ -1,14 +1,29 @@
 import { v4 as uuidv4 } from "uuid";
 import { logger } from "../utils/logger";
 import { RouterSimulator } from "./RouterSimulator";
-import { BulkOperation, BulkOperationStatus, NetworkDevice } from "../types";
+import { NetworkOperations, getNetworkOperations } from "./NetworkOperations";
+import { DeviceRepository } from "../repositories/DeviceRepository";
+import {
+  BulkOperation,
+  BulkOperationStatus,
+  DeviceTargets,
+  NetworkDevice,
+} from "../types";
 
 export class NetworkAutomation {
   private routerSimulator: RouterSimulator;
+  private deviceRepository: DeviceRepository;
+  private networkOperations: NetworkOperations;
   private bulkOperations: Map<string, BulkOperation> = new Map();
 
-  constructor(routerSimulator: RouterSimulator) {
+  constructor(
+    routerSimulator: RouterSimulator,
+    deviceRepository: DeviceRepository = new DeviceRepository(),
+    networkOperations: NetworkOperations = getNetworkOperations(),
+  ) {
     this.routerSimulator = routerSimulator;
+    this.deviceRepository = deviceRepository;
+    this.networkOperations = networkOperations;
     logger.info("Network Automation Framework initialized");
   }
 
@@ -22,12 +37,14 @@ export class NetworkAutomation {
     error?: string;
   }> {
     try {
-      // For simulated routers, use the router simulator
-      return await this.routerSimulator.executeCommand(
-        deviceId,
-        command,
-        sessionId,
-      );
+      if (this.isSimulatedRouter(deviceId)) {
+        return await this.routerSimulator.executeCommand(
+          deviceId,
+          command,
+          sessionId,
+        );
+      }
+      return await this.networkOperations.executeCommand(deviceId, command);
     } catch (error) {
       logger.error(`Error executing command on device ${deviceId}: ${error}`);
       return { success: false, error: String(error) };
@@ -44,12 +61,22 @@ export class NetworkAutomation {
     error?: string;
   }> {
     try {
-      // For simulated routers, use the router simulator
-      return await this.routerSimulator.applyConfiguration(
+      if (this.isSimulatedRouter(deviceId)) {
+        return await this.routerSimulator.applyConfiguration(
+          deviceId,
+          config,
+          sessionId,
+        );
+      }
+      const result = await this.networkOperations.applyConfiguration(
         deviceId,
         config,
-        sessionId,
       );
+      return {
+        success: result.success,
+        output: result.result,
+        error: result.error,
+      };
     } catch (error) {
       logger.error(
         `Error applying configuration to device ${deviceId}: ${error}`,
@@ -58,13 +85,33 @@ export class NetworkAutomation {
     }
   }
 
+  // Targets are simulator router IDs or inventory device IDs; selectors
+  // resolve to the inventory, which is reached through NetworkOperations
+  private isSimulatedRouter(deviceId: string): boolean {
+    return this.routerSimulator.getRouter(deviceId) !== undefined;
+  }
+
+  // The running config of a simulated router, or as shown by an inventory device
+  private async getRunningConfig(deviceId: string): Promise<string> {
+    const router = this.routerSimulator.getRouter(deviceId);
+    if (router) return router.runningConfig;
+
+    const result = await this.networkOperations.executeCommand(
+      deviceId,
+      "show running-config",
+    );
+    if (!result.success) throw new Error(result.error);
+    return result.output || "";
+  }
+
   public async createBulkOperation(
     operationType: "command" | "configuration",
-    deviceIds: string[],
+    targets: DeviceTargets,
     data: string,
     sessionId: string,
   ): Promise<BulkOperation> {
     const id = uuidv4();
+    const deviceIds = this.deviceRepository.resolveTargets(targets);
     const operation: BulkOperation = {
       id,
       operationType,
@@ -215,7 +262,7 @@ export class NetworkAutomation {
     }
   }
 
-  public async generateComplianceReport(deviceIds: string[]): Promise<{
+  public async generateComplianceReport(targets: DeviceTargets): Promise<{
     compliant: boolean;
     deviceReports: Record<
       string,
@@ -230,20 +277,11 @@ export class NetworkAutomation {
       { compliant: boolean; issues: string[] }
     > = {};
     let overallCompliant = true;
+    const deviceIds = this.deviceRepository.resolveTargets(targets);
 
     for (const deviceId of deviceIds) {
       try {
-        const router = this.routerSimulator.getRouter(deviceId);
-        if (!router) {
-          deviceReports[deviceId] = {
-            compliant: false,
-            issues: ["Device not found"],
-          };
-          overallCompliant = false;
-          continue;
-        }
-
-        const config = router.runningConfig;
+        const config = await this.getRunningConfig(deviceId);
         const validationResult = await this.validateConfiguration(config);
 
         deviceReports[deviceId] = {
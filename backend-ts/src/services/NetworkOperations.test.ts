@@ -0,0 +1,174 @@
+import { AddressInfo } from "net";
+import { Server } from "ssh2";
+import { NetworkOperations } from "./NetworkOperations";
+import { ConnectionPool } from "./ConnectionPool";
+import { DeviceRepository } from "../repositories/DeviceRepository";
+import { openDatabase } from "../database/database";
+import { startStandIn } from "../testing/iosStandIn";
+
+describe("NetworkOperations over SSH", () => {
+  let server: Server;
+  let pool: ConnectionPool;
+  let operations: NetworkOperations;
+  let deviceId: string;
+  const received: string[] = [];
+
+  beforeAll(async () => {
+    server = await startStandIn(received);
+    pool = new ConnectionPool({ maxSessions: 2, maxSessionsPerDevice: 1 });
+    operations = new NetworkOperations(
+      { simulationEnabled: false, connectionTimeout: 5 },
+      new DeviceRepository(openDatabase("sqlite:///:memory:")),
+      undefined,
+      pool,
+    );
+    deviceId = operations.addDevice({
+      name: "R1",
+      ip: "127.0.0.1",
+      port: (server.address() as AddressInfo).port,
+      username: "admin",
+      password: "secret",
+      enablePassword: "enable-secret",
+    }).id;
+  });
+
+  afterAll(() => {
+    pool.closeAll();
+    server.close();
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  it("logs in, enters enable mode and disables paging", async () => {
+    const result = await operations.connectToDevice(deviceId);
+
+    expect(result).toMatchObject({
+      success: true,
+      connectionType: "ssh",
+      deviceInfo: "R1#",
+    });
+    expect(received).toEqual(["enable", "terminal length 0"]);
+  });
+
+  it("pages through output that still arrives with More prompts", async () => {
+    const result = await operations.executeCommand(
+      deviceId,
+      "show running-config",
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.output).toContain("hostname R1");
+    expect(result.output).toContain("ip address 10.0.0.1 255.255.255.255");
+    expect(result.output).not.toContain("More");
+  });
+
+  it("stops at the first rejected line and still leaves config mode", async () => {
+    const result = await operations.applyConfiguration(
+      deviceId,
+      "interface Loopback1\n bogus command\n description never sent",
+      { stopOnError: true },
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.linesApplied).toBe(1);
+    expect(result.lineErrors).toEqual([
+      expect.objectContaining({ lineNumber: 2, line: "bogus command" }),
+    ]);
+    expect(received).toEqual([
+      "configure terminal",
+      "interface Loopback1",
+      "bogus command",
+      "end",
+    ]);
+  });
+
+  it("sends every line and end when errors are only reported", async () => {
+    const result = await operations.applyConfiguration(
+      deviceId,
+      "bogus one\nhostname R1\nbogus two",
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.linesApplied).toBe(1);
+    expect(result.lineErrors?.map((error) => error.lineNumber)).toEqual([1, 3]);
+    expect(received[received.length - 1]).toBe("end");
+  });
+
+  it("reports why a push failed when end cannot be sent either", async () => {
+    const result = await operations.applyConfiguration(
+      deviceId,
+      "hostname R1\nreload",
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("closed by remote host");
+  });
+});
+
+describe("NetworkOperations dummy router push", () => {
+  let operations: NetworkOperations;
+
+  beforeEach(() => {
+    operations = new NetworkOperations(
+      { simulationEnabled: true },
+      new DeviceRepository(openDatabase("sqlite:///:memory:")),
+    );
+  });
+
+  it("reports progress for each pushed line", async () => {
+    const deviceId = operations.addDevice({ name: "R9", ip: "10.9.9.9" }).id;
+    await operations.connectToDevice(deviceId);
+    const applying: string[] = [];
+
+    const result = await operations.pushConfigurationToDummyRouter(
+      deviceId,
+      "hostname R9\n!\ninterface Loopback0\n ip address 9.9.9.9 255.255.255.255",
+      (steps) => applying.push(`${steps[2].action} ${steps[2].status}`),
+    );
+
+    expect(result.success).toBe(true);
+    // Later steps resend the list with the applying step left as it was
+    expect(
+      Array.from(new Set(applying.filter((entry) => entry.includes("/")))),
+    ).toEqual([
+      "Applying configuration (1/3 lines) in-progress",
+      "Applying configuration (2/3 lines) in-progress",
+      "Applying configuration (3/3 lines) completed",
+    ]);
+    expect(
+      (await operations.retrieveConfigurationFromDummyRouter(deviceId))
+        .configuration,
+    ).toContain("ip address 9.9.9.9 255.255.255.255");
+  });
+});
+
+describe("NetworkOperations.importDevices", () => {
+  let operations: NetworkOperations;
+
+  beforeEach(() => {
+    operations = new NetworkOperations(
+      {},
+      new DeviceRepository(openDatabase("sqlite:///:memory:")),
+    );
+  });
+
+  it("updates the device that already has a row's IP", () => {
+    const result = operations.importDevices([
+      { name: "Core-B", ip: "192.168.1.10", role: "core" },
+      { name: "Edge-01", ip: "10.9.0.1" },
+    ]);
+
+    expect(result.created.map(({ name }) => name)).toEqual(["Edge-01"]);
+    expect(result.updated).toHaveLength(1);
+    expect(result.updated[0]).toMatchObject({
+      name: "Core-B",
+      ip: "192.168.1.10",
+      role: "core",
+    });
+    expect(
+      operations.getAllDevices().filter(({ ip }) => ip === "192.168.1.10"),
+    ).toHaveLength(1);
+  });
+});
@@ -1,68 +1,135 @@
 import { v4 as uuidv4 } from "uuid";
-import { NodeSSH } from "node-ssh";
 import { logger } from "../utils/logger";
 import { config } from "../config/config";
+import { CliSession } from "./CliSession";
+import { SSHSession } from "./SSHSession";
+import { TelnetSession } from "./TelnetSession";
+import { DeviceRepository } from "../repositories/DeviceRepository";
+import { CredentialVault, credentialVault } from "./CredentialVault";
+import { ConnectionPool, connectionPool } from "./ConnectionPool";
+import { ShowCommandParser, FACT_COMMANDS } from "./ShowCommandParser";
 import {
   NetworkDevice,
+  NetworkConfig,
   ConnectionInfo,
   DeviceConnectionResult,
+  ConfigLineError,
+  ConfigPushOptions,
+  ConfigPushResult,
+  ConnectionHistoryEntry,
+  ConfigPushHistoryEntry,
+  DeviceImportResult,
+  DeviceSelector,
+  SiteHierarchy,
+  DeviceFactName,
+  DeviceFacts,
 } from "../types";
 
+type ActiveConnection = ConnectionInfo & { prompt?: string };
+
+// Error markers IOS prints when it rejects a configuration line
+const IOS_ERROR_PATTERN =
+  /^%\s*(Invalid input|Incomplete command|Ambiguous command)/m;
+
+// Mode changes handled by applyConfiguration itself
+const CONFIG_MODE_COMMANDS = ["configure terminal", "conf t", "end"];
+
+// Fixed-width mask so ciphertext length never leaks through the API
+const SECRET_MASK = "********";
+
+const DEVICE_TYPE_MAPPING: Record<string, string> = {
+  Router: "cisco_ios",
+  Switch: "cisco_ios",
+  Firewall: "cisco_asa",
+  "Access Point": "cisco_wlc",
+};
+
+// Changing any of these invalidates an open session
+const CONNECTION_FIELDS: (keyof NetworkDevice)[] = [
+  "ip",
+  "port",
+  "protocol",
+  "username",
+  "password",
+  "enablePassword",
+];
+
 export class NetworkOperations {
-  private devices: Map<string, NetworkDevice> = new Map();
-  private activeConnections: Map<
-    string,
-    ConnectionInfo & { connection?: NodeSSH }
-  > = new Map();
-  private connectionHistory: Array<{
-    deviceId: string;
-    deviceName: string;
-    action: "connect" | "disconnect";
-    timestamp: string;
-    success: boolean;
-  }> = [];
+  private networkConfig: NetworkConfig;
+  private deviceRepository: DeviceRepository;
+  private vault: CredentialVault;
+  private connectionPool: ConnectionPool;
+  private activeConnections: Map<string, ActiveConnection> = new Map();
   private dummyRouterConfigs: Map<string, string> = new Map();
-  private configPushHistory: Array<{
-    deviceId: string;
-    deviceName: string;
-    configuration: string;
-    timestamp: string;
-    success: boolean;
-  }> = [];
+  private showParser: ShowCommandParser = new ShowCommandParser();
+  private secretStoreId: string;
+
+  constructor(
+    networkConfig: Partial<NetworkConfig> = {},
+    deviceRepository: DeviceRepository = new DeviceRepository(),
+    vault: CredentialVault = credentialVault,
+    pool: ConnectionPool = connectionPool,
+  ) {
+    this.networkConfig = {
+      connectionTimeout: config.sshTimeout,
+      retryAttempts: 1,
+      simulationEnabled: config.simulationEnabled,
+      defaultDeviceType: "cisco_ios",
+      ...networkConfig,
+    };
+    this.deviceRepository = deviceRepository;
+    this.vault = vault;
+    this.connectionPool = pool;
+
+    // Seed the demo inventory only on a fresh database
+    if (this.deviceRepository.count() === 0) {
+      this.loadDemoDevices();
+    }
+
+    // Seal any plaintext secrets left from before the vault existed
+    this.reencryptSecrets();
+    this.secretStoreId = this.vault.registerSecretStore(() =>
+      this.reencryptSecrets(),
+    );
+  }
 
-  constructor() {
-    this.loadDemoDevices();
+  // Stops key rotation from reaching an instance that is no longer used
+  public dispose(): void {
+    this.vault.unregisterSecretStore(this.secretStoreId);
   }
 
   private loadDemoDevices(): void {
+    const minutesAgo = (minutes: number) =>
+      new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
     const demoDevices: Omit<NetworkDevice, "id" | "createdAt">[] = [
       {
         name: "Core-Switch-01",
         ip: "192.168.1.10",
         deviceType: "cisco_ios",
         status: "online",
-        lastSeen: "2 min ago",
+        lastSeen: minutesAgo(2),
       },
       {
         name: "Router-WAN-01",
         ip: "192.168.1.1",
         deviceType: "cisco_ios",
         status: "online",
-        lastSeen: "1 min ago",
+        lastSeen: minutesAgo(1),
       },
       {
         name: "Access-Switch-02",
         ip: "192.168.1.20",
         deviceType: "cisco_ios",
         status: "warning",
-        lastSeen: "15 min ago",
+        lastSeen: minutesAgo(15),
       },
       {
         name: "Firewall-01",
         ip: "192.168.1.5",
         deviceType: "cisco_asa",
         status: "offline",
-        lastSeen: "2 hours ago",
+        lastSeen: minutesAgo(120),
       },
     ];
 
@@ -72,82 +139,292 @@ export class NetworkOperations {
         id: (index + 1).toString(),
         createdAt: new Date().toISOString(),
       };
-      this.devices.set(device.id, device);
+      this.deviceRepository.save(device);
     });
 
     logger.info(`Loaded ${demoDevices.length} demo devices`);
   }
 
-  getAllDevices(): NetworkDevice[] {
-    return Array.from(this.devices.values()).map((device) => ({
-      ...device,
-      password: device.password ? "*".repeat(device.password.length) : "",
-      enablePassword: device.enablePassword
-        ? "*".repeat(device.enablePassword.length)
-        : "",
+  getAllDevices(selector: DeviceSelector = {}): NetworkDevice[] {
+    return this.deviceRepository
+      .findAll(selector)
+      .map((device) => this.redactSecrets(device));
+  }
+
+  // Region > site > device, with unassigned devices grouped under ""
+  getSiteHierarchy(): SiteHierarchy[] {
+    const regions = new Map<string, Map<string, string[]>>();
+
+    for (const device of this.deviceRepository.findAll()) {
+      const sites = regions.get(device.region || "") || new Map();
+      sites.set(device.site || "", [
+        ...(sites.get(device.site || "") || []),
+        device.id,
+      ]);
+      regions.set(device.region || "", sites);
+    }
+
+    return Array.from(regions.entries()).map(([region, sites]) => ({
+      region,
+      sites: Array.from(sites.entries()).map(([site, deviceIds]) => ({
+        site,
+        deviceIds,
+      })),
     }));
   }
 
   getDeviceInfo(deviceId: string): NetworkDevice | null {
-    const device = this.devices.get(deviceId);
+    const device = this.deviceRepository.findById(deviceId);
     if (!device) return null;
 
-    return {
-      ...device,
-      password: device.password ? "*".repeat(device.password.length) : "",
-      enablePassword: device.enablePassword
-        ? "*".repeat(device.enablePassword.length)
-        : "",
-    };
+    return this.redactSecrets(device);
   }
 
   addDevice(deviceData: Partial<NetworkDevice>): NetworkDevice {
-    const typeMapping: Record<string, string> = {
-      Router: "cisco_ios",
-      Switch: "cisco_ios",
-      Firewall: "cisco_asa",
-      "Access Point": "cisco_wlc",
+    const device = this.buildDevice(deviceData);
+
+    this.deviceRepository.save(device);
+    logger.info(`Added device: ${device.name} (${device.ip})`);
+
+    return this.redactSecrets(device);
+  }
+
+  // PUT semantics: fields missing from deviceData fall back to their defaults
+  replaceDevice(
+    deviceId: string,
+    deviceData: Partial<NetworkDevice>,
+  ): NetworkDevice | null {
+    const existing = this.deviceRepository.findById(deviceId);
+    if (!existing) return null;
+
+    return this.storeUpdatedDevice(
+      existing,
+      this.buildDevice(deviceData, existing),
+    );
+  }
+
+  // PATCH semantics: only the fields present in updates change
+  updateDevice(
+    deviceId: string,
+    updates: Partial<NetworkDevice>,
+  ): NetworkDevice | null {
+    const existing = this.deviceRepository.findById(deviceId);
+    if (!existing) return null;
+
+    return this.storeUpdatedDevice(
+      existing,
+      this.buildDevice(this.mergeDeviceData(existing, updates), existing),
+    );
+  }
+
+  // Rows matching an existing device by id or IP update it; the rest are added.
+  // Later rows for the same id or IP update the device an earlier row produced.
+  importDevices(
+    rows: Partial<NetworkDevice>[],
+    dryRun: boolean = false,
+  ): DeviceImportResult {
+    const existingDevices = this.deviceRepository.findAll();
+    const imported: Map<string, NetworkDevice> = new Map();
+
+    // Rows come from validateDeviceRows, which rejects repeated IPs, so each
+    // row is either a new device or an update to one already in the inventory
+    for (const row of rows) {
+      const base = existingDevices.find(
+        (device) => (row.id && device.id === row.id) || device.ip === row.ip,
+      );
+      const device = base
+        ? this.buildDevice(this.mergeDeviceData(base, row), base)
+        : this.buildDevice(row);
+
+      imported.set(device.id, device);
+    }
+
+    const toSave = Array.from(imported.values());
+    const toReconnect: string[] = [];
+    const result: DeviceImportResult = {
+      success: true,
+      dryRun,
+      created: [],
+      updated: [],
+      errors: [],
     };
 
-    const device: NetworkDevice = {
-      id: deviceData.id || uuidv4(),
+    for (const device of toSave) {
+      const existing = existingDevices.find(({ id }) => id === device.id);
+      if (existing && this.connectionChanged(existing, device)) {
+        toReconnect.push(device.id);
+      }
+      (existing ? result.updated : result.created).push(
+        this.redactSecrets(device),
+      );
+    }
+
+    if (!dryRun) {
+      this.deviceRepository.saveMany(toSave);
+      toReconnect.forEach((deviceId) => this.disconnectFromDevice(deviceId));
+      logger.info(
+        `Imported devices: ${result.created.length} created, ${result.updated.length} updated`,
+      );
+    }
+
+    return result;
+  }
+
+  private buildDevice(
+    deviceData: Partial<NetworkDevice>,
+    existing?: NetworkDevice,
+  ): NetworkDevice {
+    const protocol = deviceData.protocol || "ssh";
+
+    return {
+      id: existing?.id || deviceData.id || uuidv4(),
       name: deviceData.name || "",
       ip: deviceData.ip || "",
       deviceType:
-        typeMapping[deviceData.deviceType || ""] ||
+        DEVICE_TYPE_MAPPING[deviceData.deviceType || ""] ||
         deviceData.deviceType ||
         "cisco_ios",
+      protocol,
       username: deviceData.username || config.defaultSshUsername,
-      password: deviceData.password || config.defaultSshPassword,
-      enablePassword: deviceData.enablePassword || config.defaultEnablePassword,
-      port: deviceData.port || 22,
-      status: deviceData.status || "offline",
-      lastSeen: deviceData.lastSeen || "Never",
-      createdAt: deviceData.createdAt || new Date().toISOString(),
+      password: this.sealSecret(
+        deviceData.password,
+        existing?.password,
+        config.defaultSshPassword,
+      ),
+      enablePassword: this.sealSecret(
+        deviceData.enablePassword,
+        existing?.enablePassword,
+        config.defaultEnablePassword,
+      ),
+      port: deviceData.port || (protocol === "telnet" ? 23 : 22),
+      // Site and region are codes ("jnb", "emea") so the hierarchy groups cleanly
+      site: deviceData.site?.trim().toLowerCase() || undefined,
+      region: deviceData.region?.trim().toLowerCase() || undefined,
+      role: deviceData.role || undefined,
+      group: deviceData.group || undefined,
+      tags: Array.from(
+        new Set(
+          (deviceData.tags || [])
+            .map((tag) => tag.trim().toLowerCase())
+            .filter((tag) => tag !== ""),
+        ),
+      ),
+      status: deviceData.status || existing?.status || "offline",
+      lastSeen: deviceData.lastSeen || existing?.lastSeen || null,
+      createdAt:
+        existing?.createdAt || deviceData.createdAt || new Date().toISOString(),
     };
+  }
 
-    this.devices.set(device.id, device);
-    logger.info(`Added device: ${device.name} (${device.ip})`);
+  private mergeDeviceData(
+    existing: NetworkDevice,
+    updates: Partial<NetworkDevice>,
+  ): Partial<NetworkDevice> {
+    const merged: Partial<NetworkDevice> = { ...existing };
+    (Object.keys(updates) as (keyof NetworkDevice)[]).forEach((field) => {
+      if (updates[field] !== undefined) {
+        (merged as Record<string, unknown>)[field] = updates[field];
+      }
+    });
 
+    // A protocol switch moves a default port along with it
+    const defaultPort = existing.protocol === "telnet" ? 23 : 22;
+    if (
+      updates.protocol &&
+      updates.protocol !== existing.protocol &&
+      updates.port === undefined &&
+      existing.port === defaultPort
+    ) {
+      delete merged.port;
+    }
+
+    return merged;
+  }
+
+  // Masked values come back from exports and edit forms and keep the stored secret
+  private sealSecret(
+    value: string | undefined,
+    current: string | undefined,
+    fallback: string,
+  ): string | undefined {
+    if (value === SECRET_MASK && current) return current;
+    if (value === SECRET_MASK) return this.vault.seal(fallback);
+    return this.vault.seal(value || fallback);
+  }
+
+  private connectionChanged(
+    existing: NetworkDevice,
+    device: NetworkDevice,
+  ): boolean {
+    return CONNECTION_FIELDS.some((field) => existing[field] !== device[field]);
+  }
+
+  private storeUpdatedDevice(
+    existing: NetworkDevice,
+    device: NetworkDevice,
+  ): NetworkDevice {
+    this.deviceRepository.save(device);
+
+    // Pooled sessions still hold the old address or credentials
+    if (this.connectionChanged(existing, device)) {
+      this.disconnectFromDevice(device.id);
+    }
+
+    logger.info(`Updated device: ${device.name} (${device.ip})`);
+    return this.redactSecrets(device);
+  }
+
+  private redactSecrets(device: NetworkDevice): NetworkDevice {
+    return {
+      ...device,
+      password: device.password ? SECRET_MASK : "",
+      enablePassword: device.enablePassword ? SECRET_MASK : "",
+    };
+  }
+
+  // Decrypted copy handed to a session; never stored or returned
+  private revealCredentials(device: NetworkDevice): NetworkDevice {
     return {
       ...device,
-      password: device.password ? "*".repeat(device.password.length) : "",
-      enablePassword: device.enablePassword
-        ? "*".repeat(device.enablePassword.length)
-        : "",
+      password: this.vault.reveal(device.password),
+      enablePassword: this.vault.reveal(device.enablePassword),
     };
   }
 
+  private reencryptSecrets(): number {
+    let count = 0;
+
+    for (const device of this.deviceRepository.findAll()) {
+      const password = this.vault.reencrypt(device.password);
+      const enablePassword = this.vault.reencrypt(device.enablePassword);
+
+      if (
+        password !== device.password ||
+        enablePassword !== device.enablePassword
+      ) {
+        this.deviceRepository.save({ ...device, password, enablePassword });
+        count++;
+      }
+    }
+
+    this.dummyRouterConfigs.forEach((stored, deviceId) => {
+      if (this.vault.isEncrypted(stored)) {
+        this.dummyRouterConfigs.set(deviceId, this.vault.reencrypt(stored)!);
+        count++;
+      }
+    });
+
+    return count;
+  }
+
   deleteDevice(deviceId: string): boolean {
-    const device = this.devices.get(deviceId);
+    const device = this.deviceRepository.findById(deviceId);
     if (!device) return false;
 
-    // Disconnect if connected
-    if (this.activeConnections.has(deviceId)) {
-      this.disconnectFromDevice(deviceId);
-    }
+    // Disconnect and close any pooled sessions
+    this.disconnectFromDevice(deviceId);
 
-    this.devices.delete(deviceId);
+    this.deviceRepository.delete(deviceId);
     logger.info(`Deleted device: ${device.name}`);
     return true;
   }
@@ -156,7 +433,7 @@ export class NetworkOperations {
     deviceId: string,
     deviceInfo?: any,
   ): Promise<DeviceConnectionResult> {
-    const device = this.devices.get(deviceId);
+    const device = this.deviceRepository.findById(deviceId);
     if (!device) {
       return { success: false, error: "Device not found" };
     }
@@ -172,26 +449,21 @@ export class NetworkOperations {
     }
 
     try {
-      // For demo purposes, simulate connection
-      logger.info(`Simulating connection to ${device.name} (${device.ip})`);
-
-      // Simulate connection delay
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      const connectionInfo: ConnectionInfo = {
-        connectedAt: new Date().toISOString(),
-        connectionType: "simulated",
-        deviceInfo: device,
-      };
+      const connectionInfo = this.networkConfig.simulationEnabled
+        ? await this.openSimulatedConnection(device)
+        : await this.openPooledConnection(device);
 
       this.activeConnections.set(deviceId, connectionInfo);
 
       // Update device status
-      device.status = "online";
-      device.lastSeen = "Just now";
+      this.deviceRepository.updateStatus(
+        deviceId,
+        "online",
+        new Date().toISOString(),
+      );
 
       // Log connection history
-      this.connectionHistory.push({
+      this.deviceRepository.recordConnection({
         deviceId,
         deviceName: device.name,
         action: "connect",
@@ -203,49 +475,226 @@ export class NetworkOperations {
         `Successfully connected to device: ${device.name} (${device.ip})`,
       );
 
+      if (connectionInfo.connectionType === "simulated") {
+        return {
+          success: true,
+          message: "Connected successfully (simulated)",
+          connectionType: "simulated",
+        };
+      }
+
       return {
         success: true,
-        message: "Connected successfully (simulated)",
-        connectionType: "simulated",
+        message: "Connected successfully",
+        connectionType: connectionInfo.connectionType,
+        deviceInfo: connectionInfo.prompt,
+        warnings: this.getComplianceWarnings(device),
       };
     } catch (error) {
       const errorMsg = `Connection failed to ${device.name}: ${error}`;
       logger.error(errorMsg);
+
+      this.deviceRepository.recordConnection({
+        deviceId,
+        deviceName: device.name,
+        action: "connect",
+        timestamp: new Date().toISOString(),
+        success: false,
+      });
+
       return { success: false, error: errorMsg };
     }
   }
 
+  private async openSimulatedConnection(
+    device: NetworkDevice,
+  ): Promise<ActiveConnection> {
+    logger.info(`Simulating connection to ${device.name} (${device.ip})`);
+
+    // Simulate connection delay
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    return {
+      connectedAt: new Date().toISOString(),
+      connectionType: "simulated",
+      deviceInfo: device,
+    };
+  }
+
+  // Leases a session to prove the login works; it then stays warm in the pool
+  private async openPooledConnection(
+    device: NetworkDevice,
+  ): Promise<ActiveConnection> {
+    const prompt = await this.withDeviceSession(device, async (session) =>
+      session.getPrompt(),
+    );
+
+    return {
+      connectedAt: new Date().toISOString(),
+      connectionType: device.protocol || "ssh",
+      deviceInfo: device,
+      prompt,
+    };
+  }
+
+  // Real sessions come from the shared pool, so no prior connectToDevice is needed
+  private withDeviceSession<T>(
+    device: NetworkDevice,
+    work: (session: CliSession) => Promise<T>,
+  ): Promise<T> {
+    return this.connectionPool.withSession(
+      device.id,
+      () => this.openCliSession(device),
+      work,
+    );
+  }
+
+  private async openCliSession(device: NetworkDevice): Promise<CliSession> {
+    const attempts = Math.max(1, this.networkConfig.retryAttempts);
+    const timeout = this.networkConfig.connectionTimeout * 1000;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const credentials = this.revealCredentials(device);
+      const session =
+        device.protocol === "telnet"
+          ? new TelnetSession(credentials, timeout)
+          : new SSHSession(credentials, timeout);
+
+      logger.info(
+        `Opening ${session.protocol.toUpperCase()} session to ${device.name} (${device.ip}), attempt ${attempt}/${attempts}`,
+      );
+
+      try {
+        await session.open();
+        return session;
+      } catch (error) {
+        lastError = error;
+        session.dispose();
+        logger.warn(
+          `${session.protocol.toUpperCase()} attempt ${attempt} to ${device.name} failed: ${error}`,
+        );
+      }
+    }
+
+    throw lastError;
+  }
+
+  // Logged on every telnet use, matching NetworkAutomation.validateConfiguration's stance
+  private getComplianceWarnings(device: NetworkDevice): string[] {
+    if (device.protocol !== "telnet") {
+      return [];
+    }
+
+    const warning = `Compliance: telnet session to ${device.name} (${device.ip}) sends credentials and configuration in cleartext; migrate this device to SSH`;
+    logger.warn(warning);
+    return [warning];
+  }
+
+  async executeCommand(
+    deviceId: string,
+    command: string,
+  ): Promise<{ success: boolean; output?: string; error?: string }> {
+    const device = this.deviceRepository.findById(deviceId);
+    if (!device) {
+      return { success: false, error: "Device not found" };
+    }
+
+    if (this.networkConfig.simulationEnabled) {
+      return this.activeConnections.has(deviceId)
+        ? {
+            success: false,
+            error: "Command execution requires an SSH or telnet session",
+          }
+        : { success: false, error: "Device not connected" };
+    }
+
+    this.getComplianceWarnings(device);
+
+    try {
+      const output = await this.withDeviceSession(device, (session) =>
+        session.sendCommand(command),
+      );
+      return { success: true, output };
+    } catch (error) {
+      const errorMsg = `Error executing '${command}' on ${deviceId}: ${error}`;
+      logger.error(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+  }
+
+  async collectFacts(
+    deviceId: string,
+    facts: DeviceFactName[] = Object.keys(FACT_COMMANDS) as DeviceFactName[],
+  ): Promise<{ success: boolean; facts?: DeviceFacts; error?: string }> {
+    const device = this.deviceRepository.findById(deviceId);
+    if (!device) {
+      return { success: false, error: "Device not found" };
+    }
+
+    if (this.networkConfig.simulationEnabled) {
+      return {
+        success: false,
+        error: "Fact collection requires an SSH or telnet session",
+      };
+    }
+
+    const result: DeviceFacts = {
+      deviceId,
+      collectedAt: new Date().toISOString(),
+      errors: {},
+    };
+
+    try {
+      // All commands share one lease; a parse failure only loses that fact
+      await this.withDeviceSession(device, async (session) => {
+        for (const fact of facts) {
+          const output = await session.sendCommand(FACT_COMMANDS[fact]);
+          try {
+            Object.assign(result, {
+              [fact]: this.showParser.parse(fact, output),
+            });
+          } catch (error) {
+            result.errors[fact] =
+              error instanceof Error ? error.message : String(error);
+          }
+        }
+      });
+    } catch (error) {
+      const errorMsg = `Error collecting facts from ${deviceId}: ${error}`;
+      logger.error(errorMsg);
+      return { success: false, error: errorMsg };
+    }
+
+    return { success: true, facts: result };
+  }
+
   disconnectFromDevice(deviceId: string): {
     success: boolean;
     message: string;
   } {
+    // Pooled sessions can exist without an explicit connect, so close them first
+    this.connectionPool.closeDevice(deviceId);
+
     if (!this.activeConnections.has(deviceId)) {
       return { success: true, message: "Device not connected" };
     }
 
-    const connectionInfo = this.activeConnections.get(deviceId)!;
-
-    // Close real connection if it exists
-    if (connectionInfo.connection) {
-      try {
-        connectionInfo.connection.dispose();
-      } catch (error) {
-        logger.warn(`Error closing connection: ${error}`);
-      }
-    }
-
     // Remove from active connections
     this.activeConnections.delete(deviceId);
 
     // Update device status
-    const device = this.devices.get(deviceId);
+    const device = this.deviceRepository.findById(deviceId);
     if (device) {
-      device.status = "offline";
-      device.lastSeen = "Just now";
+      this.deviceRepository.updateStatus(
+        deviceId,
+        "offline",
+        new Date().toISOString(),
+      );
     }
 
     // Log connection history
-    this.connectionHistory.push({
+    this.deviceRepository.recordConnection({
       deviceId,
       deviceName: device?.name || "Unknown",
       action: "disconnect",
@@ -262,7 +711,7 @@ export class NetworkOperations {
   }
 
   getDeviceStatus(deviceId: string): any {
-    const device = this.devices.get(deviceId);
+    const device = this.deviceRepository.findById(deviceId);
     if (!device) {
       return { status: "unknown", error: "Device not found" };
     }
@@ -276,58 +725,180 @@ export class NetworkOperations {
       connected: isConnected,
       connectionTime: connectionInfo?.connectedAt,
       connectionType: connectionInfo?.connectionType,
+      pool: this.connectionPool.getStats(deviceId),
     };
   }
 
   async applyConfiguration(
     deviceId: string,
     configuration: string,
-  ): Promise<{ success: boolean; result?: string; error?: string }> {
-    if (!this.activeConnections.has(deviceId)) {
-      return { success: false, error: "Device not connected" };
-    }
-
-    const device = this.devices.get(deviceId);
+    options: ConfigPushOptions = {},
+  ): Promise<ConfigPushResult> {
+    const device = this.deviceRepository.findById(deviceId);
     if (!device) {
       return { success: false, error: "Device not found" };
     }
 
-    const connectionInfo = this.activeConnections.get(deviceId)!;
+    if (
+      this.networkConfig.simulationEnabled &&
+      !this.activeConnections.has(deviceId)
+    ) {
+      return { success: false, error: "Device not connected" };
+    }
+
+    const lines = this.extractConfigLines(configuration);
 
     try {
       // For simulated connections
-      if (connectionInfo.connectionType === "simulated") {
+      if (this.networkConfig.simulationEnabled) {
         logger.info(`Simulating configuration application to ${device.name}`);
-        await new Promise((resolve) => setTimeout(resolve, 2000)); // Simulate processing time
+
+        lines.forEach(({ lineNumber, line }) =>
+          options.onProgress?.({
+            lineNumber,
+            totalLines: lines.length,
+            line,
+            status: "accepted",
+          }),
+        );
+        this.recordConfigPush(device, configuration, true);
 
         return {
           success: true,
           result: "Configuration applied successfully (simulated)",
+          linesApplied: lines.length,
+          lineErrors: [],
         };
       }
 
-      // Real configuration application would go here
-      // For now, return simulated success
-      return {
-        success: true,
-        result: "Configuration applied successfully",
-      };
+      const warnings = this.getComplianceWarnings(device);
+      // One lease for the whole push keeps config mode on a single session
+      const result = await this.withDeviceSession(device, (session) =>
+        this.pushConfigLines(session, lines, options),
+      );
+      result.warnings = warnings;
+      this.recordConfigPush(device, configuration, result.success);
+
+      logger.info(
+        `Applied ${result.linesApplied}/${lines.length} configuration lines to ${device.name} with ${result.lineErrors?.length} errors`,
+      );
+
+      return result;
     } catch (error) {
       const errorMsg = `Error applying configuration to ${deviceId}: ${error}`;
       logger.error(errorMsg);
+      this.recordConfigPush(device, configuration, false);
       return { success: false, error: errorMsg };
     }
   }
 
-  getConnectionHistory(): Array<any> {
-    return this.connectionHistory.slice(-50); // Return last 50 entries
+  private async pushConfigLines(
+    session: CliSession,
+    lines: Array<{ lineNumber: number; line: string }>,
+    options: ConfigPushOptions,
+  ): Promise<ConfigPushResult> {
+    const lineErrors: ConfigLineError[] = [];
+    let linesApplied = 0;
+
+    await session.sendCommand("configure terminal");
+
+    try {
+      for (const { lineNumber, line } of lines) {
+        const response = await session.sendCommand(line);
+
+        if (IOS_ERROR_PATTERN.test(response)) {
+          lineErrors.push({ lineNumber, line, response });
+          options.onProgress?.({
+            lineNumber,
+            totalLines: lines.length,
+            line,
+            status: "rejected",
+            response,
+          });
+
+          if (options.stopOnError) {
+            break;
+          }
+          continue;
+        }
+
+        linesApplied++;
+        options.onProgress?.({
+          lineNumber,
+          totalLines: lines.length,
+          line,
+          status: "accepted",
+          response: response || undefined,
+        });
+      }
+    } finally {
+      // Always leave configuration mode, even after a rejected line. A
+      // failure here must not hide the error that ended the push.
+      await session
+        .sendCommand("end")
+        .catch((error) =>
+          logger.warn(`Could not leave configuration mode: ${error}`),
+        );
+    }
+
+    if (lineErrors.length === 0) {
+      return {
+        success: true,
+        result: `Configuration applied successfully (${linesApplied} lines)`,
+        linesApplied,
+        lineErrors,
+      };
+    }
+
+    const firstError = lineErrors[0];
+    return {
+      success: false,
+      error: options.stopOnError
+        ? `Configuration rejected at line ${firstError.lineNumber} (${firstError.line}): ${firstError.response}`
+        : `${lineErrors.length} configuration line(s) rejected by device`,
+      result: `${linesApplied} of ${lines.length} lines applied`,
+      linesApplied,
+      lineErrors,
+    };
+  }
+
+  private extractConfigLines(
+    configuration: string,
+  ): Array<{ lineNumber: number; line: string }> {
+    return configuration
+      .split("\n")
+      .map((line, index) => ({ lineNumber: index + 1, line: line.trim() }))
+      .filter(
+        ({ line }) =>
+          line.length > 0 &&
+          !line.startsWith("!") &&
+          !CONFIG_MODE_COMMANDS.includes(line.toLowerCase()),
+      );
+  }
+
+  private recordConfigPush(
+    device: NetworkDevice,
+    configuration: string,
+    success: boolean,
+  ): void {
+    this.deviceRepository.recordConfigPush({
+      deviceId: device.id,
+      deviceName: device.name,
+      configuration: configuration.substring(0, 100) + "...",
+      timestamp: new Date().toISOString(),
+      success,
+    });
+  }
+
+  getConnectionHistory(): ConnectionHistoryEntry[] {
+    return this.deviceRepository.getConnectionHistory(50); // Return last 50 entries
   }
 
   getActiveConnections(): Record<string, any> {
     const result: Record<string, any> = {};
 
     this.activeConnections.forEach((info, deviceId) => {
-      const device = this.devices.get(deviceId);
+      const device = this.deviceRepository.findById(deviceId);
       result[deviceId] = {
         connectedAt: info.connectedAt,
         connectionType: info.connectionType,
@@ -341,13 +912,14 @@ export class NetworkOperations {
   async pushConfigurationToDummyRouter(
     deviceId: string,
     configuration: string,
+    onProgress?: (steps: Array<any>) => void,
   ): Promise<{
     success: boolean;
     result?: string;
     error?: string;
     steps?: Array<any>;
   }> {
-    const device = this.devices.get(deviceId);
+    const device = this.deviceRepository.findById(deviceId);
     if (!device) {
       return { success: false, error: "Device not found" };
     }
@@ -356,61 +928,53 @@ export class NetworkOperations {
       return { success: false, error: "Device not connected" };
     }
 
+    const lines = this.extractConfigLines(configuration);
+    const steps = [
+      "Connecting to device",
+      "Entering configuration mode",
+      `Applying configuration (${lines.length} lines)`,
+      "Saving configuration",
+      "Verifying configuration",
+    ].map((action, index) => ({
+      step: index + 1,
+      action,
+      status: "pending",
+      timestamp: new Date().toISOString(),
+    }));
+
+    // Report each step as it actually starts and finishes
+    const advance = (index: number, status: string) => {
+      steps[index].status = status;
+      steps[index].timestamp = new Date().toISOString();
+      onProgress?.(steps.map((step) => ({ ...step })));
+    };
+
     try {
       logger.info(`Pushing configuration to dummy router: ${device.name}`);
 
-      // Simulate configuration push steps
-      const steps = [
-        {
-          step: 1,
-          action: "Connecting to device",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-        },
-        {
-          step: 2,
-          action: "Entering configuration mode",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-        },
-        {
-          step: 3,
-          action: "Applying configuration",
-          status: "in-progress",
-          timestamp: new Date().toISOString(),
-        },
-      ];
-
-      // Simulate processing time
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      steps[2].status = "completed";
-      steps.push(
-        {
-          step: 4,
-          action: "Saving configuration",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-        },
-        {
-          step: 5,
-          action: "Verifying configuration",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-        },
-      );
+      advance(0, "completed");
+      advance(1, "completed");
+      advance(2, "in-progress");
+
+      // The dummy router takes the lines one at a time, as a device would
+      lines.forEach((_, index) => {
+        steps[2].action = `Applying configuration (${index + 1}/${lines.length} lines)`;
+        advance(2, index + 1 < lines.length ? "in-progress" : "completed");
+      });
+      if (lines.length === 0) advance(2, "completed");
+
+      advance(3, "in-progress");
 
       // Store the configuration in dummy router
-      this.dummyRouterConfigs.set(deviceId, configuration);
+      this.dummyRouterConfigs.set(
+        deviceId,
+        this.vault.sealConfig(configuration),
+      );
+      advance(3, "completed");
+      advance(4, "completed");
 
       // Log the push history
-      this.configPushHistory.push({
-        deviceId,
-        deviceName: device.name,
-        configuration: configuration.substring(0, 100) + "...",
-        timestamp: new Date().toISOString(),
-        success: true,
-      });
+      this.recordConfigPush(device, configuration, true);
 
       logger.info(
         `Configuration successfully pushed to dummy router: ${device.name}`,
@@ -424,14 +988,22 @@ export class NetworkOperations {
     } catch (error) {
       const errorMsg = `Error pushing configuration to dummy router ${deviceId}: ${error}`;
       logger.error(errorMsg);
-      return { success: false, error: errorMsg };
+
+      const failedIndex = steps.findIndex(
+        (step) => step.status === "in-progress",
+      );
+      if (failedIndex >= 0) {
+        advance(failedIndex, "failed");
+      }
+
+      return { success: false, error: errorMsg, steps };
     }
   }
 
   async retrieveConfigurationFromDummyRouter(
     deviceId: string,
   ): Promise<{ success: boolean; configuration?: string; error?: string }> {
-    const device = this.devices.get(deviceId);
+    const device = this.deviceRepository.findById(deviceId);
     if (!device) {
       return { success: false, error: "Device not found" };
     }
@@ -443,9 +1015,6 @@ export class NetworkOperations {
     try {
       logger.info(`Retrieving configuration from dummy router: ${device.name}`);
 
-      // Simulate retrieval delay
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
       const storedConfig = this.dummyRouterConfigs.get(deviceId);
 
       if (!storedConfig) {
@@ -462,7 +1031,7 @@ export class NetworkOperations {
 
       return {
         success: true,
-        configuration: storedConfig,
+        configuration: this.vault.revealConfig(storedConfig),
       };
     } catch (error) {
       const errorMsg = `Error retrieving configuration from dummy router ${deviceId}: ${error}`;
@@ -471,23 +1040,35 @@ export class NetworkOperations {
     }
   }
 
-  getConfigPushHistory(): Array<any> {
-    return this.configPushHistory.slice(-20); // Return last 20 entries
+  getConfigPushHistory(): ConfigPushHistoryEntry[] {
+    return this.deviceRepository.getConfigPushHistory(20); // Return last 20 entries
   }
 
   getDummyRouterStatus(deviceId: string): any {
-    const device = this.devices.get(deviceId);
-    const hasConfig = this.dummyRouterConfigs.has(deviceId);
+    const device = this.deviceRepository.findById(deviceId);
+    const storedConfig = this.dummyRouterConfigs.get(deviceId);
     const isConnected = this.activeConnections.has(deviceId);
 
     return {
       deviceId,
       deviceName: device?.name || "Unknown",
-      hasStoredConfig: hasConfig,
+      hasStoredConfig: storedConfig !== undefined,
+      encrypted: this.vault.isEncrypted(storedConfig),
       connected: isConnected,
-      configSize: hasConfig
-        ? this.dummyRouterConfigs.get(deviceId)?.length || 0
+      configSize: storedConfig
+        ? this.vault.revealConfig(storedConfig).length
         : 0,
     };
   }
 }
+
+let sharedOperations: NetworkOperations | null = null;
+
+// The instance routes, sockets and automation share, so a connection opened
+// through one is open for all. Created on first use, as it opens the database.
+export const getNetworkOperations = (): NetworkOperations => {
+  if (!sharedOperations) {
+    sharedOperations = new NetworkOperations();
+  }
+  return sharedOperations;
+};
@@ -0,0 +1,795 @@
+import { CliNode, IosCliEngine, LOOPBACK_INTERFACE } from "./IosCliEngine";
+import { IosConfigTree } from "./IosConfigTree";
+import {
+  SimulatedRouter,
+  RouterInterface,
+  RouteEntry,
+  CliContext,
+  ConfigCommand,
+  DevicePlatform,
+} from "../types";
+import {
+  ipToNumber,
+  isIpv4,
+  maskToPrefix,
+  numberToIp,
+  parsePrefix,
+  classfulPrefix,
+} from "../utils/ipv4";
+
+const FEATURE_DISABLED = "% Invalid command at '^' marker.";
+
+// NX-OS writes addresses and routes as prefixes, enables routing protocols
+// with "feature" and puts interfaces into OSPF from the interface itself
+export class NxosCliEngine extends IosCliEngine {
+  public readonly platform: DevicePlatform = "nx-os";
+  public readonly vendor: string = "Cisco";
+  public readonly defaultModel: string = "N9K-C9300v";
+  public readonly softwareVersion: string = "NX-OS 9.3(8)";
+  public readonly models: RegExp = /n9k|n7k|nexus|nx-?os/i;
+  public readonly deviceTypes: string[] = ["cisco_nxos"];
+  public readonly evidenceCommands: string[] = [
+    "show ip interface brief",
+    "show ip ospf neighbors",
+    "show ip bgp summary",
+    "show ip route",
+    "show system resources",
+  ];
+
+  public configCommands(text: string): ConfigCommand[] {
+    return IosConfigTree.commands(text).filter(
+      ({ line }) => !line.startsWith("version "),
+    );
+  }
+
+  // Two-space indents and blank lines between sections, as NX-OS prints them
+  public render(config: IosConfigTree): string {
+    const lines = this.nativeConfig(config)
+      .render()
+      .split("\n")
+      .filter((line) => line !== "end")
+      .map((line) =>
+        line === "!"
+          ? ""
+          : line
+              .replace(/^ +/, (indent) => "  ".repeat(indent.length))
+              .replace(/^interface Loopback/, "interface loopback"),
+      );
+    return [
+      `version ${this.version()} Bios:version`,
+      ...lines.filter((line, index) => line !== "" || lines[index - 1] !== ""),
+    ]
+      .join("\n")
+      .trimEnd();
+  }
+
+  protected translate(
+    section: string[],
+    command: string,
+    config: IosConfigTree,
+  ): ConfigCommand[] | string {
+    const features = config
+      .lines()
+      .filter((line) => line.startsWith("feature "))
+      .map((line) => line.slice("feature ".length));
+    const header = section[0] || "";
+
+    const router = command.match(/^router (ospf|bgp) /);
+    if (section.length === 0 && router) {
+      // The routing protocol needs its feature enabled first
+      return features.includes(router[1])
+        ? [{ path: [], line: command }]
+        : FEATURE_DISABLED;
+    }
+
+    const route = command.match(/^ip route (\S+) (.+)$/);
+    if (section.length === 0 && route) {
+      const prefix = parsePrefix(route[1]);
+      return prefix
+        ? [{ path: [], line: `ip route ${prefix.join(" ")} ${route[2]}` }]
+        : "% Invalid ip prefix";
+    }
+
+    if (command === "line console" || command === "line vty") {
+      return [
+        {
+          path: [],
+          line: command === "line vty" ? "line vty 0 4" : "line con 0",
+        },
+      ];
+    }
+
+    const user = command.match(
+      /^username (\S+) password (\S+)(?: role (network-admin|network-operator))?$/,
+    );
+    if (user) {
+      const [, name, secret, role] = user;
+      const privilege = role === "network-admin" ? " privilege 15" : "";
+      return [
+        {
+          path: section,
+          line: `username ${name}${privilege} secret ${secret}`,
+        },
+      ];
+    }
+
+    if (header.startsWith("interface ")) {
+      const address = command.match(/^ip address (\S+\/\d+)$/);
+      if (address) {
+        const prefix = parsePrefix(address[1]);
+        return prefix
+          ? [{ path: section, line: `ip address ${prefix.join(" ")}` }]
+          : "% Invalid ip address";
+      }
+      const ospf = command.match(/^ip router ospf (\S+) area (\S+)$/);
+      if (ospf) {
+        return features.includes("ospf")
+          ? [{ path: section, line: `ip ospf ${ospf[1]} area ${ospf[2]}` }]
+          : FEATURE_DISABLED;
+      }
+    }
+
+    if (header.startsWith("router bgp")) {
+      const network = command.match(/^network (\S+)$/);
+      const prefix = network ? parsePrefix(network[1]) : undefined;
+      if (network) {
+        return prefix
+          ? [{ path: section, line: `network ${prefix.join(" mask ")}` }]
+          : "% Invalid ip prefix";
+      }
+      if (command.startsWith("router-id ")) {
+        return [{ path: section, line: `bgp ${command}` }];
+      }
+    }
+
+    return super.translate(section, command, config);
+  }
+
+  protected fromIos(
+    path: string[],
+    line: string,
+    config: IosConfigTree,
+  ): ConfigCommand[] {
+    const header = path[0] || "";
+    const section = path.map((text) => this.nativeHeader(text));
+
+    if (path.length === 0) {
+      if (
+        line === "service password-encryption" ||
+        line.startsWith("enable ")
+      ) {
+        return [];
+      }
+      if (line.startsWith("line ")) {
+        return [{ path, line: this.nativeHeader(line) }];
+      }
+
+      const router = line.match(/^router (ospf|bgp) /);
+      if (router) {
+        return [
+          { path, line: `feature ${router[1]}` },
+          { path, line },
+        ];
+      }
+
+      const route = line.match(/^ip route (\S+) (\S+) (.+)$/);
+      if (route) {
+        const [, network, mask, rest] = route;
+        return [
+          { path, line: `ip route ${network}/${maskToPrefix(mask)} ${rest}` },
+        ];
+      }
+
+      const user = line.match(/^username (\S+)( privilege 15)? secret (\S+)$/);
+      if (user) {
+        const [, name, admin, secret] = user;
+        const role = admin ? "network-admin" : "network-operator";
+        return [
+          { path, line: `username ${name} password ${secret} role ${role}` },
+        ];
+      }
+
+      // Interfaces join OSPF under their own section
+      const iface = line.match(/^interface (.+)$/);
+      const area = iface ? this.ospfAreas(config).get(iface[1]) : undefined;
+      if (area) {
+        return [
+          { path, line },
+          {
+            path: [line],
+            line: `ip router ospf ${area.process} area ${this.dottedArea(area.area)}`,
+          },
+        ];
+      }
+      return [{ path, line }];
+    }
+
+    if (header.startsWith("interface ")) {
+      if (/^ip ospf \S+ area /.test(line)) return [];
+      const address = line.match(/^ip address (\S+) (\S+)$/);
+      return address
+        ? [
+            {
+              path: section,
+              line: `ip address ${address[1]}/${maskToPrefix(address[2])}`,
+            },
+          ]
+        : [{ path: section, line }];
+    }
+
+    if (header.startsWith("router ospf")) {
+      return line.startsWith("network ") ? [] : [{ path: section, line }];
+    }
+
+    if (header.startsWith("router bgp")) {
+      const network = line.match(/^network (\S+)(?: mask (\S+))?$/);
+      if (network) {
+        const [, address, mask] = network;
+        const length = mask ? maskToPrefix(mask) : classfulPrefix(address);
+        return [{ path: section, line: `network ${address}/${length}` }];
+      }
+      return [
+        { path: section, line: line.replace(/^bgp router-id /, "router-id ") },
+      ];
+    }
+
+    // NX-OS lines only take an idle timeout, in minutes
+    if (header.startsWith("line ")) {
+      const timeout = line.match(/^exec-timeout (\d+)/);
+      return timeout
+        ? [{ path: section, line: `exec-timeout ${timeout[1]}` }]
+        : [];
+    }
+    return [{ path: section, line }];
+  }
+
+  protected save(context: CliContext): string {
+    context.saveConfig();
+    return "[########################################] 100%\nCopy complete, now saving to disk (please wait)...\nCopy complete.";
+  }
+
+  protected buildExecCommands(): CliNode[] {
+    return super.buildExecCommands().filter((node) => node.keyword !== "write");
+  }
+
+  protected buildShowCommands(): CliNode[] {
+    const commands = super.buildShowCommands();
+    const ip = commands.find((node) => node.keyword === "ip")!;
+
+    return this.sorted([
+      ...commands.filter(
+        (node) =>
+          !["arp", "interfaces", "ip", "processes"].includes(node.keyword),
+      ),
+      {
+        keyword: "interface",
+        help: "Display interface information",
+        run: ({ router }) => this.showInterface(router.interfaces),
+        children: [
+          {
+            keyword: "INTERFACE",
+            help: "",
+            argument: "interface",
+            run: ({ router }, [name]) =>
+              this.showInterface(
+                router.interfaces.filter((iface) => iface.name === name),
+              ),
+          },
+        ],
+      },
+      {
+        ...ip,
+        children: [
+          {
+            keyword: "arp",
+            help: "Display ARP table",
+            run: ({ router }) => this.showArp(router),
+          },
+          {
+            keyword: "bgp",
+            help: "Display BGP information",
+            children: [
+              {
+                keyword: "summary",
+                help: "Summary of BGP neighbor status",
+                run: ({ router }) => this.showIpBgpSummary(router),
+              },
+            ],
+          },
+          {
+            keyword: "interface",
+            help: "Display IP interface status and configuration",
+            children: [
+              {
+                keyword: "brief",
+                help: "Display brief IP interface status",
+                run: ({ router }) => this.showIpInterfaceBrief(router),
+              },
+            ],
+          },
+          {
+            keyword: "ospf",
+            help: "Display OSPF information",
+            children: [
+              {
+                keyword: "neighbors",
+                help: "Display OSPF neighbors",
+                run: ({ router }) => this.showIpOspfNeighbor(router),
+              },
+            ],
+          },
+          {
+            keyword: "route",
+            help: "Display IP routing table",
+            run: ({ router }) => this.showIpRoute(router),
+          },
+        ],
+      },
+      {
+        keyword: "system",
+        help: "Show system information",
+        children: [
+          {
+            keyword: "resources",
+            help: "Display system resources",
+            run: ({ router }) => this.showSystemResources(router),
+          },
+        ],
+      },
+    ]);
+  }
+
+  protected buildConfigCommands(): CliNode[] {
+    const commands = super.buildConfigCommands();
+    const ip = commands.find((node) => node.keyword === "ip")!;
+    const router = commands.find((node) => node.keyword === "router")!;
+    const enterLine = (context: CliContext, _args: string[], line: string) =>
+      this.enter(context, "config-line", line);
+
+    return this.sorted([
+      ...commands.filter(
+        (node) =>
+          !["enable", "ip", "line", "router", "service", "username"].includes(
+            node.keyword,
+          ),
+      ),
+      {
+        keyword: "feature",
+        help: "Command to enable/disable features",
+        children: [
+          ["bgp", "Enable/Disable Border Gateway Protocol (BGP)"],
+          ["interface-vlan", "Enable/Disable interface vlan"],
+          ["lacp", "Enable/Disable LACP"],
+          ["ospf", "Enable/Disable Open Shortest Path First Protocol (OSPF)"],
+        ].map(([keyword, help]) => ({ keyword, help, run: this.configure })),
+      },
+      {
+        ...ip,
+        children: this.editTree(ip.children!, ["route"], (node) => ({
+          ...node,
+          children: [
+            {
+              keyword: "A.B.C.D/LEN",
+              help: "IP prefix and network mask length in format x.x.x.x/m",
+              argument: "prefix",
+              children: node.children![0].children![0].children,
+            },
+          ],
+        })),
+      },
+      {
+        keyword: "line",
+        help: "Configure a terminal line",
+        children: [
+          {
+            keyword: "console",
+            help: "Configure console line",
+            run: enterLine,
+          },
+          { keyword: "vty", help: "Virtual terminal", run: enterLine },
+        ],
+      },
+      {
+        ...router,
+        children: this.editTree(router.children!, ["ospf"], (node) => ({
+          ...node,
+          children: [
+            {
+              keyword: "WORD",
+              help: "Process tag",
+              argument: "word",
+              run: node.children![0].run,
+            },
+          ],
+        })),
+      },
+      {
+        keyword: "username",
+        help: "Configure user information",
+        children: [
+          {
+            keyword: "WORD",
+            help: "User name",
+            argument: "word",
+            children: [
+              {
+                keyword: "password",
+                help: "Password for the user",
+                children: [
+                  {
+                    keyword: "WORD",
+                    help: "Password",
+                    argument: "word",
+                    run: this.configure,
+                    children: [
+                      {
+                        keyword: "role",
+                        help: "Role which the user is to be assigned to",
+                        children: [
+                          ["network-admin", "System configured role"],
+                          ["network-operator", "System configured role"],
+                        ].map(([keyword, help]) => ({
+                          keyword,
+                          help,
+                          run: this.configure,
+                        })),
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  }
+
+  protected buildInterfaceCommands(): CliNode[] {
+    const commands = super.buildInterfaceCommands();
+    const ip = commands.find((node) => node.keyword === "ip")!;
+    const address = ip.children!.find((node) => node.keyword === "address")!;
+    const ospf = ip.children!.find((node) => node.keyword === "ospf")!;
+
+    return this.sorted([
+      ...commands.filter((node) => node.keyword !== "ip"),
+      {
+        ...ip,
+        children: [
+          {
+            ...address,
+            children: [
+              {
+                keyword: "A.B.C.D/LEN",
+                help: "IP prefix and network mask length in format x.x.x.x/m",
+                argument: "prefix",
+                run: this.configure,
+              },
+              ...address.children!,
+            ],
+          },
+          {
+            ...ospf,
+            children: ospf.children!.filter((node) => !node.argument),
+          },
+          {
+            keyword: "router",
+            help: "Routing protocol configuration",
+            children: [
+              {
+                keyword: "ospf",
+                help: "OSPF parameters",
+                children: [
+                  {
+                    keyword: "WORD",
+                    help: "Instance tag",
+                    argument: "word",
+                    children: [
+                      {
+                        keyword: "area",
+                        help: "Configure area properties",
+                        children: this.ospfArea(),
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        keyword: "switchport",
+        help: "Configure switchport parameters",
+        run: this.configure,
+      },
+    ]);
+  }
+
+  // Interfaces join OSPF with "ip router ospf" instead
+  protected buildOspfCommands(): CliNode[] {
+    return super
+      .buildOspfCommands()
+      .filter((node) => node.keyword !== "network");
+  }
+
+  protected buildBgpCommands(): CliNode[] {
+    const commands = super.buildBgpCommands();
+    const routerId = commands.find((node) => node.keyword === "bgp")!
+      .children![0];
+
+    return this.sorted([
+      ...commands.filter(
+        (node) => node.keyword !== "bgp" && node.keyword !== "network",
+      ),
+      {
+        keyword: "network",
+        help: "Configure an IP prefix to advertise",
+        children: [
+          {
+            keyword: "A.B.C.D/LEN",
+            help: "IP prefix in format x.x.x.x/m",
+            argument: "prefix",
+            run: this.configure,
+          },
+        ],
+      },
+      routerId,
+    ]);
+  }
+
+  protected buildLineCommands(): CliNode[] {
+    return [
+      ...this.modeCommands("Exit from line configuration mode"),
+      {
+        keyword: "exec-timeout",
+        help: "Configure exec timeout in minutes",
+        children: [
+          {
+            keyword: "<0-525600>",
+            help: "Timeout in minutes (0 to disable)",
+            argument: "number",
+            range: [0, 525600],
+            run: this.configure,
+          },
+        ],
+      },
+    ];
+  }
+
+  protected showVersion(router: SimulatedRouter): string {
+    const version = this.version(router);
+    return [
+      "Cisco Nexus Operating System (NX-OS) Software",
+      "TAC support: http://www.cisco.com/tac",
+      "Copyright (C) 2002-2021, Cisco and/or its affiliates.",
+      "All rights reserved.",
+      "",
+      "Software",
+      "  BIOS: version ",
+      ` NXOS: version ${version}`,
+      `  NXOS image file is: bootflash:///nxos.${version.replace(/[()]/g, ".").replace(/\.$/, "")}.bin`,
+      "",
+      "Hardware",
+      `  cisco Nexus9000 ${router.model.replace(/^N9K-/, "")} Chassis `,
+      "  Intel(R) Xeon(R) CPU E5-2660 v3 @ 2.60GHz with 8161924 kB of memory.",
+      `  Processor Board ID ${router.serialNumber}`,
+      "",
+      `  Device name: ${router.name}`,
+      "  bootflash:    4287040 kB",
+      `Kernel uptime is ${this.formatUptime(router.createdAt)}`,
+    ].join("\n");
+  }
+
+  // NX-OS lists only interfaces with an address
+  protected showIpInterfaceBrief(router: SimulatedRouter): string {
+    const rows = router.interfaces
+      .filter((iface) => iface.ipAddress)
+      .map(
+        (iface) =>
+          `${this.shortName(iface.name).padEnd(20)} ${iface.ipAddress!.padEnd(15)} ${this.interfaceState(iface)}`,
+      );
+    return [
+      'IP Interface Status for VRF "default"(1)',
+      "Interface            IP Address      Interface Status",
+      ...rows,
+    ].join("\n");
+  }
+
+  protected showIpRoute(router: SimulatedRouter): string {
+    const routes = [...router.routingTable].sort(
+      (a, b) =>
+        ipToNumber(a.network) - ipToNumber(b.network) ||
+        a.prefixLength - b.prefixLength,
+    );
+    const prefixes = new Map<string, RouteEntry[]>();
+    routes.forEach((route) => {
+      const key = `${route.network}/${route.prefixLength}`;
+      prefixes.set(key, [...(prefixes.get(key) || []), route]);
+    });
+
+    const lines = [
+      'IP Route Table for VRF "default"',
+      "'*' denotes best ucast next-hop",
+      "'**' denotes best mcast next-hop",
+      "'[x/y]' denotes [preference/metric]",
+      "'%<string>' in via output denotes VRF <string>",
+      "",
+    ];
+    const age = this.formatBgpUptime(
+      Math.floor((Date.now() - new Date(router.lastModified).getTime()) / 1000),
+    );
+    const ospfTag =
+      router.runningConfig.match(/^router ospf (\S+)/m)?.[1] || "1";
+    prefixes.forEach((entries, prefix) => {
+      const attached = entries.some((entry) => !entry.nextHop);
+      lines.push(
+        `${prefix}, ubest/mbest: ${entries.length}/0${attached ? ", attached" : ""}`,
+      );
+      entries.forEach((entry) => {
+        const iface = entry.interface
+          ? router.interfaces.find((other) => other.name === entry.interface)
+          : undefined;
+        const via = entry.nextHop || iface?.ipAddress || entry.interface;
+        const source =
+          entry.protocol === "connected"
+            ? "direct"
+            : entry.protocol === "ospf"
+              ? `ospf-${ospfTag}, ${entry.code.includes("IA") ? "inter" : "intra"}`
+              : entry.protocol === "bgp"
+                ? `bgp-${router.bgp?.localAs}, external, tag ${router.bgp?.localAs}`
+                : entry.protocol;
+        lines.push(
+          `    *via ${[
+            via,
+            entry.interface ? this.shortName(entry.interface) : undefined,
+            `[${entry.adminDistance ?? 0}/${entry.metric ?? 0}]`,
+            entry.age || age,
+            source,
+          ]
+            .filter(Boolean)
+            .join(", ")}`,
+        );
+      });
+    });
+    return lines.join("\n");
+  }
+
+  protected showIpOspfNeighbor(router: SimulatedRouter): string {
+    const tag = router.runningConfig.match(/^router ospf (\S+)/m)?.[1];
+    if (!tag) return "";
+
+    return [
+      ` OSPF Process ID ${tag} VRF default`,
+      ` Total number of neighbors: ${router.ospfNeighbors.length}`,
+      " Neighbor ID     Pri State            Up Time  Address         Interface",
+      ...router.ospfNeighbors.map(
+        (neighbor) =>
+          ` ${neighbor.neighborId.padEnd(15)} ${String(neighbor.priority).padStart(3)} ${neighbor.state.replace(/\s+/g, "").padEnd(16)} ${this.formatBgpUptime(60).padEnd(8)} ${neighbor.address.padEnd(15)} ${this.shortName(neighbor.interface)}`,
+      ),
+    ].join("\n");
+  }
+
+  protected showIpBgpSummary(router: SimulatedRouter): string {
+    const { bgp } = router;
+    if (!bgp) return "% BGP not active";
+
+    const version = bgp.networkEntries + 1;
+    const established = bgp.neighbors.filter(
+      (neighbor) => neighbor.state === "Established",
+    );
+    return [
+      "BGP summary information for VRF default, address family IPv4 Unicast",
+      `BGP router identifier ${bgp.routerId}, local AS number ${bgp.localAs}`,
+      `BGP table version is ${version}, IPv4 Unicast config peers ${bgp.neighbors.length}, capable peers ${established.length}`,
+      `${bgp.networkEntries} network entries and ${bgp.pathEntries} paths using ${bgp.networkEntries * 132 + bgp.pathEntries * 112} bytes of memory`,
+      "",
+      "Neighbor        V    AS MsgRcvd MsgSent   TblVer  InQ OutQ Up/Down  State/PfxRcd",
+      ...bgp.neighbors.map((neighbor) => {
+        const seconds = neighbor.establishedAt
+          ? Math.floor(
+              (Date.now() - new Date(neighbor.establishedAt).getTime()) / 1000,
+            )
+          : 0;
+        const messages = neighbor.establishedAt
+          ? 4 + Math.floor(seconds / 60)
+          : 0;
+        return `${neighbor.address.padEnd(16)}4 ${String(neighbor.remoteAs).padStart(5)} ${String(messages).padStart(7)} ${String(messages).padStart(7)} ${String(neighbor.establishedAt ? version : 0).padStart(8)}    0    0 ${(neighbor.establishedAt ? this.formatBgpUptime(seconds) : "never").padEnd(8)} ${neighbor.state === "Established" ? neighbor.prefixesReceived : neighbor.state}`;
+      }),
+    ].join("\n");
+  }
+
+  protected showArp(router: SimulatedRouter): string {
+    const entries = router.arpTable
+      .filter((entry) => entry.ageMinutes !== null)
+      .sort((a, b) => ipToNumber(a.ipAddress) - ipToNumber(b.ipAddress));
+    return [
+      "",
+      "IP ARP Table for context default",
+      `Total number of entries: ${entries.length}`,
+      "Address         Age       MAC Address     Interface       Flags",
+      ...entries.map(
+        (entry) =>
+          `${entry.ipAddress.padEnd(15)} 00:${String(entry.ageMinutes).padStart(2, "0")}:00  ${(entry.macAddress || "INCOMPLETE").padEnd(14)}  ${entry.interface}`,
+      ),
+    ].join("\n");
+  }
+
+  protected showRunningConfig(router: SimulatedRouter): string {
+    const time = new Date().toUTCString();
+    return `\n!Command: show running-config\n!Running configuration last done at: ${new Date(router.lastModified).toUTCString()}\n!Time: ${time}\n\n${router.runningConfig}`;
+  }
+
+  private showInterface(interfaces: RouterInterface[]): string {
+    return interfaces
+      .map((iface) => {
+        const loopback = LOOPBACK_INTERFACE.test(iface.name);
+        const lines = [
+          `${iface.name.replace(/^Loopback/, "loopback")} is ${iface.status === "administratively down" ? "down (Administratively down)" : iface.status}`,
+          `admin state is ${iface.status === "administratively down" ? "down" : "up"},${loopback ? "" : " Dedicated Interface"}`,
+          loopback
+            ? "  Hardware: Loopback"
+            : `  Hardware: 100/1000/10000 Ethernet, address: ${iface.macAddress} (bia ${iface.macAddress})`,
+        ];
+        if (iface.description) {
+          lines.push(`  Description: ${iface.description}`);
+        }
+        if (iface.ipAddress && iface.subnetMask) {
+          lines.push(
+            `  Internet Address is ${iface.ipAddress}/${maskToPrefix(iface.subnetMask)}`,
+          );
+        }
+        lines.push(
+          loopback
+            ? "  MTU 1500 bytes, BW 8000000 Kbit, DLY 5000 usec"
+            : "  MTU 1500 bytes, BW 1000000 Kbit , DLY 10 usec",
+        );
+        return lines.join("\n");
+      })
+      .join("\n\n");
+  }
+
+  private showSystemResources(router: SimulatedRouter): string {
+    const cpu = router.cpuUsage;
+    const total = 8161924;
+    const used = Math.round((total * router.memoryUsage) / 100);
+    const load = (cpu / 100).toFixed(2);
+    return [
+      `Load average:   1 minute: ${load}   5 minutes: ${load}   15 minutes: ${load}`,
+      "Processes:   511 total, 1 running",
+      `CPU states  :   ${(cpu * 0.7).toFixed(2)}% user,   ${(cpu * 0.3).toFixed(2)}% kernel,   ${(100 - cpu).toFixed(2)}% idle`,
+      `Memory usage:   ${total}K total,   ${used}K used,   ${total - used}K free`,
+    ].join("\n");
+  }
+
+  private interfaceState(iface: RouterInterface): string {
+    const admin = iface.status === "administratively down" ? "down" : "up";
+    const link = iface.status === "up" ? "up" : "down";
+    return `protocol-${this.lineProtocol(iface)}/link-${link}/admin-${admin}`;
+  }
+
+  private shortName(name: string): string {
+    return name
+      .replace(/^Ethernet/, "Eth")
+      .replace(/^Loopback/, "Lo")
+      .replace(/^Port-channel/, "Po");
+  }
+
+  private nativeHeader(header: string): string {
+    if (header.startsWith("line con")) return "line console";
+    if (header.startsWith("line vty")) return "line vty";
+    return header;
+  }
+
+  // NX-OS prints OSPF areas in dotted form
+  private dottedArea(area: string): string {
+    return isIpv4(area) ? area : numberToIp(Number(area));
+  }
+
+  private version(router?: SimulatedRouter): string {
+    return (router?.iosVersion ?? this.softwareVersion).replace(
+      /^NX-?OS\s*/i,
+      "",
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import axios from "axios";
+import { LLMProvider } from "./LLMProvider";
+import { config as settings } from "../config/config";
+import {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMModelInfo,
+  LLMProviderConfig,
+} from "../types";
+
+// A local Ollama server; streamed replies arrive as one JSON object per line
+export class OllamaProvider extends LLMProvider {
+  public readonly name: string = "ollama";
+  public readonly label: string = "Ollama";
+  public readonly defaultModel: string = "llama2";
+  public readonly models: string[] = [
+    "llama2",
+    "llama3",
+    "codellama",
+    "mistral",
+    "mixtral",
+    "neural-chat",
+    "starling-lm",
+    "dolphin-mixtral",
+  ];
+  public readonly defaultBaseUrl: string = "http://localhost:11434";
+  public readonly requiresApiKey: boolean = false;
+  public readonly defaults: Partial<LLMProviderConfig> = {
+    baseUrl: settings.ollamaBaseUrl,
+    defaultModel: settings.ollamaModel,
+  };
+
+  public async complete(
+    config: LLMProviderConfig,
+    request: LLMCompletionRequest,
+  ): Promise<LLMCompletion> {
+    const model = this.model(config, request);
+    const response = await this.post(
+      config,
+      `${this.baseUrl(config)}/api/generate`,
+      this.body(config, request, model, false),
+      {},
+      request,
+    );
+
+    return {
+      text: (response.data.response || "").trim(),
+      model: response.data.model || model,
+      truncated: response.data.done_reason === "length",
+    };
+  }
+
+  public async stream(
+    config: LLMProviderConfig,
+    request: LLMCompletionRequest,
+    onText: (text: string) => void,
+  ): Promise<LLMCompletion> {
+    const model = this.model(config, request);
+    const completion: LLMCompletion = { text: "", model, truncated: false };
+    await this.postStream(
+      config,
+      `${this.baseUrl(config)}/api/generate`,
+      this.body(config, request, model, true),
+      {},
+      request,
+      (line) => {
+        const event = JSON.parse(line);
+        if (event.error) throw new Error(`${this.label} ${event.error}`);
+        if (event.response) {
+          completion.text += event.response;
+          onText(event.response);
+        }
+        if (event.done) completion.truncated = event.done_reason === "length";
+      },
+    );
+
+    completion.text = completion.text.trim();
+    return completion;
+  }
+
+  // The models pulled onto the server
+  public async listModels(config: LLMProviderConfig): Promise<LLMModelInfo[]> {
+    const response = await axios.get(`${this.baseUrl(config)}/api/tags`, {
+      timeout: config.timeout,
+    });
+    return (response.data.models || []).map((model: { name: string }) => ({
+      id: model.name,
+      streaming: this.streaming,
+    }));
+  }
+
+  private body(
+    config: LLMProviderConfig,
+    request: LLMCompletionRequest,
+    model: string,
+    stream: boolean,
+  ): object {
+    return {
+      model,
+      system: request.system,
+      prompt: request.prompt,
+      stream,
+      options: {
+        temperature: request.temperature ?? 0.1,
+        num_predict: config.maxTokens,
+      },
+    };
+  }
+}
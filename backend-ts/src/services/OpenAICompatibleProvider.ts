@@ -0,0 +1,164 @@
+import axios from "axios";
+import { LLMProvider } from "./LLMProvider";
+import { config as settings } from "../config/config";
+import {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMModelInfo,
+  LLMProviderConfig,
+} from "../types";
+
+// Any server that speaks the OpenAI chat completions API: vLLM, LM Studio,
+// llama.cpp server, or an Azure OpenAI deployment when apiVersion is set
+export class OpenAICompatibleProvider extends LLMProvider {
+  public readonly name: string = "openai-compatible";
+  public readonly label: string = "OpenAI-compatible server";
+  public readonly defaultModel: string = "";
+  public readonly models: string[] = [];
+  public readonly requiresApiKey: boolean = false;
+
+  public async complete(
+    config: LLMProviderConfig,
+    request: LLMCompletionRequest,
+  ): Promise<LLMCompletion> {
+    const model = this.model(config, request);
+    const response = await this.post(
+      config,
+      this.url(config, "/chat/completions"),
+      this.body(config, request, model, false),
+      this.headers(config),
+      request,
+    );
+
+    const choice = response.data.choices?.[0];
+    return {
+      text: (choice?.message?.content || "").trim(),
+      model: response.data.model || model,
+      truncated: choice?.finish_reason === "length",
+    };
+  }
+
+  public async stream(
+    config: LLMProviderConfig,
+    request: LLMCompletionRequest,
+    onText: (text: string) => void,
+  ): Promise<LLMCompletion> {
+    const model = this.model(config, request);
+    const completion: LLMCompletion = { text: "", model, truncated: false };
+    await this.postStream(
+      config,
+      this.url(config, "/chat/completions"),
+      this.body(config, request, model, true),
+      this.headers(config),
+      request,
+      (line) => {
+        if (!line.startsWith("data:")) return;
+        const data = line.slice("data:".length).trim();
+        if (data === "[DONE]") return;
+
+        const event = JSON.parse(data);
+        const choice = event.choices?.[0];
+        const text = choice?.delta?.content;
+        if (text) {
+          completion.text += text;
+          onText(text);
+        }
+        if (event.model) completion.model = event.model;
+        if (choice?.finish_reason === "length") completion.truncated = true;
+      },
+    );
+
+    completion.text = completion.text.trim();
+    return completion;
+  }
+
+  public async listModels(config: LLMProviderConfig): Promise<LLMModelInfo[]> {
+    // An Azure base URL names a single deployment
+    if (config.apiVersion) {
+      return config.defaultModel
+        ? [{ id: config.defaultModel, streaming: this.streaming }]
+        : [];
+    }
+    const response = await axios.get(this.url(config, "/models"), {
+      headers: this.headers(config),
+      timeout: config.timeout,
+    });
+    return (response.data.data || [])
+      .filter((model: any) => model.active !== false)
+      .map((model: any) => ({
+        id: model.id,
+        // Groq, vLLM, OpenRouter and llama.cpp server each name it differently
+        contextLength:
+          model.context_window ??
+          model.max_model_len ??
+          model.context_length ??
+          model.meta?.n_ctx_train,
+        streaming: this.streaming,
+      }));
+  }
+
+  private url(config: LLMProviderConfig, path: string): string {
+    const url = `${this.baseUrl(config)}${path}`;
+    return config.apiVersion
+      ? `${url}?api-version=${encodeURIComponent(config.apiVersion)}`
+      : url;
+  }
+
+  private headers(config: LLMProviderConfig): Record<string, string> {
+    if (!config.apiKey) return {};
+    return config.apiVersion
+      ? { "api-key": config.apiKey }
+      : { authorization: `Bearer ${config.apiKey}` };
+  }
+
+  private body(
+    config: LLMProviderConfig,
+    request: LLMCompletionRequest,
+    model: string,
+    stream: boolean,
+  ): object {
+    return {
+      model,
+      messages: [
+        { role: "system", content: request.system },
+        { role: "user", content: request.prompt },
+      ],
+      max_tokens: config.maxTokens,
+      temperature: request.temperature ?? 0.1,
+      stream,
+    };
+  }
+}
+
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  public readonly name: string = "openai";
+  public readonly label: string = "OpenAI";
+  public readonly defaultModel: string = "gpt-4o-mini";
+  public readonly models: string[] = [
+    "gpt-4o-mini",
+    "gpt-4o",
+    "gpt-4.1-mini",
+    "gpt-4.1",
+  ];
+  public readonly defaultBaseUrl: string = "https://api.openai.com/v1";
+  public readonly requiresApiKey: boolean = true;
+  public readonly defaults: Partial<LLMProviderConfig> = {
+    apiKey: settings.openaiApiKey,
+  };
+}
+
+export class GroqProvider extends OpenAICompatibleProvider {
+  public readonly name: string = "groq";
+  public readonly label: string = "Groq";
+  public readonly defaultModel: string = "llama-3.1-8b-instant";
+  public readonly models: string[] = [
+    "llama-3.1-8b-instant",
+    "llama-3.3-70b-versatile",
+    "gemma2-9b-it",
+  ];
+  public readonly defaultBaseUrl: string = "https://api.groq.com/openai/v1";
+  public readonly requiresApiKey: boolean = true;
+  public readonly defaults: Partial<LLMProviderConfig> = {
+    apiKey: settings.groqApiKey,
+  };
+}
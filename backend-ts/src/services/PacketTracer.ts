@@ -0,0 +1,224 @@
+import { RouterSimulator } from "./RouterSimulator";
+import { isIpv4, inSubnet } from "../utils/ipv4";
+import {
+  SimulatedRouter,
+  RouterInterface,
+  RouteEntry,
+  SimulatedLink,
+  PacketHop,
+  PacketOutcome,
+  PacketPath,
+  ReachabilityResult,
+} from "../types";
+
+// IOS traceroute stops after 30 hops; looping packets are dropped at the same point
+const MAX_HOPS = 30;
+
+// Recursive static routes deeper than this are treated as unresolvable
+const MAX_RECURSION = 8;
+
+// Walks packets hop by hop over the simulated links, using each router's routing table
+export class PacketTracer {
+  private simulator: RouterSimulator;
+
+  constructor(simulator: RouterSimulator) {
+    this.simulator = simulator;
+  }
+
+  // An echo request and, once it arrives, the reply back to the source
+  public probe(
+    routerId: string,
+    destination: string,
+    source?: string,
+  ): ReachabilityResult {
+    const failed = (error: string): ReachabilityResult => ({
+      reachable: false,
+      forward: {
+        source: "",
+        destination,
+        hops: [],
+        outcome: "no-route",
+        lossPercent: 0,
+      },
+      error,
+    });
+
+    const router = this.simulator.getRouter(routerId);
+    if (!router) return failed("Router not found");
+    if (!isIpv4(destination)) return failed("% Invalid destination address");
+
+    const sourceIp = source
+      ? this.resolveSource(router, source)
+      : this.defaultSource(router, destination);
+    if (source && !sourceIp) {
+      return failed(
+        "% Invalid source address- IP address not on any of our up interfaces",
+      );
+    }
+
+    const forward = this.trace(router, sourceIp || "", destination);
+    if (forward.outcome !== "delivered") {
+      return { reachable: false, forward };
+    }
+
+    const lastHop = forward.hops[forward.hops.length - 1];
+    const target = lastHop
+      ? this.simulator.getRouter(lastHop.routerId) || router
+      : router;
+    const reply = this.trace(target, destination, forward.source);
+    const delivery =
+      (1 - forward.lossPercent / 100) * (1 - reply.lossPercent / 100);
+    return {
+      reachable: reply.outcome === "delivered",
+      forward,
+      reply,
+      lossPercent: (1 - delivery) * 100,
+    };
+  }
+
+  private trace(
+    origin: SimulatedRouter,
+    source: string,
+    destination: string,
+  ): PacketPath {
+    const hops: PacketHop[] = [];
+    let delivery = 1;
+    const path = (outcome: PacketOutcome): PacketPath => ({
+      source,
+      destination,
+      hops,
+      outcome,
+      lossPercent: (1 - delivery) * 100,
+    });
+
+    let current = origin;
+    for (let hop = 0; hop < MAX_HOPS; hop++) {
+      if (this.ownsAddress(current, destination)) {
+        return path("delivered");
+      }
+
+      const route = this.lookup(current, destination);
+      if (!route) {
+        return path(current === origin ? "no-route" : "unreachable");
+      }
+
+      const egress = this.resolveEgress(current, route, destination, 0);
+      const next =
+        egress && this.neighbor(current, egress.iface, egress.nextHop);
+      if (!next) return path("timeout");
+
+      delivery *= 1 - (next.link.lossPercent || 0) / 100;
+      hops.push({
+        routerId: next.router.id,
+        routerName: next.router.name,
+        ipAddress: next.iface.ipAddress!,
+      });
+      current = next.router;
+    }
+    return path("timeout");
+  }
+
+  private lookup(
+    router: SimulatedRouter,
+    destination: string,
+  ): RouteEntry | undefined {
+    return router.routingTable
+      .filter((route) =>
+        inSubnet(destination, route.network, route.prefixLength),
+      )
+      .sort((a, b) => b.prefixLength - a.prefixLength)[0];
+  }
+
+  // Follows recursive next hops down to a connected interface
+  private resolveEgress(
+    router: SimulatedRouter,
+    route: RouteEntry,
+    destination: string,
+    depth: number,
+  ): { iface: RouterInterface; nextHop: string } | undefined {
+    if (!route.nextHop) {
+      const iface = router.interfaces.find(
+        (candidate) => candidate.name === route.interface,
+      );
+      return iface ? { iface, nextHop: destination } : undefined;
+    }
+    if (depth >= MAX_RECURSION) return undefined;
+
+    const via = this.lookup(router, route.nextHop);
+    return via && via !== route
+      ? this.resolveEgress(router, via, route.nextHop, depth + 1)
+      : undefined;
+  }
+
+  // ARP only resolves when the next hop is the address at the far end of an up link
+  private neighbor(
+    router: SimulatedRouter,
+    iface: RouterInterface,
+    nextHop: string,
+  ):
+    | { router: SimulatedRouter; iface: RouterInterface; link: SimulatedLink }
+    | undefined {
+    if (iface.status !== "up") return undefined;
+
+    const link = this.simulator
+      .getLinks()
+      .find(
+        (candidate) =>
+          candidate.status === "up" &&
+          candidate.endpoints.some(
+            (end) =>
+              end.routerId === router.id && end.interfaceName === iface.name,
+          ),
+      );
+    if (!link) return undefined;
+    const peerEnd = link.endpoints.find(
+      (end) => end.routerId !== router.id || end.interfaceName !== iface.name,
+    );
+    if (!peerEnd) return undefined;
+
+    const peer = this.simulator.getRouter(peerEnd.routerId);
+    const peerIface = peer?.interfaces.find(
+      (candidate) => candidate.name === peerEnd.interfaceName,
+    );
+    if (
+      !peer ||
+      peerIface?.status !== "up" ||
+      peerIface.ipAddress !== nextHop
+    ) {
+      return undefined;
+    }
+    return { router: peer, iface: peerIface, link };
+  }
+
+  private ownsAddress(router: SimulatedRouter, address: string): boolean {
+    return router.interfaces.some(
+      (iface) => iface.ipAddress === address && iface.status === "up",
+    );
+  }
+
+  private resolveSource(
+    router: SimulatedRouter,
+    source: string,
+  ): string | undefined {
+    const iface = router.interfaces.find(
+      (candidate) =>
+        candidate.status === "up" &&
+        (candidate.name === source || candidate.ipAddress === source),
+    );
+    return iface?.ipAddress;
+  }
+
+  // Without an explicit source, IOS uses the address of the outgoing interface
+  private defaultSource(
+    router: SimulatedRouter,
+    destination: string,
+  ): string | undefined {
+    if (this.ownsAddress(router, destination)) return destination;
+
+    const route = this.lookup(router, destination);
+    const egress = route
+      ? this.resolveEgress(router, route, destination, 0)
+      : undefined;
+    return egress?.iface.ipAddress;
+  }
+}
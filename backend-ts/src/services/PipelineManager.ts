@@ -4,13 +4,20 @@ import { AIAgentSystem } from "./AIAgentSystem";
 import { RouterSimulator } from "./RouterSimulator";
 import { NetworkAutomation } from "./NetworkAutomation";
 import { AgenticRAG } from "./AgenticRAG";
-import { Pipeline, PipelineStage, PipelineStatus } from "../types";
+import { DeviceRepository } from "../repositories/DeviceRepository";
+import {
+  DeviceTargets,
+  Pipeline,
+  PipelineStage,
+  PipelineStatus,
+} from "../types";
 
 export class PipelineManager {
   private aiAgentSystem: AIAgentSystem;
   private routerSimulator: RouterSimulator;
   private networkAutomation: NetworkAutomation;
   private agenticRAG: AgenticRAG;
+  private deviceRepository: DeviceRepository;
   private pipelines: Map<string, Pipeline> = new Map();
 
   constructor(
@@ -18,20 +25,24 @@ export class PipelineManager {
     routerSimulator: RouterSimulator,
     networkAutomation: NetworkAutomation,
     agenticRAG: AgenticRAG,
+    deviceRepository: DeviceRepository = new DeviceRepository(),
   ) {
     this.aiAgentSystem = aiAgentSystem;
     this.routerSimulator = routerSimulator;
     this.networkAutomation = networkAutomation;
     this.agenticRAG = agenticRAG;
+    this.deviceRepository = deviceRepository;
     logger.info("Pipeline Manager initialized");
   }
 
   public async createDeploymentPipeline(
     command: string,
-    deviceIds: string[],
+    targets: DeviceTargets,
     sessionId: string,
   ): Promise<Pipeline> {
     const id = uuidv4();
+    // Selectors are resolved once so the pipeline runs against a fixed device list
+    const deviceIds = this.deviceRepository.resolveTargets(targets);
     const pipeline: Pipeline = {
       id,
       type: "deployment",
@@ -84,10 +95,11 @@ export class PipelineManager {
   }
 
   public async createRetrievalPipeline(
-    deviceIds: string[],
+    targets: DeviceTargets,
     sessionId: string,
   ): Promise<Pipeline> {
     const id = uuidv4();
+    const deviceIds = this.deviceRepository.resolveTargets(targets);
     const pipeline: Pipeline = {
       id,
       type: "retrieval",
@@ -0,0 +1,217 @@
+import { AddressInfo, Socket, createServer } from "net";
+import { ReachabilityPoller } from "./ReachabilityPoller";
+import { DeviceRepository } from "../repositories/DeviceRepository";
+import { openDatabase } from "../database/database";
+import { DeviceStatusChange, NetworkDevice } from "../types";
+
+// A local TCP listener that greets with the given banner, or stays silent
+const listen = (
+  banner?: string,
+): Promise<{ port: number; close: () => Promise<void> }> =>
+  new Promise((resolve) => {
+    const sockets: Socket[] = [];
+    const server = createServer((socket) => {
+      sockets.push(socket);
+      if (banner) socket.write(banner);
+    });
+    const close = () =>
+      new Promise<void>((closed) => {
+        sockets.forEach((socket) => socket.destroy());
+        server.close(() => closed());
+      });
+    server.listen(0, "127.0.0.1", () =>
+      resolve({ port: (server.address() as AddressInfo).port, close }),
+    );
+  });
+
+describe("ReachabilityPoller", () => {
+  let repository: DeviceRepository;
+  let changes: DeviceStatusChange[];
+
+  const addDevice = (port: number, fields: Partial<NetworkDevice> = {}) => {
+    const device: NetworkDevice = {
+      id: "r1",
+      name: "R1",
+      ip: "127.0.0.1",
+      deviceType: "cisco_ios",
+      port,
+      status: "online",
+      lastSeen: null,
+      createdAt: "2024-01-15T10:00:00.000Z",
+      ...fields,
+    };
+    repository.save(device);
+    return device;
+  };
+
+  const poller = (settings: object = {}) => {
+    const created = new ReachabilityPoller(
+      {
+        timeoutMs: 200,
+        warningLatencyMs: 1000,
+        failureThreshold: 2,
+        sshBannerCheck: false,
+        concurrency: 5,
+        ...settings,
+      },
+      repository,
+    );
+    created.registerStatusListener("test", (change) => changes.push(change));
+    return created;
+  };
+
+  beforeEach(() => {
+    repository = new DeviceRepository(openDatabase("sqlite:///:memory:"));
+    changes = [];
+  });
+
+  it("marks a device online and records when it was seen", async () => {
+    const { port, close } = await listen();
+    addDevice(port, { status: "offline" });
+
+    const polled = await poller().pollAll();
+    await close();
+
+    expect(polled).toEqual(changes);
+    expect(changes).toEqual([
+      expect.objectContaining({
+        deviceId: "r1",
+        previousStatus: "offline",
+        status: "online",
+      }),
+    ]);
+    expect(repository.findById("r1")!.lastSeen).toBe(changes[0].checkedAt);
+  });
+
+  it("warns first and goes offline at the failure threshold", async () => {
+    const { port, close } = await listen();
+    await close();
+    addDevice(port);
+    const checker = poller();
+
+    await checker.pollAll();
+    await checker.pollAll();
+    await checker.pollAll();
+
+    expect(changes.map(({ status }) => status)).toEqual(["warning", "offline"]);
+    expect(changes[0].reason).toMatch(
+      /^connect ECONNREFUSED .* \(1\/2 failed checks\)$/,
+    );
+    expect(changes[1].reason).toMatch(/\(2\/2 failed checks\)$/);
+    expect(repository.findById("r1")!.status).toBe("offline");
+  });
+
+  it("warns when the device answers slowly", async () => {
+    const { port, close } = await listen();
+    addDevice(port);
+    const now = jest.spyOn(Date, "now");
+    now.mockReturnValueOnce(1000).mockReturnValueOnce(1250);
+
+    await poller({ warningLatencyMs: 200 }).pollAll();
+    now.mockRestore();
+    await close();
+
+    expect(changes).toEqual([
+      expect.objectContaining({
+        status: "warning",
+        latencyMs: 250,
+        reason: "Latency 250ms exceeds 200ms",
+      }),
+    ]);
+  });
+
+  it("checks for an SSH banner when asked to", async () => {
+    const ssh = await listen("SSH-2.0-Cisco-1.25\r\n");
+    const silent = await listen();
+    const checker = poller({ sshBannerCheck: true });
+
+    const answered = await checker.checkDevice(addDevice(ssh.port));
+    const quiet = await checker.checkDevice(addDevice(silent.port));
+    await ssh.close();
+    await silent.close();
+
+    expect(answered).toMatchObject({
+      reachable: true,
+      banner: "SSH-2.0-Cisco-1.25",
+    });
+    expect(quiet).toMatchObject({
+      reachable: true,
+      error: "Port open but no SSH banner received",
+    });
+  });
+
+  it("keeps notifying listeners after one fails or leaves", async () => {
+    const { port, close } = await listen();
+    addDevice(port, { status: "offline" });
+    const checker = poller();
+    checker.registerStatusListener("broken", () => {
+      throw new Error("socket gone");
+    });
+    const left: DeviceStatusChange[] = [];
+    checker.registerStatusListener("left", (change) => left.push(change));
+    checker.unregisterStatusListener("left");
+
+    await checker.pollAll();
+    await close();
+
+    expect(changes).toHaveLength(1);
+    expect(left).toHaveLength(0);
+  });
+
+  describe("when the device changes during a check", () => {
+    const checkWhile = (checker: ReachabilityPoller, change: () => void) =>
+      jest.spyOn(checker, "checkDevice").mockImplementation(async (device) => {
+        change();
+        return {
+          deviceId: device.id,
+          reachable: false,
+          latencyMs: null,
+          error: "connect ECONNREFUSED",
+        };
+      });
+
+    it("judges the status the device has now", async () => {
+      addDevice(22, { status: "offline" });
+      const checker = poller();
+      // A session opened meanwhile marked the device online
+      checkWhile(checker, () =>
+        repository.updateStatus("r1", "online", "2024-01-15T11:00:00.000Z"),
+      );
+
+      await checker.pollAll();
+
+      expect(changes).toEqual([
+        expect.objectContaining({
+          previousStatus: "online",
+          status: "warning",
+          lastSeen: "2024-01-15T11:00:00.000Z",
+        }),
+      ]);
+      expect(repository.findById("r1")!.status).toBe("warning");
+    });
+
+    it("drops the result for a deleted or readdressed device", async () => {
+      const device = addDevice(22);
+      const checker = poller();
+      const check = checkWhile(checker, () => repository.delete("r1"));
+
+      await checker.pollAll();
+      expect(repository.findById("r1")).toBeNull();
+
+      repository.save(device);
+      check.mockImplementation(async () => {
+        repository.save({ ...device, ip: "10.0.0.2" });
+        return {
+          deviceId: device.id,
+          reachable: false,
+          latencyMs: null,
+          error: "connect ECONNREFUSED",
+        };
+      });
+      await checker.pollAll();
+
+      expect(changes).toEqual([]);
+      expect(repository.findById("r1")!.status).toBe("online");
+    });
+  });
+});
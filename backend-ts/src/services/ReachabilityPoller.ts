@@ -0,0 +1,244 @@
+import { connect } from "net";
+import { logger } from "../utils/logger";
+import { config } from "../config/config";
+import { DeviceRepository } from "../repositories/DeviceRepository";
+import {
+  NetworkDevice,
+  ReachabilityCheck,
+  ReachabilityConfig,
+  DeviceStatusChange,
+} from "../types";
+
+// RFC 4253 identification string sent by every SSH server on connect
+const SSH_BANNER_PATTERN = /^SSH-\d+\.\d+-\S+/m;
+
+export class ReachabilityPoller {
+  private pollerConfig: ReachabilityConfig;
+  private deviceRepository: DeviceRepository;
+  private timer: NodeJS.Timeout | null = null;
+  private polling: boolean = false;
+  private failures: Map<string, number> = new Map();
+  private statusListeners: Map<string, (change: DeviceStatusChange) => void> =
+    new Map();
+
+  constructor(
+    pollerConfig: Partial<ReachabilityConfig> = {},
+    deviceRepository: DeviceRepository = new DeviceRepository(),
+  ) {
+    this.pollerConfig = {
+      intervalSeconds: config.pollIntervalSeconds,
+      timeoutMs: config.pollTimeoutSeconds * 1000,
+      warningLatencyMs: config.pollWarningLatencyMs,
+      failureThreshold: config.pollFailureThreshold,
+      sshBannerCheck: config.pollSshBanner,
+      concurrency: config.maxConcurrentConnections,
+      ...pollerConfig,
+    };
+    this.deviceRepository = deviceRepository;
+  }
+
+  public start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(
+      () => this.pollAll(),
+      this.pollerConfig.intervalSeconds * 1000,
+    );
+    this.pollAll();
+
+    logger.info(
+      `Reachability poller started (every ${this.pollerConfig.intervalSeconds}s)`,
+    );
+  }
+
+  public stop(): void {
+    if (!this.timer) return;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    logger.info("Reachability poller stopped");
+  }
+
+  public isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  public registerStatusListener(
+    id: string,
+    callback: (change: DeviceStatusChange) => void,
+  ): void {
+    this.statusListeners.set(id, callback);
+  }
+
+  public unregisterStatusListener(id: string): void {
+    this.statusListeners.delete(id);
+  }
+
+  public async pollAll(): Promise<DeviceStatusChange[]> {
+    // A slow cycle must not overlap the next one
+    if (this.polling) return [];
+    this.polling = true;
+
+    const changes: DeviceStatusChange[] = [];
+    try {
+      const devices = this.deviceRepository.findAll();
+      const { concurrency } = this.pollerConfig;
+
+      for (let i = 0; i < devices.length; i += concurrency) {
+        const batch = devices.slice(i, i + concurrency);
+        const checks = await Promise.all(
+          batch.map((device) => this.checkDevice(device)),
+        );
+
+        batch.forEach((device, index) => {
+          const change = this.applyCheck(device, checks[index]);
+          if (change) changes.push(change);
+        });
+      }
+    } catch (error) {
+      logger.error(`Reachability poll failed: ${error}`);
+    } finally {
+      this.polling = false;
+    }
+
+    return changes;
+  }
+
+  public checkDevice(device: NetworkDevice): Promise<ReachabilityCheck> {
+    const port = device.port || (device.protocol === "telnet" ? 23 : 22);
+    const expectBanner =
+      this.pollerConfig.sshBannerCheck && device.protocol !== "telnet";
+
+    return new Promise((resolve) => {
+      const startedAt = Date.now();
+      let latencyMs: number | null = null;
+      let received = "";
+      let settled = false;
+
+      const socket = connect({ host: device.ip, port });
+      const finish = (result: Omit<ReachabilityCheck, "deviceId">) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        resolve({ deviceId: device.id, ...result });
+      };
+
+      socket.setTimeout(this.pollerConfig.timeoutMs, () =>
+        latencyMs === null
+          ? finish({
+              reachable: false,
+              latencyMs: null,
+              error: `No response on port ${port}`,
+            })
+          : finish({
+              reachable: true,
+              latencyMs,
+              error: "Port open but no SSH banner received",
+            }),
+      );
+
+      socket.once("connect", () => {
+        latencyMs = Date.now() - startedAt;
+        if (!expectBanner) {
+          finish({ reachable: true, latencyMs });
+        }
+      });
+
+      socket.on("data", (data: Buffer) => {
+        received += data.toString();
+        const banner = received.match(SSH_BANNER_PATTERN);
+        if (banner) {
+          finish({ reachable: true, latencyMs, banner: banner[0] });
+        }
+      });
+
+      socket.once("error", (error: Error) =>
+        finish({ reachable: false, latencyMs: null, error: error.message }),
+      );
+    });
+  }
+
+  // online: reachable within the latency threshold
+  // warning: slow, missing banner, or failing fewer than failureThreshold times in a row
+  // offline: failureThreshold consecutive failures (or already offline and still failing)
+  private applyCheck(
+    checked: NetworkDevice,
+    check: ReachabilityCheck,
+  ): DeviceStatusChange | null {
+    // The device may have changed while it was checked: judge the status it
+    // has now, and drop the result if it was deleted or moved to a new address.
+    // The read and the write below run in one tick, so nothing lands between.
+    const device = this.deviceRepository.findById(checked.id);
+    if (
+      !device ||
+      device.ip !== checked.ip ||
+      device.port !== checked.port ||
+      device.protocol !== checked.protocol
+    ) {
+      this.failures.delete(checked.id);
+      return null;
+    }
+
+    const checkedAt = new Date().toISOString();
+    const { warningLatencyMs, failureThreshold } = this.pollerConfig;
+    let status: NetworkDevice["status"];
+    let reason: string;
+    let lastSeen = device.lastSeen;
+
+    if (check.reachable) {
+      this.failures.delete(device.id);
+      lastSeen = checkedAt;
+
+      if (check.error) {
+        status = "warning";
+        reason = check.error;
+      } else if ((check.latencyMs ?? 0) > warningLatencyMs) {
+        status = "warning";
+        reason = `Latency ${check.latencyMs}ms exceeds ${warningLatencyMs}ms`;
+      } else {
+        status = "online";
+        reason = `Reachable in ${check.latencyMs}ms`;
+      }
+    } else {
+      const failures = (this.failures.get(device.id) || 0) + 1;
+      this.failures.set(device.id, failures);
+
+      status =
+        failures >= failureThreshold || device.status === "offline"
+          ? "offline"
+          : "warning";
+      reason = `${check.error} (${failures}/${failureThreshold} failed checks)`;
+    }
+
+    this.deviceRepository.updateStatus(device.id, status, lastSeen);
+
+    if (status === device.status) return null;
+
+    const change: DeviceStatusChange = {
+      deviceId: device.id,
+      deviceName: device.name,
+      previousStatus: device.status,
+      status,
+      latencyMs: check.latencyMs,
+      lastSeen,
+      checkedAt,
+      reason,
+    };
+
+    logger.info(
+      `Device ${device.name} is now ${status} (was ${device.status}): ${reason}`,
+    );
+    this.notifyListeners(change);
+    return change;
+  }
+
+  private notifyListeners(change: DeviceStatusChange): void {
+    for (const callback of this.statusListeners.values()) {
+      try {
+        callback(change);
+      } catch (error) {
+        logger.error(`Error in device status listener: ${error}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { RouterSimulator } from "./RouterSimulator";
+import { LLMIntegration } from "./LLMIntegration";
+import { SimulatedRouter } from "../types";
+
+describe("RouterSimulator", () => {
+  let simulator: RouterSimulator;
+  let r1: SimulatedRouter;
+
+  const run = async (sessionId: string, ...commands: string[]) => {
+    let output = "";
+    for (const command of commands) {
+      output = (await simulator.executeCommand(r1.id, command, sessionId))
+        .output!;
+    }
+    return output;
+  };
+
+  beforeEach(() => {
+    simulator = new RouterSimulator(new LLMIntegration(), {
+      llmFallback: false,
+    });
+    r1 = simulator.getAllRouters().find(({ name }) => name === "R1")!;
+  });
+
+  describe("abbreviations", () => {
+    it("rejects a prefix shared with IOS commands the engine does not model", async () => {
+      expect(await run("cli", "s")).toBe('% Ambiguous command:  "s"');
+      expect(await run("cli", "enable", "s")).toBe('% Ambiguous command:  "s"');
+      expect(
+        await run("cli", "configure terminal", "interface gi0/0", "s"),
+      ).toBe('% Ambiguous command:  "s"');
+      expect(simulator.getRouterConfig(r1.id)?.runningConfig).not.toMatch(
+        /^ shutdown$/m,
+      );
+    });
+
+    it("still accepts unique abbreviations", async () => {
+      expect(await run("cli", "sh ver | i Cisco IOS XE")).toMatch(
+        /^Cisco IOS XE Software/,
+      );
+      expect(
+        await run("cli", "en", "conf t", "int gi0/1", "desc uplink", "end"),
+      ).toBe("");
+      expect(simulator.getRouterConfig(r1.id)?.runningConfig).toContain(
+        " description uplink",
+      );
+    });
+  });
+
+  describe("sessions", () => {
+    const now = jest.spyOn(Date, "now");
+
+    afterEach(() => now.mockRestore());
+
+    it("drops sessions left idle past the timeout", async () => {
+      simulator = new RouterSimulator(new LLMIntegration(), {
+        llmFallback: false,
+        sessionIdleTimeoutMs: 60000,
+      });
+      r1 = simulator.getAllRouters().find(({ name }) => name === "R1")!;
+      now.mockReturnValue(1000000);
+
+      // One-off REST calls, each with a generated session ID
+      for (let i = 0; i < 50; i++) {
+        await run(`rest-${i}`, "show clock");
+      }
+      await run("terminal", "configure terminal");
+      expect(simulator.getActiveConnections().size).toBe(51);
+
+      now.mockReturnValue(1000000 + 30000);
+      await run("terminal", "interface gi0/1");
+      now.mockReturnValue(1000000 + 61000);
+      await run("rest-new", "show clock");
+
+      expect(Array.from(simulator.getActiveConnections().keys())).toEqual([
+        "terminal",
+        "rest-new",
+      ]);
+      expect(await run("terminal", "description kept")).toBe("");
+      expect(simulator.getRouterConfig(r1.id)?.runningConfig).toContain(
+        " description kept",
+      );
+    });
+  });
+
+  describe("operation log", () => {
+    it("keeps only the newest operations and counts the rest", () => {
+      simulator = new RouterSimulator(new LLMIntegration(), {
+        llmFallback: false,
+        maxLogEntries: 3,
+      });
+
+      ["R5", "R6", "R7", "R8", "R9"].forEach((name) =>
+        simulator.createRouter(name, "", ""),
+      );
+
+      expect(
+        simulator.getLog().map((entry) => "name" in entry && entry.name),
+      ).toEqual(["R7", "R8", "R9"]);
+      expect(simulator.getDroppedLogEntries()).toBe(2);
+      const state = simulator.exportState();
+      expect(state.log).toHaveLength(3);
+
+      simulator.reset();
+      expect(simulator.getDroppedLogEntries()).toBe(0);
+      simulator.importState(state);
+      expect(simulator.getDroppedLogEntries()).toBe(2);
+    });
+  });
+
+  describe("applyConfiguration", () => {
+    const generateConfiguration = jest.spyOn(
+      LLMIntegration.prototype,
+      "generateConfiguration",
+    );
+
+    afterEach(() => generateConfiguration.mockReset());
+
+    it("merges without asking the LLM unless review is on", async () => {
+      const result = await simulator.applyConfiguration(
+        r1.id,
+        "interface Loopback0\n ip address 1.1.1.1 255.255.255.255",
+        "automation",
+      );
+
+      expect(result).toEqual({ success: true, output: expect.any(String) });
+      expect(generateConfiguration).not.toHaveBeenCalled();
+      expect(simulator.getRouterConfig(r1.id)?.runningConfig).toContain(
+        "interface Loopback0",
+      );
+    });
+
+    describe("with LLM review", () => {
+      beforeEach(() => {
+        simulator = new RouterSimulator(new LLMIntegration(), {
+          llmFallback: false,
+          llmReview: true,
+        });
+        r1 = simulator.getAllRouters().find(({ name }) => name === "R1")!;
+      });
+
+      it("applies with a warning when no LLM provider answers", async () => {
+        generateConfiguration.mockResolvedValue({
+          success: false,
+          error: "All LLM providers failed: groq: unreachable",
+        });
+        const eos = simulator.createRouter(
+          "SW1",
+          "Leaf",
+          "192.168.1.20",
+          "vEOS",
+        );
+        simulator.addInterface(eos.id, {
+          name: "Ethernet1",
+          ipAddress: "",
+          subnetMask: "",
+          status: "up",
+        });
+
+        const ios = await simulator.applyConfiguration(
+          r1.id,
+          "interface Loopback0\n ip address 1.1.1.1 255.255.255.255",
+          "automation",
+        );
+        const arista = await simulator.applyConfiguration(
+          eos.id,
+          "interface Ethernet1\n description to-spine",
+          "automation",
+        );
+
+        expect(ios).toMatchObject({
+          success: true,
+          warnings: [
+            "Configuration not validated: All LLM providers failed: groq: unreachable",
+          ],
+        });
+        expect(arista.success).toBe(true);
+        expect(simulator.getRouterConfig(r1.id)?.runningConfig).toContain(
+          "interface Loopback0",
+        );
+        expect(simulator.getRouterConfig(eos.id)?.runningConfig).toContain(
+          "description to-spine",
+        );
+      });
+
+      it("passes on the issues the LLM reports without blocking", async () => {
+        generateConfiguration.mockResolvedValue({
+          success: true,
+          configuration: JSON.stringify({
+            valid: false,
+            issues: ["Telnet is enabled"],
+          }),
+        });
+
+        const result = await simulator.applyConfiguration(
+          r1.id,
+          "line vty 0 4\n transport input telnet",
+          "automation",
+        );
+
+        expect(result).toMatchObject({
+          success: true,
+          warnings: ["Telnet is enabled"],
+        });
+      });
+    });
+  });
+});
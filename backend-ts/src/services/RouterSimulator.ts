@@ -1,16 +1,74 @@
+import { createHash } from "crypto";
 import { v4 as uuidv4 } from "uuid";
 import { logger } from "../utils/logger";
-import { LLMIntegration } from "./LLMIntegration";
-import { SimulatedRouter, RouterInterface, RouterConfig } from "../types";
+import { config } from "../config/config";
+import { LLMIntegration, llmIntegration } from "./LLMIntegration";
+import { IosConfigTree } from "./IosConfigTree";
+import { DevicePersonality } from "./DevicePersonality";
+import { DevicePersonalities } from "./DevicePersonalities";
+import { PacketTracer } from "./PacketTracer";
+import { RoutingProtocols } from "./RoutingProtocols";
+import { isIpv4, maskToPrefix, networkAddress, inSubnet } from "../utils/ipv4";
+import {
+  SimulatedRouter,
+  RouterInterface,
+  RouterConfig,
+  RouterSimulatorConfig,
+  RouteEntry,
+  ArpEntry,
+  CliContext,
+  CliSessionState,
+  ConfigCommand,
+  DevicePersonalitySummary,
+  LinkEndpoint,
+  SimulatedLink,
+  ReachabilityResult,
+  LabLink,
+  LabInterfaceRef,
+  LabTopology,
+  TopologyImportResult,
+  SimulatorOperation,
+  SimulatorLogEntry,
+  SimulatorState,
+} from "../types";
+
+const VIRTUAL_INTERFACE_PATTERN =
+  /^((lo|loopback|port-channel|tunnel|vlan|ae)\d|irb\b)|\./i;
 
 export class RouterSimulator {
   private routers: Map<string, SimulatedRouter> = new Map();
   private llmIntegration: LLMIntegration;
+  private simulatorConfig: RouterSimulatorConfig;
+  private personalities: DevicePersonalities = new DevicePersonalities();
+  private configs: Map<string, IosConfigTree> = new Map(); // routerId -> running config
+  private links: Map<string, SimulatedLink> = new Map();
+  private interfaceFaults: Set<string> = new Set(); // "routerId/interfaceName" held down
+  private packetTracer: PacketTracer = new PacketTracer(this);
+  private routingProtocols: RoutingProtocols = new RoutingProtocols(
+    this,
+    this.configs,
+  );
   private activeConnections: Map<string, string> = new Map(); // sessionId -> routerId
+  private cliSessions: Map<string, CliSessionState> = new Map(); // keyed by sessionId
+  private sessionLastUsed: Map<string, number> = new Map(); // sessionId -> epoch ms
+  private log: SimulatorLogEntry[] = [];
+  private logDropped = 0;
+  private recording = false; // off while the default topology is built
 
-  constructor(llmIntegration: LLMIntegration) {
+  constructor(
+    llmIntegration: LLMIntegration,
+    simulatorConfig: Partial<RouterSimulatorConfig> = {},
+  ) {
     this.llmIntegration = llmIntegration;
+    this.simulatorConfig = {
+      llmFallback: config.simulatorLlmFallback,
+      llmReview: config.simulatorLlmReview,
+      maxLogEntries: config.simulatorLogLimit,
+      sessionIdleTimeoutMs: config.simulatorSessionIdleTimeout * 1000,
+      ...simulatorConfig,
+    };
     this.initializeDefaultTopology();
+    this.recording = true;
     logger.info("Router Simulator initialized");
   }
 
@@ -88,6 +146,9 @@ interface GigabitEthernet0/1
  ip address {secondaryIp} 255.255.255.0
  no shutdown
 !
+router ospf 1
+ network 10.0.0.0 0.0.255.255 area 0
+!
 ip route 0.0.0.0 0.0.0.0 {gateway}
 !
 line con 0
@@ -136,6 +197,20 @@ end`;
         .replace("{gateway}", "10.0.2.1"),
     );
 
+    // R1 and R2 form the core; R3 hangs off R1 and R4 off R2
+    this.addLink(
+      { routerId: r1.id, interfaceName: "GigabitEthernet0/0" },
+      { routerId: r2.id, interfaceName: "GigabitEthernet0/0" },
+    );
+    this.addLink(
+      { routerId: r1.id, interfaceName: "GigabitEthernet0/1" },
+      { routerId: r3.id, interfaceName: "GigabitEthernet0/0" },
+    );
+    this.addLink(
+      { routerId: r2.id, interfaceName: "GigabitEthernet0/1" },
+      { routerId: r4.id, interfaceName: "GigabitEthernet0/0" },
+    );
+
     logger.info("Default router topology initialized with 4 routers");
   }
 
@@ -143,21 +218,26 @@ end`;
     name: string,
     description: string,
     managementIp: string,
+    model = "CSR1000v",
   ): SimulatedRouter {
     const id = uuidv4();
+    const personality = this.personalities.forModel(model);
     const router: SimulatedRouter = {
       id,
       name,
       description,
       managementIp,
       status: "online",
-      model: "CSR1000v",
-      iosVersion: "IOS-XE 17.3.1a",
+      model,
+      platform: personality.platform,
+      iosVersion: personality.softwareVersion,
+      serialNumber: this.hashId(id, 10).toUpperCase().replace(/^./, "9"),
       interfaces: [],
       runningConfig: "",
       startupConfig: "",
       routingTable: [],
       arpTable: [],
+      ospfNeighbors: [],
       cpuUsage: 5,
       memoryUsage: 30,
       createdAt: new Date().toISOString(),
@@ -165,6 +245,15 @@ end`;
     };
 
     this.routers.set(id, router);
+    this.configs.set(id, new IosConfigTree(`hostname ${name}`));
+    this.syncFromConfig(router);
+    this.record({
+      op: "create-router",
+      name,
+      description,
+      managementIp,
+      model,
+    });
     logger.info(`Created simulated router: ${name} (${id})`);
     return router;
   }
@@ -173,6 +262,20 @@ end`;
     return this.routers.get(routerId);
   }
 
+  public getPersonality(routerId: string): DevicePersonality | undefined {
+    const router = this.routers.get(routerId);
+    return router && this.personalityOf(router);
+  }
+
+  public getPlatforms(): DevicePersonalitySummary[] {
+    return this.personalities.list();
+  }
+
+  // The model a NetworkDevice deviceType is simulated as, if any
+  public modelForDeviceType(deviceType: string): string | undefined {
+    return this.personalities.forDeviceType(deviceType)?.defaultModel;
+  }
+
   public getAllRouters(): SimulatedRouter[] {
     return Array.from(this.routers.values());
   }
@@ -181,11 +284,58 @@ end`;
     const router = this.routers.get(routerId);
     if (!router) return false;
 
+    this.record({ op: "delete-router", router: router.name });
     this.routers.delete(routerId);
+    this.configs.delete(routerId);
+    this.links.forEach((link, linkId) => {
+      if (link.endpoints.some((end) => end.routerId === routerId)) {
+        this.links.delete(linkId);
+      }
+    });
+    this.refreshLinks();
+    this.cliSessions.forEach((session, sessionId) => {
+      if (session.routerId === routerId) this.disconnectSession(sessionId);
+    });
     logger.info(`Deleted simulated router: ${router.name} (${routerId})`);
     return true;
   }
 
+  // Renames go through the running config, which owns the hostname
+  public updateRouter(
+    routerId: string,
+    changes: Partial<
+      Pick<SimulatedRouter, "name" | "description" | "managementIp" | "model">
+    >,
+  ): SimulatedRouter | undefined {
+    const router = this.routers.get(routerId);
+    if (!router) return undefined;
+
+    this.record({ op: "update-router", router: router.name, changes });
+    const { name, model, ...fields } = changes;
+    Object.assign(router, fields);
+    if (model && model !== router.model) {
+      const previous = this.personalityOf(router);
+      const personality = this.personalities.forModel(model);
+      router.model = model;
+      router.platform = personality.platform;
+      router.iosVersion = personality.softwareVersion;
+      // The saved config moves to the new platform's syntax as well
+      if (router.startupConfig !== "") {
+        router.startupConfig = personality.render(
+          previous.parse(router.startupConfig).config,
+        );
+      }
+      this.syncFromConfig(router);
+    }
+    if (name && name !== router.name) {
+      this.configs.get(routerId)?.apply([], `hostname ${name}`);
+      this.syncFromConfig(router);
+    }
+    router.lastModified = new Date().toISOString();
+    logger.info(`Updated simulated router: ${router.name} (${routerId})`);
+    return router;
+  }
+
   public addInterface(
     routerId: string,
     interfaceData: RouterInterface,
@@ -193,16 +343,28 @@ end`;
     const router = this.routers.get(routerId);
     if (!router) return false;
 
+    this.record({
+      op: "add-interface",
+      router: router.name,
+      interface: { ...interfaceData },
+    });
     // Check if interface already exists
     const existingIndex = router.interfaces.findIndex(
       (i) => i.name === interfaceData.name,
     );
     if (existingIndex >= 0) {
-      router.interfaces[existingIndex] = interfaceData;
+      router.interfaces[existingIndex] = {
+        macAddress: router.interfaces[existingIndex].macAddress,
+        ...interfaceData,
+      };
     } else {
-      router.interfaces.push(interfaceData);
+      router.interfaces.push({
+        macAddress: this.interfaceMac(router.id, interfaceData.name),
+        ...interfaceData,
+      });
     }
 
+    this.refreshLinks();
     router.lastModified = new Date().toISOString();
     logger.info(
       `Added/updated interface ${interfaceData.name} on router ${router.name}`,
@@ -210,20 +372,118 @@ end`;
     return true;
   }
 
+  // Drops the port with its config block and any link attached to it
+  public removeInterface(routerId: string, interfaceName: string): boolean {
+    const router = this.routers.get(routerId);
+    if (
+      !router ||
+      !router.interfaces.some((iface) => iface.name === interfaceName)
+    ) {
+      return false;
+    }
+
+    this.record({ op: "remove-interface", router: router.name, interfaceName });
+    router.interfaces = router.interfaces.filter(
+      (iface) => iface.name !== interfaceName,
+    );
+    this.configs.get(routerId)?.apply([], `no interface ${interfaceName}`);
+    this.syncFromConfig(router);
+    logger.info(
+      `Removed interface ${interfaceName} from router ${router.name}`,
+    );
+    return true;
+  }
+
+  // Replaces the whole running config; applyConfiguration merges instead
   public updateRunningConfig(routerId: string, config: string): boolean {
     const router = this.routers.get(routerId);
     if (!router) return false;
 
-    router.runningConfig = config;
-    router.lastModified = new Date().toISOString();
+    this.record({ op: "replace-config", router: router.name, config });
+    const { config: tree, errors } = this.personalityOf(router).parse(config);
+    if (errors.length > 0) {
+      logger.warn(
+        `Skipped ${errors.length} config line(s) on router ${router.name}`,
+      );
+    }
+    this.configs.set(routerId, tree);
+    this.syncFromConfig(router);
     logger.info(`Updated running config for router ${router.name}`);
     return true;
   }
 
+  // Merged line by line, like copy file running-config. Lines under a
+  // rejected section header are skipped along with it.
+  public mergeRunningConfig(
+    routerId: string,
+    config: string,
+  ): { success: boolean; output?: string; error?: string } {
+    const router = this.routers.get(routerId);
+    if (!router) return { success: false, error: "Router not found" };
+
+    const rejected = new Set<string>();
+    const errors = this.personalityOf(router)
+      .configCommands(config)
+      .flatMap(({ path, line }) => {
+        if (path.some((header) => rejected.has(header))) return [];
+        const error = this.applyConfigLine(router, path, line);
+        if (!error) return [];
+        rejected.add(line);
+        return [`${line}: ${error}`];
+      });
+    if (errors.length > 0) {
+      logger.warn(
+        `Rejected ${errors.length} config line(s) on router ${router.name}`,
+      );
+      return {
+        success: false,
+        error: `Configuration partially applied; rejected lines:\n${errors.join("\n")}`,
+      };
+    }
+
+    return {
+      success: true,
+      output: "Configuration applied successfully",
+    };
+  }
+
+  // One config line under the given section headers, as typed at the CLI
+  public applyConfigCommand(
+    routerId: string,
+    path: string[],
+    line: string,
+  ): { success: boolean; error?: string } {
+    const router = this.routers.get(routerId);
+    if (!router) return { success: false, error: "Router not found" };
+
+    const error = this.applyConfigLine(router, path, line);
+    return error ? { success: false, error } : { success: true };
+  }
+
+  // The config as routing reads it, whatever the platform's own syntax
+  public getIosConfig(routerId: string): IosConfigTree | undefined {
+    const tree = this.configs.get(routerId);
+    return tree && new IosConfigTree(tree.render());
+  }
+
+  // Like applyConfigCommand, with the line already in IOS form
+  public applyIosConfigCommand(
+    routerId: string,
+    path: string[],
+    line: string,
+  ): { success: boolean; error?: string } {
+    const router = this.routers.get(routerId);
+    if (!router) return { success: false, error: "Router not found" };
+
+    const error = this.applyConfigLine(router, path, line, true);
+    return error ? { success: false, error } : { success: true };
+  }
+
   public saveRunningConfigToStartup(routerId: string): boolean {
     const router = this.routers.get(routerId);
     if (!router) return false;
 
+    this.record({ op: "save-config", router: router.name });
     router.startupConfig = router.runningConfig;
     router.lastModified = new Date().toISOString();
     logger.info(`Saved running config to startup for router ${router.name}`);
@@ -237,6 +497,7 @@ end`;
   ): Promise<{
     success: boolean;
     output?: string;
+    prompt?: string;
     error?: string;
   }> {
     const router = this.routers.get(routerId);
@@ -245,73 +506,39 @@ end`;
     }
 
     try {
-      // Record the connection
-      this.activeConnections.set(sessionId, routerId);
-
-      // Process the command using LLM
-      const prompt = this.buildCommandPrompt(router, command);
-      const result = await this.llmIntegration.generateConfiguration(
-        prompt,
-        "groq",
-      );
+      this.touchSession(sessionId, routerId);
+      const context = this.buildCliContext(router, sessionId);
+      const personality = this.personalityOf(router);
 
-      if (!result.success || !result.configuration) {
-        return {
-          success: false,
-          error: result.error || "Failed to process command",
-        };
-      }
-
-      // Handle configuration commands
+      // Pasted blocks run line by line, as a terminal would feed them
+      const lines = command.split(/\r?\n/);
+      const results = lines.map((line) => personality.execute(context, line));
+      const output = results
+        .map((result) => result.output)
+        .filter((text) => text !== "")
+        .join("\n");
+      const { prompt } = results[results.length - 1];
       if (
-        command.trim().toLowerCase().startsWith("conf t") ||
-        command.trim().toLowerCase().startsWith("configure terminal")
+        lines.length > 1 ||
+        results[0].handled ||
+        !this.simulatorConfig.llmFallback
       ) {
-        // Enter configuration mode
-        return {
-          success: true,
-          output:
-            "Enter configuration commands, one per line. End with CNTL/Z.",
-        };
+        return { success: true, output, prompt };
       }
 
-      // Handle show commands
-      if (command.trim().toLowerCase().startsWith("show")) {
-        // For show running-config, return the actual config
-        if (command.trim().toLowerCase().includes("running-config")) {
-          return { success: true, output: router.runningConfig };
-        }
-
-        // For show startup-config, return the startup config
-        if (command.trim().toLowerCase().includes("startup-config")) {
-          return {
-            success: true,
-            output: router.startupConfig || "startup-config is not set",
-          };
-        }
-
-        // For show interfaces, return interface info
-        if (command.trim().toLowerCase().includes("interfaces")) {
-          let output = "";
-          router.interfaces.forEach((iface) => {
-            output += `${iface.name} is ${iface.status}\n`;
-            output += `  Internet address is ${iface.ipAddress}/${iface.subnetMask}\n`;
-          });
-          return { success: true, output };
-        }
-      }
+      // Only commands the engine does not implement reach the LLM
+      const llmPrompt = this.buildCommandPrompt(router, command);
+      const llmResult =
+        await this.llmIntegration.generateConfiguration(llmPrompt);
 
-      // For write memory or copy running-config startup-config
-      if (
-        command.trim().toLowerCase() === "write memory" ||
-        command.trim().toLowerCase() === "copy running-config startup-config"
-      ) {
-        this.saveRunningConfigToStartup(routerId);
-        return { success: true, output: "Building configuration...\n[OK]" };
+      if (!llmResult.success || !llmResult.configuration) {
+        return {
+          success: false,
+          error: llmResult.error || "Failed to process command",
+        };
       }
 
-      // Return the LLM-generated response for other commands
-      return { success: true, output: result.configuration };
+      return { success: true, output: llmResult.configuration, prompt };
     } catch (error) {
       logger.error(
         `Error executing command on router ${router.name}: ${error}`,
@@ -328,6 +555,7 @@ end`;
     success: boolean;
     output?: string;
     error?: string;
+    warnings?: string[];
   }> {
     const router = this.routers.get(routerId);
     if (!router) {
@@ -335,101 +563,909 @@ end`;
     }
 
     try {
-      // Record the connection
-      this.activeConnections.set(sessionId, routerId);
-
-      // Validate the configuration using LLM
-      const validationPrompt = `You are a Cisco IOS configuration validator. Validate the following configuration for syntax errors and security issues:\n\n${config}\n\nRespond with a JSON object with properties: 'valid' (boolean), 'issues' (array of strings).`;
-      const validationResult = await this.llmIntegration.generateConfiguration(
-        validationPrompt,
-        "groq",
+      this.touchSession(sessionId, routerId);
+
+      // The LLM review only advises; the config tree decides what applies
+      const warnings = this.simulatorConfig.llmReview
+        ? await this.reviewConfiguration(router, config)
+        : [];
+      const result = this.mergeRunningConfig(routerId, config);
+      return warnings.length > 0 ? { ...result, warnings } : result;
+    } catch (error) {
+      logger.error(
+        `Error applying configuration to router ${router.name}: ${error}`,
       );
+      return { success: false, error: String(error) };
+    }
+  }
 
-      if (!validationResult.success || !validationResult.configuration) {
-        return {
-          success: false,
-          error: validationResult.error || "Failed to validate configuration",
+  // Issues the LLM finds in a config, or why it could not look
+  private async reviewConfiguration(
+    router: SimulatedRouter,
+    config: string,
+  ): Promise<string[]> {
+    const personality = this.personalityOf(router);
+    const platform = `${personality.vendor} ${router.iosVersion.split(" ")[0]}`;
+    const validationPrompt = `You are a ${platform} configuration validator. Validate the following configuration for syntax errors and security issues:\n\n${config}\n\nRespond with a JSON object with properties: 'valid' (boolean), 'issues' (array of strings).`;
+    const validationResult =
+      await this.llmIntegration.generateConfiguration(validationPrompt);
+
+    if (!validationResult.success || !validationResult.configuration) {
+      const reason = validationResult.error || "no response";
+      logger.warn(
+        `Applying configuration to router ${router.name} unvalidated: ${reason}`,
+      );
+      return [`Configuration not validated: ${reason}`];
+    }
+
+    try {
+      const validation = JSON.parse(validationResult.configuration);
+      return validation.valid ? [] : (validation.issues || []).map(String);
+    } catch (e) {
+      logger.warn(`Could not parse validation result: ${e}`);
+      return [];
+    }
+  }
+
+  // Records the connection. REST callers get a new session ID per request
+  // unless they pass one back, so idle sessions are dropped as others arrive
+  private touchSession(sessionId: string, routerId: string): void {
+    this.evictIdleSessions();
+    this.activeConnections.set(sessionId, routerId);
+    this.sessionLastUsed.set(sessionId, Date.now());
+  }
+
+  public evictIdleSessions(): number {
+    const cutoff = Date.now() - this.simulatorConfig.sessionIdleTimeoutMs;
+    const stale = Array.from(this.sessionLastUsed)
+      .filter(([, lastUsed]) => lastUsed < cutoff)
+      .map(([sessionId]) => sessionId);
+
+    stale.forEach((sessionId) => this.disconnectSession(sessionId));
+    if (stale.length > 0) {
+      logger.info(`Evicted ${stale.length} idle simulator CLI session(s)`);
+    }
+    return stale.length;
+  }
+
+  private buildCliContext(
+    router: SimulatedRouter,
+    sessionId: string,
+  ): CliContext {
+    return {
+      router,
+      session: this.getCliSession(sessionId, router.id),
+      saveConfig: () => this.saveRunningConfigToStartup(router.id),
+      applyConfig: (section, line) =>
+        this.applyConfigLine(router, section ? [section] : [], line),
+      replaceConfig: (config) => {
+        this.updateRunningConfig(router.id, config);
+      },
+      endSession: () => this.disconnectSession(sessionId),
+      probe: (destination, source) =>
+        this.probe(router.id, destination, source),
+    };
+  }
+
+  private getCliSession(sessionId: string, routerId: string): CliSessionState {
+    const existing = this.cliSessions.get(sessionId);
+    if (existing?.routerId === routerId) return existing;
+
+    // Sessions log in at privilege 15, as the default vty lines allow
+    const session: CliSessionState = { routerId, mode: "privileged" };
+    this.cliSessions.set(sessionId, session);
+    return session;
+  }
+
+  private personalityOf(router: SimulatedRouter): DevicePersonality {
+    return this.personalities.forModel(router.model);
+  }
+
+  // Applies one config line to the router's config tree and the state it
+  // drives. Lines in the platform's syntax become one or more IOS-form
+  // commands, all of which must pass before any is applied.
+  private applyConfigLine(
+    router: SimulatedRouter,
+    path: string[],
+    line: string,
+    ios = false,
+  ): string | undefined {
+    const tree = this.configs.get(router.id);
+    if (!tree) return "% Router has no configuration";
+
+    const commands = ios
+      ? [{ path, line }]
+      : this.personalityOf(router).toIos(path, line, tree);
+    if (typeof commands === "string") return commands;
+    const error = commands
+      .map((command) => this.validateCommand(router, command))
+      .find((message) => message !== undefined);
+    if (error) return error;
+
+    this.record({
+      op: "config-line",
+      router: router.name,
+      path,
+      line,
+      ...(ios ? { ios } : {}),
+    });
+    commands.forEach((command) => tree.apply(command.path, command.line));
+    this.syncFromConfig(router);
+    return undefined;
+  }
+
+  private validateCommand(
+    router: SimulatedRouter,
+    { path, line }: ConfigCommand,
+  ): string | undefined {
+    const negated = line.startsWith("no ");
+    const command = negated ? line.slice("no ".length) : line;
+    if (path.length === 0) {
+      return this.validateGlobalLine(router, command, negated);
+    }
+    return path.length === 1 && path[0].startsWith("interface ")
+      ? this.validateInterfaceLine(
+          router,
+          path[0].slice("interface ".length),
+          command,
+          negated,
+        )
+      : undefined;
+  }
+
+  private validateGlobalLine(
+    router: SimulatedRouter,
+    command: string,
+    negated: boolean,
+  ): string | undefined {
+    if (command.startsWith("interface ")) {
+      const name = command.slice("interface ".length);
+      const virtual = VIRTUAL_INTERFACE_PATTERN.test(name);
+      if (negated && !virtual) {
+        return "% Physical interfaces cannot be removed";
+      }
+      if (!virtual && !router.interfaces.some((iface) => iface.name === name)) {
+        return `% Interface ${name} does not exist`;
+      }
+    }
+
+    if (!negated && command.startsWith("ip route ")) {
+      const [, , network, mask] = command.split(" ");
+      const prefixLength = isIpv4(mask) ? maskToPrefix(mask) : -1;
+      if (
+        !isIpv4(network) ||
+        prefixLength < 0 ||
+        networkAddress(network, prefixLength) !== network
+      ) {
+        return "%Inconsistent address and mask";
+      }
+    }
+    return undefined;
+  }
+
+  private validateInterfaceLine(
+    router: SimulatedRouter,
+    name: string,
+    command: string,
+    negated: boolean,
+  ): string | undefined {
+    const [, , ipAddress, subnetMask] = command.split(" ");
+    if (
+      negated ||
+      !command.startsWith("ip address ") ||
+      !isIpv4(ipAddress) ||
+      !isIpv4(subnetMask)
+    ) {
+      return undefined;
+    }
+
+    const prefixLength = maskToPrefix(subnetMask);
+    if (prefixLength < 0) {
+      return `% Bad mask ${subnetMask} for address ${ipAddress}`;
+    }
+    const overlap = router.interfaces.find((other) => {
+      const otherPrefix = other.subnetMask
+        ? maskToPrefix(other.subnetMask)
+        : -1;
+      return (
+        other.name !== name &&
+        other.ipAddress &&
+        otherPrefix >= 0 &&
+        inSubnet(
+          ipAddress,
+          other.ipAddress,
+          Math.min(prefixLength, otherPrefix),
+        )
+      );
+    });
+    return overlap
+      ? `% ${networkAddress(ipAddress, prefixLength)} overlaps with ${overlap.name}`
+      : undefined;
+  }
+
+  // Hostname, interfaces and routing all follow the config tree
+  private syncFromConfig(router: SimulatedRouter): void {
+    const tree = this.configs.get(router.id);
+    if (!tree) return;
+
+    const hostname = tree.lines().find((line) => line.startsWith("hostname "));
+    router.name = hostname ? hostname.slice("hostname ".length) : "Router";
+    this.syncInterfaces(router, tree);
+    router.runningConfig = this.personalityOf(router).render(tree);
+    this.refreshLinks();
+    router.lastModified = new Date().toISOString();
+  }
+
+  private syncInterfaces(router: SimulatedRouter, tree: IosConfigTree): void {
+    const names = tree
+      .sections("interface")
+      .map((header) => header.slice("interface ".length));
+
+    // Physical ports stay even without a config block
+    router.interfaces = router.interfaces.filter(
+      (iface) =>
+        names.includes(iface.name) ||
+        !VIRTUAL_INTERFACE_PATTERN.test(iface.name),
+    );
+    this.links.forEach((link, linkId) => {
+      const removed = link.endpoints.some(
+        (end) =>
+          end.routerId === router.id &&
+          !router.interfaces.some((iface) => iface.name === end.interfaceName),
+      );
+      if (removed) this.links.delete(linkId);
+    });
+
+    names.forEach((name) => {
+      const lines = tree.lines([`interface ${name}`]);
+      let iface = router.interfaces.find(
+        (candidate) => candidate.name === name,
+      );
+      if (!iface) {
+        iface = {
+          name,
+          status: "up",
+          macAddress: this.interfaceMac(router.id, name),
         };
+        router.interfaces.push(iface);
       }
 
-      try {
-        const validation = JSON.parse(validationResult.configuration);
-        if (!validation.valid) {
-          return {
-            success: false,
-            error: `Configuration validation failed: ${validation.issues.join(", ")}`,
-          };
-        }
-      } catch (e) {
-        logger.warn(`Could not parse validation result: ${e}`);
-        // Continue anyway as this is just a validation step
+      const address = lines
+        .map((line) => line.match(/^ip address (\S+) (\S+)$/))
+        .find((match) => match !== null);
+      if (address?.[1] !== iface.ipAddress) {
+        iface.addressMethod = "manual";
       }
+      iface.ipAddress = address?.[1];
+      iface.subnetMask = address?.[2];
+      iface.description = lines
+        .find((line) => line.startsWith("description "))
+        ?.slice("description ".length);
 
-      // Update the running configuration
-      this.updateRunningConfig(routerId, config);
+      // A link that is down stays down after "no shutdown"
+      if (lines.includes("shutdown")) {
+        iface.status = "administratively down";
+      } else if (iface.status === "administratively down") {
+        iface.status = "up";
+      }
+    });
+  }
 
-      // Update router state based on configuration
-      this.updateRouterStateFromConfig(routerId, config);
+  // Routing protocols span routers, so every change recomputes all tables:
+  // connected and static routes first, then OSPF, then BGP over the IGP
+  private converge(): void {
+    const routers = this.getAllRouters();
+    const unresolved = new Map<string, RouteEntry[]>();
 
-      return {
-        success: true,
-        output: "Configuration applied successfully",
+    routers.forEach((router) => {
+      const routes = this.connectedRoutes(router);
+      unresolved.set(
+        router.id,
+        this.resolveStaticRoutes(router, routes, this.staticRoutes(router)),
+      );
+      router.routingTable = this.selectRoutes(routes);
+      router.arpTable = this.arpEntries(router);
+    });
+
+    // Static next hops may also resolve through OSPF routes
+    const ospfRoutes = this.routingProtocols.runOspf(routers);
+    routers.forEach((router) => {
+      const routes = [
+        ...router.routingTable,
+        ...(ospfRoutes.get(router.id) || []),
+      ];
+      this.resolveStaticRoutes(router, routes, unresolved.get(router.id) || []);
+      router.routingTable = this.selectRoutes(routes);
+    });
+
+    const bgpRoutes = this.routingProtocols.runBgp(routers);
+    routers.forEach((router) => {
+      router.routingTable = this.selectRoutes([
+        ...router.routingTable,
+        ...(bgpRoutes.get(router.id) || []),
+      ]);
+    });
+  }
+
+  private connectedRoutes(router: SimulatedRouter): RouteEntry[] {
+    const routes: RouteEntry[] = [];
+
+    router.interfaces.forEach((iface) => {
+      if (!iface.ipAddress || !iface.subnetMask || iface.status !== "up") {
+        return;
+      }
+      const prefixLength = maskToPrefix(iface.subnetMask);
+      if (prefixLength < 0) return;
+
+      routes.push(
+        {
+          code: "C",
+          protocol: "connected",
+          network: networkAddress(iface.ipAddress, prefixLength),
+          prefixLength,
+          interface: iface.name,
+        },
+        {
+          code: "L",
+          protocol: "local",
+          network: iface.ipAddress,
+          prefixLength: 32,
+          interface: iface.name,
+        },
+      );
+    });
+    return routes;
+  }
+
+  private staticRoutes(router: SimulatedRouter): RouteEntry[] {
+    const routes: RouteEntry[] = [];
+    const statements = (this.configs.get(router.id)?.lines() || [])
+      .map((line) => line.match(/^ip route (\S+) (\S+) (\S+)(?: (\d+))?$/))
+      .filter((match): match is RegExpMatchArray => match !== null);
+
+    for (const [, network, mask, target, distance] of statements) {
+      const prefixLength = maskToPrefix(mask);
+      if (!isIpv4(network) || prefixLength < 0) continue;
+
+      const route: RouteEntry = {
+        code: prefixLength === 0 ? "S*" : "S",
+        protocol: "static",
+        network: networkAddress(network, prefixLength),
+        prefixLength,
+        adminDistance: Number(distance || 1),
+        metric: 0,
+        candidateDefault: prefixLength === 0 || undefined,
       };
-    } catch (error) {
-      logger.error(
-        `Error applying configuration to router ${router.name}: ${error}`,
+      routes.push(
+        isIpv4(target)
+          ? { ...route, nextHop: target }
+          : { ...route, interface: target },
       );
-      return { success: false, error: String(error) };
     }
+    return routes;
+  }
+
+  // Adds the static routes that resolve to the table and returns the rest.
+  // Next hops resolve recursively through installed routes, but never
+  // through a default route.
+  private resolveStaticRoutes(
+    router: SimulatedRouter,
+    routes: RouteEntry[],
+    statics: RouteEntry[],
+  ): RouteEntry[] {
+    let pending = statics.filter((route) => {
+      if (route.nextHop) return true;
+      const iface = router.interfaces.find(
+        (candidate) =>
+          candidate.name.toLowerCase() === route.interface!.toLowerCase() &&
+          candidate.status === "up",
+      );
+      if (iface) routes.push({ ...route, interface: iface.name });
+      return false;
+    });
+
+    let installed = true;
+    while (installed) {
+      installed = false;
+      pending = pending.filter((route) => {
+        const resolved = routes.some(
+          (entry) =>
+            entry.protocol !== "local" &&
+            entry.prefixLength > 0 &&
+            inSubnet(route.nextHop!, entry.network, entry.prefixLength),
+        );
+        if (resolved) {
+          routes.push(route);
+          installed = true;
+        }
+        return !resolved;
+      });
+    }
+    return pending;
+  }
+
+  // Only the lowest administrative distance per prefix is installed
+  private selectRoutes(routes: RouteEntry[]): RouteEntry[] {
+    const distance = (route: RouteEntry) => route.adminDistance ?? 0;
+    return routes.filter(
+      (route) =>
+        !routes.some(
+          (other) =>
+            other.network === route.network &&
+            other.prefixLength === route.prefixLength &&
+            distance(other) < distance(route),
+        ),
+    );
+  }
+
+  // The router's own addresses plus neighbors on the far end of up links
+  private arpEntries(router: SimulatedRouter): ArpEntry[] {
+    const arpTable: ArpEntry[] = router.interfaces
+      .filter((iface) => iface.ipAddress && iface.status === "up")
+      .map((iface) => ({
+        ipAddress: iface.ipAddress!,
+        macAddress: iface.macAddress || null,
+        ageMinutes: null,
+        type: "ARPA",
+        interface: iface.name,
+      }));
+
+    this.links.forEach((link) => {
+      link.endpoints.forEach((end, index) => {
+        if (end.routerId !== router.id) return;
+        const iface = router.interfaces.find(
+          (candidate) => candidate.name === end.interfaceName,
+        );
+        const peerEnd = link.endpoints[1 - index];
+        const peer = this.routers
+          .get(peerEnd.routerId)
+          ?.interfaces.find(
+            (candidate) => candidate.name === peerEnd.interfaceName,
+          );
+        const prefixLength = iface?.subnetMask
+          ? maskToPrefix(iface.subnetMask)
+          : -1;
+        if (
+          iface?.status === "up" &&
+          iface.ipAddress &&
+          prefixLength >= 0 &&
+          peer?.status === "up" &&
+          peer.ipAddress &&
+          inSubnet(peer.ipAddress, iface.ipAddress, prefixLength)
+        ) {
+          arpTable.push({
+            ipAddress: peer.ipAddress,
+            macAddress: peer.macAddress || null,
+            ageMinutes: 0,
+            type: "ARPA",
+            interface: iface.name,
+          });
+        }
+      });
+    });
+    return arpTable;
+  }
+
+  // Stable per router and interface so show output does not change between calls
+  private interfaceMac(routerId: string, interfaceName: string): string {
+    const hash = this.hashId(`${routerId}:${interfaceName}`, 6);
+    return `5254.00${hash.slice(0, 2)}.${hash.slice(2, 6)}`;
+  }
+
+  private hashId(value: string, length: number): string {
+    return createHash("sha256").update(value).digest("hex").slice(0, length);
+  }
+
+  private buildCommandPrompt(router: SimulatedRouter, command: string): string {
+    const { vendor } = this.personalityOf(router);
+    const platform = router.iosVersion.split(" ")[0];
+    return `You are simulating a ${vendor} ${platform} device with the following configuration:\n\nHostname: ${router.name}\nSoftware Version: ${router.iosVersion}\nModel: ${router.model}\n\nInterfaces:\n${router.interfaces.map((i) => `- ${i.name}: ${i.ipAddress}/${i.subnetMask} (${i.status})`).join("\n")}\n\nThe user has entered the following command:\n${command}\n\nProvide the exact output that would be shown on a real ${vendor} device. Be accurate and concise, matching the format of real ${platform} output. Do not include any explanations or notes outside of the router output.`;
+  }
+
+  public addLink(
+    a: LinkEndpoint,
+    b: LinkEndpoint,
+  ): { success: boolean; link?: SimulatedLink; error?: string } {
+    for (const end of [a, b]) {
+      const router = this.routers.get(end.routerId);
+      if (!router) {
+        return { success: false, error: `Router ${end.routerId} not found` };
+      }
+      if (
+        !router.interfaces.some((iface) => iface.name === end.interfaceName)
+      ) {
+        return {
+          success: false,
+          error: `Interface ${end.interfaceName} not found on ${router.name}`,
+        };
+      }
+      if (this.findLink(end)) {
+        return {
+          success: false,
+          error: `Interface ${end.interfaceName} on ${router.name} is already linked`,
+        };
+      }
+    }
+    if (a.routerId === b.routerId && a.interfaceName === b.interfaceName) {
+      return { success: false, error: "A link needs two different interfaces" };
+    }
+
+    const link: SimulatedLink = {
+      id: uuidv4(),
+      endpoints: [{ ...a }, { ...b }],
+      status: "up",
+    };
+    this.record({
+      op: "add-link",
+      endpoints: [this.endpointRef(a), this.endpointRef(b)],
+    });
+    this.links.set(link.id, link);
+    this.refreshLinks();
+    logger.info(`Added simulated link ${this.describeLink(link)}`);
+    return { success: true, link };
+  }
+
+  public removeLink(linkId: string): boolean {
+    const link = this.links.get(linkId);
+    if (!link) return false;
+
+    this.record({
+      op: "remove-link",
+      endpoint: this.endpointRef(link.endpoints[0]),
+    });
+    this.links.delete(linkId);
+    // Unlinked ports act as stub networks again
+    link.endpoints.forEach((end) => {
+      const iface = this.routers
+        .get(end.routerId)
+        ?.interfaces.find((candidate) => candidate.name === end.interfaceName);
+      if (iface?.status === "down") {
+        iface.status = "up";
+      }
+    });
+    this.refreshLinks();
+    logger.info(`Removed simulated link ${this.describeLink(link)}`);
+    return true;
   }
 
-  private updateRouterStateFromConfig(routerId: string, config: string): void {
+  public setLinkStatus(linkId: string, status: "up" | "down"): boolean {
+    const link = this.links.get(linkId);
+    if (!link) return false;
+
+    this.record({
+      op: "link-status",
+      endpoint: this.endpointRef(link.endpoints[0]),
+      status,
+    });
+    link.status = status;
+    this.refreshLinks();
+    logger.info(`Simulated link ${this.describeLink(link)} is ${status}`);
+    return true;
+  }
+
+  public setLinkLoss(linkId: string, lossPercent: number): boolean {
+    const link = this.links.get(linkId);
+    if (!link) return false;
+
+    this.record({
+      op: "link-loss",
+      endpoint: this.endpointRef(link.endpoints[0]),
+      lossPercent,
+    });
+    link.lossPercent = lossPercent > 0 ? lossPercent : undefined;
+    logger.info(
+      `Simulated link ${this.describeLink(link)} drops ${lossPercent}% of packets`,
+    );
+    return true;
+  }
+
+  // A faulted port loses carrier, as a bad optic or cable would: it and its
+  // link peer go down without any change to the running config
+  public setInterfaceFault(
+    routerId: string,
+    interfaceName: string,
+    down: boolean,
+  ): boolean {
     const router = this.routers.get(routerId);
-    if (!router) return;
+    const iface = router?.interfaces.find(
+      (candidate) => candidate.name === interfaceName,
+    );
+    if (!router || !iface) return false;
 
-    // Extract hostname
-    const hostnameMatch = config.match(/hostname\s+([\w-]+)/);
-    if (hostnameMatch && hostnameMatch[1]) {
-      router.name = hostnameMatch[1];
+    this.record({
+      op: "interface-fault",
+      router: router.name,
+      interfaceName,
+      down,
+    });
+    const key = `${routerId}/${interfaceName}`;
+    if (down) {
+      this.interfaceFaults.add(key);
+    } else if (this.interfaceFaults.delete(key) && iface.status === "down") {
+      iface.status = "up";
     }
+    this.refreshLinks();
+    return true;
+  }
+
+  public setResourceUsage(
+    routerId: string,
+    usage: { cpuUsage?: number; memoryUsage?: number },
+  ): boolean {
+    const router = this.routers.get(routerId);
+    if (!router) return false;
+
+    this.record({ op: "resource-usage", router: router.name, ...usage });
+    router.cpuUsage = usage.cpuUsage ?? router.cpuUsage;
+    router.memoryUsage = usage.memoryUsage ?? router.memoryUsage;
+    return true;
+  }
+
+  public getLinks(): SimulatedLink[] {
+    return Array.from(this.links.values());
+  }
+
+  // Sends a simulated echo from the router, as "ping" does
+  public probe(
+    routerId: string,
+    destination: string,
+    source?: string,
+  ): ReachabilityResult {
+    return this.packetTracer.probe(routerId, destination, source);
+  }
 
-    // Extract interfaces
-    const interfaceBlocks = config.split(/interface\s+([\w\/]+)/i);
-    for (let i = 1; i < interfaceBlocks.length; i += 2) {
-      if (i + 1 < interfaceBlocks.length) {
-        const interfaceName = interfaceBlocks[i].trim();
-        const interfaceConfig = interfaceBlocks[i + 1].trim();
+  private findLink(end: LinkEndpoint): SimulatedLink | undefined {
+    return this.getLinks().find((link) =>
+      link.endpoints.some(
+        (candidate) =>
+          candidate.routerId === end.routerId &&
+          candidate.interfaceName === end.interfaceName,
+      ),
+    );
+  }
+
+  private describeLink(link: SimulatedLink): string {
+    return link.endpoints
+      .map(
+        (end) =>
+          `${this.routers.get(end.routerId)?.name ?? end.routerId} ${end.interfaceName}`,
+      )
+      .join(" <-> ");
+  }
 
-        // Extract IP address
-        const ipMatch = interfaceConfig.match(
-          /ip\s+address\s+([\d\.]+)\s+([\d\.]+)/,
+  // Linked interfaces are up only while the link and both ends are enabled;
+  // any change in link state reconverges the routing tables
+  private refreshLinks(): void {
+    this.routers.forEach((router) =>
+      router.interfaces.forEach((iface) => {
+        if (
+          iface.status === "up" &&
+          this.interfaceFaults.has(`${router.id}/${iface.name}`)
+        ) {
+          iface.status = "down";
+        }
+      }),
+    );
+
+    this.links.forEach((link) => {
+      const ends = link.endpoints.map((end) => {
+        const router = this.routers.get(end.routerId);
+        const iface = router?.interfaces.find(
+          (candidate) => candidate.name === end.interfaceName,
         );
-        let ipAddress = "";
-        let subnetMask = "";
-        if (ipMatch && ipMatch.length >= 3) {
-          ipAddress = ipMatch[1];
-          subnetMask = ipMatch[2];
+        return { router, iface };
+      });
+
+      const faulted = link.endpoints.some((end) =>
+        this.interfaceFaults.has(`${end.routerId}/${end.interfaceName}`),
+      );
+      ends.forEach(({ router, iface }, index) => {
+        if (!router || !iface || iface.status === "administratively down") {
+          return;
         }
+        const peer = ends[1 - index].iface;
+        iface.status =
+          link.status === "up" &&
+          !faulted &&
+          peer !== undefined &&
+          peer.status !== "administratively down"
+            ? "up"
+            : "down";
+      });
+    });
 
-        // Determine status
-        const status = interfaceConfig.includes("shutdown") ? "down" : "up";
+    this.converge();
+  }
 
-        // Update or add interface
-        this.addInterface(routerId, {
-          name: interfaceName,
-          ipAddress,
-          subnetMask,
-          status,
-        });
+  // Builds routers, ports, startup configs and links from a parsed lab file.
+  // With replace the current routers go first; otherwise names must be new.
+  public importTopology(
+    topology: LabTopology,
+    replace = false,
+  ): TopologyImportResult {
+    const warnings = [...topology.warnings];
+    const clashes = replace
+      ? []
+      : topology.nodes.filter((node) =>
+          this.getAllRouters().some((router) => router.name === node.name),
+        );
+    if (clashes.length > 0) {
+      return {
+        success: false,
+        routers: [],
+        links: [],
+        warnings,
+        error: `Routers already exist: ${clashes.map((node) => node.name).join(", ")}`,
+      };
+    }
+    if (replace) {
+      this.getAllRouters().forEach((router) => this.deleteRouter(router.id));
+    }
+
+    const created = new Map<string, SimulatedRouter>();
+    topology.nodes.forEach((node, index) => {
+      // containerlab hands out management addresses from 172.20.20.0/24
+      const router = this.createRouter(
+        node.name,
+        `Imported from ${topology.name}`,
+        node.managementIp || `172.20.20.${index + 2}`,
+        node.model,
+      );
+      node.interfaces.forEach((name) =>
+        this.addInterface(router.id, { name, status: "up" }),
+      );
+      if (node.startupConfig) {
+        this.updateRunningConfig(router.id, node.startupConfig);
+        // Configs without a hostname keep the node name from the lab file
+        if (
+          !this.configs
+            .get(router.id)
+            ?.lines()
+            .some((line) => line.startsWith("hostname "))
+        ) {
+          this.updateRouter(router.id, { name: node.name });
+        }
+        this.saveRunningConfigToStartup(router.id);
       }
+      created.set(node.name, router);
+    });
+
+    const links: SimulatedLink[] = [];
+    topology.links.forEach((labLink) => {
+      const [a, b] = labLink.endpoints.map((end) => ({
+        routerId: created.get(end.node)?.id || "",
+        interfaceName: end.interfaceName,
+      }));
+      const result = this.addLink(a, b);
+      if (result.link) {
+        links.push(result.link);
+      } else {
+        warnings.push(
+          `Skipped link ${labLink.endpoints.map((end) => `${end.node}:${end.interfaceName}`).join(" - ")}: ${result.error}`,
+        );
+      }
+    });
+
+    logger.info(
+      `Imported topology ${topology.name}: ${created.size} routers, ${links.length} links`,
+    );
+    return {
+      success: true,
+      routers: Array.from(created.values()),
+      links,
+      warnings,
+    };
+  }
+
+  // Running configs are exported as startup configs so the lab boots as it is now
+  public exportTopology(name = "lab"): LabTopology {
+    return {
+      name,
+      nodes: this.getAllRouters().map((router) => ({
+        name: router.name,
+        model: router.model,
+        managementIp: router.managementIp,
+        interfaces: router.interfaces.map((iface) => iface.name),
+        startupConfig: router.runningConfig,
+      })),
+      links: this.getLinks().map((link) => ({
+        endpoints: link.endpoints.map((end) => ({
+          node: this.routers.get(end.routerId)?.name || end.routerId,
+          interfaceName: end.interfaceName,
+        })) as LabLink["endpoints"],
+      })),
+      warnings: [],
+    };
+  }
+
+  public getLog(): SimulatorLogEntry[] {
+    return [...this.log];
+  }
+
+  // Non-zero once the log no longer reaches back to the default topology
+  public getDroppedLogEntries(): number {
+    return this.logDropped;
+  }
+
+  // Runs changes that should stay out of the log, such as injected faults
+  public unrecorded<T>(run: () => T): T {
+    const recording = this.recording;
+    this.recording = false;
+    try {
+      return run();
+    } finally {
+      this.recording = recording;
     }
+  }
 
-    // Update last modified timestamp
-    router.lastModified = new Date().toISOString();
+  public exportState(): SimulatorState {
+    // Plain JSON data, so a round trip is a deep copy
+    return JSON.parse(
+      JSON.stringify({
+        routers: this.getAllRouters(),
+        links: this.getLinks(),
+        interfaceFaults: Array.from(this.interfaceFaults),
+        log: this.log,
+        logDropped: this.logDropped,
+      }),
+    );
   }
 
-  private buildCommandPrompt(router: SimulatedRouter, command: string): string {
-    return `You are simulating a Cisco IOS router with the following configuration:\n\nHostname: ${router.name}\nIOS Version: ${router.iosVersion}\nModel: ${router.model}\n\nInterfaces:\n${router.interfaces.map((i) => `- ${i.name}: ${i.ipAddress}/${i.subnetMask} (${i.status})`).join("\n")}\n\nThe user has entered the following command:\n${command}\n\nProvide the exact output that would be shown on a real Cisco router. Be accurate and concise, matching the format of real Cisco IOS output. Do not include any explanations or notes outside of the router output.`;
+  // Open CLI sessions are dropped, since their routers may no longer exist
+  public importState(state: SimulatorState): void {
+    const copy: SimulatorState = JSON.parse(JSON.stringify(state));
+    this.routers = new Map(copy.routers.map((router) => [router.id, router]));
+    this.configs.clear();
+    copy.routers.forEach((router) =>
+      this.configs.set(
+        router.id,
+        this.personalityOf(router).parse(router.runningConfig).config,
+      ),
+    );
+    this.links = new Map(copy.links.map((link) => [link.id, link]));
+    this.interfaceFaults = new Set(copy.interfaceFaults);
+    this.log = copy.log;
+    this.logDropped = copy.logDropped ?? 0;
+    this.activeConnections.clear();
+    this.cliSessions.clear();
+    this.sessionLastUsed.clear();
+    this.refreshLinks();
+    logger.info(
+      `Restored simulator state: ${this.routers.size} routers, ${this.links.size} links`,
+    );
+  }
+
+  public reset(): void {
+    this.routers.clear();
+    this.configs.clear();
+    this.links.clear();
+    this.interfaceFaults.clear();
+    this.activeConnections.clear();
+    this.cliSessions.clear();
+    this.sessionLastUsed.clear();
+    this.log = [];
+    this.logDropped = 0;
+    this.recording = false;
+    this.initializeDefaultTopology();
+    this.recording = true;
+    logger.info("Router Simulator reset to the default topology");
+  }
+
+  private record(operation: SimulatorOperation): void {
+    if (this.recording) {
+      this.log.push({ ...operation, at: new Date().toISOString() });
+      if (this.log.length > this.simulatorConfig.maxLogEntries) {
+        this.log.shift();
+        this.logDropped++;
+      }
+    }
+  }
+
+  private endpointRef(end: LinkEndpoint): LabInterfaceRef {
+    return {
+      node: this.routers.get(end.routerId)?.name || end.routerId,
+      interfaceName: end.interfaceName,
+    };
   }
 
   public getRouterConfig(routerId: string): RouterConfig | undefined {
@@ -447,6 +1483,10 @@ end`;
   }
 
   public disconnectSession(sessionId: string): boolean {
+    this.cliSessions.delete(sessionId);
+    this.sessionLastUsed.delete(sessionId);
     return this.activeConnections.delete(sessionId);
   }
 }
+
+export const routerSimulator = new RouterSimulator(llmIntegration);
@@ -0,0 +1,831 @@
+import { RouterSimulator } from "./RouterSimulator";
+import { IosConfigTree } from "./IosConfigTree";
+import { ShowCommandParser } from "./ShowCommandParser";
+import { LOOPBACK_INTERFACE } from "./IosCliEngine";
+import {
+  isIpv4,
+  ipToNumber,
+  maskToPrefix,
+  networkAddress,
+  inSubnet,
+  classfulPrefix,
+} from "../utils/ipv4";
+import {
+  SimulatedRouter,
+  RouterInterface,
+  RouteEntry,
+  OspfNeighbor,
+  BgpNeighbor,
+  BgpSessionState,
+} from "../types";
+
+interface OspfInterface {
+  iface: RouterInterface;
+  area: number;
+  cost: number;
+  priority: number;
+  helloInterval: number;
+  deadInterval: number;
+  passive: boolean;
+  network: string; // advertised prefix; loopbacks are advertised as host routes
+  prefixLength: number;
+}
+
+interface OspfSpeaker {
+  router: SimulatedRouter;
+  routerId: string;
+  interfaces: OspfInterface[];
+  originatesDefault: boolean;
+}
+
+interface OspfAdjacency {
+  speaker: OspfSpeaker;
+  local: OspfInterface;
+  peer: OspfSpeaker;
+  peerInterface: OspfInterface;
+  full: boolean; // two routers with priority 0 never get past 2WAY
+}
+
+interface OspfPath {
+  cost: number;
+  hops: OspfAdjacency[]; // equal-cost first hops; empty for the router's own prefixes
+}
+
+// Shortest paths from one router to every router in an area
+type SpfTree = Map<OspfSpeaker, OspfPath>;
+
+interface BgpSpeaker {
+  router: SimulatedRouter;
+  asn: number;
+  routerId: string;
+  neighbors: { address: string; remoteAs: number }[];
+  networks: { network: string; prefixLength: number }[];
+}
+
+interface BgpSession {
+  local: BgpSpeaker;
+  peer: BgpSpeaker;
+  address: string; // the peer's address
+  ibgp: boolean;
+}
+
+interface BgpPath {
+  asPath: number[];
+  nextHop: string;
+  session?: BgpSession; // unset for locally originated networks
+}
+
+// Interface bandwidth in kbit/s, which sets the default OSPF cost
+const INTERFACE_BANDWIDTH: [RegExp, number][] = [
+  [LOOPBACK_INTERFACE, 8000000],
+  [/^TenGigabitEthernet/, 10000000],
+  [/^GigabitEthernet/, 1000000],
+  [/^FastEthernet/, 100000],
+  [/^Ethernet/, 10000],
+  [/^Serial/, 1544],
+  [/^Tunnel/, 100],
+];
+
+const OSPF_REFERENCE_BANDWIDTH = 100000;
+
+// Serial links and tunnels run OSPF point-to-point, without a DR election
+const POINT_TO_POINT_INTERFACE = /^(Serial|Tunnel)/;
+
+const OSPF_DISTANCE = 110;
+const EBGP_DISTANCE = 20;
+const IBGP_DISTANCE = 200;
+
+// Simplified OSPF and BGP: adjacencies form over the simulated links and the
+// protocols converge in one pass instead of exchanging packets
+export class RoutingProtocols {
+  private simulator: RouterSimulator;
+  private configs: Map<string, IosConfigTree>;
+  private showParser: ShowCommandParser = new ShowCommandParser();
+  private establishedAt: Map<string, string> = new Map(); // routerId:address -> timestamp
+
+  constructor(simulator: RouterSimulator, configs: Map<string, IosConfigTree>) {
+    this.simulator = simulator;
+    this.configs = configs;
+  }
+
+  // Sets each router's OSPF neighbors and returns the OSPF routes per router.
+  // Routing tables must already hold the connected and static routes.
+  public runOspf(routers: SimulatedRouter[]): Map<string, RouteEntry[]> {
+    const speakers = routers
+      .map((router) => this.ospfSpeaker(router))
+      .filter((speaker): speaker is OspfSpeaker => speaker !== undefined);
+
+    const adjacencies = new Map<OspfSpeaker, OspfAdjacency[]>();
+    speakers.forEach((speaker) =>
+      adjacencies.set(speaker, this.ospfAdjacencies(speaker, speakers)),
+    );
+    routers.forEach((router) => (router.ospfNeighbors = []));
+    adjacencies.forEach((list, speaker) => {
+      speaker.router.ospfNeighbors = list.map((adjacency) =>
+        this.ospfNeighbor(adjacency),
+      );
+    });
+
+    const trees = new Map<OspfSpeaker, Map<number, SpfTree>>();
+    const intra = new Map<OspfSpeaker, Map<number, Map<string, OspfPath>>>();
+    speakers.forEach((speaker) => {
+      const areaTrees = new Map<number, SpfTree>();
+      const areaRoutes = new Map<number, Map<string, OspfPath>>();
+      this.areasOf(speaker).forEach((area) => {
+        const tree = this.spf(speaker, area, adjacencies);
+        areaTrees.set(area, tree);
+        areaRoutes.set(area, this.intraAreaRoutes(tree, area));
+      });
+      trees.set(speaker, areaTrees);
+      intra.set(speaker, areaRoutes);
+    });
+
+    const abrs = speakers.filter((speaker) => {
+      const areas = this.areasOf(speaker);
+      return areas.includes(0) && areas.length > 1;
+    });
+
+    // ABRs summarize their other areas into an area; only the backbone
+    // passes on what it learned from other ABRs
+    const interArea = new Map<OspfSpeaker, Map<string, OspfPath>>();
+    const summaries = (abr: OspfSpeaker, into: number) => {
+      const routes = new Map<string, OspfPath>();
+      intra.get(abr)!.forEach((areaRoutes, area) => {
+        if (area !== into) {
+          areaRoutes.forEach((path, key) => this.offer(routes, key, path));
+        }
+      });
+      if (into !== 0) {
+        interArea
+          .get(abr)
+          ?.forEach((path, key) => this.offer(routes, key, path));
+      }
+      return routes;
+    };
+    const collect = (speaker: OspfSpeaker, areas: number[]) => {
+      const routes = new Map<string, OspfPath>();
+      areas.forEach((area) => {
+        const tree = trees.get(speaker)!.get(area)!;
+        abrs.forEach((abr) => {
+          const toAbr = tree.get(abr);
+          if (abr === speaker || !toAbr) return;
+          summaries(abr, area).forEach((path, key) =>
+            this.offer(routes, key, {
+              cost: toAbr.cost + path.cost,
+              hops: toAbr.hops,
+            }),
+          );
+        });
+      });
+      return routes;
+    };
+    // ABRs ignore summaries heard in non-backbone areas
+    const backbone = speakers.filter((speaker) =>
+      this.areasOf(speaker).includes(0),
+    );
+    backbone.forEach((speaker) =>
+      interArea.set(speaker, collect(speaker, [0])),
+    );
+    speakers
+      .filter((speaker) => !backbone.includes(speaker))
+      .forEach((speaker) =>
+        interArea.set(speaker, collect(speaker, this.areasOf(speaker))),
+      );
+
+    const routes = new Map<string, RouteEntry[]>();
+    speakers.forEach((speaker) => {
+      const intraRoutes = new Map<string, OspfPath>();
+      intra
+        .get(speaker)!
+        .forEach((areaRoutes) =>
+          areaRoutes.forEach((path, key) => this.offer(intraRoutes, key, path)),
+        );
+
+      const entries: RouteEntry[] = [];
+      intraRoutes.forEach((path, key) =>
+        entries.push(...this.ospfRoutes("O", key, path)),
+      );
+      interArea.get(speaker)!.forEach((path, key) => {
+        if (!intraRoutes.has(key)) {
+          entries.push(...this.ospfRoutes("O IA", key, path));
+        }
+      });
+
+      // Type 2 externals keep metric 1; the cost to the ASBR breaks ties
+      if (!speaker.originatesDefault) {
+        let toAsbr: OspfPath | undefined;
+        speakers
+          .filter((asbr) => asbr.originatesDefault)
+          .forEach((asbr) => {
+            const path = this.routerPath(speaker, asbr, trees, abrs, 0);
+            if (path) toAsbr = this.cheaper(toAsbr, path);
+          });
+        if (toAsbr) {
+          entries.push(
+            ...this.ospfRoutes("O*E2", "0.0.0.0/0", { ...toAsbr, cost: 1 }),
+          );
+        }
+      }
+      routes.set(speaker.router.id, entries);
+    });
+    return routes;
+  }
+
+  // Sets each router's BGP state and returns the BGP routes per router.
+  // Routing tables must already hold the IGP routes that carry iBGP sessions.
+  public runBgp(routers: SimulatedRouter[]): Map<string, RouteEntry[]> {
+    const speakers = routers
+      .map((router) => this.bgpSpeaker(router))
+      .filter((speaker): speaker is BgpSpeaker => speaker !== undefined);
+
+    const previous = this.establishedAt;
+    this.establishedAt = new Map();
+    const sessions: BgpSession[] = [];
+    const neighbors = new Map<BgpSpeaker, BgpNeighbor[]>();
+    speakers.forEach((speaker) => {
+      neighbors.set(
+        speaker,
+        speaker.neighbors.map(({ address, remoteAs }) => {
+          const { state, session } = this.openSession(
+            speaker,
+            address,
+            remoteAs,
+            speakers,
+          );
+          const key = `${speaker.router.id}:${address}`;
+          if (session) {
+            sessions.push(session);
+            this.establishedAt.set(
+              key,
+              previous.get(key) || new Date().toISOString(),
+            );
+          }
+          return {
+            address,
+            remoteAs,
+            state,
+            establishedAt: this.establishedAt.get(key),
+            prefixesReceived: 0,
+          };
+        }),
+      );
+    });
+
+    // Paths spread one AS hop per round until the best paths stop changing
+    let best = new Map<BgpSpeaker, Map<string, BgpPath>>();
+    const received = new Map<BgpSession, number>();
+    const pathCounts = new Map<BgpSpeaker, number>();
+    for (let round = 0; round <= speakers.length + 1; round++) {
+      const next = new Map<BgpSpeaker, Map<string, BgpPath>>();
+      speakers.forEach((speaker) => {
+        const candidates = this.localPaths(speaker);
+        sessions
+          .filter((session) => session.local === speaker)
+          .forEach((session) => {
+            let accepted = 0;
+            best.get(session.peer)?.forEach((path, key) => {
+              const advertised = this.advertise(path, session);
+              if (!advertised) return;
+              accepted++;
+              candidates.set(key, [...(candidates.get(key) || []), advertised]);
+            });
+            received.set(session, accepted);
+          });
+
+        const selected = new Map<string, BgpPath>();
+        let paths = 0;
+        candidates.forEach((list, key) => {
+          paths += list.length;
+          const chosen = this.bestPath(speaker, list);
+          if (chosen) selected.set(key, chosen);
+        });
+        pathCounts.set(speaker, paths);
+        next.set(speaker, selected);
+      });
+
+      const settled = this.bgpSignature(next) === this.bgpSignature(best);
+      best = next;
+      if (settled) break;
+    }
+
+    routers.forEach((router) => (router.bgp = undefined));
+    const routes = new Map<string, RouteEntry[]>();
+    speakers.forEach((speaker) => {
+      const selected = best.get(speaker) || new Map<string, BgpPath>();
+      const entries: RouteEntry[] = [];
+      selected.forEach((path, key) => {
+        if (!path.session) return;
+        const [network, prefixLength] = key.split("/");
+        entries.push({
+          code: "B",
+          protocol: "bgp",
+          network,
+          prefixLength: Number(prefixLength),
+          nextHop: path.nextHop,
+          adminDistance: path.session.ibgp ? IBGP_DISTANCE : EBGP_DISTANCE,
+          metric: 0,
+        });
+      });
+      routes.set(speaker.router.id, entries);
+
+      speaker.router.bgp = {
+        localAs: speaker.asn,
+        routerId: speaker.routerId,
+        networkEntries: selected.size,
+        pathEntries: pathCounts.get(speaker) || 0,
+        neighbors: (neighbors.get(speaker) || []).map((neighbor) => {
+          const session = sessions.find(
+            (candidate) =>
+              candidate.local === speaker &&
+              candidate.address === neighbor.address,
+          );
+          return {
+            ...neighbor,
+            prefixesReceived: session ? received.get(session) || 0 : 0,
+          };
+        }),
+      };
+    });
+    return routes;
+  }
+
+  private ospfSpeaker(router: SimulatedRouter): OspfSpeaker | undefined {
+    const tree = this.configs.get(router.id);
+    const header = tree?.sections("router ospf")[0];
+    if (!tree || !header) return undefined;
+
+    const lines = tree.lines([header]);
+    // The most specific network statement claims an interface
+    const statements = lines
+      .map((line) => line.match(/^network (\S+) (\S+) area (\S+)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .filter(([, network, wildcard]) => isIpv4(network) && isIpv4(wildcard))
+      .map(([, network, wildcard, area]) => ({
+        network: ipToNumber(network),
+        wildcard: ipToNumber(wildcard),
+        area: isIpv4(area) ? ipToNumber(area) : Number(area),
+      }))
+      .sort((a, b) => a.wildcard - b.wildcard);
+    const passiveDefault = lines.includes("passive-interface default");
+    const passive = lines
+      .filter((line) => line.startsWith("passive-interface "))
+      .map((line) =>
+        this.showParser.normalizeInterfaceName(
+          line.slice("passive-interface ".length),
+        ),
+      );
+
+    const interfaces: OspfInterface[] = [];
+    router.interfaces.forEach((iface) => {
+      const prefixLength = iface.subnetMask
+        ? maskToPrefix(iface.subnetMask)
+        : -1;
+      if (iface.status !== "up" || !iface.ipAddress || prefixLength < 0) {
+        return;
+      }
+      // "ip ospf <process> area" on the interface wins over network statements
+      const settings = tree.lines([`interface ${iface.name}`]);
+      const explicit = settings
+        .map((line) => line.match(/^ip ospf \S+ area (\S+)$/))
+        .find((match) => match !== null)?.[1];
+      const address = ipToNumber(iface.ipAddress);
+      const statement = explicit
+        ? { area: isIpv4(explicit) ? ipToNumber(explicit) : Number(explicit) }
+        : statements.find(
+            ({ network, wildcard }) =>
+              (address | wildcard) >>> 0 === (network | wildcard) >>> 0,
+          );
+      if (!statement) return;
+
+      const setting = (name: string) =>
+        settings
+          .map((line) => line.match(new RegExp(`^ip ospf ${name} (\\d+)$`)))
+          .find((match) => match !== null)?.[1];
+      const loopback = LOOPBACK_INTERFACE.test(iface.name);
+      const helloInterval = Number(setting("hello-interval") ?? 10);
+      interfaces.push({
+        iface,
+        area: statement.area,
+        cost: Number(setting("cost") ?? this.defaultCost(iface.name)),
+        priority: Number(setting("priority") ?? 1),
+        helloInterval,
+        // The dead interval follows the hello interval unless set
+        deadInterval: Number(setting("dead-interval") ?? helloInterval * 4),
+        passive: passiveDefault || passive.includes(iface.name),
+        network: loopback
+          ? iface.ipAddress
+          : networkAddress(iface.ipAddress, prefixLength),
+        prefixLength: loopback ? 32 : prefixLength,
+      });
+    });
+
+    const routerId =
+      lines
+        .find((line) => line.startsWith("router-id "))
+        ?.slice("router-id ".length) || this.highestAddress(router);
+    if (!routerId || interfaces.length === 0) return undefined;
+
+    const originate = lines.find((line) =>
+      line.startsWith("default-information originate"),
+    );
+    return {
+      router,
+      routerId,
+      interfaces,
+      originatesDefault:
+        originate !== undefined &&
+        (originate.endsWith(" always") ||
+          router.routingTable.some((route) => route.prefixLength === 0)),
+    };
+  }
+
+  // Hellos only cross up links between matching subnets in the same area,
+  // and are ignored when the two ends disagree on their timers
+  private ospfAdjacencies(
+    speaker: OspfSpeaker,
+    speakers: OspfSpeaker[],
+  ): OspfAdjacency[] {
+    const adjacencies: OspfAdjacency[] = [];
+
+    speaker.interfaces.forEach((local) => {
+      if (local.passive || LOOPBACK_INTERFACE.test(local.iface.name)) return;
+      const link = this.simulator
+        .getLinks()
+        .find(
+          (candidate) =>
+            candidate.status === "up" &&
+            candidate.endpoints.some(
+              (end) =>
+                end.routerId === speaker.router.id &&
+                end.interfaceName === local.iface.name,
+            ),
+        );
+      const peerEnd = link?.endpoints.find(
+        (end) =>
+          end.routerId !== speaker.router.id ||
+          end.interfaceName !== local.iface.name,
+      );
+      const peer = speakers.find(
+        (candidate) => candidate.router.id === peerEnd?.routerId,
+      );
+      const peerInterface = peer?.interfaces.find(
+        (candidate) => candidate.iface.name === peerEnd?.interfaceName,
+      );
+      if (
+        !peer ||
+        !peerInterface ||
+        peerInterface.passive ||
+        peerInterface.area !== local.area ||
+        peerInterface.prefixLength !== local.prefixLength ||
+        peerInterface.helloInterval !== local.helloInterval ||
+        peerInterface.deadInterval !== local.deadInterval ||
+        !inSubnet(
+          peerInterface.iface.ipAddress!,
+          local.network,
+          local.prefixLength,
+        ) ||
+        peer.routerId === speaker.routerId
+      ) {
+        return;
+      }
+
+      adjacencies.push({
+        speaker,
+        local,
+        peer,
+        peerInterface,
+        full:
+          POINT_TO_POINT_INTERFACE.test(local.iface.name) ||
+          local.priority > 0 ||
+          peerInterface.priority > 0,
+      });
+    });
+    return adjacencies;
+  }
+
+  private ospfNeighbor(adjacency: OspfAdjacency): OspfNeighbor {
+    const { local, peer, peerInterface } = adjacency;
+    const pointToPoint = POINT_TO_POINT_INTERFACE.test(local.iface.name);
+    return {
+      neighborId: peer.routerId,
+      priority: pointToPoint ? 0 : peerInterface.priority,
+      state: pointToPoint
+        ? "FULL/  -"
+        : `${adjacency.full ? "FULL" : "2WAY"}/${this.peerRole(adjacency)}`,
+      address: peerInterface.iface.ipAddress!,
+      interface: local.iface.name,
+    };
+  }
+
+  // Highest priority, then highest router ID, wins the DR election
+  private peerRole(adjacency: OspfAdjacency): "DR" | "BDR" | "DROTHER" {
+    const { speaker, local, peer, peerInterface } = adjacency;
+    const eligible = [
+      { routerId: speaker.routerId, priority: local.priority },
+      { routerId: peer.routerId, priority: peerInterface.priority },
+    ]
+      .filter((candidate) => candidate.priority > 0)
+      .sort(
+        (a, b) =>
+          b.priority - a.priority ||
+          ipToNumber(b.routerId) - ipToNumber(a.routerId),
+      );
+    const rank = eligible.findIndex(
+      (candidate) => candidate.routerId === peer.routerId,
+    );
+    return rank === 0 ? "DR" : rank === 1 ? "BDR" : "DROTHER";
+  }
+
+  // Dijkstra over the full adjacencies of one area, keeping equal-cost first hops
+  private spf(
+    root: OspfSpeaker,
+    area: number,
+    adjacencies: Map<OspfSpeaker, OspfAdjacency[]>,
+  ): SpfTree {
+    const tree: SpfTree = new Map([[root, { cost: 0, hops: [] }]]);
+    const done = new Set<OspfSpeaker>();
+
+    for (;;) {
+      let current: OspfSpeaker | undefined;
+      tree.forEach((path, speaker) => {
+        if (
+          !done.has(speaker) &&
+          (!current || path.cost < tree.get(current)!.cost)
+        ) {
+          current = speaker;
+        }
+      });
+      if (!current) return tree;
+      done.add(current);
+
+      const base = tree.get(current)!;
+      (adjacencies.get(current) || []).forEach((adjacency) => {
+        if (!adjacency.full || adjacency.local.area !== area) return;
+        const cost = base.cost + adjacency.local.cost;
+        const hops = current === root ? [adjacency] : base.hops;
+        const known = tree.get(adjacency.peer);
+        if (!known || cost < known.cost) {
+          tree.set(adjacency.peer, { cost, hops: [...hops] });
+        } else if (cost === known.cost && !done.has(adjacency.peer)) {
+          known.hops = Array.from(new Set([...known.hops, ...hops]));
+        }
+      });
+    }
+  }
+
+  // Every prefix advertised in the area, priced from the tree's root
+  private intraAreaRoutes(tree: SpfTree, area: number): Map<string, OspfPath> {
+    const routes = new Map<string, OspfPath>();
+    tree.forEach((path, speaker) => {
+      speaker.interfaces
+        .filter((ospfInterface) => ospfInterface.area === area)
+        .forEach((ospfInterface) =>
+          this.offer(
+            routes,
+            `${ospfInterface.network}/${ospfInterface.prefixLength}`,
+            { cost: path.cost + ospfInterface.cost, hops: path.hops },
+          ),
+        );
+    });
+    return routes;
+  }
+
+  // Routers in another area are reached through an ABR
+  private routerPath(
+    from: OspfSpeaker,
+    target: OspfSpeaker,
+    trees: Map<OspfSpeaker, Map<number, SpfTree>>,
+    abrs: OspfSpeaker[],
+    depth: number,
+  ): OspfPath | undefined {
+    let best: OspfPath | undefined;
+    trees.get(from)!.forEach((tree) => {
+      const path = tree.get(target);
+      if (path) best = this.cheaper(best, path);
+    });
+    if (best || depth >= 2) return best;
+
+    const areas = this.areasOf(from);
+    (areas.includes(0) ? [0] : areas).forEach((area) => {
+      const tree = trees.get(from)!.get(area)!;
+      abrs.forEach((abr) => {
+        const toAbr = tree.get(abr);
+        if (abr === from || !toAbr) return;
+        const rest = this.routerPath(abr, target, trees, abrs, depth + 1);
+        if (rest) {
+          best = this.cheaper(best, {
+            cost: toAbr.cost + rest.cost,
+            hops: toAbr.hops,
+          });
+        }
+      });
+    });
+    return best;
+  }
+
+  private offer(
+    routes: Map<string, OspfPath>,
+    key: string,
+    path: OspfPath,
+  ): void {
+    const known = routes.get(key);
+    routes.set(key, known ? this.cheaper(known, path) : { ...path });
+  }
+
+  private cheaper(known: OspfPath | undefined, path: OspfPath): OspfPath {
+    if (!known || path.cost < known.cost) return { ...path };
+    if (path.cost > known.cost) return known;
+    return {
+      cost: known.cost,
+      hops: Array.from(new Set([...known.hops, ...path.hops])),
+    };
+  }
+
+  // One entry per equal-cost next hop; the router's own prefixes are connected
+  private ospfRoutes(code: string, key: string, path: OspfPath): RouteEntry[] {
+    const [network, prefixLength] = key.split("/");
+    return path.hops.map((hop) => ({
+      code,
+      protocol: "ospf",
+      network,
+      prefixLength: Number(prefixLength),
+      nextHop: hop.peerInterface.iface.ipAddress,
+      interface: hop.local.iface.name,
+      adminDistance: OSPF_DISTANCE,
+      metric: path.cost,
+      candidateDefault: prefixLength === "0" || undefined,
+    }));
+  }
+
+  private areasOf(speaker: OspfSpeaker): number[] {
+    return Array.from(
+      new Set(speaker.interfaces.map((ospfInterface) => ospfInterface.area)),
+    );
+  }
+
+  private defaultCost(interfaceName: string): number {
+    const bandwidth =
+      INTERFACE_BANDWIDTH.find(([pattern]) =>
+        pattern.test(interfaceName),
+      )?.[1] || 1000000;
+    return Math.max(1, Math.floor(OSPF_REFERENCE_BANDWIDTH / bandwidth));
+  }
+
+  private bgpSpeaker(router: SimulatedRouter): BgpSpeaker | undefined {
+    const tree = this.configs.get(router.id);
+    const header = tree?.sections("router bgp")[0];
+    const asn = Number(header?.split(" ")[2]);
+    if (!tree || !header || !Number.isInteger(asn)) return undefined;
+
+    const lines = tree.lines([header]);
+    const routerId =
+      lines
+        .find((line) => line.startsWith("bgp router-id "))
+        ?.slice("bgp router-id ".length) || this.highestAddress(router);
+    if (!routerId) return undefined;
+
+    return {
+      router,
+      asn,
+      routerId,
+      neighbors: lines
+        .map((line) => line.match(/^neighbor (\S+) remote-as (\d+)$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(([, address, remoteAs]) => ({
+          address,
+          remoteAs: Number(remoteAs),
+        })),
+      networks: lines
+        .map((line) => line.match(/^network (\S+)(?: mask (\S+))?$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .filter(
+          ([, network, mask]) => isIpv4(network) && (!mask || isIpv4(mask)),
+        )
+        .map(([, network, mask]) => ({
+          network,
+          prefixLength: mask ? maskToPrefix(mask) : classfulPrefix(network),
+        })),
+    };
+  }
+
+  // eBGP peers must be directly connected; iBGP peers ride the IGP
+  private openSession(
+    speaker: BgpSpeaker,
+    address: string,
+    remoteAs: number,
+    speakers: BgpSpeaker[],
+  ): { state: BgpSessionState; session?: BgpSession } {
+    const probe = this.simulator.probe(speaker.router.id, address);
+    if (!probe.reachable) return { state: "Idle" };
+
+    const ibgp = remoteAs === speaker.asn;
+    const localAddress = probe.forward.source;
+    const peer = speakers.find((candidate) =>
+      candidate.router.interfaces.some(
+        (iface) => iface.ipAddress === address && iface.status === "up",
+      ),
+    );
+    if (
+      !peer ||
+      peer.asn !== remoteAs ||
+      (!ibgp && probe.forward.hops.length !== 1) ||
+      !peer.neighbors.some(
+        (neighbor) =>
+          neighbor.address === localAddress &&
+          neighbor.remoteAs === speaker.asn,
+      )
+    ) {
+      return { state: "Active" };
+    }
+    return {
+      state: "Established",
+      session: { local: speaker, peer, address, ibgp },
+    };
+  }
+
+  // "network" only originates prefixes already in the routing table
+  private localPaths(speaker: BgpSpeaker): Map<string, BgpPath[]> {
+    const paths = new Map<string, BgpPath[]>();
+    speaker.networks.forEach(({ network, prefixLength }) => {
+      const present = speaker.router.routingTable.some(
+        (route) =>
+          route.network === network && route.prefixLength === prefixLength,
+      );
+      if (present) {
+        paths.set(`${network}/${prefixLength}`, [
+          { asPath: [], nextHop: "0.0.0.0" },
+        ]);
+      }
+    });
+    return paths;
+  }
+
+  // What the peer sends over the session, or undefined when it is filtered
+  private advertise(path: BgpPath, session: BgpSession): BgpPath | undefined {
+    if (session.ibgp) {
+      // iBGP-learned paths are not passed to other iBGP peers
+      if (path.session?.ibgp) return undefined;
+      return {
+        asPath: path.asPath,
+        nextHop: path.session ? path.nextHop : session.address,
+        session,
+      };
+    }
+    if (path.asPath.includes(session.local.asn)) return undefined;
+    return {
+      asPath: [session.peer.asn, ...path.asPath],
+      nextHop: session.address,
+      session,
+    };
+  }
+
+  // Local paths first, then shortest AS path, eBGP over iBGP, lowest router ID
+  private bestPath(speaker: BgpSpeaker, paths: BgpPath[]): BgpPath | undefined {
+    const local = paths.find((path) => !path.session);
+    if (local) return local;
+
+    return paths
+      .filter((path) =>
+        speaker.router.routingTable.some(
+          (route) =>
+            route.protocol !== "bgp" &&
+            inSubnet(path.nextHop, route.network, route.prefixLength),
+        ),
+      )
+      .sort(
+        (a, b) =>
+          a.asPath.length - b.asPath.length ||
+          Number(a.session!.ibgp) - Number(b.session!.ibgp) ||
+          ipToNumber(a.session!.peer.routerId) -
+            ipToNumber(b.session!.peer.routerId),
+      )[0];
+  }
+
+  private bgpSignature(best: Map<BgpSpeaker, Map<string, BgpPath>>): string {
+    return Array.from(best.entries())
+      .map(([speaker, paths]) =>
+        [
+          speaker.router.id,
+          ...Array.from(paths.entries()).map(
+            ([key, path]) => `${key} ${path.nextHop} ${path.asPath.join(" ")}`,
+          ),
+        ].join(";"),
+      )
+      .join("|");
+  }
+
+  // Router ID fallback: the highest loopback address, else the highest address
+  private highestAddress(router: SimulatedRouter): string | undefined {
+    const addresses = (loopback: boolean) =>
+      router.interfaces
+        .filter(
+          (iface) =>
+            iface.status === "up" &&
+            iface.ipAddress &&
+            LOOPBACK_INTERFACE.test(iface.name) === loopback,
+        )
+        .map((iface) => iface.ipAddress!)
+        .sort((a, b) => ipToNumber(b) - ipToNumber(a));
+    return [...addresses(true), ...addresses(false)][0];
+  }
+}
@@ -0,0 +1,41 @@
+import { NodeSSH } from "node-ssh";
+import { ClientChannel } from "ssh2";
+import { CliSession } from "./CliSession";
+
+export class SSHSession extends CliSession {
+  public readonly protocol = "ssh" as const;
+  private ssh: NodeSSH = new NodeSSH();
+  private shell: ClientChannel | null = null;
+
+  public isOpen(): boolean {
+    return this.shell !== null;
+  }
+
+  protected async connectTransport(): Promise<void> {
+    await this.ssh.connect({
+      host: this.device.ip,
+      port: this.device.port || 22,
+      username: this.device.username,
+      password: this.device.password,
+      tryKeyboard: true,
+      readyTimeout: this.timeout,
+    });
+
+    this.shell = await this.ssh.requestShell({ term: "vt100" });
+    this.shell.on("data", (data: Buffer) => this.receive(data.toString()));
+    this.shell.on("close", () => {
+      this.shell = null;
+      this.transportClosed();
+    });
+  }
+
+  protected writeRaw(data: string): void {
+    this.shell?.write(data);
+  }
+
+  protected closeTransport(): void {
+    this.shell?.end();
+    this.shell = null;
+    this.ssh.dispose();
+  }
+}
@@ -0,0 +1,354 @@
+import fs from "fs";
+import path from "path";
+import { ShowCommandParser } from "./ShowCommandParser";
+
+// Output captured from a CSR1000V running IOS XE 17.3
+const fixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, "__fixtures__", "ios", name), "utf8");
+
+// Cuts the output off partway through a line, as a dropped session would
+const truncate = (output: string, line: number, keep: number) => {
+  const lines = output.split("\n");
+  return [...lines.slice(0, line), lines[line].slice(0, keep)].join("\n");
+};
+
+describe("ShowCommandParser", () => {
+  const parser = new ShowCommandParser();
+
+  describe("show version", () => {
+    const output = fixture("show-version.txt");
+
+    it("reads the platform, image and uptime", () => {
+      expect(parser.parse("version", output)).toEqual({
+        hostname: "edge-rtr-01",
+        software: "IOS XE",
+        version: "17.03.04a",
+        image: "X86_64_LINUX_IOSD-UNIVERSALK9-M",
+        model: "CSR1000V",
+        serialNumber: "9KXI0D7TVFI",
+        uptime: "2 weeks, 3 days, 4 hours, 15 minutes",
+        uptimeSeconds: 1484100,
+        systemImageFile: "bootflash:packages.conf",
+        configRegister: "0x2102",
+        lastReloadReason: "Reload Command",
+      });
+    });
+
+    it("leaves out what a truncated output never reached", () => {
+      const facts = parser.parseVersion(truncate(output, 12, 26));
+
+      expect(facts).toMatchObject({
+        hostname: "edge-rtr-01",
+        version: "17.03.04a",
+        systemImageFile: "bootflash:packages.conf",
+      });
+      expect(facts.lastReloadReason).toBe("Reload");
+      expect(facts.model).toBeUndefined();
+      expect(facts.serialNumber).toBeUndefined();
+      expect(facts.configRegister).toBeUndefined();
+    });
+  });
+
+  describe("show ip interface brief", () => {
+    const output = fixture("show-ip-interface-brief.txt");
+
+    it("reads each interface and maps deleted interfaces to down", () => {
+      expect(parser.parse("interfaces", output)).toEqual([
+        {
+          name: "GigabitEthernet1",
+          ipAddress: "10.0.0.1",
+          status: "up",
+          lineProtocol: "up",
+          addressMethod: "NVRAM",
+        },
+        {
+          name: "GigabitEthernet2",
+          ipAddress: undefined,
+          status: "administratively down",
+          lineProtocol: "down",
+          addressMethod: "NVRAM",
+        },
+        {
+          name: "GigabitEthernet3",
+          ipAddress: "192.168.12.1",
+          status: "up",
+          lineProtocol: "down",
+          addressMethod: "manual",
+        },
+        {
+          name: "Loopback0",
+          ipAddress: "1.1.1.1",
+          status: "up",
+          lineProtocol: "up",
+          addressMethod: "NVRAM",
+        },
+        {
+          name: "Tunnel10",
+          ipAddress: "172.16.0.1",
+          status: "down",
+          lineProtocol: "down",
+          addressMethod: "manual",
+        },
+      ]);
+    });
+
+    it("skips a row cut off before its status", () => {
+      const interfaces = parser.parseInterfacesBrief(truncate(output, 3, 50));
+
+      expect(interfaces.map(({ name }) => name)).toEqual([
+        "GigabitEthernet1",
+        "GigabitEthernet2",
+      ]);
+    });
+  });
+
+  describe("show ip route", () => {
+    const output = fixture("show-ip-route.txt");
+
+    it("reads masks from subnetted headers and splits equal-cost paths", () => {
+      const routes = parser.parse("routes", output);
+
+      expect(routes).toEqual([
+        {
+          code: "S*",
+          protocol: "static",
+          network: "0.0.0.0",
+          prefixLength: 0,
+          candidateDefault: true,
+          adminDistance: 1,
+          metric: 0,
+          nextHop: "10.0.0.254",
+        },
+        {
+          code: "C",
+          protocol: "connected",
+          network: "1.1.1.1",
+          prefixLength: 32,
+          candidateDefault: undefined,
+          interface: "Loopback0",
+        },
+        {
+          code: "C",
+          protocol: "connected",
+          network: "10.0.0.0",
+          prefixLength: 24,
+          candidateDefault: undefined,
+          interface: "GigabitEthernet1",
+        },
+        {
+          code: "L",
+          protocol: "local",
+          network: "10.0.0.1",
+          prefixLength: 32,
+          candidateDefault: undefined,
+          interface: "GigabitEthernet1",
+        },
+        {
+          code: "O IA",
+          protocol: "ospf",
+          network: "172.16.1.0",
+          prefixLength: 24,
+          candidateDefault: undefined,
+          adminDistance: 110,
+          metric: 2,
+          nextHop: "192.168.12.2",
+          age: "00:12:31",
+          interface: "GigabitEthernet3",
+        },
+        {
+          code: "D",
+          protocol: "eigrp",
+          network: "172.16.2.0",
+          prefixLength: 24,
+          candidateDefault: undefined,
+          adminDistance: 90,
+          metric: 3072,
+          nextHop: "192.168.12.2",
+          age: "1d02h",
+          interface: "GigabitEthernet3",
+        },
+        {
+          code: "D",
+          protocol: "eigrp",
+          network: "172.16.2.0",
+          prefixLength: 24,
+          candidateDefault: undefined,
+          adminDistance: 90,
+          metric: 3072,
+          nextHop: "10.0.0.2",
+          age: "1d02h",
+          interface: "GigabitEthernet1",
+        },
+        {
+          code: "B",
+          protocol: "bgp",
+          network: "203.0.113.0",
+          prefixLength: 24,
+          candidateDefault: undefined,
+          adminDistance: 20,
+          metric: 0,
+          nextHop: "198.51.100.1",
+          age: "3w2d",
+        },
+      ]);
+    });
+
+    it("keeps a route cut off in its next hop without guessing one", () => {
+      const routes = parser.parseRoutes(truncate(output, 19, 36));
+
+      expect(routes).toHaveLength(6);
+      expect(routes[5]).toEqual({
+        code: "D",
+        protocol: "eigrp",
+        network: "172.16.2.0",
+        prefixLength: 24,
+        candidateDefault: undefined,
+      });
+    });
+
+    it("returns nothing for the legend alone", () => {
+      expect(parser.parseRoutes(truncate(output, 9, 0))).toEqual([]);
+    });
+  });
+
+  describe("show arp", () => {
+    const output = fixture("show-arp.txt");
+
+    it("reads static, learned and incomplete entries", () => {
+      expect(parser.parse("arp", output)).toEqual([
+        {
+          ipAddress: "10.0.0.1",
+          macAddress: "5254.0012.3456",
+          ageMinutes: null,
+          type: "ARPA",
+          interface: "GigabitEthernet1",
+        },
+        {
+          ipAddress: "10.0.0.2",
+          macAddress: "5254.00ab.cdef",
+          ageMinutes: 12,
+          type: "ARPA",
+          interface: "GigabitEthernet1",
+        },
+        {
+          ipAddress: "10.0.0.9",
+          macAddress: null,
+          ageMinutes: 0,
+          type: "ARPA",
+          interface: undefined,
+        },
+      ]);
+    });
+
+    it("skips an entry cut off before its type", () => {
+      expect(parser.parseArp(truncate(output, 2, 45))).toHaveLength(1);
+    });
+  });
+
+  describe("show cdp neighbors", () => {
+    const output = fixture("show-cdp-neighbors.txt");
+
+    it("joins wrapped device IDs and expands interface names", () => {
+      expect(parser.parse("neighbors", output)).toEqual([
+        {
+          deviceId: "core-sw-01.example.com",
+          localInterface: "GigabitEthernet1",
+          holdtime: 155,
+          capabilities: ["R", "S", "I"],
+          platform: "WS-C3850-",
+          portId: "GigabitEthernet1/0/48",
+        },
+        {
+          deviceId: "edge-rtr-02",
+          localInterface: "GigabitEthernet3",
+          holdtime: 132,
+          capabilities: ["R", "I"],
+          platform: "CSR1000V",
+          portId: "GigabitEthernet3",
+        },
+        {
+          deviceId: "phone-1001",
+          localInterface: "FastEthernet0/4",
+          holdtime: 171,
+          capabilities: ["H", "P", "M"],
+          platform: "IP Phone",
+          portId: "Port 1",
+        },
+      ]);
+    });
+
+    it("drops a wrapped device ID whose details were cut off", () => {
+      const neighbors = parser.parseCdpNeighbors(truncate(output, 6, 22));
+
+      expect(neighbors).toEqual([]);
+    });
+
+    it("returns nothing when the header never arrived", () => {
+      expect(parser.parseCdpNeighbors(truncate(output, 3, 0))).toEqual([]);
+    });
+  });
+
+  describe("show inventory", () => {
+    const output = fixture("show-inventory.txt");
+
+    it("pairs each name with its PID line and leaves blank fields out", () => {
+      expect(parser.parse("inventory", output)).toEqual([
+        {
+          name: "Chassis",
+          description: "Cisco CSR1000V Chassis",
+          pid: "CSR1000V",
+          vid: "V00",
+          serialNumber: "9KXI0D7TVFI",
+        },
+        {
+          name: "module R0",
+          description: "Cisco CSR1000V Route Processor",
+          pid: "CSR1000V",
+          vid: "V00",
+          serialNumber: "JAB1303001C",
+        },
+        {
+          name: "Power Supply 1",
+          description: "Virtual power supply",
+          pid: undefined,
+          vid: undefined,
+          serialNumber: undefined,
+        },
+      ]);
+    });
+
+    it("keeps an item whose PID line was cut off", () => {
+      const items = parser.parseInventory(truncate(output, 4, 30));
+
+      expect(items).toHaveLength(2);
+      expect(items[1]).toEqual({
+        name: "module R0",
+        description: "Cisco CSR1000V Route Processor",
+      });
+    });
+  });
+
+  it("throws the device's error instead of parsing it", () => {
+    const rejected = [
+      "show cdp neighbors",
+      "                   ^",
+      "% Invalid input detected at '^' marker.",
+      "",
+    ].join("\n");
+
+    expect(() => parser.parse("neighbors", rejected)).toThrow(
+      "% Invalid input detected at '^' marker.",
+    );
+    expect(() => parser.parse("neighbors", "% CDP is not enabled")).toThrow(
+      "% CDP is not enabled",
+    );
+  });
+
+  it("matches abbreviated commands to the fact they produce", () => {
+    expect(parser.matchFact("sh ip int br")).toBe("interfaces");
+    expect(parser.matchFact("sh ver")).toBe("version");
+    expect(parser.matchFact("show cdp nei")).toBe("neighbors");
+    expect(parser.matchFact("sh ip ro static")).toBeNull();
+    expect(parser.matchFact("show running-config")).toBeNull();
+  });
+});
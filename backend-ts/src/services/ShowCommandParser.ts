@@ -0,0 +1,387 @@
+import {
+  RouterInterface,
+  RouteEntry,
+  RouteProtocol,
+  ArpEntry,
+  CdpNeighbor,
+  InventoryItem,
+  DeviceVersionFacts,
+  DeviceFactName,
+} from "../types";
+import { classfulPrefix } from "../utils/ipv4";
+
+export const FACT_COMMANDS: Record<DeviceFactName, string> = {
+  version: "show version",
+  interfaces: "show ip interface brief",
+  routes: "show ip route",
+  arp: "show arp",
+  neighbors: "show cdp neighbors",
+  inventory: "show inventory",
+};
+
+const ROUTE_PROTOCOLS: Record<string, RouteProtocol> = {
+  C: "connected",
+  L: "local",
+  S: "static",
+  R: "rip",
+  O: "ospf",
+  D: "eigrp",
+  B: "bgp",
+  i: "isis",
+};
+
+// Abbreviations used by CDP and other tabular output, longest first
+const INTERFACE_ABBREVIATIONS: [RegExp, string][] = [
+  [/^(hu|hundredgige?)$/i, "HundredGigE"],
+  [/^(fo|fortygigabitethernet)$/i, "FortyGigabitEthernet"],
+  [/^(twe|twentyfivegige)$/i, "TwentyFiveGigE"],
+  [/^(te|ten|tengigabitethernet)$/i, "TenGigabitEthernet"],
+  [/^(gi|gig|gigabitethernet)$/i, "GigabitEthernet"],
+  [/^(fa|fas|fastethernet)$/i, "FastEthernet"],
+  [/^(et|eth|ethernet)$/i, "Ethernet"],
+  [/^(se|ser|serial)$/i, "Serial"],
+  [/^(lo|loopback)$/i, "Loopback"],
+  [/^(po|port-channel)$/i, "Port-channel"],
+  [/^(tu|tunnel)$/i, "Tunnel"],
+  [/^(vl|vlan)$/i, "Vlan"],
+];
+
+const IPV4 = "\\d{1,3}(?:\\.\\d{1,3}){3}";
+const ROUTE_LINE = new RegExp(
+  `^([A-Za-z]\\*?(?: (?:IA|E1|E2|N1|N2|EX|L1|L2|ia|su))?)\\s+(${IPV4})(?:\\/(\\d+))?(.*)$`,
+);
+const ROUTE_VIA = new RegExp(`\\[(\\d+)\\/(\\d+)\\] via (${IPV4})(.*)$`);
+const SUBNETTED_HEADER = new RegExp(`^\\s+${IPV4}\\/(\\d+) is subnetted`, "m");
+const CDP_CAPABILITY = /^[RTBSHIrPDCMs]$/;
+const UPTIME_UNITS: Record<string, number> = {
+  year: 31536000,
+  week: 604800,
+  day: 86400,
+  hour: 3600,
+  minute: 60,
+  second: 1,
+};
+
+export class ShowCommandParser {
+  // Maps abbreviated input such as "sh ip int br" to the fact it produces
+  public matchFact(command: string): DeviceFactName | null {
+    const words = command.trim().toLowerCase().split(/\s+/);
+
+    const match = (
+      Object.entries(FACT_COMMANDS) as [DeviceFactName, string][]
+    ).find(([, canonical]) => {
+      const expected = canonical.split(" ");
+      return (
+        expected.length === words.length &&
+        expected.every((word, index) => word.startsWith(words[index]))
+      );
+    });
+    return match ? match[0] : null;
+  }
+
+  public parse(fact: DeviceFactName, output: string): unknown {
+    this.assertNoError(output);
+
+    switch (fact) {
+      case "version":
+        return this.parseVersion(output);
+      case "interfaces":
+        return this.parseInterfacesBrief(output);
+      case "routes":
+        return this.parseRoutes(output);
+      case "arp":
+        return this.parseArp(output);
+      case "neighbors":
+        return this.parseCdpNeighbors(output);
+      case "inventory":
+        return this.parseInventory(output);
+      default:
+        throw new Error(`No parser for fact: ${fact}`);
+    }
+  }
+
+  public parseVersion(output: string): DeviceVersionFacts {
+    const find = (pattern: RegExp) => output.match(pattern)?.[1]?.trim();
+    const uptimeMatch = output.match(/^(\S+) uptime is (.+)$/m);
+
+    return {
+      hostname: uptimeMatch?.[1],
+      software: /Cisco IOS[ -]XE Software/i.test(output)
+        ? "IOS XE"
+        : /Cisco IOS Software/i.test(output)
+          ? "IOS"
+          : undefined,
+      version: find(/Cisco IOS.*?Version ([^,\s]+)/),
+      image: find(/Software \(([^)]+)\)/),
+      model: find(/^cisco (\S+) .*bytes of memory/im),
+      serialNumber: find(/Processor board ID (\S+)/),
+      uptime: uptimeMatch?.[2].trim(),
+      uptimeSeconds: uptimeMatch ? this.parseUptime(uptimeMatch[2]) : undefined,
+      systemImageFile: find(/System image file is "([^"]+)"/),
+      configRegister: find(/Configuration register is (\S+)/),
+      lastReloadReason: find(/Last reload reason: (.+)$/m),
+    };
+  }
+
+  public parseInterfacesBrief(output: string): RouterInterface[] {
+    const interfaces: RouterInterface[] = [];
+    const pattern =
+      /^(\S+)\s+(\S+)\s+(?:YES|NO)\s+(\S+)\s+(up|down|administratively down|deleted)\s+(up|down)\s*$/;
+
+    output.split(/\r?\n/).forEach((line) => {
+      const match = line.match(pattern);
+      if (!match) return;
+
+      const [, name, ipAddress, addressMethod, status, lineProtocol] = match;
+      interfaces.push({
+        name,
+        ipAddress: ipAddress === "unassigned" ? undefined : ipAddress,
+        status:
+          status === "deleted" ? "down" : (status as RouterInterface["status"]),
+        lineProtocol: lineProtocol as "up" | "down",
+        addressMethod,
+      });
+    });
+
+    return interfaces;
+  }
+
+  public parseRoutes(output: string): RouteEntry[] {
+    const routes: RouteEntry[] = [];
+    // Classful headers such as "10.0.0.0/24 is subnetted" give the mask for the lines below
+    let subnettedPrefix: number | undefined;
+    let previous: RouteEntry | undefined;
+
+    output.split(/\r?\n/).forEach((line) => {
+      const header = line.match(SUBNETTED_HEADER);
+      if (header) {
+        subnettedPrefix = Number(header[1]);
+        return;
+      }
+      if (/^\s+\S+ is variably subnetted/.test(line)) {
+        subnettedPrefix = undefined;
+        return;
+      }
+
+      const route = line.match(ROUTE_LINE);
+      if (route) {
+        const [, code, network, prefix, rest] = route;
+        const entry: RouteEntry = {
+          code,
+          protocol: ROUTE_PROTOCOLS[code[0]] || "other",
+          network,
+          prefixLength:
+            prefix !== undefined
+              ? Number(prefix)
+              : (subnettedPrefix ?? classfulPrefix(network)),
+          candidateDefault: code.includes("*") || undefined,
+        };
+
+        this.applyRouteDetail(entry, rest);
+        routes.push(entry);
+        previous = entry;
+        return;
+      }
+
+      // Equal-cost paths and wrapped lines continue the previous route
+      const continuation = line.match(/^\s+(\[\d+\/\d+\] via .*)$/);
+      if (continuation && previous) {
+        if (previous.nextHop || previous.interface) {
+          previous = {
+            code: previous.code,
+            protocol: previous.protocol,
+            network: previous.network,
+            prefixLength: previous.prefixLength,
+            candidateDefault: previous.candidateDefault,
+          };
+          routes.push(previous);
+        }
+        this.applyRouteDetail(previous, continuation[1]);
+      }
+    });
+
+    return routes;
+  }
+
+  public parseArp(output: string): ArpEntry[] {
+    const entries: ArpEntry[] = [];
+    const pattern =
+      /^Internet\s+(\S+)\s+(\S+)\s+(\S+)\s+(\S+)(?:\s+(\S+))?\s*$/;
+
+    output.split(/\r?\n/).forEach((line) => {
+      const match = line.match(pattern);
+      if (!match) return;
+
+      const [, ipAddress, age, macAddress, type, iface] = match;
+      entries.push({
+        ipAddress,
+        macAddress: /^incomplete$/i.test(macAddress) ? null : macAddress,
+        ageMinutes: age === "-" ? null : Number(age),
+        type,
+        interface: iface,
+      });
+    });
+
+    return entries;
+  }
+
+  public parseCdpNeighbors(output: string): CdpNeighbor[] {
+    const lines = output.split(/\r?\n/);
+    const headerIndex = lines.findIndex((line) => /^Device ID\s/.test(line));
+    if (headerIndex < 0) return [];
+
+    const neighbors: CdpNeighbor[] = [];
+    let pendingId: string | null = null;
+
+    lines.slice(headerIndex + 1).forEach((line) => {
+      if (line.trim() === "" || /^Total cdp entries/i.test(line)) return;
+
+      const tokens = line.trim().split(/\s+/);
+      // Long device IDs are printed alone with the rest on the next line
+      if (tokens.length === 1 && !/^\s/.test(line)) {
+        pendingId = tokens[0];
+        return;
+      }
+      if (pendingId) {
+        tokens.unshift(pendingId);
+        pendingId = null;
+      }
+
+      const neighbor = this.parseCdpTokens(tokens);
+      if (neighbor) neighbors.push(neighbor);
+    });
+
+    return neighbors;
+  }
+
+  public parseInventory(output: string): InventoryItem[] {
+    const items: InventoryItem[] = [];
+    let current: InventoryItem | undefined;
+
+    output.split(/\r?\n/).forEach((line) => {
+      const name = line.match(/NAME:\s*"([^"]*)",\s*DESCR:\s*"([^"]*)"/);
+      if (name) {
+        current = { name: name[1], description: name[2] };
+        items.push(current);
+        return;
+      }
+
+      const pid = line.match(
+        /PID:\s*([^,]*?)\s*,\s*VID:\s*([^,]*?)\s*,\s*SN:\s*(\S*)/,
+      );
+      if (pid && current) {
+        current.pid = pid[1] || undefined;
+        current.vid = pid[2] || undefined;
+        current.serialNumber = pid[3] || undefined;
+      }
+    });
+
+    return items;
+  }
+
+  public normalizeInterfaceName(name: string): string {
+    const match = name.trim().match(/^([A-Za-z-]+)\s*([\d/.:]+)$/);
+    if (!match) return name.trim();
+
+    const expansion = INTERFACE_ABBREVIATIONS.find(([pattern]) =>
+      pattern.test(match[1]),
+    );
+    return `${expansion ? expansion[1] : match[1]}${match[2]}`;
+  }
+
+  // IOS reports rejected or unsupported commands with a leading "%"
+  private assertNoError(output: string): void {
+    const error = output.match(/^\s*(%.+)$/m);
+    if (error) {
+      throw new Error(error[1].trim());
+    }
+  }
+
+  private applyRouteDetail(entry: RouteEntry, detail: string): void {
+    const direct = detail.match(/is directly connected, (\S+)/);
+    if (direct) {
+      entry.interface = direct[1];
+      return;
+    }
+
+    const via = detail.match(ROUTE_VIA);
+    if (!via) return;
+
+    entry.adminDistance = Number(via[1]);
+    entry.metric = Number(via[2]);
+    entry.nextHop = via[3];
+
+    via[4]
+      .split(",")
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .forEach((part) => {
+        if (/^[\dhdwmy:]+$/.test(part)) {
+          entry.age = part;
+        } else if (/^[A-Za-z]/.test(part)) {
+          entry.interface = part;
+        }
+      });
+  }
+
+  private parseCdpTokens(tokens: string[]): CdpNeighbor | null {
+    // The holdtime is the number directly before the capability letters
+    let holdIndex = tokens.findIndex(
+      (token, index) =>
+        index >= 2 &&
+        /^\d+$/.test(token) &&
+        CDP_CAPABILITY.test(tokens[index + 1] || ""),
+    );
+    if (holdIndex < 0) {
+      holdIndex = tokens.findIndex(
+        (token, index) => index >= 2 && /^\d+$/.test(token),
+      );
+    }
+    if (holdIndex < 0) return null;
+
+    const rest = tokens.slice(holdIndex + 1);
+    const capabilities: string[] = [];
+    while (rest.length > 0 && CDP_CAPABILITY.test(rest[0])) {
+      capabilities.push(rest.shift()!);
+    }
+    // A row cut off before its port ID
+    if (rest.length === 0) return null;
+
+    // Port IDs are either "Gig 0/1" or "Gi0/1"
+    const portTokens =
+      rest.length >= 2 &&
+      /^[\d/.:]+$/.test(rest[rest.length - 1]) &&
+      /^[A-Za-z-]+$/.test(rest[rest.length - 2])
+        ? rest.splice(-2)
+        : rest.splice(-1);
+
+    return {
+      deviceId: tokens[0],
+      localInterface: this.normalizeInterfaceName(
+        tokens.slice(1, holdIndex).join(" "),
+      ),
+      holdtime: Number(tokens[holdIndex]),
+      capabilities,
+      platform: rest.length > 0 ? rest.join(" ") : undefined,
+      // Phones and hosts report ports such as "Port 1", kept as printed
+      portId:
+        portTokens.length === 2 &&
+        !INTERFACE_ABBREVIATIONS.some(([pattern]) =>
+          pattern.test(portTokens[0]),
+        )
+          ? portTokens.join(" ")
+          : this.normalizeInterfaceName(portTokens.join(" ")),
+    };
+  }
+
+  private parseUptime(uptime: string): number {
+    let seconds = 0;
+    const pattern = /(\d+)\s+(year|week|day|hour|minute|second)s?/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(uptime)) !== null) {
+      seconds += Number(match[1]) * UPTIME_UNITS[match[2]];
+    }
+    return seconds;
+  }
+}
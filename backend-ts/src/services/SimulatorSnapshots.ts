@@ -0,0 +1,226 @@
+import { logger } from "../utils/logger";
+import { RouterSimulator } from "./RouterSimulator";
+import { FaultInjector } from "./FaultInjector";
+import {
+  LabInterfaceRef,
+  LinkEndpoint,
+  ReplayResult,
+  SimulatedLink,
+  SimulatedRouter,
+  SimulatorOperation,
+  SimulatorSnapshot,
+  SimulatorSnapshotSummary,
+} from "../types";
+
+// Named checkpoints of the simulated lab, reset to the default topology, and
+// replay of the simulator's operation log
+export class SimulatorSnapshots {
+  private simulator: RouterSimulator;
+  private faultInjector: FaultInjector;
+  private snapshots: Map<string, SimulatorSnapshot> = new Map();
+
+  constructor(simulator: RouterSimulator, faultInjector: FaultInjector) {
+    this.simulator = simulator;
+    this.faultInjector = faultInjector;
+    logger.info("Simulator Snapshots initialized");
+  }
+
+  // Saving under an existing name replaces that snapshot
+  public saveSnapshot(name: string): SimulatorSnapshot {
+    const faults = this.faultInjector.exportScenarios();
+    this.faultInjector.suspend();
+    const state = this.simulator.exportState();
+    this.faultInjector.resume();
+
+    const snapshot: SimulatorSnapshot = {
+      name,
+      createdAt: new Date().toISOString(),
+      state,
+      faults,
+    };
+    this.snapshots.set(name, snapshot);
+    logger.info(`Saved simulator snapshot ${name}`);
+    return snapshot;
+  }
+
+  // Snapshots exported from another server can be loaded back
+  public importSnapshot(snapshot: SimulatorSnapshot): void {
+    this.snapshots.set(snapshot.name, snapshot);
+    logger.info(`Imported simulator snapshot ${snapshot.name}`);
+  }
+
+  public getSnapshot(name: string): SimulatorSnapshot | undefined {
+    return this.snapshots.get(name);
+  }
+
+  public listSnapshots(): SimulatorSnapshotSummary[] {
+    return Array.from(this.snapshots.values()).map((snapshot) => ({
+      name: snapshot.name,
+      createdAt: snapshot.createdAt,
+      routers: snapshot.state.routers.length,
+      links: snapshot.state.links.length,
+      faults: snapshot.faults.length,
+      logEntries: snapshot.state.log.length,
+    }));
+  }
+
+  public deleteSnapshot(name: string): boolean {
+    return this.snapshots.delete(name);
+  }
+
+  public restoreSnapshot(name: string): boolean {
+    const snapshot = this.snapshots.get(name);
+    if (!snapshot) return false;
+
+    this.faultInjector.suspend();
+    this.simulator.importState(snapshot.state);
+    this.faultInjector.replaceScenarios(snapshot.faults);
+    this.faultInjector.resume();
+    logger.info(`Restored simulator snapshot ${name}`);
+    return true;
+  }
+
+  // Clears every fault and rebuilds the default four-router lab
+  public reset(): void {
+    this.faultInjector.suspend();
+    this.faultInjector.replaceScenarios([]);
+    this.simulator.reset();
+  }
+
+  // Entries that fail are reported and skipped, as a pasted config would be
+  public replay(
+    operations: SimulatorOperation[],
+    fromDefault = true,
+  ): ReplayResult {
+    if (fromDefault) this.reset();
+
+    const errors: ReplayResult["errors"] = [];
+    operations.forEach((operation, index) => {
+      const error = this.apply(operation);
+      if (error) errors.push({ index, op: operation.op, error });
+    });
+
+    logger.info(
+      `Replayed ${operations.length - errors.length} of ${operations.length} simulator operations`,
+    );
+    return {
+      success: errors.length === 0,
+      applied: operations.length - errors.length,
+      errors,
+    };
+  }
+
+  private apply(operation: SimulatorOperation): string | undefined {
+    if (operation.op === "create-router") {
+      this.simulator.createRouter(
+        operation.name,
+        operation.description,
+        operation.managementIp,
+        operation.model,
+      );
+      return undefined;
+    }
+    if (operation.op === "add-link") {
+      const [a, b] = operation.endpoints.map((end) => this.endpoint(end));
+      if (!a || !b) return "Router not found";
+      return this.simulator.addLink(a, b).error;
+    }
+    if (
+      operation.op === "remove-link" ||
+      operation.op === "link-status" ||
+      operation.op === "link-loss"
+    ) {
+      const link = this.link(operation.endpoint);
+      if (!link) return "Link not found";
+      const done =
+        operation.op === "remove-link"
+          ? this.simulator.removeLink(link.id)
+          : operation.op === "link-status"
+            ? this.simulator.setLinkStatus(link.id, operation.status)
+            : this.simulator.setLinkLoss(link.id, operation.lossPercent);
+      return done ? undefined : "Link not found";
+    }
+
+    const router = this.router(operation.router);
+    if (!router) return `Router ${operation.router} not found`;
+    switch (operation.op) {
+      case "update-router":
+        this.simulator.updateRouter(router.id, operation.changes);
+        return undefined;
+      case "delete-router":
+        this.simulator.deleteRouter(router.id);
+        return undefined;
+      case "add-interface":
+        this.simulator.addInterface(router.id, operation.interface);
+        return undefined;
+      case "remove-interface":
+        return this.simulator.removeInterface(
+          router.id,
+          operation.interfaceName,
+        )
+          ? undefined
+          : `Interface ${operation.interfaceName} not found on ${router.name}`;
+      case "replace-config":
+        this.simulator.updateRunningConfig(router.id, operation.config);
+        return undefined;
+      case "config-line":
+        // Lines recorded in IOS form skip the platform's translation
+        return (
+          operation.ios
+            ? this.simulator.applyIosConfigCommand(
+                router.id,
+                operation.path,
+                operation.line,
+              )
+            : this.simulator.applyConfigCommand(
+                router.id,
+                operation.path,
+                operation.line,
+              )
+        ).error;
+      case "save-config":
+        this.simulator.saveRunningConfigToStartup(router.id);
+        return undefined;
+      case "interface-fault":
+        return this.simulator.setInterfaceFault(
+          router.id,
+          operation.interfaceName,
+          operation.down,
+        )
+          ? undefined
+          : `Interface ${operation.interfaceName} not found on ${router.name}`;
+      case "resource-usage":
+        this.simulator.setResourceUsage(router.id, {
+          cpuUsage: operation.cpuUsage,
+          memoryUsage: operation.memoryUsage,
+        });
+        return undefined;
+    }
+  }
+
+  private router(name: string): SimulatedRouter | undefined {
+    return this.simulator
+      .getAllRouters()
+      .find((router) => router.name === name);
+  }
+
+  private endpoint(ref: LabInterfaceRef): LinkEndpoint | undefined {
+    const router = this.router(ref.node);
+    return router
+      ? { routerId: router.id, interfaceName: ref.interfaceName }
+      : undefined;
+  }
+
+  private link(ref: LabInterfaceRef): SimulatedLink | undefined {
+    const end = this.endpoint(ref);
+    return this.simulator
+      .getLinks()
+      .find((link) =>
+        link.endpoints.some(
+          (candidate) =>
+            candidate.routerId === end?.routerId &&
+            candidate.interfaceName === end.interfaceName,
+        ),
+      );
+  }
+}
@@ -1,6 +1,7 @@
 import { v4 as uuidv4 } from "uuid";
 import { logger } from "../utils/logger";
 import { config } from "../config/config";
+import { credentialVault } from "./CredentialVault";
 import { SystemConfigSettings } from "../types";
 
 export class SystemConfig {
@@ -78,6 +79,7 @@ export class SystemConfig {
       },
     };
 
+    credentialVault.setConfigEncryption(this.settings.security.encryptConfigs);
     logger.info("System Configuration initialized");
   }
 
@@ -140,6 +142,8 @@ export class SystemConfig {
 
   private notifyListeners(): void {
     const settings = this.getSettings();
+    credentialVault.setConfigEncryption(settings.security.encryptConfigs);
+
     for (const callback of this.configListeners.values()) {
       try {
         callback(settings);
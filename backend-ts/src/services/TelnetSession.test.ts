@@ -0,0 +1,174 @@
+import { AddressInfo, Server, Socket, createServer } from "net";
+import { TelnetSession } from "./TelnetSession";
+import { NetworkDevice } from "../types";
+
+const IAC = 255;
+const WONT = 252;
+const WILL = 251;
+const DO = 253;
+const OPTION_ECHO = 1;
+const OPTION_TERMINAL_TYPE = 24;
+
+// Answers over telnet as IOS would: option negotiation, a username and
+// password login, enable, configuration mode with "hostname", and a banner
+// with lines that look like prompts, sent in separate writes
+const startTelnetStandIn = (
+  received: string[],
+  negotiation: number[],
+): Promise<Server> => {
+  const server = createServer((socket: Socket) => {
+    let hostname = "R1";
+    let mode = ">";
+    let pending = "";
+    let step: "username" | "password" | "enable" | "exec" = "username";
+
+    socket.write(
+      Buffer.from([IAC, WILL, OPTION_ECHO, IAC, DO, OPTION_TERMINAL_TYPE]),
+    );
+    socket.write("\r\nUser Access Verification\r\n\r\nUsername: ");
+    socket.on("data", (data: Buffer) => {
+      for (let i = 0; i < data.length; i++) {
+        if (data[i] === IAC) {
+          negotiation.push(...data.subarray(i, i + 3));
+          i += 2;
+        } else {
+          pending += String.fromCharCode(data[i]);
+        }
+      }
+
+      let index: number;
+      while ((index = pending.indexOf("\n")) >= 0) {
+        const line = pending.slice(0, index).trim();
+        pending = pending.slice(index + 1);
+
+        if (step === "username") {
+          step = "password";
+          socket.write(`${line}\r\nPassword: `);
+          continue;
+        }
+        if (step === "password" || step === "enable") {
+          const accepted =
+            step === "password" ? line === "secret" : line === "enable-secret";
+          if (step === "enable" && accepted) mode = "#";
+          step = "exec";
+          if (!accepted && mode === ">") {
+            socket.end("\r\n% Authentication failed\r\n");
+            return;
+          }
+          socket.write(`\r\n${hostname}${mode}`);
+          continue;
+        }
+
+        received.push(line);
+        socket.write(`${line}\r\n`);
+
+        if (line === "enable") {
+          step = "enable";
+          socket.write("Password: ");
+          continue;
+        }
+        if (line === "show banner motd") {
+          socket.write("Authorized users only\r\nmonitored-system#\r\n");
+          setTimeout(
+            () => socket.write(`audit-log>\r\n${hostname}${mode}`),
+            100,
+          );
+          continue;
+        }
+        if (line === "configure terminal") mode = "(config)#";
+        if (line === "end") mode = "#";
+        if (line.startsWith("hostname ")) hostname = line.split(" ")[1];
+        socket.write(`${hostname}${mode}`);
+      }
+    });
+  });
+
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve(server)),
+  );
+};
+
+describe("TelnetSession", () => {
+  let server: Server;
+  let device: NetworkDevice;
+  let session: TelnetSession;
+  const received: string[] = [];
+  const negotiation: number[] = [];
+
+  beforeAll(async () => {
+    server = await startTelnetStandIn(received, negotiation);
+    device = {
+      id: "1",
+      name: "R1",
+      ip: "127.0.0.1",
+      port: (server.address() as AddressInfo).port,
+      protocol: "telnet",
+      username: "admin",
+      password: "secret",
+      enablePassword: "enable-secret",
+      deviceType: "cisco_ios",
+      status: "online",
+      lastSeen: null,
+      createdAt: new Date().toISOString(),
+    };
+  });
+
+  afterAll((done) => {
+    server.close(() => done());
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    negotiation.length = 0;
+    session = new TelnetSession(device, 2000);
+  });
+
+  afterEach(() => session.dispose());
+
+  it("negotiates, logs in and enters enable mode", async () => {
+    const banner = await session.open();
+
+    expect(banner).toContain("User Access Verification");
+    expect(session.getPrompt()).toBe("R1#");
+    expect(received).toEqual(["enable", "terminal length 0"]);
+    // Accepts the server's echo and refuses to send a terminal type
+    expect(negotiation).toEqual([
+      IAC,
+      DO,
+      OPTION_ECHO,
+      IAC,
+      WONT,
+      OPTION_TERMINAL_TYPE,
+    ]);
+  });
+
+  it("waits for the device's own prompt, not a line ending like one", async () => {
+    await session.open();
+
+    await expect(session.sendCommand("show banner motd")).resolves.toBe(
+      "Authorized users only\nmonitored-system#\naudit-log>",
+    );
+    expect(session.getPrompt()).toBe("R1#");
+  });
+
+  it("follows the prompt when the hostname changes", async () => {
+    await session.open();
+
+    await session.sendCommand("configure terminal");
+    await session.sendCommand("hostname edge-01");
+    expect(session.getPrompt()).toBe("edge-01(config)#");
+    await session.sendCommand("end");
+    await expect(session.sendCommand("show banner motd")).resolves.toBe(
+      "Authorized users only\nmonitored-system#\naudit-log>",
+    );
+    expect(session.getPrompt()).toBe("edge-01#");
+  });
+
+  it("fails the open when the password is rejected", async () => {
+    session = new TelnetSession({ ...device, password: "wrong" }, 2000);
+
+    await expect(session.open()).rejects.toThrow(
+      "Session to R1 closed by remote host",
+    );
+  });
+});
@@ -0,0 +1,134 @@
+import { Socket, connect } from "net";
+import { CliSession, PASSWORD_PATTERN, PROMPT_PATTERN } from "./CliSession";
+
+const USERNAME_PATTERN = /(?:[Uu]sername|[Ll]ogin):\s*$/;
+const LOGIN_PATTERN = new RegExp(
+  `(?:${USERNAME_PATTERN.source})|(?:${PASSWORD_PATTERN.source})|(?:${PROMPT_PATTERN.source})`,
+);
+
+// Telnet protocol bytes (RFC 854)
+const IAC = 255;
+const DONT = 254;
+const DO = 253;
+const WONT = 252;
+const WILL = 251;
+const SB = 250;
+const SE = 240;
+const OPTION_ECHO = 1;
+const OPTION_SUPPRESS_GO_AHEAD = 3;
+
+export class TelnetSession extends CliSession {
+  public readonly protocol = "telnet" as const;
+  private socket: Socket | null = null;
+
+  public isOpen(): boolean {
+    return this.socket !== null;
+  }
+
+  protected connectTransport(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = connect({
+        host: this.device.ip,
+        port: this.device.port || 23,
+      });
+
+      socket.setTimeout(this.timeout, () =>
+        socket.destroy(
+          new Error(`Telnet connection to ${this.device.name} timed out`),
+        ),
+      );
+      socket.once("connect", () => {
+        socket.setTimeout(0);
+        this.socket = socket;
+        resolve();
+      });
+      // Errors after connect surface through "close"; before it they fail the open
+      socket.on("error", reject);
+      socket.on("data", (data: Buffer) => this.receive(this.negotiate(data)));
+      socket.on("close", () => {
+        this.socket = null;
+        this.transportClosed();
+      });
+    });
+  }
+
+  protected async login(): Promise<string> {
+    let sentUsername = false;
+    let sentPassword = false;
+    let banner = "";
+
+    for (;;) {
+      const output = await this.readUntil(LOGIN_PATTERN);
+      banner += output;
+
+      if (PROMPT_PATTERN.test(output)) {
+        return banner;
+      }
+
+      if (USERNAME_PATTERN.test(output)) {
+        if (sentUsername) {
+          throw new Error(`Login rejected by ${this.device.name}`);
+        }
+        this.write(this.device.username || "");
+        sentUsername = true;
+      } else {
+        if (sentPassword) {
+          throw new Error(`Login rejected by ${this.device.name}`);
+        }
+        this.write(this.device.password || "");
+        sentPassword = true;
+      }
+    }
+  }
+
+  protected writeRaw(data: string): void {
+    this.socket?.write(data.replace(/\n/g, "\r\n"));
+  }
+
+  protected closeTransport(): void {
+    this.socket?.destroy();
+    this.socket = null;
+  }
+
+  // Strips option negotiation from the stream, agreeing only to server echo and suppress-go-ahead
+  private negotiate(data: Buffer): string {
+    const text: number[] = [];
+    const replies: number[] = [];
+
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] !== IAC) {
+        text.push(data[i]);
+        continue;
+      }
+
+      const command = data[i + 1];
+      const option = data[i + 2];
+
+      if (command === IAC) {
+        text.push(IAC);
+        i += 1;
+      } else if (command === DO) {
+        replies.push(IAC, WONT, option);
+        i += 2;
+      } else if (command === WILL) {
+        const accept =
+          option === OPTION_ECHO || option === OPTION_SUPPRESS_GO_AHEAD;
+        replies.push(IAC, accept ? DO : DONT, option);
+        i += 2;
+      } else if (command === DONT || command === WONT) {
+        i += 2;
+      } else if (command === SB) {
+        const end = data.indexOf(SE, i);
+        i = end >= 0 ? end : data.length;
+      } else {
+        i += 1;
+      }
+    }
+
+    if (replies.length > 0) {
+      this.socket?.write(Buffer.from(replies));
+    }
+
+    return Buffer.from(text).toString();
+  }
+}
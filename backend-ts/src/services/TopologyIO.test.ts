@@ -0,0 +1,284 @@
+import { TopologyIO } from "./TopologyIO";
+import { RouterSimulator } from "./RouterSimulator";
+import { LLMIntegration } from "./LLMIntegration";
+
+const CONTAINERLAB = `
+name: dc1
+topology:
+  kinds:
+    cisco_csr1000v:
+      startup-config: configs/csr-default.cfg
+  nodes:
+    edge1:
+      kind: cisco_csr1000v
+      mgmt-ipv4: 172.20.20.11
+      startup-config: configs/edge1.cfg
+    edge2:
+      kind: cisco_csr1000v
+    leaf1:
+      kind: arista_ceos
+    pe1:
+      kind: juniper_vmx
+    client:
+      kind: linux
+  links:
+    - endpoints: ["edge1:eth1", "leaf1:eth1"]
+    - endpoints: ["edge2:eth2", "pe1:eth1"]
+    - endpoints: ["edge1:eth2", "client:eth1"]
+`;
+
+const GNS3 = JSON.stringify({
+  name: "branch",
+  topology: {
+    nodes: [
+      {
+        node_id: "a",
+        name: "R1",
+        node_type: "dynamips",
+        properties: {
+          platform: "c7200",
+          startup_config_content: "hostname R1\n",
+        },
+      },
+      {
+        node_id: "b",
+        name: "R2",
+        node_type: "qemu",
+        port_name_format: "Gi0/{0}",
+        properties: {},
+      },
+      { node_id: "c", name: "SW", node_type: "ethernet_switch" },
+    ],
+    links: [
+      {
+        nodes: [
+          { node_id: "a", adapter_number: 1, port_number: 0 },
+          { node_id: "b", adapter_number: 2, port_number: 0 },
+        ],
+      },
+      {
+        nodes: [
+          { node_id: "b", adapter_number: 0, port_number: 0 },
+          { node_id: "c", adapter_number: 0, port_number: 1 },
+        ],
+      },
+    ],
+  },
+});
+
+const EVE_NG = `<?xml version="1.0" encoding="UTF-8"?>
+<lab name="wan &amp; core" version="1">
+  <topology>
+    <nodes>
+      <node id="1" name="R1" type="iol" template="iol">
+        <interface id="0" name="e0/0" type="ethernet" network_id="1"/>
+        <interface id="16" name="s1/0" type="serial" remote_id="2" remote_if="16"/>
+      </node>
+      <node id="2" name="R2" type="iol" template="iol">
+        <interface id="0" name="e0/0" type="ethernet" network_id="1"/>
+        <interface id="1" name="e0/1" type="ethernet" network_id="2"/>
+        <interface id="16" name="s1/0" type="serial" remote_id="1" remote_if="16"/>
+      </node>
+      <node id="3" name="R3" type="qemu" template="vios">
+        <interface id="0" name="Gi0/0" type="ethernet" network_id="2"/>
+      </node>
+      <node id="4" name="R4" type="qemu" template="csr1000v">
+        <interface id="0" name="Gi1" type="ethernet" network_id="2"/>
+      </node>
+      <node id="5" name="PC" type="vpcs" template="vpcs"/>
+    </nodes>
+  </topology>
+  <objects>
+    <configs>
+      <config id="1">${Buffer.from("hostname R1\n").toString("base64")}</config>
+    </configs>
+  </objects>
+</lab>`;
+
+describe("TopologyIO", () => {
+  const io = new TopologyIO();
+
+  it("reads containerlab nodes, kind defaults and vrnetlab port names", () => {
+    const lab = io.parse(CONTAINERLAB, "containerlab", {
+      "configs/edge1.cfg": "hostname edge1\n",
+      leaf1: "hostname leaf1\n",
+    });
+
+    expect(lab.name).toBe("dc1");
+    expect(
+      lab.nodes.map(({ name, model, managementIp, interfaces }) => ({
+        name,
+        model,
+        managementIp,
+        interfaces,
+      })),
+    ).toEqual([
+      {
+        name: "edge1",
+        model: "CSR1000v",
+        managementIp: "172.20.20.11",
+        interfaces: ["GigabitEthernet2"],
+      },
+      {
+        name: "edge2",
+        model: "CSR1000v",
+        managementIp: undefined,
+        interfaces: ["GigabitEthernet3"],
+      },
+      {
+        name: "leaf1",
+        model: "cEOS",
+        managementIp: undefined,
+        interfaces: ["Ethernet1"],
+      },
+      {
+        name: "pe1",
+        model: "vMX",
+        managementIp: undefined,
+        interfaces: ["ge-0/0/0"],
+      },
+    ]);
+    expect(lab.nodes.map(({ startupConfig }) => startupConfig)).toEqual([
+      "hostname edge1\n",
+      undefined,
+      "hostname leaf1\n",
+      undefined,
+    ]);
+    expect(lab.links.map(({ endpoints }) => endpoints)).toEqual([
+      [
+        { node: "edge1", interfaceName: "GigabitEthernet2" },
+        { node: "leaf1", interfaceName: "Ethernet1" },
+      ],
+      [
+        { node: "edge2", interfaceName: "GigabitEthernet3" },
+        { node: "pe1", interfaceName: "ge-0/0/0" },
+      ],
+    ]);
+    expect(lab.warnings).toEqual([
+      "Startup config configs/csr-default.cfg for edge2 was not provided",
+      "Skipped node client: kind linux is not a router",
+      "Skipped link edge1:eth2 - client:eth1: it does not join two router interfaces",
+    ]);
+  });
+
+  it("reads GNS3 nodes and names ports the way each emulator does", () => {
+    const lab = io.parse(GNS3, "gns3");
+
+    expect(lab.nodes).toEqual([
+      {
+        name: "R1",
+        kind: "c7200",
+        model: "7200",
+        interfaces: ["FastEthernet1/0"],
+        startupConfig: "hostname R1\n",
+      },
+      {
+        name: "R2",
+        kind: "qemu",
+        model: undefined,
+        interfaces: ["GigabitEthernet0/2"],
+        startupConfig: undefined,
+      },
+    ]);
+    expect(lab.warnings).toEqual([
+      "Skipped node SW: ethernet_switch is not a router",
+      "Skipped link 2: it does not join two router interfaces",
+    ]);
+  });
+
+  it("reads EVE-NG networks, serial links and stored configs", () => {
+    const lab = io.parse(EVE_NG, "eve-ng");
+
+    expect(lab.name).toBe("wan & core");
+    expect(lab.nodes.map(({ name, model }) => [name, model])).toEqual([
+      ["R1", "IOL"],
+      ["R2", "IOL"],
+      ["R3", "IOSv"],
+      ["R4", "CSR1000v"],
+    ]);
+    expect(lab.nodes[0].startupConfig).toBe("hostname R1\n");
+    expect(lab.links.map(({ endpoints }) => endpoints)).toEqual([
+      [
+        { node: "R1", interfaceName: "Ethernet0/0" },
+        { node: "R2", interfaceName: "Ethernet0/0" },
+      ],
+      [
+        { node: "R1", interfaceName: "Serial1/0" },
+        { node: "R2", interfaceName: "Serial1/0" },
+      ],
+    ]);
+    expect(lab.warnings).toEqual([
+      "Skipped node PC: vpcs is not a router",
+      "Skipped network 2: it joins 3 interfaces and only point-to-point links are simulated",
+    ]);
+  });
+
+  it("rejects files without a topology", () => {
+    expect(() => io.parse("name: empty\n", "containerlab")).toThrow(
+      "containerlab file has no topology.nodes",
+    );
+    expect(() => io.parse("{}", "gns3")).toThrow(
+      "GNS3 project has no topology.nodes",
+    );
+    expect(() => io.parse("<topology/>", "eve-ng")).toThrow(
+      "EVE-NG lab file has no <lab> element",
+    );
+  });
+
+  describe("round trip through the simulator", () => {
+    const newSimulator = () =>
+      new RouterSimulator(new LLMIntegration(), { llmFallback: false });
+
+    const snapshot = (simulator: RouterSimulator) =>
+      simulator.getAllRouters().map((router) => ({
+        name: router.name,
+        model: router.model,
+        managementIp: router.managementIp,
+        interfaces: router.interfaces.map(({ name, ipAddress, status }) => ({
+          name,
+          ipAddress,
+          status,
+        })),
+        runningConfig: router.runningConfig,
+      }));
+
+    const links = (simulator: RouterSimulator) =>
+      simulator.exportTopology().links.map(({ endpoints }) => endpoints);
+
+    it("rebuilds the same routers, configs and links from its own export", () => {
+      const original = newSimulator();
+      ["ASAv", "N9K-C9300v", "vEOS-lab", "vMX", "IOSv"].forEach(
+        (model, index) =>
+          original.createRouter(`X${index}`, "", `10.9.9.${index + 1}`, model),
+      );
+
+      const exported = io.serializeContainerlab(original.exportTopology("dc1"));
+      const copy = newSimulator();
+      const result = copy.importTopology(
+        io.parse(exported, "containerlab"),
+        true,
+      );
+
+      expect(result).toMatchObject({ success: true, warnings: [] });
+      expect(snapshot(copy)).toEqual(snapshot(original));
+      expect(links(copy)).toEqual(links(original));
+      expect(io.serializeContainerlab(copy.exportTopology("dc1"))).toBe(
+        exported,
+      );
+    });
+
+    it("refuses to import over routers with the same names", () => {
+      const simulator = newSimulator();
+      const lab = io.parse(
+        io.serializeContainerlab(simulator.exportTopology()),
+        "containerlab",
+      );
+
+      expect(simulator.importTopology(lab)).toMatchObject({
+        success: false,
+        error: "Routers already exist: R1, R2, R3, R4",
+      });
+      expect(simulator.getAllRouters()).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,498 @@
+import YAML from "yaml";
+import { ShowCommandParser } from "./ShowCommandParser";
+import { LabLink, LabNode, LabTopology, TopologyFormat } from "../types";
+
+interface ContainerlabNode {
+  kind?: string;
+  "mgmt-ipv4"?: string;
+  "startup-config"?: string;
+}
+
+interface ContainerlabFile {
+  name?: string;
+  topology?: {
+    defaults?: ContainerlabNode;
+    kinds?: Record<string, ContainerlabNode>;
+    nodes?: Record<string, ContainerlabNode | null>;
+    links?: {
+      endpoints?: (string | { node: string; interface: string })[];
+    }[];
+  };
+}
+
+interface Gns3Node {
+  node_id: string;
+  name: string;
+  node_type: string;
+  port_name_format?: string;
+  properties?: { platform?: string; startup_config_content?: string };
+  ports?: { name: string; adapter_number: number; port_number: number }[];
+}
+
+interface Gns3Project {
+  name?: string;
+  topology?: {
+    nodes?: Gns3Node[];
+    links?: {
+      nodes: { node_id: string; adapter_number: number; port_number: number }[];
+    }[];
+  };
+}
+
+interface XmlElement {
+  attributes: Record<string, string>;
+  body: string;
+}
+
+// Lab platforms and the router model they are simulated as
+const PLATFORM_MODELS: [RegExp, string][] = [
+  [/c8000v/i, "C8000V"],
+  [/csr/i, "CSR1000v"],
+  [/iol|iou/i, "IOL"],
+  [/vios/i, "IOSv"],
+  [/c7200/i, "7200"],
+  [/c3725/i, "3725"],
+  [/asav/i, "ASAv"],
+  [/n9kv|nxos|nx-os/i, "N9K-C9300v"],
+  [/ceos/i, "cEOS"],
+  [/veos/i, "vEOS-lab"],
+  [/vsrx/i, "vSRX"],
+  [/vqfx/i, "vQFX"],
+  [/vmx/i, "vMX"],
+  [/vjunos|junos|crpd/i, "vJunos-router"],
+];
+
+// containerlab kind written for each model on export
+const MODEL_KINDS: Record<string, string> = {
+  C8000V: "cisco_c8000v",
+  CSR1000v: "cisco_csr1000v",
+  IOL: "cisco_iol",
+  IOSv: "cisco_vios",
+  ASAv: "cisco_asav",
+  "N9K-C9300v": "cisco_n9kv",
+  cEOS: "arista_ceos",
+  "vEOS-lab": "arista_veos",
+  vSRX: "juniper_vsrx",
+  vQFX: "juniper_vqfx",
+  vMX: "juniper_vmx",
+  "vJunos-router": "juniper_vjunosrouter",
+};
+
+// Hosts, switches and clouds have no CLI to simulate
+const CONTAINERLAB_HOST_KINDS =
+  /^(linux|bridge|ovs-bridge|host|ext-container)$/;
+const GNS3_ROUTER_TYPES = ["dynamips", "iou", "qemu"];
+const EVE_ROUTER_TYPES = ["dynamips", "iol", "qemu"];
+
+// Reads containerlab, GNS3 and EVE-NG lab files into one topology shape.
+// Startup configs kept in separate files are passed in by node name or path.
+export class TopologyIO {
+  private showParser: ShowCommandParser = new ShowCommandParser();
+
+  public parse(
+    content: string,
+    format: TopologyFormat,
+    configs: Record<string, string> = {},
+  ): LabTopology {
+    switch (format) {
+      case "containerlab":
+        return this.parseContainerlab(content, configs);
+      case "gns3":
+        return this.parseGns3(content, configs);
+      case "eve-ng":
+        return this.parseEveNg(content, configs);
+      default:
+        throw new Error(`Unsupported topology format: ${format}`);
+    }
+  }
+
+  // Interfaces keep their IOS names, which containerlab accepts as aliases
+  public serializeContainerlab(topology: LabTopology): string {
+    const nodes: Record<string, Record<string, string>> = {};
+    topology.nodes.forEach((node) => {
+      nodes[node.name] = {
+        kind: node.kind || MODEL_KINDS[node.model || ""] || "cisco_iol",
+        ...(node.managementIp ? { "mgmt-ipv4": node.managementIp } : {}),
+        ...(node.startupConfig ? { "startup-config": node.startupConfig } : {}),
+      };
+    });
+
+    return YAML.stringify({
+      name: topology.name,
+      topology: {
+        nodes,
+        links: topology.links.map((link) => ({
+          endpoints: link.endpoints.map(
+            (end) => `${end.node}:${end.interfaceName}`,
+          ),
+        })),
+      },
+    });
+  }
+
+  private parseContainerlab(
+    content: string,
+    configs: Record<string, string>,
+  ): LabTopology {
+    const lab = YAML.parse(content) as ContainerlabFile | null;
+    const topology = lab?.topology;
+    if (!topology?.nodes) {
+      throw new Error("containerlab file has no topology.nodes");
+    }
+
+    const warnings: string[] = [];
+    const nodes: LabNode[] = [];
+    Object.entries(topology.nodes).forEach(([name, definition]) => {
+      const kind = definition?.kind || topology.defaults?.kind || "";
+      if (CONTAINERLAB_HOST_KINDS.test(kind)) {
+        warnings.push(`Skipped node ${name}: kind ${kind} is not a router`);
+        return;
+      }
+      const inherited = { ...topology.defaults, ...topology.kinds?.[kind] };
+      nodes.push({
+        name,
+        kind,
+        model: this.modelFor(kind),
+        managementIp: definition?.["mgmt-ipv4"],
+        interfaces: [],
+        startupConfig: this.startupConfig(
+          name,
+          definition?.["startup-config"] ?? inherited["startup-config"],
+          configs,
+          warnings,
+        ),
+      });
+    });
+
+    const links: LabLink[] = [];
+    (topology.links || []).forEach((link, index) => {
+      const ends = (link.endpoints || []).map((end) => {
+        const [node, iface] =
+          typeof end === "string"
+            ? [end.slice(0, end.indexOf(":")), end.slice(end.indexOf(":") + 1)]
+            : [end.node, end.interface];
+        const labNode = nodes.find((candidate) => candidate.name === node);
+        return labNode && iface
+          ? {
+              node: labNode,
+              interfaceName: this.containerlabInterface(labNode.kind, iface),
+            }
+          : undefined;
+      });
+      const label = (link.endpoints || [])
+        .map((end) =>
+          typeof end === "string" ? end : `${end.node}:${end.interface}`,
+        )
+        .join(" - ");
+      this.addLink(nodes, links, ends, `link ${label || index + 1}`, warnings);
+    });
+
+    return { name: lab?.name || "containerlab", nodes, links, warnings };
+  }
+
+  private parseGns3(
+    content: string,
+    configs: Record<string, string>,
+  ): LabTopology {
+    const project = JSON.parse(content) as Gns3Project;
+    if (!project.topology?.nodes) {
+      throw new Error("GNS3 project has no topology.nodes");
+    }
+
+    const warnings: string[] = [];
+    const nodes: LabNode[] = [];
+    const byId = new Map<string, { node: LabNode; source: Gns3Node }>();
+    project.topology.nodes.forEach((source) => {
+      if (!GNS3_ROUTER_TYPES.includes(source.node_type)) {
+        warnings.push(
+          `Skipped node ${source.name}: ${source.node_type} is not a router`,
+        );
+        return;
+      }
+      const node: LabNode = {
+        name: source.name,
+        kind: source.properties?.platform || source.node_type,
+        model: this.modelFor(
+          `${source.node_type} ${source.properties?.platform || ""}`,
+        ),
+        interfaces: [],
+        startupConfig: this.startupConfig(
+          source.name,
+          source.properties?.startup_config_content,
+          configs,
+          warnings,
+        ),
+      };
+      nodes.push(node);
+      byId.set(source.node_id, { node, source });
+    });
+
+    const links: LabLink[] = [];
+    (project.topology.links || []).forEach((link, index) => {
+      const ends = link.nodes.map((end) => {
+        const entry = byId.get(end.node_id);
+        return entry
+          ? {
+              node: entry.node,
+              interfaceName: this.gns3PortName(
+                entry.source,
+                end.adapter_number,
+                end.port_number,
+              ),
+            }
+          : undefined;
+      });
+      this.addLink(nodes, links, ends, `link ${index + 1}`, warnings);
+    });
+
+    return { name: project.name || "gns3", nodes, links, warnings };
+  }
+
+  // EVE-NG joins interfaces through networks; serial links name their peer
+  private parseEveNg(
+    content: string,
+    configs: Record<string, string>,
+  ): LabTopology {
+    const lab = this.xmlElements(content, "lab")[0];
+    if (!lab) throw new Error("EVE-NG lab file has no <lab> element");
+
+    const stored = new Map(
+      this.xmlElements(content, "config").map((config) => [
+        config.attributes.id,
+        Buffer.from(config.body.trim(), "base64").toString("utf8"),
+      ]),
+    );
+
+    const warnings: string[] = [];
+    const nodes: LabNode[] = [];
+    const networks = new Map<
+      string,
+      { node: LabNode; interfaceName: string }[]
+    >();
+    const serials: {
+      node: LabNode;
+      interfaceName: string;
+      remote: string;
+      remoteInterface: string;
+    }[] = [];
+    const byId = new Map<string, { node: LabNode; interfaces: XmlElement[] }>();
+
+    this.xmlElements(content, "node").forEach(({ attributes, body }) => {
+      const name = attributes.name || `node${attributes.id}`;
+      if (!EVE_ROUTER_TYPES.includes(attributes.type)) {
+        warnings.push(
+          `Skipped node ${name}: ${attributes.type} is not a router`,
+        );
+        return;
+      }
+      const node: LabNode = {
+        name,
+        kind: attributes.template || attributes.type,
+        model: this.modelFor(`${attributes.type} ${attributes.template || ""}`),
+        interfaces: [],
+        startupConfig: this.startupConfig(
+          name,
+          stored.get(attributes.id),
+          configs,
+          warnings,
+        ),
+      };
+      nodes.push(node);
+      byId.set(attributes.id, {
+        node,
+        interfaces: this.xmlElements(body, "interface"),
+      });
+    });
+
+    byId.forEach(({ node, interfaces }) => {
+      interfaces.forEach(({ attributes }) => {
+        const interfaceName = this.normalizeInterface(attributes.name || "");
+        if (attributes.network_id && attributes.network_id !== "0") {
+          networks.set(attributes.network_id, [
+            ...(networks.get(attributes.network_id) || []),
+            { node, interfaceName },
+          ]);
+        } else if (attributes.remote_id) {
+          serials.push({
+            node,
+            interfaceName,
+            remote: attributes.remote_id,
+            remoteInterface: attributes.remote_if,
+          });
+        }
+      });
+    });
+
+    const links: LabLink[] = [];
+    networks.forEach((members, networkId) => {
+      if (members.length === 2) {
+        this.addLink(nodes, links, members, `network ${networkId}`, warnings);
+      } else if (members.length > 2) {
+        warnings.push(
+          `Skipped network ${networkId}: it joins ${members.length} interfaces and only point-to-point links are simulated`,
+        );
+      }
+    });
+
+    // Each serial link is listed on both ends
+    serials.forEach((serial) => {
+      const remote = byId.get(serial.remote);
+      const remoteName = remote?.interfaces.find(
+        (candidate) => candidate.attributes.id === serial.remoteInterface,
+      )?.attributes.name;
+      const remoteEnd =
+        remote && remoteName
+          ? {
+              node: remote.node,
+              interfaceName: this.normalizeInterface(remoteName),
+            }
+          : undefined;
+      const seen = links.some((link) =>
+        link.endpoints.some(
+          (end) =>
+            end.node === serial.node.name &&
+            end.interfaceName === serial.interfaceName,
+        ),
+      );
+      if (!seen) {
+        this.addLink(
+          nodes,
+          links,
+          [serial, remoteEnd],
+          `serial link on ${serial.node.name} ${serial.interfaceName}`,
+          warnings,
+        );
+      }
+    });
+
+    return {
+      name: lab.attributes.name || "eve-ng",
+      nodes,
+      links,
+      warnings,
+    };
+  }
+
+  // Links to skipped nodes are dropped with a warning
+  private addLink(
+    nodes: LabNode[],
+    links: LabLink[],
+    ends: ({ node: LabNode; interfaceName: string } | undefined)[],
+    label: string,
+    warnings: string[],
+  ): void {
+    const [a, b] = ends;
+    if (ends.length !== 2 || !a || !b) {
+      warnings.push(`Skipped ${label}: it does not join two router interfaces`);
+      return;
+    }
+
+    [a, b].forEach(({ node, interfaceName }) => {
+      if (nodes.includes(node) && !node.interfaces.includes(interfaceName)) {
+        node.interfaces.push(interfaceName);
+      }
+    });
+    links.push({
+      endpoints: [
+        { node: a.node.name, interfaceName: a.interfaceName },
+        { node: b.node.name, interfaceName: b.interfaceName },
+      ],
+    });
+  }
+
+  // Configs passed by node name win over the lab file, then inline text,
+  // then configs passed by the path the lab file refers to
+  private startupConfig(
+    name: string,
+    reference: string | undefined,
+    configs: Record<string, string>,
+    warnings: string[],
+  ): string | undefined {
+    if (configs[name] !== undefined) return configs[name];
+    if (!reference) return undefined;
+    if (reference.includes("\n")) return reference;
+    if (configs[reference] !== undefined) return configs[reference];
+
+    warnings.push(`Startup config ${reference} for ${name} was not provided`);
+    return undefined;
+  }
+
+  // vrnetlab kinds number data ports eth1 and up; eth0 is management
+  private containerlabInterface(
+    kind: string | undefined,
+    name: string,
+  ): string {
+    const eth = name.match(/^eth(\d+)$/);
+    if (eth && /csr|c8000v/i.test(kind || "")) {
+      return `GigabitEthernet${Number(eth[1]) + 1}`;
+    }
+    if (eth && /iol/i.test(kind || "")) {
+      const index = Number(eth[1]);
+      return `Ethernet${Math.floor(index / 4)}/${index % 4}`;
+    }
+    if (eth && /n9kv/i.test(kind || "")) return `Ethernet1/${eth[1]}`;
+    if (eth && /ceos|veos/i.test(kind || "")) return `Ethernet${eth[1]}`;
+    if (eth && /vmx|vsrx|vqfx|vjunos/i.test(kind || "")) {
+      return `ge-0/0/${Number(eth[1]) - 1}`;
+    }
+    return this.normalizeInterface(name);
+  }
+
+  private gns3PortName(node: Gns3Node, adapter: number, port: number): string {
+    const listed = node.ports?.find(
+      (candidate) =>
+        candidate.adapter_number === adapter && candidate.port_number === port,
+    );
+    if (listed) return this.normalizeInterface(listed.name);
+
+    switch (node.node_type) {
+      case "iou":
+        return `Ethernet${adapter}/${port}`;
+      case "dynamips":
+        return `FastEthernet${adapter}/${port}`;
+      default:
+        return this.normalizeInterface(
+          (node.port_name_format || "GigabitEthernet0/{0}")
+            .replace(/\{(port)?0\}/g, String(adapter))
+            .replace(/\{(port)?1\}/g, String(adapter + 1)),
+        );
+    }
+  }
+
+  // EVE-NG writes IOL ports as "e0/1" and "s1/0"
+  private normalizeInterface(name: string): string {
+    return this.showParser.normalizeInterfaceName(
+      name.replace(/^e(?=\d)/i, "Ethernet").replace(/^s(?=\d)/i, "Serial"),
+    );
+  }
+
+  private modelFor(platform: string): string | undefined {
+    return PLATFORM_MODELS.find(([pattern]) => pattern.test(platform))?.[1];
+  }
+
+  // Enough XML for lab files: elements by tag name with attributes and body
+  private xmlElements(xml: string, tag: string): XmlElement[] {
+    const pattern = new RegExp(
+      `<${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/${tag}>)`,
+      "g",
+    );
+    return Array.from(xml.matchAll(pattern), ([, attributeText, body]) => ({
+      attributes: Object.fromEntries(
+        Array.from(
+          attributeText.matchAll(/([\w:-]+)="([^"]*)"/g),
+          ([, name, value]) => [name, this.decodeXml(value)],
+        ),
+      ),
+      body: body ?? "",
+    }));
+  }
+
+  private decodeXml(value: string): string {
+    return value
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, "&");
+  }
+}
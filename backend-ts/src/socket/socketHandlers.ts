@@ -1,18 +1,40 @@
 import { Server, Socket } from "socket.io";
 import { v4 as uuidv4 } from "uuid";
 import { logger } from "../utils/logger";
-import { NetworkOperations } from "../services/NetworkOperations";
-import { LLMIntegration } from "../services/LLMIntegration";
+import { getNetworkOperations } from "../services/NetworkOperations";
+import { llmIntegration } from "../services/LLMIntegration";
+import { ReachabilityPoller } from "../services/ReachabilityPoller";
+import { routerSimulator } from "../services/RouterSimulator";
 
 interface ActiveSession {
   sessionId: string;
   connectedAt: string;
   selectedDevice: string | null;
+  simTerminals: Map<string, string>; // terminalId -> routerId
+  generations: Map<string, AbortController>; // generationId -> its cancel
 }
 
 const activeSessions: Map<string, ActiveSession> = new Map();
-const networkOps = new NetworkOperations();
-const llmIntegration = new LLMIntegration();
+const networkOps = getNetworkOperations();
+
+// Broadcasts poller status transitions to every connected client
+export const setupStatusBroadcast = (
+  io: Server,
+  poller: ReachabilityPoller,
+): void => {
+  poller.registerStatusListener("socket-broadcast", (change) => {
+    io.emit("device_status_changed", {
+      device_id: change.deviceId,
+      device_name: change.deviceName,
+      previous_status: change.previousStatus,
+      status: change.status,
+      latency_ms: change.latencyMs,
+      last_seen: change.lastSeen,
+      checked_at: change.checkedAt,
+      reason: change.reason,
+    });
+  });
+};
 
 export const setupSocketHandlers = (io: Server): void => {
   io.on("connection", (socket: Socket) => {
@@ -21,6 +43,8 @@ export const setupSocketHandlers = (io: Server): void => {
       sessionId,
       connectedAt: new Date().toISOString(),
       selectedDevice: null,
+      simTerminals: new Map(),
+      generations: new Map(),
     });
 
     logger.info(`Client connected: ${socket.id}`);
@@ -131,36 +155,57 @@ export const setupSocketHandlers = (io: Server): void => {
             deviceInfo = networkOps.getDeviceInfo(device_id);
           }
 
-          // Generate configuration using LLM
+          // Generate configuration using LLM, streaming it as it is written
+          const generationId = uuidv4();
+          const controller = new AbortController();
+          const session = activeSessions.get(socket.id);
+          session?.generations.set(generationId, controller);
+
           socket.emit("config_generation_started", {
             message: "Generating configuration...",
             provider,
+            generation_id: generationId,
           });
 
-          const configResult = await llmIntegration.generateConfiguration(
-            command,
-            provider,
-            deviceInfo || undefined,
-          );
-
-          if (configResult.success) {
+          const configResult = await llmIntegration
+            .generateConfiguration(command, provider, deviceInfo || undefined, {
+              onText: (text) =>
+                socket.emit("config_generation_chunk", {
+                  generation_id: generationId,
+                  text,
+                }),
+              signal: controller.signal,
+            })
+            .finally(() => session?.generations.delete(generationId));
+
+          if (controller.signal.aborted) {
+            socket.emit("config_generation_cancelled", {
+              generation_id: generationId,
+              command,
+            });
+          } else if (configResult.success) {
             socket.emit("config_generated", {
               success: true,
               configuration: configResult.configuration,
-              provider,
+              provider: configResult.provider,
+              model: configResult.model,
+              skipped: configResult.skipped,
               command,
               device_id,
+              generation_id: generationId,
             });
           } else {
             socket.emit("config_generation_failed", {
               success: false,
               error: configResult.error || "Failed to generate configuration",
               provider,
+              skipped: configResult.skipped,
+              generation_id: generationId,
             });
           }
 
           logger.info(
-            `Configuration generation for command '${command}' using ${provider}: ${configResult.success}`,
+            `Configuration generation for command '${command}' using ${configResult.provider || provider}: ${configResult.success}`,
           );
         } catch (error) {
           logger.error(`Error generating configuration: ${error}`);
@@ -169,12 +214,26 @@ export const setupSocketHandlers = (io: Server): void => {
       },
     );
 
+    // Stop a generation; without an ID, every generation on this socket
+    socket.on("cancel_generation", (data?: { generation_id?: string }) => {
+      const generations = activeSessions.get(socket.id)?.generations;
+      generations?.forEach((controller, generationId) => {
+        if (!data?.generation_id || data.generation_id === generationId) {
+          controller.abort();
+        }
+      });
+    });
+
     // Handle configuration application
     socket.on(
       "apply_config",
-      async (data: { configuration: string; device_id: string }) => {
+      async (data: {
+        configuration: string;
+        device_id: string;
+        stop_on_error?: boolean;
+      }) => {
         try {
-          const { configuration, device_id } = data;
+          const { configuration, device_id, stop_on_error } = data;
 
           if (!device_id) {
             socket.emit("error", { message: "No device selected" });
@@ -190,6 +249,11 @@ export const setupSocketHandlers = (io: Server): void => {
           const applyResult = await networkOps.applyConfiguration(
             device_id,
             configuration,
+            {
+              stopOnError: stop_on_error ?? true,
+              onProgress: (progress) =>
+                socket.emit("config_apply_progress", { device_id, progress }),
+            },
           );
 
           if (applyResult.success) {
@@ -198,12 +262,14 @@ export const setupSocketHandlers = (io: Server): void => {
               device_id,
               result: applyResult.result,
               message: "Configuration applied successfully",
+              line_errors: [],
             });
           } else {
             socket.emit("config_application_failed", {
               success: false,
               device_id,
               error: applyResult.error || "Failed to apply configuration",
+              line_errors: applyResult.lineErrors || [],
             });
           }
 
@@ -266,6 +332,8 @@ export const setupSocketHandlers = (io: Server): void => {
           const pushResult = await networkOps.pushConfigurationToDummyRouter(
             device_id,
             configuration,
+            (steps) =>
+              socket.emit("config_push_progress", { device_id, steps }),
           );
 
           if (pushResult.success) {
@@ -365,8 +433,144 @@ export const setupSocketHandlers = (io: Server): void => {
       }
     });
 
+    // Open an interactive terminal on a simulated router
+    socket.on("sim_terminal_open", async (data: { router_id: string }) => {
+      try {
+        const { router_id } = data;
+        const session = activeSessions.get(socket.id);
+        const simulated = routerSimulator.getRouter(router_id);
+
+        if (!session || !simulated) {
+          socket.emit("sim_terminal_error", {
+            router_id,
+            error: "Router not found",
+          });
+          return;
+        }
+
+        // Each terminal is its own CLI session, so modes are not shared
+        const terminalId = uuidv4();
+        const result = await routerSimulator.executeCommand(
+          router_id,
+          "",
+          terminalId,
+        );
+        session.simTerminals.set(terminalId, router_id);
+
+        socket.emit("sim_terminal_opened", {
+          terminal_id: terminalId,
+          router_id,
+          router_name: simulated.name,
+          prompt: result.prompt || `${simulated.name}>`,
+        });
+
+        logger.info(
+          `Simulator terminal ${terminalId} opened on ${simulated.name} by ${socket.id}`,
+        );
+      } catch (error) {
+        logger.error(`Error opening simulator terminal: ${error}`);
+        socket.emit("error", { message: String(error) });
+      }
+    });
+
+    // Run terminal input; pasted blocks run line by line
+    socket.on(
+      "sim_terminal_input",
+      async (data: { terminal_id: string; command: string }) => {
+        try {
+          const { terminal_id, command } = data;
+          const session = activeSessions.get(socket.id);
+          const routerId = session?.simTerminals.get(terminal_id);
+
+          if (!session || !routerId) {
+            socket.emit("sim_terminal_error", {
+              terminal_id,
+              error: "Terminal not open",
+            });
+            return;
+          }
+
+          // Idle terminals are logged out, as exec-timeout would
+          routerSimulator.evictIdleSessions();
+          if (!routerSimulator.getActiveConnections().has(terminal_id)) {
+            session.simTerminals.delete(terminal_id);
+            socket.emit("sim_terminal_closed", {
+              terminal_id,
+              reason: "Session timed out",
+            });
+            return;
+          }
+
+          const result = await routerSimulator.executeCommand(
+            routerId,
+            command,
+            terminal_id,
+          );
+
+          if (!result.success) {
+            socket.emit("sim_terminal_error", {
+              terminal_id,
+              error: result.error || "Failed to execute command",
+            });
+          } else {
+            socket.emit("sim_terminal_output", {
+              terminal_id,
+              command,
+              output: result.output || "",
+              prompt: result.prompt || "",
+            });
+          }
+
+          // "exit" at the exec prompt, or deleting the router, ends the session
+          if (!routerSimulator.getActiveConnections().has(terminal_id)) {
+            session.simTerminals.delete(terminal_id);
+            socket.emit("sim_terminal_closed", {
+              terminal_id,
+              reason: result.success ? "Session ended" : result.error || "",
+            });
+          }
+        } catch (error) {
+          logger.error(`Error running simulator terminal input: ${error}`);
+          socket.emit("error", { message: String(error) });
+        }
+      },
+    );
+
+    // Close a simulator terminal
+    socket.on("sim_terminal_close", (data: { terminal_id: string }) => {
+      try {
+        const { terminal_id } = data;
+        const session = activeSessions.get(socket.id);
+
+        // Only the socket that opened a terminal may close it
+        if (!session?.simTerminals.has(terminal_id)) {
+          socket.emit("sim_terminal_error", {
+            terminal_id,
+            error: "Terminal not open",
+          });
+          return;
+        }
+
+        routerSimulator.disconnectSession(terminal_id);
+        session.simTerminals.delete(terminal_id);
+
+        socket.emit("sim_terminal_closed", {
+          terminal_id,
+          reason: "Closed by client",
+        });
+      } catch (error) {
+        logger.error(`Error closing simulator terminal: ${error}`);
+        socket.emit("error", { message: String(error) });
+      }
+    });
+
     // Handle client disconnection
     socket.on("disconnect", () => {
+      const session = activeSessions.get(socket.id);
+      session?.simTerminals.forEach((_, terminalId) =>
+        routerSimulator.disconnectSession(terminalId),
+      );
+      session?.generations.forEach((controller) => controller.abort());
       activeSessions.delete(socket.id);
       logger.info(`Client disconnected: ${socket.id}`);
     });
@@ -0,0 +1,84 @@
+import { Server, utils } from "ssh2";
+
+// A small IOS stand-in: user and enable password, paged show output,
+// configuration mode that rejects any line starting with "bogus", and
+// "reload", which drops the connection
+export const startStandIn = (received: string[]): Promise<Server> => {
+  const server = new Server(
+    { hostKeys: [utils.generateKeyPairSync("ed25519").private] },
+    (client) => {
+      client.on("authentication", (ctx) =>
+        ctx.method === "password" && ctx.password === "secret"
+          ? ctx.accept()
+          : ctx.reject(["password"]),
+      );
+      client.on("session", (accept) => {
+        const session = accept();
+        session.on("pty", (acceptPty) => acceptPty?.());
+        session.on("shell", (acceptShell) => {
+          const channel = acceptShell();
+          let mode = ">";
+          let pending = "";
+          let awaitingPassword = false;
+          let paged: string | null = null;
+
+          channel.write("Authorized access only\r\nR1>");
+          channel.on("data", (data: Buffer) => {
+            pending += data.toString();
+
+            // A space at the More prompt prints the rest of the page
+            if (paged !== null && pending.startsWith(" ")) {
+              pending = pending.slice(1);
+              channel.write(`\r${paged}R1${mode}`);
+              paged = null;
+            }
+
+            let index: number;
+            while ((index = pending.indexOf("\n")) >= 0) {
+              const command = pending.slice(0, index).trim();
+              pending = pending.slice(index + 1);
+
+              if (awaitingPassword) {
+                awaitingPassword = false;
+                if (command === "enable-secret") mode = "#";
+                channel.write(`\r\nR1${mode}`);
+                continue;
+              }
+
+              received.push(command);
+              channel.write(`${command}\r\n`);
+
+              if (command === "enable") {
+                awaitingPassword = true;
+                channel.write("Password: ");
+                continue;
+              }
+              if (command === "show running-config") {
+                channel.write("hostname R1\r\n --More-- ");
+                paged =
+                  "interface Loopback0\r\n ip address 10.0.0.1 255.255.255.255\r\n";
+                continue;
+              }
+              if (command === "reload") {
+                channel.close();
+                return;
+              }
+              if (command === "configure terminal") mode = "(config)#";
+              if (command === "end") mode = "#";
+              if (command.startsWith("bogus")) {
+                channel.write(
+                  "           ^\r\n% Invalid input detected at '^' marker.\r\n\r\n",
+                );
+              }
+              channel.write(`R1${mode}`);
+            }
+          });
+        });
+      });
+    },
+  );
+
+  return new Promise((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve(server)),
+  );
+};
@@ -3,21 +3,69 @@ export interface NetworkDevice {
   name: string;
   ip: string;
   deviceType: string;
+  protocol?: "ssh" | "telnet";
   username?: string;
   password?: string;
   enablePassword?: string;
   port?: number;
+  site?: string;
+  region?: string;
+  role?: string;
+  group?: string;
+  tags?: string[];
   status: "online" | "offline" | "warning";
-  lastSeen: string;
+  // ISO timestamp of the last successful contact, null if never reached
+  lastSeen: string | null;
   createdAt: string;
 }
 
+// Every given field must match; a device needs all listed tags
+export interface DeviceSelector {
+  site?: string;
+  region?: string;
+  role?: string;
+  group?: string;
+  tags?: string[];
+}
+
+// Bulk operations, compliance reports and pipelines take raw IDs or a selector
+export type DeviceTargets = string[] | DeviceSelector;
+
+export interface ReachabilityCheck {
+  deviceId: string;
+  reachable: boolean;
+  latencyMs: number | null;
+  banner?: string;
+  error?: string;
+}
+
+export interface DeviceStatusChange {
+  deviceId: string;
+  deviceName: string;
+  previousStatus: NetworkDevice["status"];
+  status: NetworkDevice["status"];
+  latencyMs: number | null;
+  lastSeen: string | null;
+  checkedAt: string;
+  reason: string;
+}
+
+export interface SiteHierarchy {
+  region: string;
+  sites: { site: string; deviceIds: string[] }[];
+}
+
 export interface ApiKey {
   id: string;
   name: string;
   provider: string;
   key: string;
   model?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+  // Active keys are tried in ascending priority when a provider fails
+  priority?: number;
+  timeout?: number; // milliseconds
   isActive: boolean;
   createdAt: string;
   lastUsed?: string;
@@ -29,12 +77,52 @@ export interface ConnectionInfo {
   deviceInfo: NetworkDevice;
 }
 
+export interface ConfigLineError {
+  lineNumber: number;
+  line: string;
+  response: string;
+}
+
+export interface ConfigPushProgress {
+  lineNumber: number;
+  totalLines: number;
+  line: string;
+  status: "accepted" | "rejected";
+  response?: string;
+}
+
+export interface ConfigPushOptions {
+  stopOnError?: boolean;
+  onProgress?: (progress: ConfigPushProgress) => void;
+}
+
+export interface ConfigPushResult {
+  success: boolean;
+  result?: string;
+  error?: string;
+  linesApplied?: number;
+  lineErrors?: ConfigLineError[];
+  warnings?: string[];
+}
+
 export interface ConfigurationResult {
   success: boolean;
   configuration?: string;
-  provider?: string;
+  provider?: string; // the provider that answered
   model?: string;
   error?: string;
+  skipped?: LLMProviderSkip[]; // providers tried or passed over first
+}
+
+export interface ConfigurationStreamOptions {
+  onText?: (text: string) => void; // streams the configuration as it is written
+  signal?: AbortSignal;
+}
+
+export interface LLMProviderSkip {
+  provider: string;
+  keyName?: string;
+  reason: string;
 }
 
 export interface DeviceConnectionResult {
@@ -42,6 +130,39 @@ export interface DeviceConnectionResult {
   message?: string;
   connectionType?: string;
   deviceInfo?: string;
+  warnings?: string[];
+  error?: string;
+}
+
+export interface ConnectionHistoryEntry {
+  deviceId: string;
+  deviceName: string;
+  action: "connect" | "disconnect";
+  timestamp: string;
+  success: boolean;
+}
+
+export interface ConfigPushHistoryEntry {
+  deviceId: string;
+  deviceName: string;
+  configuration: string;
+  timestamp: string;
+  success: boolean;
+}
+
+export type DeviceInventoryFormat = "csv" | "json" | "yaml";
+
+export interface DeviceImportRowError {
+  row: number;
+  errors: string[];
+}
+
+export interface DeviceImportResult {
+  success: boolean;
+  dryRun: boolean;
+  created: NetworkDevice[];
+  updated: NetworkDevice[];
+  errors: DeviceImportRowError[];
   error?: string;
 }
 
@@ -107,11 +228,90 @@ export interface MemorySearchResult {
 export interface SimulatedRouter {
   id: string;
   name: string;
+  description: string;
+  managementIp: string;
   model: string;
+  platform: DevicePlatform; // follows the model
+  iosVersion: string; // software version, whatever the platform
+  serialNumber: string;
   interfaces: RouterInterface[];
   runningConfig: string;
   startupConfig: string;
-  status: "running" | "stopped" | "error";
+  routingTable: RouteEntry[];
+  arpTable: ArpEntry[];
+  ospfNeighbors: OspfNeighbor[];
+  bgp?: BgpProcess; // set while "router bgp" is configured
+  cpuUsage: number;
+  memoryUsage: number;
+  status: "online" | "offline" | "error";
+  createdAt: string;
+  lastModified: string;
+}
+
+export interface RouterConfig {
+  runningConfig: string;
+  startupConfig: string;
+}
+
+// Simulated platforms, each with its own CLI and config syntax
+export type DevicePlatform = "ios-xe" | "asa" | "nx-os" | "eos" | "junos";
+
+export interface DevicePersonalitySummary {
+  platform: DevicePlatform;
+  vendor: string;
+  defaultModel: string;
+  softwareVersion: string;
+  deviceTypes: string[]; // NetworkDevice deviceType values it simulates
+}
+
+export interface RouterSimulatorConfig {
+  // Ask the LLM for commands the CLI engine does not implement
+  llmFallback: boolean;
+  // Ask the LLM to review configs sent through applyConfiguration
+  llmReview: boolean;
+  // CLI sessions unused for this long are dropped
+  sessionIdleTimeoutMs: number;
+  // Operations kept in the log; the oldest go first
+  maxLogEntries: number;
+}
+
+export type CliMode =
+  | "user"
+  | "privileged"
+  | "config"
+  | "config-if"
+  | "config-subif"
+  | "config-router"
+  | "config-line";
+
+export interface CliSessionState {
+  routerId: string;
+  mode: CliMode;
+  section?: string; // config block being edited, e.g. "interface Loopback0"
+  candidate?: string[]; // Junos statements not yet committed
+}
+
+export interface ConfigCommand {
+  path: string[]; // enclosing section headers, outermost first
+  line: string;
+}
+
+export interface CliContext {
+  router: SimulatedRouter;
+  session: CliSessionState;
+  saveConfig: () => void;
+  // Returns an IOS error message when the router rejects the line
+  applyConfig: (section: string | null, line: string) => string | undefined;
+  // Replaces the running config with text in the platform's own syntax
+  replaceConfig: (config: string) => void;
+  endSession: () => void;
+  probe: (destination: string, source?: string) => ReachabilityResult;
+}
+
+export interface CliCommandResult {
+  handled: boolean; // false when the engine does not know the command
+  output: string;
+  prompt: string;
 }
 
 export interface RouterInterface {
@@ -119,9 +319,322 @@ export interface RouterInterface {
   ipAddress?: string;
   subnetMask?: string;
   status: "up" | "down" | "administratively down";
+  lineProtocol?: "up" | "down";
+  addressMethod?: string;
+  macAddress?: string;
   description?: string;
 }
 
+export type RouteProtocol =
+  | "connected"
+  | "local"
+  | "static"
+  | "rip"
+  | "ospf"
+  | "eigrp"
+  | "bgp"
+  | "isis"
+  | "other";
+
+export interface RouteEntry {
+  code: string; // as printed by IOS, e.g. "O IA" or "S*"
+  protocol: RouteProtocol;
+  network: string;
+  prefixLength: number;
+  nextHop?: string;
+  interface?: string;
+  adminDistance?: number;
+  metric?: number;
+  age?: string;
+  candidateDefault?: boolean;
+}
+
+export interface ArpEntry {
+  ipAddress: string;
+  macAddress: string | null; // null while incomplete
+  ageMinutes: number | null; // null for the router's own addresses
+  type: string;
+  interface?: string;
+}
+
+export interface OspfNeighbor {
+  neighborId: string; // the neighbor's router ID
+  priority: number;
+  state: string; // as printed by IOS, e.g. "FULL/DR" or "FULL/  -"
+  address: string;
+  interface: string; // local interface the adjacency runs over
+}
+
+export type BgpSessionState = "Idle" | "Active" | "Established";
+
+export interface BgpNeighbor {
+  address: string;
+  remoteAs: number;
+  state: BgpSessionState;
+  establishedAt?: string;
+  prefixesReceived: number;
+}
+
+export interface BgpProcess {
+  localAs: number;
+  routerId: string;
+  networkEntries: number;
+  pathEntries: number;
+  neighbors: BgpNeighbor[];
+}
+
+export interface LinkEndpoint {
+  routerId: string;
+  interfaceName: string;
+}
+
+export interface SimulatedLink {
+  id: string;
+  endpoints: [LinkEndpoint, LinkEndpoint];
+  status: "up" | "down";
+  lossPercent?: number; // share of packets dropped in each direction
+}
+
+export interface PacketHop {
+  routerId: string;
+  routerName: string;
+  ipAddress: string; // address of the interface the packet arrived on
+}
+
+// no-route: the sending router has no route; unreachable: a later router has none
+export type PacketOutcome =
+  "delivered" | "no-route" | "unreachable" | "timeout";
+
+export interface PacketPath {
+  source: string;
+  destination: string;
+  hops: PacketHop[];
+  outcome: PacketOutcome;
+  lossPercent: number; // chance of a drop on the lossy links crossed
+}
+
+export interface ReachabilityResult {
+  reachable: boolean;
+  forward: PacketPath;
+  reply?: PacketPath; // only traced once the request is delivered
+  lossPercent?: number; // chance that an echo or its reply is dropped
+  error?: string;
+}
+
+export type TopologyFormat = "containerlab" | "gns3" | "eve-ng";
+
+export interface LabInterfaceRef {
+  node: string;
+  interfaceName: string;
+}
+
+export interface LabNode {
+  name: string;
+  kind?: string; // platform as the lab tool names it, e.g. "cisco_iol"
+  model?: string;
+  managementIp?: string;
+  interfaces: string[];
+  startupConfig?: string;
+}
+
+export interface LabLink {
+  endpoints: [LabInterfaceRef, LabInterfaceRef];
+}
+
+export interface LabTopology {
+  name: string;
+  nodes: LabNode[];
+  links: LabLink[];
+  warnings: string[]; // parts of the lab file that were skipped
+}
+
+export interface TopologyImportResult {
+  success: boolean;
+  routers: SimulatedRouter[];
+  links: SimulatedLink[];
+  warnings: string[];
+  error?: string;
+}
+
+export type FaultType =
+  | "interface-flap"
+  | "link-down"
+  | "high-cpu"
+  | "high-memory"
+  | "neighbor-failure"
+  | "packet-loss";
+
+export interface FaultSpec {
+  type: FaultType;
+  routerId?: string; // interface-flap, high-cpu, high-memory, neighbor-failure
+  interfaceName?: string; // interface-flap, OSPF neighbor-failure
+  linkId?: string; // link-down, packet-loss
+  protocol?: "ospf" | "bgp"; // neighbor-failure
+  neighbor?: string; // BGP neighbor-failure: the peer address
+  level?: number; // CPU or memory percent, or packet loss percent
+  flapIntervalSeconds?: number;
+  delaySeconds?: number; // schedule the fault instead of injecting it now
+  durationSeconds?: number; // clear the fault automatically
+  symptom?: string; // what the operator reports, without the cause
+}
+
+// Each group lists alternative terms; a diagnosis must mention one per group
+export interface FaultGroundTruth {
+  cause: string;
+  keywords: string[][];
+}
+
+export interface FaultDiagnosis {
+  source: "agent" | "manual";
+  diagnosis: string;
+  suggestedFix: string;
+  score: number; // share of keyword groups the diagnosis mentions, 0 to 1
+  matched: string[];
+  missed: string[][];
+  diagnosedAt: string;
+}
+
+export interface FaultScenario {
+  id: string;
+  spec: FaultSpec;
+  status: "scheduled" | "active" | "cleared" | "failed";
+  symptom: string;
+  groundTruth: FaultGroundTruth;
+  diagnoses: FaultDiagnosis[];
+  createdAt: string;
+  startsAt: string;
+  activatedAt: string | null;
+  clearedAt: string | null;
+  error?: string;
+}
+
+// Routers are named rather than referenced by ID, so a log replays onto a
+// fresh topology whose routers have new IDs
+export type SimulatorOperation =
+  | {
+      op: "create-router";
+      name: string;
+      description: string;
+      managementIp: string;
+      model?: string;
+    }
+  | {
+      op: "update-router";
+      router: string;
+      changes: Partial<
+        Pick<SimulatedRouter, "name" | "description" | "managementIp" | "model">
+      >;
+    }
+  | { op: "delete-router"; router: string }
+  | { op: "add-interface"; router: string; interface: RouterInterface }
+  | { op: "remove-interface"; router: string; interfaceName: string }
+  | { op: "replace-config"; router: string; config: string }
+  | {
+      op: "config-line";
+      router: string;
+      path: string[];
+      line: string;
+      ios?: boolean; // written in IOS form rather than the router's syntax
+    }
+  | { op: "save-config"; router: string }
+  | { op: "add-link"; endpoints: [LabInterfaceRef, LabInterfaceRef] }
+  | { op: "remove-link"; endpoint: LabInterfaceRef }
+  | { op: "link-status"; endpoint: LabInterfaceRef; status: "up" | "down" }
+  | { op: "link-loss"; endpoint: LabInterfaceRef; lossPercent: number }
+  | {
+      op: "interface-fault";
+      router: string;
+      interfaceName: string;
+      down: boolean;
+    }
+  | {
+      op: "resource-usage";
+      router: string;
+      cpuUsage?: number;
+      memoryUsage?: number;
+    };
+
+export type SimulatorLogEntry = SimulatorOperation & { at: string };
+
+export interface SimulatorState {
+  routers: SimulatedRouter[]; // running configs included
+  links: SimulatedLink[];
+  interfaceFaults: string[];
+  log: SimulatorLogEntry[]; // operations since the default topology was built
+  logDropped?: number; // older operations no longer in the log
+}
+
+// Simulator state is taken with faults lifted; active faults are re-injected
+// from their scenarios on restore
+export interface SimulatorSnapshot {
+  name: string;
+  createdAt: string;
+  state: SimulatorState;
+  faults: FaultScenario[];
+}
+
+export interface SimulatorSnapshotSummary {
+  name: string;
+  createdAt: string;
+  routers: number;
+  links: number;
+  faults: number;
+  logEntries: number;
+}
+
+export interface ReplayResult {
+  success: boolean;
+  applied: number;
+  errors: { index: number; op: string; error: string }[];
+}
+
+// Device Facts Types
+export type DeviceFactName =
+  "version" | "interfaces" | "routes" | "arp" | "neighbors" | "inventory";
+
+export interface DeviceVersionFacts {
+  hostname?: string;
+  software?: string;
+  version?: string;
+  image?: string;
+  model?: string;
+  serialNumber?: string;
+  uptime?: string;
+  uptimeSeconds?: number;
+  systemImageFile?: string;
+  configRegister?: string;
+  lastReloadReason?: string;
+}
+
+export interface CdpNeighbor {
+  deviceId: string;
+  localInterface: string;
+  holdtime: number;
+  capabilities: string[];
+  platform?: string;
+  portId: string;
+}
+
+export interface InventoryItem {
+  name: string;
+  description: string;
+  pid?: string;
+  vid?: string;
+  serialNumber?: string;
+}
+
+export interface DeviceFacts {
+  deviceId: string;
+  collectedAt: string;
+  version?: DeviceVersionFacts;
+  interfaces?: RouterInterface[];
+  routes?: RouteEntry[];
+  arp?: ArpEntry[];
+  neighbors?: CdpNeighbor[];
+  inventory?: InventoryItem[];
+  errors: Partial<Record<DeviceFactName, string>>;
+}
+
 export interface SimulationResult {
   success: boolean;
   output?: string;
@@ -239,10 +752,59 @@ export interface LLMProviderConfig {
   apiKey?: string;
   models: string[];
   baseUrl?: string;
+  // Azure OpenAI deployments take an api-version query and an api-key header
+  apiVersion?: string;
   defaultModel: string;
   priority: number;
   timeout: number;
   maxTokens: number;
+  streamIdleTimeout?: number; // ms a stream may send nothing before it is abandoned
+}
+
+export interface LLMCompletionRequest {
+  system: string;
+  prompt: string;
+  model?: string;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+  text: string;
+  model: string;
+  truncated: boolean; // stopped at maxTokens
+}
+
+export interface LLMHealth {
+  provider: string;
+  healthy: boolean;
+  latencyMs: number;
+  models?: number;
+  error?: string;
+}
+
+export interface LLMModelInfo {
+  id: string;
+  name?: string;
+  contextLength?: number; // tokens, where the provider reports it
+  streaming?: boolean;
+}
+
+export interface LLMModelList {
+  provider: string;
+  models: LLMModelInfo[];
+  // static: the built-in list, when the provider could not be asked
+  source: "live" | "cache" | "static";
+  fetchedAt?: string;
+  error?: string;
+}
+
+export interface LLMProviderSummary {
+  name: string;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl?: string;
+  requiresApiKey: boolean;
 }
 
 export interface RAGConfig {
@@ -271,6 +833,34 @@ export interface NetworkConfig {
   defaultDeviceType: string;
 }
 
+export interface ConnectionPoolConfig {
+  maxSessions: number;
+  maxSessionsPerDevice: number;
+  // How long a request may queue for a free session
+  acquireTimeoutMs: number;
+  idleTimeoutMs: number;
+}
+
+export interface ConnectionPoolStats {
+  total: number;
+  busy: number;
+  idle: number;
+  opening: number;
+  waiting: number;
+  maxSessions: number;
+  maxSessionsPerDevice: number;
+}
+
+export interface ReachabilityConfig {
+  intervalSeconds: number;
+  timeoutMs: number;
+  warningLatencyMs: number;
+  // Consecutive failed checks before a device is marked offline
+  failureThreshold: number;
+  sshBannerCheck: boolean;
+  concurrency: number;
+}
+
 export interface SocketEvents {
   // Client to Server
   select_device: (data: { device_id: string }) => void;
@@ -281,7 +871,11 @@ export interface SocketEvents {
     provider: string;
     device_id?: string;
   }) => void;
-  apply_config: (data: { configuration: string; device_id: string }) => void;
+  apply_config: (data: {
+    configuration: string;
+    device_id: string;
+    stop_on_error?: boolean;
+  }) => void;
   get_device_status: (data: { device_id: string }) => void;
   push_config_to_dummy: (data: {
     configuration: string;
@@ -289,6 +883,9 @@ export interface SocketEvents {
   }) => void;
   retrieve_config_from_dummy: (data: { device_id: string }) => void;
   get_dummy_router_status: (data: { device_id: string }) => void;
+  sim_terminal_open: (data: { router_id: string }) => void;
+  sim_terminal_input: (data: { terminal_id: string; command: string }) => void;
+  sim_terminal_close: (data: { terminal_id: string }) => void;
   run_pipeline: (data: { pipelineId: string; input: any }) => void;
   query_rag: (data: { query: string; pipelineId?: string }) => void;
   execute_agent_action: (data: {
@@ -339,23 +936,43 @@ export interface SocketEvents {
     message: string;
     device_id: string;
   }) => void;
+  config_apply_progress: (data: {
+    device_id: string;
+    progress: ConfigPushProgress;
+  }) => void;
   config_applied: (data: {
     success: boolean;
     device_id: string;
     result: string;
     message: string;
+    line_errors: ConfigLineError[];
   }) => void;
   config_application_failed: (data: {
     success: boolean;
     device_id: string;
     error: string;
+    line_errors: ConfigLineError[];
   }) => void;
   device_status: (data: {
     device_id: string;
     status: any;
     connected: boolean;
   }) => void;
+  device_status_changed: (data: {
+    device_id: string;
+    device_name: string;
+    previous_status: NetworkDevice["status"];
+    status: NetworkDevice["status"];
+    latency_ms: number | null;
+    last_seen: string | null;
+    checked_at: string;
+    reason: string;
+  }) => void;
   config_push_started: (data: { message: string; device_id: string }) => void;
+  config_push_progress: (data: {
+    device_id: string;
+    steps: Array<any>;
+  }) => void;
   config_pushed_to_dummy: (data: {
     success: boolean;
     device_id: string;
@@ -384,6 +1001,24 @@ export interface SocketEvents {
     error: string;
   }) => void;
   dummy_router_status: (data: { device_id: string; status: any }) => void;
+  sim_terminal_opened: (data: {
+    terminal_id: string;
+    router_id: string;
+    router_name: string;
+    prompt: string;
+  }) => void;
+  sim_terminal_output: (data: {
+    terminal_id: string;
+    command: string;
+    output: string;
+    prompt: string;
+  }) => void;
+  sim_terminal_closed: (data: { terminal_id: string; reason: string }) => void;
+  sim_terminal_error: (data: {
+    terminal_id?: string;
+    router_id?: string;
+    error: string;
+  }) => void;
   pipeline_started: (data: { pipelineId: string; message: string }) => void;
   pipeline_stage_completed: (data: {
     pipelineId: string;
@@ -0,0 +1,52 @@
+export const isIpv4 = (value: string): boolean =>
+  /^\d{1,3}(\.\d{1,3}){3}$/.test(value) &&
+  value.split(".").every((octet) => Number(octet) <= 255);
+
+export const ipToNumber = (ip: string): number =>
+  ip.split(".").reduce((total, octet) => total * 256 + Number(octet), 0);
+
+export const numberToIp = (value: number): string =>
+  [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join(".");
+
+export const prefixToMask = (prefixLength: number): string =>
+  numberToIp(prefixLength === 0 ? 0 : 2 ** 32 - 2 ** (32 - prefixLength));
+
+// Returns -1 for non-contiguous masks
+export const maskToPrefix = (mask: string): number => {
+  const bits = ipToNumber(mask).toString(2).padStart(32, "0");
+  if (!/^1*0*$/.test(bits)) return -1;
+  return bits.replace(/0+$/, "").length;
+};
+
+export const networkAddress = (ip: string, prefixLength: number): string => {
+  const size = 2 ** (32 - prefixLength);
+  return numberToIp(Math.floor(ipToNumber(ip) / size) * size);
+};
+
+export const inSubnet = (
+  ip: string,
+  network: string,
+  prefixLength: number,
+): boolean =>
+  networkAddress(ip, prefixLength) === networkAddress(network, prefixLength);
+
+// Prefix length implied by the address class, as IOS uses when grouping routes
+export const classfulPrefix = (ip: string): number => {
+  if (ip === "0.0.0.0") return 0;
+  const firstOctet = Number(ip.split(".")[0]);
+  if (firstOctet < 128) return 8;
+  if (firstOctet < 192) return 16;
+  return 24;
+};
+
+// Turns a mask into its wildcard and back, as OSPF network statements need
+export const invertMask = (mask: string): string =>
+  numberToIp(2 ** 32 - 1 - ipToNumber(mask));
+
+// "10.0.0.1/24" as the address and its mask
+export const parsePrefix = (text: string): [string, string] | undefined => {
+  const [address, length] = text.split("/");
+  return isIpv4(address) && /^\d{1,2}$/.test(length) && Number(length) <= 32
+    ? [address, prefixToMask(Number(length))]
+    : undefined;
+};
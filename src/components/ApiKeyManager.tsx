@@ -48,18 +48,30 @@ interface ApiKey {
   id: string;
   name: string;
   provider: string;
+  // Empty until the key is entered in this browser session
   key: string;
+  preview: string;
   model?: string;
   isActive: boolean;
   createdAt: string;
   lastUsed?: string;
 }
 
+// What is kept in localStorage: everything but the key itself
+type StoredApiKey = Omit<ApiKey, "key">;
+
+const STORAGE_KEY = "ai-network-whisperer-api-keys";
+
 interface ApiKeyManagerProps {
   onKeySelect?: (key: ApiKey) => void;
   onKeyUpdate?: (keys: ApiKey[]) => void;
 }
 
+const maskKey = (key: string) => {
+  if (key.length <= 8) return "*".repeat(key.length);
+  return key.substring(0, 4) + "*".repeat(key.length - 8) + key.slice(-4);
+};
+
 const ApiKeyManager = ({
   onKeySelect = () => {},
   onKeyUpdate = () => {},
@@ -76,25 +88,34 @@ const ApiKeyManager = ({
     model: "",
   });
 
-  // Load keys from localStorage on mount
+  // Load key details from localStorage on mount; the keys themselves are
+  // never stored, so each one has to be entered again before it is used
   useEffect(() => {
-    const savedKeys = localStorage.getItem("ai-network-whisperer-api-keys");
+    const savedKeys = localStorage.getItem(STORAGE_KEY);
     if (savedKeys) {
       try {
-        const keys = JSON.parse(savedKeys);
-        setApiKeys(keys);
+        const keys: (StoredApiKey & { key?: string })[] = JSON.parse(savedKeys);
+        setApiKeys(
+          keys.map(({ key: masked, ...details }) => ({
+            ...details,
+            // Older versions stored the masked key in place of a preview
+            preview: details.preview ?? masked ?? "",
+            key: "",
+          })),
+        );
       } catch (error) {
         console.error("Error loading API keys:", error);
       }
     } else {
-      // Add some demo keys
-      const demoKeys: ApiKey[] = [
+      // Add some demo entries, ready for their keys
+      setApiKeys([
         {
           id: "1",
           name: "Groq Production",
           provider: "groq",
-          key: "gsk_xxxxxxxxxxxxxxxxxxxxxxxxxxxx",
-          model: "llama3-8b-8192",
+          key: "",
+          preview: "",
+          model: "llama-3.1-8b-instant",
           isActive: true,
           createdAt: "2024-01-15",
           lastUsed: "2 hours ago",
@@ -103,29 +124,26 @@ const ApiKeyManager = ({
           id: "2",
           name: "Ollama Local",
           provider: "ollama",
-          key: "http://localhost:11434",
+          key: "",
+          preview: "",
           model: "llama2",
           isActive: false,
           createdAt: "2024-01-10",
           lastUsed: "1 day ago",
         },
-      ];
-      setApiKeys(demoKeys);
-      localStorage.setItem(
-        "ai-network-whisperer-api-keys",
-        JSON.stringify(demoKeys),
-      );
+      ]);
     }
   }, []);
 
-  // Save keys to localStorage whenever they change
+  // Save key details whenever they change; raw keys never leave memory
   useEffect(() => {
     if (apiKeys.length > 0) {
-      localStorage.setItem(
-        "ai-network-whisperer-api-keys",
-        JSON.stringify(apiKeys),
-      );
-      onKeyUpdate(apiKeys);
+      const stored: StoredApiKey[] = apiKeys.map(({ key, ...details }) => ({
+        ...details,
+        preview: key ? maskKey(key) : details.preview,
+      }));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+      onKeyUpdate(apiKeys.filter((k) => k.key));
     }
   }, [apiKeys, onKeyUpdate]);
 
@@ -136,6 +154,7 @@ const ApiKeyManager = ({
         name: newKey.name,
         provider: newKey.provider,
         key: newKey.key,
+        preview: maskKey(newKey.key),
         model: newKey.model || getDefaultModel(newKey.provider),
         isActive: apiKeys.length === 0, // First key is active by default
         createdAt: new Date().toISOString().split("T")[0],
@@ -149,7 +168,11 @@ const ApiKeyManager = ({
   const handleEditKey = () => {
     if (editingKey && editingKey.name && editingKey.key) {
       setApiKeys(
-        apiKeys.map((k) => (k.id === editingKey.id ? { ...editingKey } : k)),
+        apiKeys.map((k) =>
+          k.id === editingKey.id
+            ? { ...editingKey, preview: maskKey(editingKey.key) }
+            : k,
+        ),
       );
       setEditingKey(null);
       setIsEditDialogOpen(false);
@@ -173,16 +196,11 @@ const ApiKeyManager = ({
     setShowKeys((prev) => ({ ...prev, [keyId]: !prev[keyId] }));
   };
 
-  const maskKey = (key: string) => {
-    if (key.length <= 8) return "*".repeat(key.length);
-    return key.substring(0, 4) + "*".repeat(key.length - 8) + key.slice(-4);
-  };
-
   const getDefaultModel = (provider: string): string => {
     const defaultModels: Record<string, string> = {
-      groq: "llama3-8b-8192",
-      openai: "gpt-3.5-turbo",
-      claude: "claude-3-haiku-20240307",
+      groq: "llama-3.1-8b-instant",
+      openai: "gpt-4o-mini",
+      claude: "claude-3-5-haiku-latest",
       ollama: "llama2",
     };
     return defaultModels[provider] || "";
@@ -190,24 +208,13 @@ const ApiKeyManager = ({
 
   const getAvailableModels = (provider: string): string[] => {
     const models: Record<string, string[]> = {
-      groq: [
-        "llama3-8b-8192",
-        "llama3-70b-8192",
-        "mixtral-8x7b-32768",
-        "gemma-7b-it",
-        "gemma2-9b-it",
-      ],
-      openai: [
-        "gpt-3.5-turbo",
-        "gpt-4",
-        "gpt-4-turbo",
-        "gpt-4o",
-        "gpt-4o-mini",
-      ],
+      groq: ["llama-3.1-8b-instant", "llama-3.3-70b-versatile"],
+      openai: ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini", "gpt-4.1"],
       claude: [
-        "claude-3-haiku-20240307",
-        "claude-3-sonnet-20240229",
-        "claude-3-opus-20240229",
+        "claude-3-5-haiku-latest",
+        "claude-3-7-sonnet-latest",
+        "claude-sonnet-4-0",
+        "claude-opus-4-0",
       ],
       ollama: [
         "llama2",
@@ -364,21 +371,27 @@ const ApiKeyManager = ({
               <div className="text-xs text-muted-foreground space-y-1 mb-3">
                 <div className="flex items-center space-x-2">
                   <span>Key:</span>
-                  <code className="bg-muted px-1 rounded text-xs">
-                    {showKeys[key.id] ? key.key : maskKey(key.key)}
-                  </code>
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => toggleKeyVisibility(key.id)}
-                    className="h-4 w-4 p-0"
-                  >
-                    {showKeys[key.id] ? (
-                      <EyeOff className="h-3 w-3" />
-                    ) : (
-                      <Eye className="h-3 w-3" />
-                    )}
-                  </Button>
+                  {key.preview && (
+                    <code className="bg-muted px-1 rounded text-xs">
+                      {showKeys[key.id] && key.key ? key.key : key.preview}
+                    </code>
+                  )}
+                  {key.key ? (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => toggleKeyVisibility(key.id)}
+                      className="h-4 w-4 p-0"
+                    >
+                      {showKeys[key.id] ? (
+                        <EyeOff className="h-3 w-3" />
+                      ) : (
+                        <Eye className="h-3 w-3" />
+                      )}
+                    </Button>
+                  ) : (
+                    <span>Edit to enter the key for this session</span>
+                  )}
                 </div>
                 {key.model && <div>Model: {key.model}</div>}
                 <div>Created: {key.createdAt}</div>
@@ -454,6 +467,7 @@ const ApiKeyManager = ({
                               })
                             }
                             className="col-span-3"
+                            placeholder="Enter your API key"
                           />
                         </div>
                         {(editingKey.provider === "groq" ||
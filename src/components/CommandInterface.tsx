@@ -33,19 +33,37 @@ import {
   Download,
   Router,
   CheckCircle,
+  Square,
 } from "lucide-react";
 
+export interface PushStep {
+  step: number;
+  action: string;
+  status: "pending" | "in-progress" | "completed" | "failed";
+}
+
 interface CommandInterfaceProps {
-  onSubmit?: (command: string, provider: string) => Promise<void>;
+  // Calls onChunk with each piece of the configuration as the model writes
+  // it, and resolves with the finished configuration
+  onSubmit?: (
+    command: string,
+    provider: string,
+    onChunk: (text: string) => void,
+  ) => Promise<string | void>;
+  onCancel?: () => void;
   onApprove?: (config: string) => Promise<void>;
   onReject?: () => void;
-  onPushToDummy?: (config: string) => Promise<void>;
+  onPushToDummy?: (
+    config: string,
+    onProgress: (steps: PushStep[]) => void,
+  ) => Promise<void>;
   onRetrieveFromDummy?: () => Promise<void>;
   selectedDeviceId?: string;
 }
 
 const CommandInterface = ({
   onSubmit = async () => {},
+  onCancel = () => {},
   onApprove = async () => {},
   onReject = () => {},
   onPushToDummy = async () => {},
@@ -57,32 +75,51 @@ const CommandInterface = ({
   const [generatedConfig, setGeneratedConfig] = useState<string>("");
   const [retrievedConfig, setRetrievedConfig] = useState<string>("");
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [isPushing, setIsPushing] = useState<boolean>(false);
   const [isRetrieving, setIsRetrieving] = useState<boolean>(false);
   const [activeTab, setActiveTab] = useState<string>("input");
-  const [pushSteps, setPushSteps] = useState<Array<any>>([]);
+  const [pushSteps, setPushSteps] = useState<PushStep[]>([]);
   const [pushProgress, setPushProgress] = useState<number>(0);
 
   const handleSubmit = async () => {
     if (!command.trim()) return;
 
     setIsLoading(true);
+    setIsGenerating(true);
+    setGeneratedConfig("");
+    let streamed = false;
     try {
-      await onSubmit(command, provider);
-      // For demo purposes, simulate a response
-      setTimeout(() => {
+      const configuration = await onSubmit(command, provider, (text) => {
+        streamed = true;
+        setGeneratedConfig((current) => current + text);
+        setActiveTab("output");
+      });
+      if (typeof configuration === "string") {
+        setGeneratedConfig(configuration);
+        setActiveTab("output");
+      } else if (!streamed) {
+        // For demo purposes, when no backend answered
         setGeneratedConfig(
           `! Generated Cisco IOS Configuration\n\ninterface GigabitEthernet0/1\n description WAN Connection\n ip address 192.168.1.1 255.255.255.0\n no shutdown\n!\nrouter ospf 1\n network 192.168.1.0 0.0.0.255 area 0\n!\nip route 0.0.0.0 0.0.0.0 192.168.1.254\n!`,
         );
         setActiveTab("output");
-        setIsLoading(false);
-      }, 1500);
+      }
     } catch (error) {
       console.error("Error generating configuration:", error);
+    } finally {
       setIsLoading(false);
+      setIsGenerating(false);
     }
   };
 
+  // Keeps whatever was generated before the stop
+  const handleCancel = () => {
+    onCancel();
+    setIsLoading(false);
+    setIsGenerating(false);
+  };
+
   const handleApprove = async () => {
     setIsLoading(true);
     try {
@@ -112,36 +149,17 @@ const CommandInterface = ({
     setIsPushing(true);
     setPushSteps([]);
     setPushProgress(0);
+    setActiveTab("push-status");
 
     try {
-      // Simulate push steps visualization
-      const steps = [
-        {
-          step: 1,
-          action: "Connecting to dummy router",
-          status: "in-progress",
-        },
-        { step: 2, action: "Entering configuration mode", status: "pending" },
-        { step: 3, action: "Applying configuration", status: "pending" },
-        { step: 4, action: "Saving configuration", status: "pending" },
-        { step: 5, action: "Verifying configuration", status: "pending" },
-      ];
-
-      setPushSteps([...steps]);
-
-      // Simulate step-by-step progress
-      for (let i = 0; i < steps.length; i++) {
-        await new Promise((resolve) => setTimeout(resolve, 800));
-        steps[i].status = "completed";
-        if (i < steps.length - 1) {
-          steps[i + 1].status = "in-progress";
-        }
-        setPushSteps([...steps]);
-        setPushProgress(((i + 1) / steps.length) * 100);
-      }
-
-      await onPushToDummy(generatedConfig);
-      setActiveTab("push-status");
+      // Steps are reported by the backend as the push progresses
+      await onPushToDummy(generatedConfig, (steps) => {
+        const completed = steps.filter(
+          (step) => step.status === "completed",
+        ).length;
+        setPushSteps(steps);
+        setPushProgress(steps.length ? (completed / steps.length) * 100 : 0);
+      });
     } catch (error) {
       console.error("Error pushing to dummy router:", error);
     } finally {
@@ -219,7 +237,13 @@ const CommandInterface = ({
                 value={command}
                 onChange={(e) => setCommand(e.target.value)}
               />
-              <div className="flex justify-end">
+              <div className="flex justify-end space-x-2">
+                {isGenerating && (
+                  <Button variant="outline" onClick={handleCancel}>
+                    <Square className="mr-2 h-4 w-4" />
+                    Stop
+                  </Button>
+                )}
                 <Button
                   onClick={handleSubmit}
                   disabled={!command.trim() || isLoading}
@@ -244,9 +268,18 @@ const CommandInterface = ({
               <div className="p-4 bg-muted rounded-md">
                 <pre className="whitespace-pre-wrap font-mono text-sm">
                   {generatedConfig}
+                  {isGenerating && (
+                    <Loader2 className="inline ml-1 h-3 w-3 animate-spin" />
+                  )}
                 </pre>
               </div>
               <div className="flex justify-end space-x-2">
+                {isGenerating && (
+                  <Button variant="outline" onClick={handleCancel}>
+                    <Square className="mr-2 h-4 w-4" />
+                    Stop
+                  </Button>
+                )}
                 <Button
                   variant="destructive"
                   onClick={handleReject}
@@ -346,6 +379,9 @@ const CommandInterface = ({
                           {step.status === "pending" && (
                             <div className="h-4 w-4 rounded-full border-2 border-muted-foreground/30" />
                           )}
+                          {step.status === "failed" && (
+                            <X className="h-4 w-4 text-red-500" />
+                          )}
                         </div>
                         <span className="text-sm">{step.action}</span>
                         <Badge
@@ -354,7 +390,9 @@ const CommandInterface = ({
                               ? "default"
                               : step.status === "in-progress"
                                 ? "secondary"
-                                : "outline"
+                                : step.status === "failed"
+                                  ? "destructive"
+                                  : "outline"
                           }
                           className="ml-auto"
                         >
@@ -1,4 +1,5 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -38,19 +39,43 @@ interface Device {
   ip: string;
   type: string;
   status: "online" | "offline" | "warning";
-  lastSeen: string;
+  lastSeen: string | null;
+  latencyMs?: number | null;
+  statusReason?: string;
+}
+
+// Mirrors the backend's device_status_changed event
+export interface DeviceStatusUpdate {
+  deviceId: string;
+  status: Device["status"];
+  lastSeen: string | null;
+  latencyMs: number | null;
+  reason: string;
 }
 
 interface DevicePanelProps {
   onDeviceSelect?: (device: Device) => void;
   onDeviceConnect?: (device: Device) => Promise<void>;
   onDeviceDisconnect?: (device: Device) => Promise<void>;
+  // Returns an unsubscribe function
+  onSubscribeStatus?: (
+    listener: (update: DeviceStatusUpdate) => void,
+  ) => () => void;
 }
 
+const minutesAgo = (minutes: number) =>
+  new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+const formatLastSeen = (lastSeen: string | null) =>
+  lastSeen
+    ? formatDistanceToNow(new Date(lastSeen), { addSuffix: true })
+    : "Never";
+
 const DevicePanel = ({
   onDeviceSelect = () => {},
   onDeviceConnect = async () => {},
   onDeviceDisconnect = async () => {},
+  onSubscribeStatus,
 }: DevicePanelProps) => {
   const [devices, setDevices] = useState<Device[]>([
     {
@@ -59,7 +84,7 @@ const DevicePanel = ({
       ip: "192.168.1.10",
       type: "Switch",
       status: "online",
-      lastSeen: "2 min ago",
+      lastSeen: minutesAgo(2),
     },
     {
       id: "2",
@@ -67,7 +92,7 @@ const DevicePanel = ({
       ip: "192.168.1.1",
       type: "Router",
       status: "online",
-      lastSeen: "1 min ago",
+      lastSeen: minutesAgo(1),
     },
     {
       id: "3",
@@ -75,7 +100,7 @@ const DevicePanel = ({
       ip: "192.168.1.20",
       type: "Switch",
       status: "warning",
-      lastSeen: "15 min ago",
+      lastSeen: minutesAgo(15),
     },
     {
       id: "4",
@@ -83,7 +108,7 @@ const DevicePanel = ({
       ip: "192.168.1.5",
       type: "Firewall",
       status: "offline",
-      lastSeen: "2 hours ago",
+      lastSeen: minutesAgo(120),
     },
   ]);
 
@@ -94,6 +119,33 @@ const DevicePanel = ({
     ip: "",
     type: "Router",
   });
+  // Re-render periodically so relative "last seen" times stay current
+  const [, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!onSubscribeStatus) return;
+
+    return onSubscribeStatus((update) => {
+      setDevices((current) =>
+        current.map((d) =>
+          d.id === update.deviceId
+            ? {
+                ...d,
+                status: update.status,
+                lastSeen: update.lastSeen,
+                latencyMs: update.latencyMs,
+                statusReason: update.reason,
+              }
+            : d,
+        ),
+      );
+    });
+  }, [onSubscribeStatus]);
 
   const getStatusIcon = (status: Device["status"]) => {
     switch (status) {
@@ -134,7 +186,7 @@ const DevicePanel = ({
         ip: newDevice.ip,
         type: newDevice.type,
         status: "offline",
-        lastSeen: "Never",
+        lastSeen: null,
       };
       setDevices([...devices, device]);
       setNewDevice({ name: "", ip: "", type: "Router" });
@@ -155,7 +207,11 @@ const DevicePanel = ({
       setDevices(
         devices.map((d) =>
           d.id === device.id
-            ? { ...d, status: "offline" as const, lastSeen: "Just now" }
+            ? {
+                ...d,
+                status: "offline" as const,
+                lastSeen: new Date().toISOString(),
+              }
             : d,
         ),
       );
@@ -164,7 +220,11 @@ const DevicePanel = ({
       setDevices(
         devices.map((d) =>
           d.id === device.id
-            ? { ...d, status: "online" as const, lastSeen: "Just now" }
+            ? {
+                ...d,
+                status: "online" as const,
+                lastSeen: new Date().toISOString(),
+              }
             : d,
         ),
       );
@@ -264,12 +324,19 @@ const DevicePanel = ({
                   {getStatusIcon(device.status)}
                   <span className="font-medium text-sm">{device.name}</span>
                 </div>
-                {getStatusBadge(device.status)}
+                <span title={device.statusReason}>
+                  {getStatusBadge(device.status)}
+                </span>
               </div>
               <div className="text-xs text-muted-foreground space-y-1">
                 <div>IP: {device.ip}</div>
                 <div>Type: {device.type}</div>
-                <div>Last seen: {device.lastSeen}</div>
+                <div title={device.lastSeen || undefined}>
+                  Last seen: {formatLastSeen(device.lastSeen)}
+                </div>
+                {device.latencyMs != null && (
+                  <div>Latency: {device.latencyMs}ms</div>
+                )}
               </div>
               <div className="flex justify-end space-x-1 mt-2">
                 <Button
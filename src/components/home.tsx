@@ -1,22 +1,100 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
+import { io, Socket } from "socket.io-client";
 import { Button } from "@/components/ui/button";
 import { Moon, Sun, Network, Bot, Settings } from "lucide-react";
 import CommandInterface from "./CommandInterface";
 import DevicePanel from "./DevicePanel";
 import ApiKeyManager from "./ApiKeyManager";
 
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || "http://localhost:5000";
+
 function Home() {
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [selectedDevice, setSelectedDevice] = useState(null);
+  const socketRef = useRef<Socket | null>(null);
+  const generationRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const socket = io(BACKEND_URL);
+    socketRef.current = socket;
+    return () => {
+      socket.disconnect();
+    };
+  }, []);
 
   const toggleTheme = () => {
     setIsDarkMode(!isDarkMode);
     document.documentElement.classList.toggle("dark");
   };
 
-  const handleCommandSubmit = async (command: string, provider: string) => {
-    console.log("Command submitted:", { command, provider, selectedDevice });
-    // Here you would integrate with your Python backend
+  // Streams the configuration from the backend as the model writes it.
+  // Without a backend connection, CommandInterface shows its demo config.
+  const handleCommandSubmit = (
+    command: string,
+    provider: string,
+    onChunk: (text: string) => void,
+  ) =>
+    new Promise<string | void>((resolve, reject) => {
+      const socket = socketRef.current;
+      if (!socket?.connected) return resolve();
+
+      // This page runs one generation at a time, so the next one started is ours
+      let generationId: string | null = null;
+      const ours = (data: { generation_id: string }) =>
+        data.generation_id === generationId;
+      const onStarted = (data: { generation_id: string }) => {
+        if (generationId !== null) return;
+        generationId = data.generation_id;
+        generationRef.current = generationId;
+      };
+      const onChunkEvent = (data: { generation_id: string; text: string }) => {
+        if (ours(data)) onChunk(data.text);
+      };
+      const onGenerated = (data: {
+        generation_id: string;
+        configuration: string;
+      }) => {
+        if (!ours(data)) return;
+        finish();
+        resolve(data.configuration);
+      };
+      const onFailed = (data: { generation_id: string; error: string }) => {
+        if (!ours(data)) return;
+        finish();
+        reject(new Error(data.error));
+      };
+      // Rejecting keeps the text streamed before the stop
+      const onCancelled = (data: { generation_id: string }) => {
+        if (!ours(data)) return;
+        finish();
+        reject(new Error("Generation cancelled"));
+      };
+      const finish = () => {
+        generationRef.current = null;
+        socket.off("config_generation_started", onStarted);
+        socket.off("config_generation_chunk", onChunkEvent);
+        socket.off("config_generated", onGenerated);
+        socket.off("config_generation_failed", onFailed);
+        socket.off("config_generation_cancelled", onCancelled);
+      };
+
+      socket.on("config_generation_started", onStarted);
+      socket.on("config_generation_chunk", onChunkEvent);
+      socket.on("config_generated", onGenerated);
+      socket.on("config_generation_failed", onFailed);
+      socket.on("config_generation_cancelled", onCancelled);
+      socket.emit("generate_config", {
+        command,
+        provider,
+        device_id: selectedDevice?.id,
+      });
+    });
+
+  const handleGenerationCancel = () => {
+    socketRef.current?.emit(
+      "cancel_generation",
+      generationRef.current ? { generation_id: generationRef.current } : {},
+    );
   };
 
   const handleConfigApprove = async (config: string) => {
@@ -104,6 +182,7 @@ function Home() {
           <div className="h-full p-4">
             <CommandInterface
               onSubmit={handleCommandSubmit}
+              onCancel={handleGenerationCancel}
               onApprove={handleConfigApprove}
               onReject={() => console.log("Configuration rejected")}
             />